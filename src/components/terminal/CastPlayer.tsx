@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Terminal as XTermType } from "@xterm/xterm";
+import { logError } from "@/lib/utils/dev-logger";
+import {
+  createPlayback,
+  formatDuration,
+  parseCast,
+  type Playback,
+} from "@/lib/terminal/recording";
+import { cn } from "@/lib/utils";
+import "@xterm/xterm/css/xterm.css";
+
+interface CastPlayerProps {
+  src?: string; // URL of an asciicast v2 (.cast) file
+  cast?: string; // Or the recording itself, e.g. a file saved by record
+  title?: string;
+  autoPlay?: boolean;
+  speed?: number;
+  idleLimit?: number; // Longest pause kept, in seconds
+  className?: string;
+}
+
+// Plays a terminal recording anywhere on the site, with play/pause and a
+// progress bar to seek with
+export function CastPlayer({
+  src,
+  cast,
+  title,
+  autoPlay = false,
+  speed = 1,
+  idleLimit,
+  className,
+}: CastPlayerProps) {
+  const screenRef = useRef<HTMLDivElement>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Re-rendered from the playback's state whenever it changes
+  const [, setRevision] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let term: XTermType | null = null;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        let text = cast;
+        if (text === undefined && src) {
+          const response = await fetch(src);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          text = await response.text();
+        }
+        const parsed = text === undefined ? null : parseCast(text);
+        if (cancelled) return;
+        if (!parsed) {
+          setError("Not an asciicast v2 recording");
+          setIsLoading(false);
+          return;
+        }
+
+        const { Terminal: XTerm } = await import("@xterm/xterm");
+        if (cancelled || !screenRef.current) return;
+
+        term = new XTerm({
+          theme: {
+            background: "#000000",
+            foreground: "#00f900",
+            cursor: "#00f900",
+            cursorAccent: "#000000",
+          },
+          fontFamily:
+            'JetBrains Mono, Inconsolata, Consolas, "Courier New", monospace',
+          fontSize: 14,
+          cols: parsed.header.width,
+          rows: parsed.header.height,
+          cursorBlink: false,
+          disableStdin: true,
+          scrollback: 0,
+        });
+        term.open(screenRef.current);
+
+        const screen = term;
+        playbackRef.current = createPlayback(parsed, {
+          write: (data) => screen.write(data),
+          reset: () => screen.reset(),
+          onChange: () => setRevision((revision) => revision + 1),
+          speed,
+          idleLimit,
+        });
+        setIsLoading(false);
+        if (autoPlay) playbackRef.current.play();
+      } catch (loadError) {
+        logError(loadError, "Cast Player");
+        if (!cancelled) {
+          setError("The recording could not be loaded");
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      playbackRef.current?.dispose();
+      playbackRef.current = null;
+      term?.dispose();
+    };
+  }, [src, cast, speed, idleLimit, autoPlay]);
+
+  const playback = playbackRef.current;
+  const duration = playback?.duration ?? 0;
+  const position = playback?.position ?? 0;
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!playback) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    playback.seek(((event.clientX - bounds.left) / bounds.width) * duration);
+  };
+
+  return (
+    <figure
+      className={cn(
+        "inline-flex flex-col overflow-hidden rounded-lg border border-green-500/40 bg-black font-mono text-sm text-green-400",
+        className,
+      )}
+    >
+      {title && (
+        <figcaption className="border-b border-green-500/40 px-3 py-1">
+          {title}
+        </figcaption>
+      )}
+      <div className="relative p-2">
+        <div ref={screenRef} />
+        {(isLoading || error) && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            {error || "Loading recording..."}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-3 border-t border-green-500/40 px-3 py-1">
+        <button
+          type="button"
+          onClick={() =>
+            playback?.playing ? playback.pause() : playback?.play()
+          }
+          disabled={!playback}
+          aria-label={playback?.playing ? "Pause" : "Play"}
+          className="w-6 hover:text-green-200 disabled:opacity-50"
+        >
+          {playback?.playing ? "❚❚" : "▶"}
+        </button>
+        <div
+          role="slider"
+          aria-label="Position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(position)}
+          tabIndex={0}
+          onClick={seek}
+          onKeyDown={(event) => {
+            if (event.key === "ArrowLeft") playback?.seek(position - 5);
+            if (event.key === "ArrowRight") playback?.seek(position + 5);
+          }}
+          className="h-2 flex-1 cursor-pointer rounded bg-green-900"
+        >
+          <div
+            className="h-full rounded bg-green-500"
+            style={{
+              width: `${duration ? (position / duration) * 100 : 0}%`,
+            }}
+          />
+        </div>
+        <span className="tabular-nums">
+          {formatDuration(position)} / {formatDuration(duration)}
+        </span>
+      </div>
+    </figure>
+  );
+}
@@ -2,63 +2,49 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { AnimatePresence } from "@/components/ui/animate-presence";
-import { executeCommand, getCompletions } from "@/lib/terminal/commands";
+import {
+  activePane,
+  addTab,
+  closeTab,
+  listPanes,
+  paneRects,
+  paneTitle,
+  selectTab,
+} from "@/lib/terminal/layout";
 import { useTerminal, MIN_SIZE } from "@/lib/terminal/terminal-context";
 import { useResizableWithHandles } from "@/lib/hooks/useResizableWithHandles";
 import { ResizeHandles } from "./ResizeHandles";
-import { terminalConfig } from "@/data/portfolio";
-import { useShouldReduceAnimations } from "@/lib/hooks/useSafari";
+import { TerminalPane } from "./TerminalPane";
 import { cn } from "@/lib/utils";
-import { logError } from "@/lib/utils/dev-logger";
 import "@xterm/xterm/css/xterm.css";
 
-// Type imports for TypeScript
-import type { Terminal as XTermType } from "@xterm/xterm";
-import type { FitAddon as FitAddonType } from "@xterm/addon-fit";
-
 interface TerminalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
 export function Terminal({ isOpen, onClose }: TerminalProps) {
-  const shouldReduceAnimations = useShouldReduceAnimations();
-  const terminalRef = useRef<HTMLDivElement>(null);
   const [headerElement, setHeaderElement] = useState<HTMLDivElement | null>(
     null,
   );
   const containerRef = useRef<HTMLDivElement>(null);
-  const xtermRef = useRef<XTermType | null>(null);
-  const fitAddonRef = useRef<FitAddonType | null>(null);
-  const [hasInitialized, setHasInitialized] = useState(false);
-
   // Callback ref for header to ensure immediate attachment
   const headerRef = useCallback((node: HTMLDivElement | null) => {
     if (node) {
       setHeaderElement(node);
     }
   }, []);
-  const [currentDirectory, setCurrentDirectory] = useState("/");
-  const currentDirectoryRef = useRef("/");
-  const commandHistoryRef = useRef<string[]>([]);
-  const historyIndexRef = useRef(-1);
-  const inputBufferRef = useRef("");
-  const cursorPosRef = useRef(0);
-  const isCommandRunningRef = useRef(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const isMountedRef = useRef(true);
   const [isTerminalReady, setIsTerminalReady] = useState(false);
-  const currentCommandAbortControllerRef = useRef<AbortController | null>(null);
 
   // Terminal state from context
   const {
     windowState,
     position,
     size,
-    currentUser,
+    layout,
+    updateLayout,
     setPosition,
     setSize,
-    setCurrentUser,
     minimize,
     maximize,
     restore,
@@ -66,23 +52,6 @@ export function Terminal({ isOpen, onClose }: TerminalProps) {
     setIsDragging,
   } = useTerminal();
 
-  // Keep a ref to the current user to always have the latest value
-  const currentUserRef = useRef(currentUser);
-  useEffect(() => {
-    currentUserRef.current = currentUser;
-  }, [currentUser]);
-
-  // Keep directory ref in sync with state
-  useEffect(() => {
-    currentDirectoryRef.current = currentDirectory;
-  }, [currentDirectory]);
-
-  // Stable directory setter callback
-  const stableSetCurrentDirectory = useCallback((path: string) => {
-    setCurrentDirectory(path);
-    currentDirectoryRef.current = path;
-  }, []);
-
   // State for visual feedback
   const [isResizing, setIsResizing] = useState(false);
 
@@ -190,1045 +159,14 @@ export function Terminal({ isOpen, onClose }: TerminalProps) {
     onResizeEnd: () => setIsResizing(false),
   });
 
+  // The window fades in once its first pane is ready
   useEffect(() => {
-    isMountedRef.current = true;
-    return () => {
-      isMountedRef.current = false;
-    };
-  }, []);
-
-  // Reset state when terminal closes
-  useEffect(() => {
-    if (!isOpen) {
-      // Clean up when terminal closes
-      setHasInitialized(false);
-      setIsLoading(true);
-      setIsTerminalReady(false);
-
-      // Dispose of xterm if it exists
-      if (xtermRef.current) {
-        xtermRef.current.dispose();
-        xtermRef.current = null;
-        fitAddonRef.current = null;
-      }
-    }
+    if (!isOpen) setIsTerminalReady(false);
   }, [isOpen]);
+  const handlePaneReady = useCallback(() => setIsTerminalReady(true), []);
 
-  useEffect(() => {
-    if (!isOpen || hasInitialized) return;
-
-    // Dynamically import xterm and its dependencies
-    const loadTerminal = async () => {
-      try {
-        setIsLoading(true);
-
-        // Dynamic imports
-        const [{ Terminal: XTerm }, { FitAddon }, { WebLinksAddon }] =
-          await Promise.all([
-            import("@xterm/xterm"),
-            import("@xterm/addon-fit"),
-            import("@xterm/addon-web-links"),
-          ]);
-
-        // CSS will be imported via the Terminal component's lazy loading
-
-        // Check if container is available
-        if (!terminalRef.current) {
-          logError("Terminal container not available", "Terminal");
-          setIsLoading(false);
-          return;
-        }
-
-        // Initialize xterm
-        const term = new XTerm({
-          theme: {
-            background: "#000000",
-            foreground: "#00f900",
-            cursor: "#00f900",
-            cursorAccent: "#000000",
-            selectionBackground: "#00f900",
-            selectionForeground: "#000000",
-          },
-          fontFamily:
-            'JetBrains Mono, Inconsolata, Consolas, "Courier New", monospace',
-          fontSize: 14,
-          cursorBlink: true,
-          cursorStyle: "block",
-          allowTransparency: false,
-          scrollback: 1000,
-          windowsMode: false,
-          cols: 80,
-          rows: 24,
-          convertEol: true,
-        });
-
-        // Add addons
-        const fitAddon = new FitAddon();
-        const webLinksAddon = new WebLinksAddon();
-
-        term.loadAddon(fitAddon);
-        term.loadAddon(webLinksAddon);
-
-        term.open(terminalRef.current!);
-
-        // Fix autofill warning for xterm's helper elements
-        const fixAutofillWarning = () => {
-          // Check for both textarea and input elements without ID
-          const elements = terminalRef.current?.querySelectorAll(
-            "textarea:not([id]), input:not([id])",
-          );
-
-          elements?.forEach((element, index) => {
-            if (!element.getAttribute("id")) {
-              element.setAttribute("id", `xterm-helper-${index}`);
-              element.setAttribute("name", `xterm-input-${index}`);
-              element.setAttribute("autocomplete", "off");
-              element.setAttribute("aria-hidden", "true");
-            }
-          });
-        };
-
-        // Try immediately after open
-        fixAutofillWarning();
-
-        // Use MutationObserver to catch dynamically added elements
-        let observer: MutationObserver | null = null;
-        if (terminalRef.current) {
-          observer = new MutationObserver(() => {
-            fixAutofillWarning();
-          });
-
-          observer.observe(terminalRef.current, {
-            childList: true,
-            subtree: true,
-          });
-        }
-
-        // Also try after a delay as fallback
-        setTimeout(fixAutofillWarning, 500);
-
-        // Store refs
-        xtermRef.current = term;
-        fitAddonRef.current = fitAddon;
-
-        // Ensure proper fitting and focus after render
-        setTimeout(() => {
-          fitAddon.fit();
-          term.focus();
-        }, 50);
-
-        const writePrompt = () => {
-          const promptSymbol = currentUserRef.current === "guest" ? "%" : "$";
-          const prompt = `\x1b[32m${currentUserRef.current}@Claret.Tech\x1b[0m ${promptSymbol} `;
-          term.write(prompt);
-        };
-
-        // Helper functions for line wrapping
-
-        // Calculate the visual length of the prompt (without escape codes)
-        const getPromptLength = () => {
-          const promptSymbol = currentUserRef.current === "guest" ? "%" : "$";
-          return `${currentUserRef.current}@Claret.Tech ${promptSymbol} `
-            .length;
-        };
-
-        // Calculate how many lines the current input takes up
-        const getWrappedLineCount = (text: string, termCols: number) => {
-          if (!text) return 1;
-
-          const promptLen = getPromptLength();
-          const firstLineCapacity = termCols - promptLen;
-
-          if (text.length <= firstLineCapacity) {
-            return 1;
-          }
-
-          // Text spills into subsequent lines
-          const remainingChars = text.length - firstLineCapacity;
-          const additionalLines = Math.ceil(remainingChars / termCols);
-          return 1 + additionalLines;
-        };
-
-        // Convert buffer position to row/col position accounting for wrapping
-        const bufferPosToRowCol = (
-          bufferPos: number,
-          text: string,
-          termCols: number,
-        ) => {
-          const promptLen = getPromptLength();
-
-          // First line has less space due to prompt
-          const firstLineCapacity = termCols - promptLen;
-
-          if (bufferPos <= firstLineCapacity) {
-            // Position is on the first line
-            return { row: 0, col: promptLen + bufferPos };
-          }
-
-          // Position is on subsequent lines
-          const remainingPos = bufferPos - firstLineCapacity;
-          const additionalRows = Math.floor(remainingPos / termCols);
-          const col = remainingPos % termCols;
-
-          return { row: additionalRows + 1, col };
-        };
-
-        // Convert row/col position to buffer position
-        const rowColToBufferPos = (
-          row: number,
-          col: number,
-          termCols: number,
-        ) => {
-          const promptLen = getPromptLength();
-
-          if (row === 0) {
-            // First line - account for prompt
-            return Math.max(0, col - promptLen);
-          }
-
-          // Subsequent lines
-          const firstLineCapacity = termCols - promptLen;
-          const subsequentChars = (row - 1) * termCols + col;
-          return firstLineCapacity + subsequentChars;
-        };
-
-        // Properly wrap input text for display, accounting for prompt length
-        const wrapInputText = (text: string, termCols: number) => {
-          if (!text) return [""];
-
-          const promptLen = getPromptLength();
-          const lines: string[] = [];
-          let currentLine = "";
-          let availableWidth = termCols - promptLen; // First line has less space due to prompt
-
-          for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            if (currentLine.length >= availableWidth) {
-              // Need to wrap to next line
-              lines.push(currentLine);
-              currentLine = char;
-              availableWidth = termCols; // Subsequent lines use full width
-            } else {
-              currentLine += char;
-            }
-          }
-
-          // Add the last line if there's content
-          if (currentLine.length > 0 || lines.length === 0) {
-            lines.push(currentLine);
-          }
-
-          return lines;
-        };
-
-        // Write wrapped input text with proper line breaks
-        const writeWrappedInput = (term: XTermType, text: string) => {
-          if (!text) return;
-
-          const wrappedLines = wrapInputText(text, term.cols);
-
-          for (let i = 0; i < wrappedLines.length; i++) {
-            if (i === 0) {
-              // First line - just write the text (prompt already written)
-              term.write(wrappedLines[i]);
-            } else {
-              // Subsequent lines - move to next line and write
-              term.write("\r\n" + wrappedLines[i]);
-            }
-          }
-        };
-
-        // Clear all input content from current position
-        const clearWrappedInput = (term: XTermType, text: string) => {
-          if (!text) return;
-
-          // Calculate where our input starts (beginning of prompt line)
-          const currentPos = bufferPosToRowCol(
-            cursorPosRef.current,
-            text,
-            term.cols,
-          );
-
-          // Move cursor to the beginning of the prompt line where our input started
-          if (currentPos.row > 0) {
-            term.write(`\x1b[${currentPos.row}A`); // Move up to first line of input
-          }
-          term.write("\r"); // Move to beginning of line
-
-          // Clear from current position to end of screen
-          // This clears all wrapped content without affecting previous terminal output
-          term.write("\x1b[0J"); // Clear from cursor to end of screen
-        };
-
-        // Write welcome message
-        if (terminalConfig.welcomeMessages) {
-          terminalConfig.welcomeMessages.forEach((message) => {
-            term.writeln(message);
-          });
-        }
-        term.writeln("");
-        writePrompt();
-
-        // Handle window resize with proper debouncing and state preservation
-        let resizeTimeoutRef: NodeJS.Timeout | null = null;
-        let isResizingRef = false;
-        // CRITICAL: We maintain a permanent copy of input that's never truncated
-        let permanentInputBackup = "";
-        let permanentCursorBackup = 0;
-
-        // Update permanent backup whenever input changes
-        const updatePermanentBackup = () => {
-          if (!isCommandRunningRef.current) {
-            permanentInputBackup = inputBufferRef.current;
-            permanentCursorBackup = cursorPosRef.current;
-          }
-        };
-
-        const handleResize = () => {
-          // Clear any pending resize operations
-          if (resizeTimeoutRef) {
-            clearTimeout(resizeTimeoutRef);
-          }
-
-          // Use the permanent backup which is never truncated by xterm
-          if (permanentInputBackup && !isCommandRunningRef.current) {
-            isResizingRef = true;
-          }
-
-          // Fit the terminal immediately for responsive feel
-          fitAddon.fit();
-
-          // Debounce the input restoration to prevent flickering during resize
-          resizeTimeoutRef = setTimeout(() => {
-            if (xtermRef.current && isResizingRef && permanentInputBackup) {
-              const term = xtermRef.current;
-
-              // Restore from permanent backup which was never truncated
-              inputBufferRef.current = permanentInputBackup;
-              cursorPosRef.current = permanentCursorBackup;
-
-              // Clear current display and re-render with new line wrapping
-              const currentPos = bufferPosToRowCol(
-                permanentCursorBackup,
-                permanentInputBackup,
-                term.cols,
-              );
-
-              // Move to start of input area
-              if (currentPos.row > 0) {
-                term.write(`\x1b[${currentPos.row}A`);
-              }
-              term.write("\r");
-
-              // Clear the entire input area
-              term.write("\x1b[0J");
-
-              // Re-write with new terminal width using proper wrapping
-              writePrompt();
-              writeWrappedInput(term, permanentInputBackup);
-
-              // Restore cursor position
-              const offsetFromEnd =
-                permanentInputBackup.length - permanentCursorBackup;
-              if (offsetFromEnd > 0) {
-                const targetPos = bufferPosToRowCol(
-                  permanentCursorBackup,
-                  permanentInputBackup,
-                  term.cols,
-                );
-                const endPos = bufferPosToRowCol(
-                  permanentInputBackup.length,
-                  permanentInputBackup,
-                  term.cols,
-                );
-
-                if (endPos.row > targetPos.row) {
-                  term.write(`\x1b[${endPos.row - targetPos.row}A`);
-                }
-                if (endPos.col > targetPos.col) {
-                  term.write(`\x1b[${endPos.col - targetPos.col}D`);
-                } else if (endPos.col < targetPos.col) {
-                  term.write(`\x1b[${targetPos.col - endPos.col}C`);
-                }
-              }
-
-              // Cursor position already restored from permanent backup
-            }
-
-            // Reset resize state but keep permanent backup
-            isResizingRef = false;
-          }, 150); // Increased debounce delay for better stability
-        };
-        window.addEventListener("resize", handleResize);
-
-        // Handle keyboard input
-        const onData = term.onData((data) => {
-          const code = data.charCodeAt(0);
-
-          // Handle Ctrl+C - always allow cancellation
-          if (code === 3) {
-            if (isCommandRunningRef.current) {
-              // Cancel running command
-              if (currentCommandAbortControllerRef.current) {
-                currentCommandAbortControllerRef.current.abort();
-                term.write("^C\r\n");
-                term.writeln("Command cancelled by user");
-                term.writeln("");
-                writePrompt();
-                isCommandRunningRef.current = false;
-                currentCommandAbortControllerRef.current = null;
-                return;
-              }
-            } else {
-              // Cancel current input
-              inputBufferRef.current = "";
-              cursorPosRef.current = 0;
-              updatePermanentBackup();
-              historyIndexRef.current = commandHistoryRef.current.length;
-              term.write("^C\r\n");
-              writePrompt();
-              return;
-            }
-          }
-
-          // Don't process other input while a command is running
-          if (isCommandRunningRef.current) return;
-
-          // Handle special keys
-          if (code === 1) {
-            // Ctrl+A - Move cursor to beginning of line
-            if (cursorPosRef.current > 0) {
-              cursorPosRef.current = 0;
-              updatePermanentBackup();
-              // Calculate prompt length: "user@Claret.Tech $ " or "user@Claret.Tech % "
-              const promptSymbol =
-                currentUserRef.current === "guest" ? "%" : "$";
-              const promptText = `${currentUserRef.current}@Claret.Tech ${promptSymbol} `;
-              const promptLength = promptText.length;
-              // Move cursor to right after the prompt
-              term.write(`\r\x1b[${promptLength}C`);
-            }
-          } else if (code === 5) {
-            // Ctrl+E - Move cursor to end of line
-            if (cursorPosRef.current < inputBufferRef.current.length) {
-              const moveRight =
-                inputBufferRef.current.length - cursorPosRef.current;
-              cursorPosRef.current = inputBufferRef.current.length;
-              updatePermanentBackup();
-              // Move cursor to the end
-              term.write(`\x1b[${moveRight}C`);
-            }
-          } else if (code === 13) {
-            // Enter
-            term.write("\r\n");
-            const command = inputBufferRef.current.trim();
-
-            if (command) {
-              commandHistoryRef.current.push(command);
-              historyIndexRef.current = commandHistoryRef.current.length;
-
-              // Execute command
-              isCommandRunningRef.current = true;
-
-              // Create abort controller for this command
-              const abortController = new AbortController();
-              currentCommandAbortControllerRef.current = abortController;
-
-              executeCommand(command, {
-                currentDirectory: currentDirectoryRef.current,
-                currentUser,
-                setCurrentDirectory: stableSetCurrentDirectory,
-                setCurrentUser,
-                addToHistory: (line: string) =>
-                  commandHistoryRef.current.push(line),
-                clearTerminal: () => term.clear(),
-                closeTerminal: () => onClose(),
-                terminalCols: term.cols,
-                terminalRows: term.rows,
-                writer: (text: string) => term.write(text),
-                abortController,
-              })
-                .then((result) => {
-                  // Only process result if command wasn't aborted
-                  if (!abortController.signal.aborted) {
-                    if (result.output) {
-                      term.writeln(result.output);
-                    }
-                    if (command === "clear") {
-                      // Write prompt immediately after clear
-                      writePrompt();
-                    } else if (command !== "exit") {
-                      term.writeln("");
-                      writePrompt();
-                    }
-                  }
-                  isCommandRunningRef.current = false;
-                  currentCommandAbortControllerRef.current = null;
-                })
-                .catch((error) => {
-                  // Handle command execution errors
-                  if (!abortController.signal.aborted) {
-                    term.writeln(`Command error: ${error.message}`);
-                    term.writeln("");
-                    writePrompt();
-                  }
-                  isCommandRunningRef.current = false;
-                  currentCommandAbortControllerRef.current = null;
-                });
-            } else {
-              writePrompt();
-            }
-
-            inputBufferRef.current = "";
-            cursorPosRef.current = 0;
-            updatePermanentBackup();
-          } else if (code === 127) {
-            // Backspace
-            if (cursorPosRef.current > 0) {
-              const oldText = inputBufferRef.current;
-              const oldLineCount = getWrappedLineCount(oldText, term.cols);
-
-              inputBufferRef.current =
-                inputBufferRef.current.slice(0, cursorPosRef.current - 1) +
-                inputBufferRef.current.slice(cursorPosRef.current);
-              cursorPosRef.current--;
-              updatePermanentBackup();
-
-              const newLineCount = getWrappedLineCount(
-                inputBufferRef.current,
-                term.cols,
-              );
-
-              // Check if we need full re-render (line count changed or multi-line text)
-              if (oldLineCount !== newLineCount || oldLineCount > 1) {
-                // Clear all wrapped lines and re-render
-                clearWrappedInput(term, oldText);
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-
-                // Position cursor correctly
-                const offsetFromEnd =
-                  inputBufferRef.current.length - cursorPosRef.current;
-                if (offsetFromEnd > 0) {
-                  const targetPos = bufferPosToRowCol(
-                    cursorPosRef.current,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-                  const endPos = bufferPosToRowCol(
-                    inputBufferRef.current.length,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-
-                  // Navigate to correct position
-                  if (endPos.row > targetPos.row) {
-                    term.write(`\x1b[${endPos.row - targetPos.row}A`);
-                  }
-                  if (endPos.col > targetPos.col) {
-                    term.write(`\x1b[${endPos.col - targetPos.col}D`);
-                  }
-                }
-              } else {
-                // Single line optimization - just re-render the line
-                term.write("\r" + " ".repeat(term.cols) + "\r");
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-
-                // Position cursor correctly
-                const offsetFromEnd =
-                  inputBufferRef.current.length - cursorPosRef.current;
-                if (offsetFromEnd > 0) {
-                  term.write(`\x1b[${offsetFromEnd}D`);
-                }
-              }
-            }
-          } else if (code === 9) {
-            // Tab - autocomplete
-            const completions = getCompletions(inputBufferRef.current, {
-              currentDirectory: currentDirectoryRef.current,
-              currentUser,
-              setCurrentDirectory: stableSetCurrentDirectory,
-              setCurrentUser,
-              addToHistory: (line: string) =>
-                commandHistoryRef.current.push(line),
-              clearTerminal: () => term.clear(),
-              closeTerminal: () => onClose(),
-              terminalCols: term.cols,
-              terminalRows: term.rows,
-            });
-            if (completions.length === 1) {
-              // For command completions (no space in input), replace entirely
-              if (!inputBufferRef.current.includes(" ")) {
-                inputBufferRef.current = completions[0];
-                updatePermanentBackup();
-              } else {
-                // For file/directory completions, preserve the command part
-                const parts = inputBufferRef.current.split(/\s+/);
-
-                // If the completion already includes path separators, use it as is
-                if (completions[0].includes("/")) {
-                  parts[parts.length - 1] = completions[0];
-                } else {
-                  // Otherwise, complete the partial filename
-                  parts[parts.length - 1] = completions[0];
-                }
-                inputBufferRef.current = parts.join(" ");
-                updatePermanentBackup();
-              }
-              cursorPosRef.current = inputBufferRef.current.length;
-
-              term.write("\r" + " ".repeat(term.cols) + "\r");
-              writePrompt();
-              writeWrappedInput(term, inputBufferRef.current);
-            } else if (completions.length > 1) {
-              term.writeln("");
-              term.writeln(completions.join("  "));
-              writePrompt();
-              writeWrappedInput(term, inputBufferRef.current);
-            }
-          } else if (data === "\x1b[A") {
-            // Up arrow - history if empty, otherwise navigate in wrapped text
-            if (inputBufferRef.current === "") {
-              // Navigate history when input is empty
-              if (historyIndexRef.current > 0) {
-                historyIndexRef.current--;
-                inputBufferRef.current =
-                  commandHistoryRef.current[historyIndexRef.current];
-                cursorPosRef.current = inputBufferRef.current.length;
-                updatePermanentBackup();
-
-                term.write("\r" + " ".repeat(term.cols) + "\r");
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-              }
-            } else {
-              // Navigate within wrapped text when there's input
-              const currentPos = bufferPosToRowCol(
-                cursorPosRef.current,
-                inputBufferRef.current,
-                term.cols,
-              );
-
-              if (currentPos.row > 0) {
-                // Move up one visual line in wrapped text
-                const newBufferPos = rowColToBufferPos(
-                  currentPos.row - 1,
-                  currentPos.col,
-                  term.cols,
-                );
-                const clampedPos = Math.min(
-                  newBufferPos,
-                  inputBufferRef.current.length,
-                );
-
-                if (clampedPos !== cursorPosRef.current) {
-                  cursorPosRef.current = clampedPos;
-                  updatePermanentBackup();
-                  term.write(`\x1b[A`); // Move up one line visually
-
-                  // Adjust horizontal position if needed
-                  const newPos = bufferPosToRowCol(
-                    cursorPosRef.current,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-                  if (newPos.col < currentPos.col) {
-                    const diff = currentPos.col - newPos.col;
-                    term.write(`\x1b[${diff}D`);
-                  }
-                }
-              } else {
-                // At top of text, move cursor to beginning of input (position 0)
-                if (cursorPosRef.current > 0) {
-                  // Calculate how far to move left to reach position 0
-                  const currentPos = bufferPosToRowCol(
-                    cursorPosRef.current,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-                  const targetPos = bufferPosToRowCol(
-                    0,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-
-                  // Move to the beginning of input (after prompt)
-                  cursorPosRef.current = 0;
-                  updatePermanentBackup();
-
-                  // Navigate to position 0 visually
-                  if (currentPos.row > targetPos.row) {
-                    term.write(`\x1b[${currentPos.row - targetPos.row}A`);
-                  }
-                  if (currentPos.col > targetPos.col) {
-                    term.write(`\x1b[${currentPos.col - targetPos.col}D`);
-                  }
-                }
-              }
-            }
-          } else if (data === "\x1b[B") {
-            // Down arrow - history if empty, otherwise navigate in wrapped text
-            if (inputBufferRef.current === "") {
-              // Navigate history when input is empty
-              if (
-                historyIndexRef.current <
-                commandHistoryRef.current.length - 1
-              ) {
-                historyIndexRef.current++;
-                inputBufferRef.current =
-                  commandHistoryRef.current[historyIndexRef.current];
-                cursorPosRef.current = inputBufferRef.current.length;
-                updatePermanentBackup();
-
-                term.write("\r" + " ".repeat(term.cols) + "\r");
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-              } else if (
-                historyIndexRef.current ===
-                  commandHistoryRef.current.length - 1 &&
-                commandHistoryRef.current.length > 0
-              ) {
-                // Only clear if we actually have history
-                historyIndexRef.current++;
-                inputBufferRef.current = "";
-                cursorPosRef.current = 0;
-                updatePermanentBackup();
-
-                term.write("\r" + " ".repeat(term.cols) + "\r");
-                writePrompt();
-              }
-              // If no history at all, do nothing
-            } else {
-              // Navigate within wrapped text when there's input
-              const currentPos = bufferPosToRowCol(
-                cursorPosRef.current,
-                inputBufferRef.current,
-                term.cols,
-              );
-              const maxPos = bufferPosToRowCol(
-                inputBufferRef.current.length,
-                inputBufferRef.current,
-                term.cols,
-              );
-
-              if (currentPos.row < maxPos.row) {
-                // Move down one visual line in wrapped text
-                const newBufferPos = rowColToBufferPos(
-                  currentPos.row + 1,
-                  currentPos.col,
-                  term.cols,
-                );
-                const clampedPos = Math.min(
-                  newBufferPos,
-                  inputBufferRef.current.length,
-                );
-
-                if (clampedPos !== cursorPosRef.current) {
-                  cursorPosRef.current = clampedPos;
-                  updatePermanentBackup();
-                  term.write(`\x1b[B`); // Move down one line visually
-
-                  // Adjust horizontal position if at end of text
-                  const newPos = bufferPosToRowCol(
-                    cursorPosRef.current,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-                  if (newPos.col > currentPos.col) {
-                    const diff = newPos.col - currentPos.col;
-                    term.write(`\x1b[${diff}C`);
-                  } else if (newPos.col < currentPos.col) {
-                    const diff = currentPos.col - newPos.col;
-                    term.write(`\x1b[${diff}D`);
-                  }
-                }
-              } else if (
-                historyIndexRef.current <
-                commandHistoryRef.current.length - 1
-              ) {
-                // At bottom of text, allow history navigation if user wants to replace
-                historyIndexRef.current++;
-                const oldText = inputBufferRef.current;
-                inputBufferRef.current =
-                  commandHistoryRef.current[historyIndexRef.current];
-                cursorPosRef.current = inputBufferRef.current.length;
-                updatePermanentBackup();
-
-                clearWrappedInput(term, oldText);
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-              } else if (
-                historyIndexRef.current ===
-                  commandHistoryRef.current.length - 1 &&
-                commandHistoryRef.current.length > 0
-              ) {
-                // Return to empty input
-                historyIndexRef.current++;
-                const oldText = inputBufferRef.current;
-                inputBufferRef.current = "";
-                cursorPosRef.current = 0;
-                updatePermanentBackup();
-
-                clearWrappedInput(term, oldText);
-                writePrompt();
-              }
-            }
-          } else if (data === "\x1b[D") {
-            // Left arrow
-            if (cursorPosRef.current > 0) {
-              cursorPosRef.current--;
-              updatePermanentBackup();
-              term.write(data);
-            }
-          } else if (data === "\x1b[C") {
-            // Right arrow
-            if (cursorPosRef.current < inputBufferRef.current.length) {
-              cursorPosRef.current++;
-              updatePermanentBackup();
-              term.write(data);
-            }
-          } else if (code >= 32) {
-            // Printable characters
-            const oldLineCount = getWrappedLineCount(
-              inputBufferRef.current,
-              term.cols,
-            );
-            const oldText = inputBufferRef.current;
-
-            inputBufferRef.current =
-              inputBufferRef.current.slice(0, cursorPosRef.current) +
-              data +
-              inputBufferRef.current.slice(cursorPosRef.current);
-            updatePermanentBackup();
-
-            const newLineCount = getWrappedLineCount(
-              inputBufferRef.current,
-              term.cols,
-            );
-            const isAtEnd = cursorPosRef.current === oldText.length;
-            const isSingleChar = data.length === 1;
-
-            // Check if we need to re-render due to line wrapping changes
-            // Only clear/re-render when typing in the middle, not at the end
-            if (
-              !isAtEnd &&
-              (oldLineCount !== newLineCount ||
-                oldLineCount > 1 ||
-                newLineCount > 1)
-            ) {
-              // Typing in middle of wrapped text - need full re-render
-              clearWrappedInput(term, oldText);
-
-              // Rewrite prompt and all text
-              writePrompt();
-              writeWrappedInput(term, inputBufferRef.current);
-
-              // Update cursor position
-              cursorPosRef.current += data.length;
-              updatePermanentBackup();
-
-              // Move cursor to correct position if not at end
-              const offsetFromEnd =
-                inputBufferRef.current.length - cursorPosRef.current;
-              if (offsetFromEnd > 0) {
-                // Calculate position in wrapped text
-                const targetPos = bufferPosToRowCol(
-                  cursorPosRef.current,
-                  inputBufferRef.current,
-                  term.cols,
-                );
-                const endPos = bufferPosToRowCol(
-                  inputBufferRef.current.length,
-                  inputBufferRef.current,
-                  term.cols,
-                );
-
-                // Move up if needed
-                if (endPos.row > targetPos.row) {
-                  term.write(`\x1b[${endPos.row - targetPos.row}A`);
-                }
-
-                // Move horizontally
-                if (endPos.col > targetPos.col) {
-                  term.write(`\x1b[${endPos.col - targetPos.col}D`);
-                } else if (endPos.col < targetPos.col) {
-                  term.write(`\x1b[${targetPos.col - endPos.col}C`);
-                }
-              }
-            } else if (isAtEnd && isSingleChar) {
-              // Check if we need to wrap when typing at the end
-              const currentPos = bufferPosToRowCol(
-                cursorPosRef.current,
-                inputBufferRef.current,
-                term.cols,
-              );
-
-              // Check if adding this character would exceed the line width
-              const promptLen = getPromptLength();
-              const isFirstLine = currentPos.row === 0;
-              const currentLineWidth = isFirstLine
-                ? term.cols - promptLen
-                : term.cols;
-              const currentColPos = isFirstLine
-                ? currentPos.col - promptLen
-                : currentPos.col;
-
-              if (currentColPos >= currentLineWidth) {
-                // Need to wrap - reflow all text to handle multi-line properly
-                clearWrappedInput(term, oldText);
-
-                cursorPosRef.current++;
-                updatePermanentBackup();
-
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-              } else {
-                // No wrap needed, just write the character
-                term.write(data);
-                cursorPosRef.current++;
-                updatePermanentBackup();
-              }
-            } else if (isSingleChar && oldLineCount === 1) {
-              // Typing in the middle of single line - optimized update
-              const remainingText = inputBufferRef.current.slice(
-                cursorPosRef.current + 1,
-              );
-
-              // Hide cursor to prevent flashing
-              term.write("\x1b[?25l");
-
-              // Write new character and shift remaining text
-              term.write(data + remainingText);
-              cursorPosRef.current++;
-              updatePermanentBackup();
-
-              // Move cursor back to correct position
-              if (remainingText.length > 0) {
-                term.write(`\x1b[${remainingText.length}D`);
-              }
-
-              // Show cursor again
-              term.write("\x1b[?25h");
-            } else {
-              // Multi-character input (paste)
-              if (isAtEnd) {
-                // Pasting at end - need full re-render to handle wrapping
-                clearWrappedInput(term, oldText);
-
-                cursorPosRef.current += data.length;
-                updatePermanentBackup();
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-              } else {
-                // Pasting in middle - need full re-render
-                clearWrappedInput(term, oldText);
-
-                cursorPosRef.current += data.length;
-                updatePermanentBackup();
-                writePrompt();
-                writeWrappedInput(term, inputBufferRef.current);
-
-                // Position cursor correctly
-                const offsetFromEnd =
-                  inputBufferRef.current.length - cursorPosRef.current;
-                if (offsetFromEnd > 0) {
-                  const targetPos = bufferPosToRowCol(
-                    cursorPosRef.current,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-                  const endPos = bufferPosToRowCol(
-                    inputBufferRef.current.length,
-                    inputBufferRef.current,
-                    term.cols,
-                  );
-
-                  if (endPos.row > targetPos.row) {
-                    term.write(`\x1b[${endPos.row - targetPos.row}A`);
-                  }
-                  if (endPos.col > targetPos.col) {
-                    term.write(`\x1b[${endPos.col - targetPos.col}D`);
-                  } else if (endPos.col < targetPos.col) {
-                    term.write(`\x1b[${targetPos.col - endPos.col}C`);
-                  }
-                }
-              }
-            }
-          }
-        });
-
-        if (isMountedRef.current) {
-          setIsLoading(false);
-          setIsTerminalReady(true);
-          setHasInitialized(true);
-        }
-
-        // Cleanup
-        return () => {
-          window.removeEventListener("resize", handleResize);
-          observer?.disconnect();
-          onData.dispose();
-          term.dispose();
-          xtermRef.current = null;
-          fitAddonRef.current = null;
-        };
-      } catch (error) {
-        logError(error, "Terminal Load");
-        if (isMountedRef.current) {
-          setIsLoading(false);
-        }
-      }
-    };
-
-    // Wait for DOM to be ready with retry mechanism
-    let retryCount = 0;
-    const maxRetries = 10;
-
-    const tryLoadTerminal = () => {
-      if (terminalRef.current && !hasInitialized) {
-        loadTerminal();
-      } else if (retryCount < maxRetries && !hasInitialized) {
-        retryCount++;
-        setTimeout(tryLoadTerminal, 200);
-      } else if (!hasInitialized) {
-        logError(
-          "Failed to load terminal after maximum retries",
-          "Terminal Retry",
-        );
-        setIsLoading(false);
-      }
-    };
-
-    const timer = setTimeout(tryLoadTerminal, 200);
-
-    return () => clearTimeout(timer);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isOpen, hasInitialized]); // currentDirectory, onClose, and stableSetCurrentDirectory are stable or intentionally excluded
-
-  // Handle loading state based on initialization
-  useEffect(() => {
-    if (isOpen && !hasInitialized) {
-      setIsLoading(true);
-    }
-  }, [isOpen, hasInitialized]);
-
-  // Additional effect for handling resize when terminal is already loaded
-  useEffect(() => {
-    if (!isOpen || !fitAddonRef.current || windowState === "minimized") return;
-
-    const handleResize = () => {
-      // Add a small delay to ensure dimensions are updated
-      setTimeout(() => {
-        fitAddonRef.current?.fit();
-      }, 50);
-    };
-
-    handleResize(); // Fit on mount
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, [isOpen, windowState, size]);
+  const focused = activePane(layout);
+  const currentDirectory = focused.cwd;
 
   // Handle window button clicks
   const handleMinimize = useCallback(() => {
@@ -1303,7 +241,7 @@ export function Terminal({ isOpen, onClose }: TerminalProps) {
 
           {/* Terminal Content Container */}
           <div
-            className={`bg-black rounded-lg shadow-2xl border overflow-hidden w-full h-full ${
+            className={`flex flex-col bg-black rounded-lg shadow-2xl border overflow-hidden w-full h-full ${
               windowState === "minimized" ? "resize-none" : ""
             } ${
               isDragging
@@ -1403,37 +341,106 @@ export function Terminal({ isOpen, onClose }: TerminalProps) {
               )}
             </div>
 
-            {/* Terminal Body - Hidden with CSS when minimized */}
+            {/* Tabs, shown once there is more than one */}
+            {layout.tabs.length > 1 && windowState !== "minimized" && (
+              <div
+                role="tablist"
+                aria-label="Terminal tabs"
+                className="flex items-stretch bg-gray-900 border-b border-green-500/30 font-mono text-xs overflow-x-auto"
+              >
+                {layout.tabs.map((tab, index) => {
+                  const panes = listPanes(tab.root);
+                  const pane =
+                    panes.find(({ id }) => id === tab.activePane) || panes[0];
+                  const selected = index === layout.activeTab;
+                  return (
+                    <div
+                      key={tab.id}
+                      className={cn(
+                        "flex items-center gap-2 px-3 py-1 border-r border-green-500/20",
+                        selected
+                          ? "bg-black text-green-400"
+                          : "text-green-500/60 hover:text-green-400",
+                      )}
+                    >
+                      <button
+                        role="tab"
+                        aria-selected={selected}
+                        onClick={() =>
+                          updateLayout((current) => selectTab(current, index))
+                        }
+                        className="max-w-[12rem] truncate focus:outline-none"
+                        title={paneTitle(pane)}
+                      >
+                        {index + 1}: {paneTitle(pane)}
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateLayout((current) => closeTab(current, index))
+                        }
+                        className="hover:text-red-400 focus:outline-none"
+                        aria-label={`Close tab ${index + 1}`}
+                        title="Close tab"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() =>
+                    updateLayout((current) =>
+                      addTab(current, focused.user, focused.cwd),
+                    )
+                  }
+                  className="px-3 text-green-500/60 hover:text-green-400 focus:outline-none"
+                  aria-label="New tab"
+                  title="New tab (Alt+T)"
+                >
+                  +
+                </button>
+              </div>
+            )}
+
+            {/* Terminal Body - Hidden with CSS when minimized. Every pane of
+                every tab stays mounted, so commands keep running in the
+                background; panes are keyed by id so splitting never
+                restarts a session */}
             <div
-              className="relative h-[calc(100%-44px)] pointer-events-auto"
+              className="relative flex-1 min-h-0 pointer-events-auto"
               style={{
                 display: windowState === "minimized" ? "none" : "block",
               }}
             >
-              {isLoading && (
-                <div className="absolute inset-0 flex items-center justify-center bg-black pointer-events-none z-10">
-                  <div
-                    className={cn(
-                      "text-green-500 font-mono",
-                      !shouldReduceAnimations && "animate-pulse",
-                    )}
-                  >
-                    Loading terminal...
-                  </div>
-                </div>
+              {layout.tabs.flatMap((tab, index) =>
+                paneRects(tab.root).map(
+                  ({ pane, left, top, width, height }) => (
+                    <div
+                      key={pane.id}
+                      className={cn(
+                        "absolute",
+                        left > 0 && "border-l border-green-500/30",
+                        top > 0 && "border-t border-green-500/30",
+                      )}
+                      style={{
+                        left: `${left * 100}%`,
+                        top: `${top * 100}%`,
+                        width: `${width * 100}%`,
+                        height: `${height * 100}%`,
+                        display: index === layout.activeTab ? "block" : "none",
+                      }}
+                    >
+                      <TerminalPane
+                        pane={pane}
+                        focused={
+                          index === layout.activeTab && pane.id === focused.id
+                        }
+                        onReady={handlePaneReady}
+                      />
+                    </div>
+                  ),
+                ),
               )}
-              <div
-                ref={terminalRef}
-                tabIndex={-1}
-                className="h-full w-full select-none bg-black px-2"
-                style={{
-                  minHeight: "100px",
-                  userSelect: "none",
-                  WebkitUserSelect: "none",
-                }}
-                aria-live="polite"
-                aria-label="Terminal output"
-              />
             </div>
           </div>
         </div>
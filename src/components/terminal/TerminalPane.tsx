@@ -0,0 +1,1076 @@
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import { executeCommand, type CommandFunction } from "@/lib/terminal/commands";
+import {
+  applyCompletion,
+  commonPrefix,
+  completeLine,
+  formatCandidates,
+  type Completion,
+} from "@/lib/terminal/completion";
+import { checkDeepLinkCommand, type DeepLink } from "@/lib/terminal/deep-links";
+import {
+  getFileAtPath,
+  mountUserFileSystem,
+  resolvePath,
+} from "@/lib/terminal/fileSystem";
+import {
+  addHistoryEntry,
+  expandHistory,
+  loadHistory,
+  saveHistory,
+  searchHistory,
+} from "@/lib/terminal/history";
+import {
+  addTab,
+  closePane,
+  cyclePane,
+  focusPane,
+  selectTab,
+  splitPane,
+  updatePane,
+  type PaneControl,
+  type PaneNode,
+  type TerminalLayout,
+} from "@/lib/terminal/layout";
+import { createJobTable, type JobTable } from "@/lib/terminal/jobs";
+import {
+  attachRecorder,
+  createRecorder,
+  type Recorder,
+  type RecordingControl,
+} from "@/lib/terminal/recording";
+import {
+  createLineEditor,
+  cursorPosition,
+  displayWidth,
+  redrawInput,
+  unicodeProvider,
+  verticalMove,
+} from "@/lib/terminal/line-editor";
+import {
+  formatPrompt,
+  loadTerminalSettings,
+  resolvePalette,
+  SETTINGS_CHANGE_EVENT,
+} from "@/lib/terminal/terminal-settings";
+import { uploadFile } from "@/lib/terminal/transfers";
+import { getHomePath } from "@/lib/terminal/users";
+import { stripAnsi } from "@/lib/terminal/ansi";
+import { useTerminal } from "@/lib/terminal/terminal-context";
+import { terminalConfig } from "@/data/portfolio";
+import { useTheme } from "@/components/ui/theme-provider";
+import { useShouldReduceAnimations } from "@/lib/hooks/useSafari";
+import { cn } from "@/lib/utils";
+import { logError } from "@/lib/utils/dev-logger";
+
+// Type imports for TypeScript
+import type { Terminal as XTermType } from "@xterm/xterm";
+import type { FitAddon as FitAddonType } from "@xterm/addon-fit";
+
+type LayoutChange = (layout: TerminalLayout) => TerminalLayout | null;
+
+// Pace of a command typed from a link: per key, and before Enter
+const TYPING_DELAY = 45;
+const TYPING_PAUSE = 400;
+
+// Alt shortcuts for tabs and panes, by KeyboardEvent.code so they work
+// whatever character Alt produces on the keyboard layout
+const SHORTCUTS: Record<string, (pane: PaneNode) => LayoutChange> = {
+  KeyT: (pane) => (layout) => addTab(layout, pane.user, pane.cwd),
+  KeyW: (pane) => (layout) => closePane(layout, pane.id),
+  Backslash: (pane) => (layout) => splitPane(layout, pane.id, "horizontal"),
+  Minus: (pane) => (layout) => splitPane(layout, pane.id, "vertical"),
+  BracketLeft: () => (layout) =>
+    selectTab(
+      layout,
+      (layout.activeTab + layout.tabs.length - 1) % layout.tabs.length,
+    ),
+  BracketRight: () => (layout) =>
+    selectTab(layout, (layout.activeTab + 1) % layout.tabs.length),
+  ArrowLeft: () => (layout) => cyclePane(layout, -1),
+  ArrowUp: () => (layout) => cyclePane(layout, -1),
+  ArrowRight: () => (layout) => cyclePane(layout, 1),
+  ArrowDown: () => (layout) => cyclePane(layout, 1),
+};
+
+interface TerminalPaneProps {
+  pane: PaneNode;
+  focused: boolean; // The focused pane of the visible tab
+  onReady: () => void;
+}
+
+// One session of the terminal window: an xterm with its own directory,
+// user, environment, history, input line and running command
+export function TerminalPane({ pane, focused, onReady }: TerminalPaneProps) {
+  const shouldReduceAnimations = useShouldReduceAnimations();
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const xtermRef = useRef<XTermType | null>(null);
+  const fitAddonRef = useRef<FitAddonType | null>(null);
+  const disposeRef = useRef<(() => void) | null>(null);
+
+  const currentDirectoryRef = useRef(pane.cwd);
+  const previousDirectoryRef = useRef<string | undefined>(undefined);
+  const envRef = useRef<Record<string, string>>({});
+  const aliasesRef = useRef<Record<string, string>>({});
+  const functionsRef = useRef<Record<string, CommandFunction>>({});
+  const commandHistoryRef = useRef<string[]>([]);
+  const historyIndexRef = useRef(-1);
+  // Ctrl+R state: the query, the matching history entry (-1 for none) and
+  // the input to restore when the search is cancelled
+  const reverseSearchRef = useRef<{
+    query: string;
+    index: number;
+    failed: boolean;
+    original: string;
+    rows: number;
+  } | null>(null);
+  // Tab cycling state: the candidates listed for a word of base, and the
+  // line and cursor the last cycle step left, to tell if Tab is repeated
+  const completionRef = useRef<{
+    base: string;
+    completion: Completion;
+    index: number;
+    line: string;
+    cursor: number;
+  } | null>(null);
+  const [editor] = useState(createLineEditor);
+  const isCommandRunningRef = useRef(false);
+  const [isLoading, setIsLoading] = useState(true);
+  // The command line in the foreground, and jobs started with & or
+  // stopped with Ctrl+Z
+  const jobsRef = useRef<JobTable | null>(null);
+  const keyReaderRef = useRef<((key: string) => void) | null>(null);
+  // Types and runs the command of a link, once xterm has loaded
+  const deepLinkRef = useRef<
+    ((link: DeepLink, typing: boolean) => void) | null
+  >(null);
+  // Shows a notice above the input, once xterm has loaded
+  const noticeRef = useRef<((notice: string) => void) | null>(null);
+  // Files are being dragged over the pane
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const { layout, updateLayout, deepLink, clearDeepLink } = useTerminal();
+  const paneId = pane.id;
+  const currentUser = pane.user;
+
+  // Commands read the layout when they run, so keep the latest one
+  const layoutRef = useRef(layout);
+  useEffect(() => {
+    layoutRef.current = layout;
+  }, [layout]);
+
+  // Keep a ref to the current user to always have the latest value
+  const currentUserRef = useRef(currentUser);
+  useEffect(() => {
+    currentUserRef.current = currentUser;
+  }, [currentUser]);
+
+  // Appearance settings of the pane's user, with the colors they pick
+  // for the site's light or dark and high contrast modes
+  const { theme: siteTheme } = useTheme();
+  const [settings, setSettings] = useState(() =>
+    loadTerminalSettings(currentUser),
+  );
+  const [highContrast, setHighContrast] = useState(false);
+  const palette = resolvePalette(settings.theme, {
+    dark: siteTheme === "dark",
+    highContrast,
+  });
+  const appearanceRef = useRef({ settings, palette });
+
+  useEffect(() => {
+    setSettings(loadTerminalSettings(currentUser));
+    const handleChange = (event: Event) => {
+      const { username } = (event as CustomEvent<{ username: string }>).detail;
+      if (username === currentUser) setSettings(loadTerminalSettings(username));
+    };
+    window.addEventListener(SETTINGS_CHANGE_EVENT, handleChange);
+    return () =>
+      window.removeEventListener(SETTINGS_CHANGE_EVENT, handleChange);
+  }, [currentUser]);
+
+  // The high contrast toggle only sets a class on the document
+  useEffect(() => {
+    const root = document.documentElement;
+    const update = () =>
+      setHighContrast(root.classList.contains("high-contrast"));
+    update();
+    const observer = new MutationObserver(update);
+    observer.observe(root, { attributes: true, attributeFilter: ["class"] });
+    return () => observer.disconnect();
+  }, []);
+
+  // Apply changes to the running terminal; a new font size or family
+  // changes how many rows and columns fit
+  useEffect(() => {
+    appearanceRef.current = { settings, palette };
+    const term = xtermRef.current;
+    if (!term) return;
+    term.options.theme = palette;
+    term.options.fontFamily = settings.fontFamily;
+    term.options.fontSize = settings.fontSize;
+    term.options.cursorStyle = settings.cursorStyle;
+    term.options.cursorBlink = settings.cursorBlink;
+    term.options.scrollback = settings.scrollback;
+    if (terminalRef.current?.offsetWidth) fitAddonRef.current?.fit();
+  }, [settings, palette, isLoading]);
+
+  // The user and directory are kept in the layout, so the pane resumes
+  // in them when the terminal is opened again
+  const setCurrentUser = useCallback(
+    (username: string) =>
+      updateLayout((current) =>
+        updatePane(current, paneId, { user: username }),
+      ),
+    [paneId, updateLayout],
+  );
+
+  const stableSetCurrentDirectory = useCallback(
+    (path: string) => {
+      previousDirectoryRef.current = currentDirectoryRef.current;
+      currentDirectoryRef.current = path;
+      updateLayout((current) => updatePane(current, paneId, { cwd: path }));
+    },
+    [paneId, updateLayout],
+  );
+
+  // exit closes the pane, and the window with the last one
+  const closeSession = useCallback(
+    () => updateLayout((current) => closePane(current, paneId)),
+    [paneId, updateLayout],
+  );
+
+  // The recording started by record start, until record stop
+  const recordingRef = useRef<{
+    path: string;
+    started: number;
+    recorder: Recorder;
+    detach: () => void;
+  } | null>(null);
+
+  const recordingControl = useCallback((): RecordingControl => {
+    const current = recordingRef.current;
+    return {
+      active: current && { path: current.path, started: current.started },
+      start: (path) => {
+        const term = xtermRef.current;
+        if (!term) return;
+        const recorder = createRecorder(term.cols, term.rows);
+        recordingRef.current = {
+          path,
+          started: Date.now(),
+          recorder,
+          detach: attachRecorder(term, recorder),
+        };
+      },
+      stop: () => {
+        const recording = recordingRef.current;
+        if (!recording) return null;
+        recording.detach();
+        recordingRef.current = null;
+        return {
+          cast: recording.recorder.finish(),
+          truncated: recording.recorder.truncated,
+        };
+      },
+    };
+  }, []);
+
+  const paneControl = useCallback(
+    (): PaneControl => ({
+      paneId,
+      layout: layoutRef.current,
+      update: updateLayout,
+    }),
+    [paneId, updateLayout],
+  );
+
+  // Panes of different users share one file system module, so the user's
+  // files are mounted before each command and completion of a pane
+  const mountFiles = () => mountUserFileSystem(currentUserRef.current);
+
+  // Each user gets their own saved files and history on top of the shared
+  // tree, and a fresh environment set up by their ~/.profile
+  useEffect(() => {
+    mountUserFileSystem(currentUser);
+    commandHistoryRef.current = loadHistory(currentUser);
+    historyIndexRef.current = commandHistoryRef.current.length;
+
+    envRef.current = {};
+    aliasesRef.current = {};
+    functionsRef.current = {};
+    executeCommand("source ~/.profile", {
+      currentDirectory: currentDirectoryRef.current,
+      currentUser,
+      setCurrentDirectory: stableSetCurrentDirectory,
+      setCurrentUser,
+      addToHistory: () => {},
+      history: commandHistoryRef.current,
+      clearTerminal: () => {},
+      closeTerminal: () => {},
+      env: envRef.current,
+      aliases: aliasesRef.current,
+      functions: functionsRef.current,
+    }).catch((error) => logError(error, "Terminal Profile"));
+  }, [currentUser, setCurrentUser, stableSetCurrentDirectory]);
+
+  // The focused pane of the visible tab takes the keyboard
+  useEffect(() => {
+    if (focused && !isLoading) xtermRef.current?.focus();
+  }, [focused, isLoading]);
+
+  // It also runs the command of a link to the terminal
+  useEffect(() => {
+    if (!deepLink || !focused || isLoading) return;
+    clearDeepLink();
+    deepLinkRef.current?.(deepLink, deepLink.typing && !shouldReduceAnimations);
+  }, [deepLink, focused, isLoading, clearDeepLink, shouldReduceAnimations]);
+
+  useEffect(() => {
+    // Set when the pane goes away before xterm has loaded
+    let cancelled = false;
+
+    // Dynamically import xterm and its dependencies
+    const loadTerminal = async () => {
+      try {
+        setIsLoading(true);
+
+        // Dynamic imports
+        const [{ Terminal: XTerm }, { FitAddon }, { WebLinksAddon }] =
+          await Promise.all([
+            import("@xterm/xterm"),
+            import("@xterm/addon-fit"),
+            import("@xterm/addon-web-links"),
+          ]);
+
+        // CSS will be imported via the Terminal component's lazy loading
+        if (cancelled) return;
+
+        // Check if container is available
+        if (!terminalRef.current) {
+          logError("Terminal container not available", "Terminal");
+          setIsLoading(false);
+          return;
+        }
+
+        // Initialize xterm
+        const { settings: initial, palette: colors } = appearanceRef.current;
+        const term = new XTerm({
+          theme: colors,
+          fontFamily: initial.fontFamily,
+          fontSize: initial.fontSize,
+          cursorBlink: initial.cursorBlink,
+          cursorStyle: initial.cursorStyle,
+          allowTransparency: false,
+          scrollback: initial.scrollback,
+          windowsMode: false,
+          cols: 80,
+          rows: 24,
+          convertEol: true,
+          allowProposedApi: true, // For term.unicode
+        });
+
+        // Add addons
+        const fitAddon = new FitAddon();
+        const webLinksAddon = new WebLinksAddon();
+
+        term.loadAddon(fitAddon);
+        term.loadAddon(webLinksAddon);
+
+        term.open(terminalRef.current!);
+
+        // Count character widths like the line editor does
+        term.unicode.register(unicodeProvider);
+        term.unicode.activeVersion = unicodeProvider.version;
+
+        // Fix autofill warning for xterm's helper elements
+        const fixAutofillWarning = () => {
+          // Check for both textarea and input elements without ID
+          const elements = terminalRef.current?.querySelectorAll(
+            "textarea:not([id]), input:not([id])",
+          );
+
+          elements?.forEach((element, index) => {
+            if (!element.getAttribute("id")) {
+              element.setAttribute("id", `xterm-helper-${index}`);
+              element.setAttribute("name", `xterm-input-${index}`);
+              element.setAttribute("autocomplete", "off");
+              element.setAttribute("aria-hidden", "true");
+            }
+          });
+        };
+
+        // Try immediately after open
+        fixAutofillWarning();
+
+        // Use MutationObserver to catch dynamically added elements
+        let observer: MutationObserver | null = null;
+        if (terminalRef.current) {
+          observer = new MutationObserver(() => {
+            fixAutofillWarning();
+          });
+
+          observer.observe(terminalRef.current, {
+            childList: true,
+            subtree: true,
+          });
+        }
+
+        // Also try after a delay as fallback
+        setTimeout(fixAutofillWarning, 500);
+
+        // Store refs
+        xtermRef.current = term;
+        fitAddonRef.current = fitAddon;
+
+        // Ensure proper fitting after render; panes of hidden tabs are
+        // fitted when they are shown
+        setTimeout(() => {
+          if (terminalRef.current?.offsetWidth) fitAddon.fit();
+        }, 50);
+
+        // The prompt is expanded when it is written, so \t keeps the
+        // time it was shown at while the input is redrawn
+        let prompt = "";
+        const promptText = () => prompt;
+        const promptWidth = () => displayWidth(stripAnsi(promptText()));
+
+        // How many rows the cursor sits below the prompt. The line editor
+        // holds the input, so the screen can always be redrawn from it
+        let inputRows = 0;
+
+        // Redraw the prompt and input, with the cursor at the given offset
+        const renderInput = (cursor = editor.cursor) => {
+          const { output, rowsAbove } = redrawInput(
+            promptText(),
+            editor.line,
+            cursor,
+            term.cols,
+            inputRows,
+          );
+          inputRows = rowsAbove;
+          term.write(`\x1b[?25l${output}\x1b[?25h`);
+        };
+
+        // Notices of background jobs that ended while a command ran, or
+        // during a reverse search, shown before the next prompt
+        const notices: string[] = [];
+
+        // Start an empty input on a new prompt
+        const writePrompt = () => {
+          for (const notice of notices.splice(0)) term.writeln(notice);
+          editor.reset();
+          inputRows = 0;
+          prompt = formatPrompt(appearanceRef.current.settings.prompt, {
+            user: currentUserRef.current,
+            cwd: currentDirectoryRef.current,
+            home: getHomePath(currentUserRef.current) || undefined,
+          });
+          term.write(promptText());
+        };
+
+        // Write welcome message
+        if (terminalConfig.welcomeMessages) {
+          terminalConfig.welcomeMessages.forEach((message) => {
+            term.writeln(message);
+          });
+        }
+        term.writeln("");
+        writePrompt();
+
+        // Notices are shown above the input, which is then drawn again
+        // below them
+        const showNotice = (notice: string) => {
+          if (isCommandRunningRef.current || reverseSearchRef.current) {
+            notices.push(notice);
+            return;
+          }
+          const up = inputRows > 0 ? `\x1b[${inputRows}A` : "";
+          term.write(`${up}\r\x1b[J`);
+          term.writeln(notice);
+          inputRows = 0;
+          renderInput();
+        };
+
+        noticeRef.current = showNotice;
+
+        // A background job that ends is reported with a notice
+        const jobs = createJobTable(showNotice);
+        jobsRef.current = jobs;
+
+        // The line being typed when history browsing started
+        let draft = "";
+
+        // Up and Down move between the rows of a wrapped input, and past
+        // its first or last row through the history
+        const handleVertical = (step: 1 | -1) => {
+          const offset = verticalMove(
+            promptWidth(),
+            editor.line,
+            editor.cursor,
+            term.cols,
+            step,
+          );
+          if (offset !== null) {
+            editor.set(editor.line, offset);
+            renderInput();
+            return;
+          }
+
+          const history = commandHistoryRef.current;
+          const index = historyIndexRef.current + step;
+          if (index < 0 || index > history.length) return;
+          if (historyIndexRef.current === history.length) draft = editor.line;
+          historyIndexRef.current = index;
+          editor.set(index === history.length ? draft : history[index]);
+          renderInput();
+        };
+
+        // Tab completes the word at the cursor. A unique candidate is
+        // inserted; otherwise the common prefix is, and the candidates are
+        // listed. Pressing Tab again cycles through them, Shift+Tab backwards
+        const handleTab = (step: 1 | -1) => {
+          const cycle = completionRef.current;
+          if (
+            cycle &&
+            cycle.line === editor.line &&
+            cycle.cursor === editor.cursor
+          ) {
+            const { candidates } = cycle.completion;
+            cycle.index =
+              cycle.index === -1
+                ? step === 1
+                  ? 0
+                  : candidates.length - 1
+                : (cycle.index + step + candidates.length) % candidates.length;
+            const next = applyCompletion(
+              cycle.base,
+              cycle.completion,
+              candidates[cycle.index],
+            );
+            editor.set(next.line, next.cursor);
+            renderInput();
+            cycle.line = next.line;
+            cycle.cursor = next.cursor;
+            return;
+          }
+
+          const input = editor.line;
+          mountFiles();
+          const completion = completeLine(input, editor.cursor, {
+            currentDirectory: currentDirectoryRef.current,
+            currentUser: currentUserRef.current,
+            setCurrentDirectory: stableSetCurrentDirectory,
+            setCurrentUser,
+            addToHistory: (line: string) =>
+              addHistoryEntry(commandHistoryRef.current, line),
+            history: commandHistoryRef.current,
+            clearTerminal: () => term.clear(),
+            closeTerminal: closeSession,
+            terminalCols: term.cols,
+            terminalRows: term.rows,
+            env: envRef.current,
+            aliases: aliasesRef.current,
+            functions: functionsRef.current,
+            jobs: jobsRef.current || undefined,
+          });
+          const { candidates, word } = completion;
+
+          if (candidates.length === 1) {
+            const next = applyCompletion(
+              input,
+              completion,
+              candidates[0],
+              true,
+            );
+            editor.set(next.line, next.cursor);
+            renderInput();
+            return;
+          }
+          if (candidates.length === 0) return;
+
+          const prefix = commonPrefix(candidates);
+          const next =
+            prefix.length > word.length
+              ? applyCompletion(input, completion, prefix)
+              : { line: input, cursor: completion.end };
+
+          // List the candidates below the input, then start a new prompt
+          renderInput(input.length);
+          term.write("\r\n");
+          for (const row of formatCandidates(
+            candidates,
+            term.cols,
+            Math.max(1, term.rows - 2),
+          )) {
+            term.writeln(row);
+          }
+          inputRows = 0;
+          editor.set(next.line, next.cursor);
+          renderInput();
+
+          completionRef.current = {
+            base: next.line,
+            completion: {
+              ...completion,
+              end: completion.end + next.line.length - input.length,
+            },
+            index: -1,
+            line: next.line,
+            cursor: next.cursor,
+          };
+        };
+
+        // Reverse incremental search (Ctrl+R) replaces the prompt line with
+        // (reverse-i-search)`query': match
+        const renderReverseSearch = () => {
+          const search = reverseSearchRef.current!;
+          const match =
+            search.index === -1 ? "" : commandHistoryRef.current[search.index];
+          const line = `(${search.failed ? "failing " : ""}reverse-i-search)\`${search.query}': ${match}`;
+
+          if (search.rows > 0) term.write(`\x1b[${search.rows}A`);
+          term.write(`\r\x1b[0J${line}`);
+          search.rows = Math.max(
+            0,
+            Math.floor((displayWidth(line) - 1) / term.cols),
+          );
+        };
+
+        const startReverseSearch = () => {
+          if (inputRows > 0) term.write(`\x1b[${inputRows}A`);
+          term.write("\r\x1b[0J");
+          reverseSearchRef.current = {
+            query: "",
+            index: -1,
+            failed: false,
+            original: editor.line,
+            rows: 0,
+          };
+          renderReverseSearch();
+        };
+
+        // Leave the search with the given input on a fresh prompt
+        const finishReverseSearch = (input: string) => {
+          const search = reverseSearchRef.current!;
+          reverseSearchRef.current = null;
+
+          if (search.rows > 0) term.write(`\x1b[${search.rows}A`);
+          inputRows = 0;
+          editor.set(input);
+          renderInput();
+          historyIndexRef.current = commandHistoryRef.current.length;
+        };
+
+        // Returns false when the key should also be handled as usual, e.g.
+        // Enter runs the accepted match
+        const handleReverseSearchKey = (data: string): boolean => {
+          const search = reverseSearchRef.current!;
+          const history = commandHistoryRef.current;
+          const match = search.index === -1 ? "" : history[search.index];
+
+          const find = (before: number) => {
+            const index = searchHistory(history, search.query, before);
+            search.failed = index === -1;
+            if (index !== -1) search.index = index;
+          };
+
+          if (data === "\x12") {
+            // Ctrl+R again: next older match
+            if (search.query) {
+              find(search.index === -1 ? history.length : search.index);
+            }
+          } else if (data === "\x7f") {
+            search.query = search.query.slice(0, -1);
+            search.index = -1;
+            search.failed = false;
+            if (search.query) find(history.length);
+          } else if (data === "\x07") {
+            // Ctrl+G gives up and restores the original input
+            finishReverseSearch(search.original);
+            return true;
+          } else if (data === "\x03") {
+            finishReverseSearch(search.original);
+            return false;
+          } else if (data.charCodeAt(0) >= 32 && !data.startsWith("\x1b")) {
+            search.query += data;
+            find(search.index === -1 ? history.length : search.index + 1);
+          } else {
+            // Enter, arrows and other keys accept the match
+            finishReverseSearch(match);
+            return false;
+          }
+
+          renderReverseSearch();
+          return true;
+        };
+
+        // xterm reflows the wrapped input like any other line, so after a
+        // resize only the row of the cursor needs working out again
+        const handleResize = () => {
+          fitAddon.fit();
+          if (isCommandRunningRef.current || reverseSearchRef.current) return;
+
+          inputRows = cursorPosition(
+            editor.line.slice(0, editor.cursor),
+            term.cols,
+            promptWidth(),
+          ).row;
+          renderInput();
+        };
+
+        // Fit whenever the pane changes size: with the window, when panes
+        // are split or closed, and when its tab is shown. Hidden panes
+        // have no size and keep theirs
+        const resizeObserver = new ResizeObserver(() => {
+          if (terminalRef.current?.offsetWidth) handleResize();
+        });
+        resizeObserver.observe(terminalRef.current);
+
+        // Alt shortcuts for tabs and panes, and Alt+1 to 9 for the tabs
+        term.attachCustomKeyEventHandler((event) => {
+          if (event.type !== "keydown" || !event.altKey || event.ctrlKey) {
+            return true;
+          }
+          const tab = event.code.match(/^Digit([1-9])$/);
+          const shortcut = tab
+            ? () => (layout: TerminalLayout) =>
+                selectTab(layout, Number(tab[1]) - 1)
+            : SHORTCUTS[event.code];
+          if (!shortcut) return true;
+
+          event.preventDefault();
+          updateLayout(
+            shortcut({
+              type: "pane",
+              id: paneId,
+              user: currentUserRef.current,
+              cwd: currentDirectoryRef.current,
+            }),
+          );
+          return false;
+        });
+
+        // Handle keyboard input
+        const handleData = (data: string) => {
+          const code = data.charCodeAt(0);
+
+          // Keys read by commands, such as passwords, are left out
+          if (!keyReaderRef.current) {
+            recordingRef.current?.recorder.input(data);
+          }
+
+          // Interactive commands (like less) receive every key, including Ctrl+C
+          if (keyReaderRef.current) {
+            const deliverKey = keyReaderRef.current;
+            keyReaderRef.current = null;
+            deliverKey(data);
+            return;
+          }
+
+          // Ctrl+R starts a reverse search, which then sees every key
+          if (!isCommandRunningRef.current) {
+            if (reverseSearchRef.current) {
+              if (handleReverseSearchKey(data)) return;
+            } else if (code === 18) {
+              startReverseSearch();
+              return;
+            }
+          }
+
+          // Handle Ctrl+C - always allow cancellation
+          if (code === 3) {
+            if (isCommandRunningRef.current) {
+              // End the job in the foreground
+              term.write("^C\r\n");
+              jobs.kill();
+              return;
+            } else {
+              // Cancel current input
+              renderInput(editor.line.length);
+              historyIndexRef.current = commandHistoryRef.current.length;
+              term.write("^C\r\n");
+              writePrompt();
+              return;
+            }
+          }
+
+          // Ctrl+Z stops the job in the foreground
+          if (code === 26 && isCommandRunningRef.current) {
+            term.write("^Z\r\n");
+            jobs.stop();
+            return;
+          }
+
+          // Don't process other input while a command is running
+          if (isCommandRunningRef.current) return;
+
+          // Any other key ends Tab cycling, keeping the chosen candidate
+          if (code !== 9 && data !== "\x1b[Z") completionRef.current = null;
+
+          if (code === 13) {
+            // Enter
+            const input = editor.line;
+            renderInput(input.length);
+            term.write("\r\n");
+
+            // Expand !! and friends; the expanded line is echoed like bash
+            const expansion = expandHistory(
+              input.trim(),
+              commandHistoryRef.current,
+            );
+            const command = "error" in expansion ? "" : expansion.line;
+            if ("error" in expansion) {
+              term.writeln(expansion.error);
+            } else if (expansion.expanded) {
+              term.writeln(command);
+            }
+
+            if (command) {
+              addHistoryEntry(commandHistoryRef.current, command);
+              saveHistory(currentUserRef.current, commandHistoryRef.current);
+              historyIndexRef.current = commandHistoryRef.current.length;
+
+              // Execute command, as the job in the foreground
+              isCommandRunningRef.current = true;
+
+              jobs
+                .run(
+                  command,
+                  ({ writer, readKey, abortController }) => {
+                    mountFiles();
+                    return executeCommand(command, {
+                      currentDirectory: currentDirectoryRef.current,
+                      previousDirectory: previousDirectoryRef.current,
+                      currentUser: currentUserRef.current,
+                      setCurrentDirectory: stableSetCurrentDirectory,
+                      setCurrentUser,
+                      addToHistory: (line: string) =>
+                        addHistoryEntry(commandHistoryRef.current, line),
+                      history: commandHistoryRef.current,
+                      clearTerminal: () => term.clear(),
+                      closeTerminal: closeSession,
+                      terminalCols: term.cols,
+                      terminalRows: term.rows,
+                      writer,
+                      readKey,
+                      abortController,
+                      env: envRef.current,
+                      aliases: aliasesRef.current,
+                      functions: functionsRef.current,
+                      panes: paneControl(),
+                      recording: recordingControl(),
+                      jobs,
+                    });
+                  },
+                  {
+                    write: (text) => term.write(text),
+                    readKey: () =>
+                      new Promise<string>((resolve) => {
+                        keyReaderRef.current = resolve;
+                      }),
+                  },
+                )
+                .then((end) => {
+                  isCommandRunningRef.current = false;
+                  keyReaderRef.current = null;
+
+                  if (end.type === "killed") {
+                    term.writeln("Command cancelled by user");
+                  } else if (end.type === "stopped") {
+                    term.writeln(jobs.describe(end.job));
+                  } else {
+                    if (end.result.output) term.writeln(end.result.output);
+                    // The prompt follows clear at once, and exit closes
+                    if (command === "exit") return;
+                    if (command === "clear") {
+                      writePrompt();
+                      return;
+                    }
+                  }
+                  term.writeln("");
+                  writePrompt();
+                });
+            } else {
+              writePrompt();
+            }
+
+            editor.reset();
+          } else if (code === 9 || data === "\x1b[Z") {
+            // Tab, or Shift+Tab to cycle backwards
+            handleTab(code === 9 ? 1 : -1);
+          } else if (data === "\x1b[A" || data === "\x1b[B") {
+            handleVertical(data === "\x1b[A" ? -1 : 1);
+          } else if (code === 12) {
+            // Ctrl+L clears the screen, keeping the input
+            term.write("\x1b[H\x1b[2J");
+            inputRows = 0;
+            renderInput();
+          } else if (editor.handleKey(data)) {
+            renderInput();
+          }
+        };
+        const onData = term.onData(handleData);
+
+        // The command of a link is typed as if by hand, once the pane is
+        // free, so it can be seen before it runs. Only commands that show
+        // things are run; others are named in a notice
+        let typingTimer: ReturnType<typeof setTimeout> | undefined;
+        deepLinkRef.current = (link, typing) => {
+          clearTimeout(typingTimer);
+          if (isCommandRunningRef.current || reverseSearchRef.current) {
+            typingTimer = setTimeout(
+              () => deepLinkRef.current?.(link, typing),
+              TYPING_PAUSE,
+            );
+            return;
+          }
+
+          if (link.cwd && link.cwd !== currentDirectoryRef.current) {
+            mountFiles();
+            const cwd = resolvePath("/", link.cwd);
+            if (getFileAtPath(cwd)?.type === "directory") {
+              stableSetCurrentDirectory(cwd);
+              const up = inputRows > 0 ? `\x1b[${inputRows}A` : "";
+              term.write(`${up}\r\x1b[J`);
+              writePrompt();
+            } else {
+              showNotice(`link: ${link.cwd}: No such directory`);
+            }
+          }
+
+          const command = link.command;
+          if (!command) return;
+          const problem = checkDeepLinkCommand(command);
+          if (problem) {
+            showNotice(`link: ${problem}, so it was not run: ${command}`);
+            return;
+          }
+
+          editor.set("");
+          renderInput();
+          const keys = [...Array.from(command), "\r"];
+          if (!typing) {
+            keys.forEach(handleData);
+            return;
+          }
+          const typeKey = () => {
+            handleData(keys.shift()!);
+            if (keys.length === 0) return;
+            typingTimer = setTimeout(
+              typeKey,
+              keys.length === 1 ? TYPING_PAUSE : TYPING_DELAY,
+            );
+          };
+          typingTimer = setTimeout(typeKey, TYPING_PAUSE);
+        };
+
+        setIsLoading(false);
+        onReady();
+
+        disposeRef.current = () => {
+          clearTimeout(typingTimer);
+          deepLinkRef.current = null;
+          noticeRef.current = null;
+          resizeObserver.disconnect();
+          observer?.disconnect();
+          onData.dispose();
+          recordingRef.current?.detach();
+          recordingRef.current = null;
+          term.dispose();
+          xtermRef.current = null;
+          fitAddonRef.current = null;
+        };
+      } catch (error) {
+        logError(error, "Terminal Load");
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTerminal();
+
+    return () => {
+      cancelled = true;
+      // Closing the pane ends its running command and jobs
+      jobsRef.current?.dispose();
+      disposeRef.current?.();
+      disposeRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // The session lives as long as the pane
+
+  // Files dragged onto the pane are uploaded into its directory
+  const isFileDrag = (event: React.DragEvent) =>
+    event.dataTransfer.types.includes("Files");
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    setIsDropTarget(false);
+    if (!focused) updateLayout((current) => focusPane(current, paneId));
+
+    const directory = currentDirectoryRef.current;
+    for (const file of Array.from(event.dataTransfer.files)) {
+      const { output } = await uploadFile(file, {
+        directory,
+        user: currentUserRef.current,
+      });
+      noticeRef.current?.(output);
+    }
+  };
+
+  return (
+    <div
+      className="relative h-full w-full"
+      style={{ backgroundColor: palette.background }}
+      onMouseDown={() => {
+        if (!focused) updateLayout((current) => focusPane(current, paneId));
+      }}
+      onDragOver={(event) => {
+        if (!isFileDrag(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "copy";
+        setIsDropTarget(true);
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+          setIsDropTarget(false);
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      {isDropTarget && (
+        <div className="absolute inset-2 flex items-center justify-center rounded border-2 border-dashed border-green-500 bg-black/80 font-mono text-green-400 pointer-events-none z-20">
+          Drop files to upload them to {pane.cwd}
+        </div>
+      )}
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black pointer-events-none z-10">
+          <div
+            className={cn(
+              "text-green-500 font-mono",
+              !shouldReduceAnimations && "animate-pulse",
+            )}
+          >
+            Loading terminal...
+          </div>
+        </div>
+      )}
+      <div
+        ref={terminalRef}
+        tabIndex={-1}
+        className="h-full w-full select-none px-2"
+        style={{
+          backgroundColor: palette.background,
+          minHeight: "100px",
+          userSelect: "none",
+          WebkitUserSelect: "none",
+        }}
+        aria-live="polite"
+        aria-label="Terminal output"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { accountCommands } from "./account-commands";
+import { verifyPassword } from "./accounts";
+import { getFileAtPath } from "./fileSystem";
+import { deleteAccount, getUser, listUsernames } from "./users";
+import type { CommandContext, CommandResult } from "./commands";
+
+const context = (fields: Partial<CommandContext> = {}): CommandContext => ({
+  currentDirectory: "/docs",
+  currentUser: "guest",
+  setCurrentDirectory: vi.fn(),
+  setCurrentUser: vi.fn(),
+  addToHistory: vi.fn(),
+  clearTerminal: vi.fn(),
+  closeTerminal: vi.fn(),
+  ...fields,
+});
+
+// An interactive session answering prompts with the given lines
+const typing = (...lines: string[]): Partial<CommandContext> => {
+  const keys = lines.flatMap((line) => [line, "\r"]);
+  return {
+    writer: vi.fn(),
+    readKey: vi.fn(() => Promise.resolve(keys.shift() ?? "\x03")),
+  };
+};
+
+const run = async (name: string, args: string[], ctx = context()) =>
+  (await accountCommands[name](args, ctx)) as CommandResult;
+
+// Create alice with the password pw
+const addAlice = () => run("useradd", ["alice"], context(typing("pw", "pw")));
+
+describe("Account Commands", () => {
+  beforeEach(() => {
+    const storage: Record<string, string> = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      (key) => storage[key] ?? null,
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      storage[key] = value;
+    });
+  });
+
+  afterEach(() => {
+    for (const username of listUsernames()) deleteAccount(username);
+  });
+
+  describe("useradd", () => {
+    it("creates an account with a home directory", async () => {
+      const result = await addAlice();
+
+      expect(result.output).toBe("Created user 'alice'.");
+      expect(getUser("alice")?.isAdmin).toBeUndefined();
+      expect(getFileAtPath("/home/alice/README.md")?.content).toContain(
+        "Welcome, alice!",
+      );
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        "terminal-users",
+        expect.stringContaining('"username":"alice"'),
+      );
+    });
+
+    it("creates keypair accounts with -k", async () => {
+      await run("useradd", ["-k", "bob"]);
+      expect(getUser("bob")?.publicKey).toMatch(/^[A-Za-z0-9+/=]+$/);
+    });
+
+    it("requires sudo for administrators", async () => {
+      expect((await run("useradd", ["-a", "eve"])).output).toContain(
+        "Permission denied",
+      );
+      await run(
+        "useradd",
+        ["-a", "eve"],
+        context({ privileged: true, ...typing("pw", "pw") }),
+      );
+      expect(getUser("eve")?.isAdmin).toBe(true);
+    });
+
+    it("asks twice for the password", async () => {
+      expect(
+        (await run("useradd", ["alice"], context(typing("one", "two")))).output,
+      ).toBe("useradd: passwords do not match");
+      expect((await run("useradd", ["alice"])).output).toBe(
+        "useradd: standard input is not a terminal",
+      );
+      expect(getUser("alice")).toBeNull();
+
+      await addAlice();
+      expect(await verifyPassword("pw", getUser("alice")!.passwordHash!)).toBe(
+        true,
+      );
+    });
+
+    it("rejects invalid and existing names", async () => {
+      expect((await run("useradd", ["Bad Name"])).output).toBe(
+        "useradd: invalid user name 'Bad Name'",
+      );
+      expect((await run("useradd", ["guest"])).output).toBe(
+        "useradd: user 'guest' already exists",
+      );
+      expect((await run("useradd", ["-x", "a"])).success).toBe(false);
+    });
+  });
+
+  describe("passwd", () => {
+    it("sets a hashed password after confirmation", async () => {
+      await addAlice();
+      const result = await run(
+        "passwd",
+        [],
+        context({
+          currentUser: "alice",
+          ...typing("pw", "s3cret", "s3cret"),
+        }),
+      );
+
+      expect(result.output).toBe("passwd: password updated successfully");
+      const hash = getUser("alice")!.passwordHash!;
+      expect(hash).not.toContain("s3cret");
+      expect(await verifyPassword("s3cret", hash)).toBe(true);
+    });
+
+    it("asks for the current password and a matching retype", async () => {
+      await addAlice();
+      const alice = { currentUser: "alice" };
+      await run(
+        "passwd",
+        [],
+        context({ ...alice, ...typing("pw", "one", "one") }),
+      );
+
+      expect(
+        (await run("passwd", [], context({ ...alice, ...typing("nope") })))
+          .output,
+      ).toBe("passwd: Authentication failure");
+      expect(
+        (
+          await run(
+            "passwd",
+            [],
+            context({ ...alice, ...typing("one", "two", "three") }),
+          )
+        ).output,
+      ).toBe("passwd: passwords do not match");
+    });
+
+    it("only changes other users' passwords through sudo", async () => {
+      await addAlice();
+      expect((await run("passwd", ["alice"], context())).output).toContain(
+        "may not view or modify",
+      );
+
+      const result = await run(
+        "passwd",
+        ["alice"],
+        context({ privileged: true, ...typing("pw", "pw") }),
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it("leaves built-in accounts alone", async () => {
+      expect((await run("passwd", [], context(typing()))).output).toContain(
+        "built-in user 'guest'",
+      );
+    });
+  });
+
+  describe("su", () => {
+    it("switches user after the password challenge", async () => {
+      await addAlice();
+      await run(
+        "passwd",
+        ["alice"],
+        context({ privileged: true, ...typing("pw", "pw") }),
+      );
+
+      const denied = context(typing("wrong"));
+      expect((await run("su", ["alice"], denied)).output).toBe(
+        "su: Authentication failure",
+      );
+      expect(denied.setCurrentUser).not.toHaveBeenCalled();
+
+      const allowed = context(typing("pw"));
+      expect((await run("su", ["-", "alice"], allowed)).success).toBe(true);
+      expect(allowed.setCurrentUser).toHaveBeenCalledWith("alice");
+      expect(allowed.setCurrentDirectory).toHaveBeenCalledWith("/home/alice");
+    });
+
+    it("keeps the directory without -", async () => {
+      const ctx = context();
+      await run("su", ["guest"], ctx);
+      expect(ctx.setCurrentUser).toHaveBeenCalledWith("guest");
+      expect(ctx.setCurrentDirectory).not.toHaveBeenCalled();
+    });
+
+    it("reports unknown users", async () => {
+      expect((await run("su", ["nobody"])).output).toBe(
+        "su: user nobody does not exist",
+      );
+      expect((await run("su", [])).output).toBe("Usage: su [-] <username>");
+    });
+  });
+
+  describe("userdel", () => {
+    it("requires sudo and removes local accounts", async () => {
+      await addAlice();
+      expect((await run("userdel", ["alice"])).output).toBe(
+        "userdel: Permission denied.",
+      );
+
+      const privileged = context({ privileged: true });
+      expect((await run("userdel", ["alice"], privileged)).success).toBe(true);
+      expect(getUser("alice")).toBeNull();
+      expect(getFileAtPath("/home/alice")).toBeNull();
+      expect(localStorage.removeItem).toHaveBeenCalledWith("terminal-fs-alice");
+    });
+
+    it("keeps built-in and logged-in accounts", async () => {
+      const privileged = context({ privileged: true });
+      expect((await run("userdel", ["guest"], privileged)).output).toBe(
+        "userdel: user guest is currently logged in",
+      );
+
+      await addAlice();
+      expect(
+        (
+          await run(
+            "userdel",
+            ["guest"],
+            context({ privileged: true, currentUser: "alice" }),
+          )
+        ).output,
+      ).toBe("userdel: cannot remove built-in user 'guest'");
+    });
+  });
+
+  describe("mkpasswd", () => {
+    it("prints a hash of the typed password", async () => {
+      const result = await run("mkpasswd", [], context(typing("pw")));
+      expect(await verifyPassword("pw", result.output)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+// Local account management: useradd, userdel, passwd, su and mkpasswd
+import type {
+  CommandFunction,
+  CommandContext,
+  CommandResult,
+} from "./commands";
+import {
+  authenticate,
+  generateKeyPair,
+  hasCredentials,
+  hashPassword,
+  isOpenAccount,
+  readSecret,
+  removePrivateKey,
+} from "./accounts";
+import { removeUserFileSystem } from "./fileSystem";
+import {
+  deleteAccount,
+  getHomePath,
+  getUser,
+  isLocalAccount,
+  listUsernames,
+  saveAccount,
+  toAccount,
+} from "./users";
+import { completeFirst, completeWords, defineCommands } from "./registry";
+
+const USERNAME_PATTERN = /^[a-z_][a-z0-9_-]{0,31}$/;
+
+// Commands run through sudo by an administrator are privileged
+function isPrivileged(context: CommandContext): boolean {
+  return !!context.privileged || !!getUser(context.currentUser)?.isAdmin;
+}
+
+// Prompt twice for a new password; the error is returned as a result
+async function readNewPassword(
+  command: string,
+  context: CommandContext,
+): Promise<string | CommandResult> {
+  const password = await readSecret(context, "New password: ");
+  if (password === null) {
+    return {
+      output: `${command}: Authentication token manipulation error`,
+      success: false,
+    };
+  }
+  const retyped = await readSecret(context, "Retype new password: ");
+  if (retyped !== password) {
+    return { output: `${command}: passwords do not match`, success: false };
+  }
+  if (!password) {
+    return { output: `${command}: empty password`, success: false };
+  }
+  return password;
+}
+
+export const accountCommands: Record<string, CommandFunction> = {
+  useradd: async (args, context) => {
+    const flags = args.filter((arg) => arg.startsWith("-"));
+    const names = args.filter((arg) => !arg.startsWith("-"));
+    const unknown = flags.find((flag) => !["-a", "-k"].includes(flag));
+
+    if (unknown) {
+      return { output: `useradd: invalid option '${unknown}'`, success: false };
+    }
+    if (names.length !== 1) {
+      return { output: "Usage: useradd [-a] [-k] <username>", success: false };
+    }
+
+    const username = names[0];
+    const admin = flags.includes("-a");
+    if (!USERNAME_PATTERN.test(username)) {
+      return {
+        output: `useradd: invalid user name '${username}'`,
+        success: false,
+      };
+    }
+    if (getUser(username)) {
+      return {
+        output: `useradd: user '${username}' already exists`,
+        success: false,
+      };
+    }
+    if (admin && !context.privileged) {
+      return {
+        output:
+          "useradd: Permission denied. Use 'sudo useradd -a' to create administrators.",
+        success: false,
+      };
+    }
+
+    // Every account answers a challenge to log in: a keypair with -k,
+    // otherwise a password chosen now
+    const withKey = flags.includes("-k");
+    let passwordHash: string | undefined;
+    if (!withKey) {
+      if (!context.readKey || !context.writer) {
+        return {
+          output: "useradd: standard input is not a terminal",
+          success: false,
+        };
+      }
+      const password = await readNewPassword("useradd", context);
+      if (typeof password !== "string") return password;
+      passwordHash = await hashPassword(password);
+    }
+
+    const user = saveAccount({
+      username,
+      displayName: username,
+      ...(admin && { isAdmin: true }),
+      ...(passwordHash && { passwordHash }),
+    });
+    if (!user) {
+      return {
+        output: `useradd: cannot create user '${username}'`,
+        success: false,
+      };
+    }
+
+    if (withKey) {
+      const publicKey = await generateKeyPair(username);
+      saveAccount({ ...toAccount(user), publicKey });
+      return {
+        output: `Created ${admin ? "administrator" : "user"} '${username}' with a keypair stored in this browser.`,
+        success: true,
+      };
+    }
+
+    return {
+      output: `Created ${admin ? "administrator" : "user"} '${username}'.`,
+      success: true,
+    };
+  },
+
+  userdel: (args, context) => {
+    if (args.length !== 1) {
+      return { output: "Usage: userdel <username>", success: false };
+    }
+
+    const username = args[0];
+    if (!getUser(username)) {
+      return {
+        output: `userdel: user '${username}' does not exist`,
+        success: false,
+      };
+    }
+    if (!context.privileged) {
+      return { output: "userdel: Permission denied.", success: false };
+    }
+    if (username === context.currentUser) {
+      return {
+        output: `userdel: user ${username} is currently logged in`,
+        success: false,
+      };
+    }
+    if (!deleteAccount(username)) {
+      return {
+        output: `userdel: cannot remove built-in user '${username}'`,
+        success: false,
+      };
+    }
+
+    removeUserFileSystem(username);
+    removePrivateKey(username);
+    return { output: "", success: true };
+  },
+
+  passwd: async (args, context) => {
+    const username = args[0] || context.currentUser;
+    const user = getUser(username);
+
+    if (!user) {
+      return {
+        output: `passwd: user '${username}' does not exist`,
+        success: false,
+      };
+    }
+    if (username !== context.currentUser && !context.privileged) {
+      return {
+        output: `passwd: You may not view or modify password information for ${username}.`,
+        success: false,
+      };
+    }
+    if (!isLocalAccount(user.username)) {
+      return {
+        output: `passwd: cannot change the password of built-in user '${username}'`,
+        success: false,
+      };
+    }
+    if (!context.readKey || !context.writer) {
+      return {
+        output: "passwd: standard input is not a terminal",
+        success: false,
+      };
+    }
+
+    // Users changing their own password prove they know the current one
+    if (
+      !context.privileged &&
+      hasCredentials(user) &&
+      !(await authenticate(user, context, "Current password: "))
+    ) {
+      return { output: "passwd: Authentication failure", success: false };
+    }
+
+    const password = await readNewPassword("passwd", context);
+    if (typeof password !== "string") return password;
+
+    saveAccount({
+      ...toAccount(user),
+      passwordHash: await hashPassword(password),
+    });
+    return { output: "passwd: password updated successfully", success: true };
+  },
+
+  su: async (args, context) => {
+    const login = args[0] === "-" || args[0] === "-l";
+    const names = login ? args.slice(1) : args;
+
+    if (names.length !== 1) {
+      return { output: "Usage: su [-] <username>", success: false };
+    }
+
+    const user = getUser(names[0]);
+    if (!user) {
+      return { output: `su: user ${names[0]} does not exist`, success: false };
+    }
+
+    if (
+      !isPrivileged(context) &&
+      !isOpenAccount(user) &&
+      !(await authenticate(user, context))
+    ) {
+      return { output: "su: Authentication failure", success: false };
+    }
+
+    context.setCurrentUser(user.username);
+    if (login) {
+      context.setCurrentDirectory(getHomePath(user.username) || "/");
+    }
+    return { output: "", success: true };
+  },
+
+  mkpasswd: async (_args, context) => {
+    if (!context.readKey || !context.writer) {
+      return {
+        output: "mkpasswd: standard input is not a terminal",
+        success: false,
+      };
+    }
+    const password = await readSecret(context, "Password: ");
+    if (!password) {
+      return { output: "mkpasswd: empty password", success: false };
+    }
+    return { output: await hashPassword(password), success: true };
+  },
+};
+
+const completeUsernames = completeFirst(completeWords(listUsernames));
+
+export const accountCommandDefinitions = defineCommands(accountCommands, {
+  useradd: {
+    category: "posix",
+    summary: "create an account",
+    synopsis: ["useradd [-a] [-k] USERNAME"],
+    description: [
+      "Create a local account with its own home directory under",
+      "/home, asking twice for its password unless -k is given.",
+      "Accounts are saved in this browser.",
+    ],
+    options: [
+      {
+        flag: "-a",
+        description: "Make the account an administrator (requires sudo)",
+      },
+      {
+        flag: "-k",
+        description:
+          "Log in with a generated ECDSA keypair, kept in this browser",
+      },
+    ],
+    examples: [
+      "useradd alice           Create alice, asking for a password",
+      "useradd -k bob          Create bob with a keypair",
+    ],
+  },
+  userdel: {
+    category: "posix",
+    complete: completeUsernames,
+    summary: "delete an account",
+    synopsis: ["sudo userdel USERNAME"],
+    description: [
+      "Delete a local account together with its home directory and",
+      "keys. Built-in accounts cannot be deleted.",
+    ],
+  },
+  passwd: {
+    category: "posix",
+    complete: completeUsernames,
+    summary: "change a password",
+    synopsis: ["passwd [USERNAME]"],
+    description: [
+      "Set a new password for your account, or for USERNAME through",
+      "sudo. Passwords are hashed with PBKDF2 and only the hash is",
+      "stored in this browser.",
+    ],
+    examples: [
+      "passwd                  Change your password",
+      "sudo passwd alice       Reset alice's password",
+    ],
+  },
+  su: {
+    category: "posix",
+    complete: completeWords(listUsernames),
+    summary: "switch user",
+    synopsis: ["su [-] USERNAME"],
+    description: [
+      "Become USERNAME in the current directory, or in their home",
+      "directory with -. Administrators are not asked for the",
+      "target's credentials.",
+    ],
+    options: [{ flag: "-l", description: "Same as -" }],
+    examples: [
+      "su alice                Become alice",
+      "su - alice              Become alice and go home",
+    ],
+  },
+  mkpasswd: {
+    category: "posix",
+    summary: "hash a password",
+    synopsis: ["mkpasswd"],
+    description: [
+      "Read a password and print its salted PBKDF2 hash. Set",
+      "NEXT_PUBLIC_TERMINAL_ADMIN_PASSWORD_HASH to the hash to ship an",
+      "admin account with the site.",
+    ],
+  },
+});
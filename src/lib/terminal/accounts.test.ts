@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  authenticate,
+  authenticateSudo,
+  generateKeyPair,
+  hashPassword,
+  isOpenAccount,
+  proveKeyOwnership,
+  readSecret,
+  verifyPassword,
+} from "./accounts";
+import type { CommandContext } from "./commands";
+import { deleteAccount, getUser, saveAccount, type User } from "./users";
+
+const user = (fields: Partial<User> = {}): User => ({
+  username: "alice",
+  displayName: "alice",
+  homeDirectory: { type: "directory", name: "home", children: {} },
+  ...fields,
+});
+
+const session = (keys: string[]): CommandContext => ({
+  currentDirectory: "/",
+  currentUser: "alice",
+  setCurrentDirectory: vi.fn(),
+  setCurrentUser: vi.fn(),
+  addToHistory: vi.fn(),
+  clearTerminal: vi.fn(),
+  closeTerminal: vi.fn(),
+  writer: vi.fn(),
+  readKey: vi.fn(() => Promise.resolve(keys.shift() ?? "\r")),
+});
+
+describe("Terminal Accounts", () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    storage = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      (key) => storage[key] ?? null,
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      storage[key] = value;
+    });
+  });
+
+  describe("passwords", () => {
+    it("hashes with a random salt and verifies", async () => {
+      const first = await hashPassword("hunter2");
+      const second = await hashPassword("hunter2");
+
+      expect(first).toMatch(/^[0-9a-f]{32}:[0-9a-f]{64}$/);
+      expect(first).not.toBe(second);
+      expect(await verifyPassword("hunter2", first)).toBe(true);
+      expect(await verifyPassword("hunter3", first)).toBe(false);
+      expect(await verifyPassword("hunter2", "garbage")).toBe(false);
+    });
+  });
+
+  describe("keypairs", () => {
+    it("keeps the private key in the keyring and signs challenges", async () => {
+      const publicKey = await generateKeyPair("alice");
+
+      expect(JSON.parse(storage["terminal-keys"]).alice.d).toBeDefined();
+      expect(await proveKeyOwnership(user({ publicKey }))).toBe(true);
+    });
+
+    it("rejects a key that does not match the account", async () => {
+      await generateKeyPair("alice");
+      const otherKey = await generateKeyPair("bob");
+
+      expect(await proveKeyOwnership(user({ publicKey: otherKey }))).toBe(
+        false,
+      );
+      expect(
+        await proveKeyOwnership(
+          user({ username: "carol", publicKey: otherKey }),
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("readSecret", () => {
+    it("reads a line without echoing it", async () => {
+      const context = session(["se", "x", "\x7f", "cret", "\r"]);
+
+      expect(await readSecret(context, "Password: ")).toBe("secret");
+      const written = vi.mocked(context.writer!).mock.calls.join("");
+      expect(written).toBe("Password: \r\n");
+    });
+
+    it("returns null on Ctrl+C or without a terminal", async () => {
+      expect(await readSecret(session(["ab", "\x03"]), "> ")).toBeNull();
+      expect(
+        await readSecret({ ...session([]), readKey: undefined }, "> "),
+      ).toBeNull();
+    });
+  });
+
+  describe("authenticate", () => {
+    it("asks for the password of password accounts", async () => {
+      const account = user({ passwordHash: await hashPassword("pw") });
+
+      expect(await authenticate(account, session(["pw", "\r"]))).toBe(true);
+      expect(await authenticate(account, session(["no", "\r"]))).toBe(false);
+    });
+
+    it("uses the keyring for keypair accounts", async () => {
+      const publicKey = await generateKeyPair("alice");
+      const context = session([]);
+
+      expect(await authenticate(user({ publicKey }), context)).toBe(true);
+      expect(context.readKey).not.toHaveBeenCalled();
+    });
+
+    it("refuses keypair accounts whose key is elsewhere", async () => {
+      const publicKey = await generateKeyPair("bob");
+      expect(await authenticate(user({ publicKey }), session([]))).toBe(false);
+    });
+
+    it("refuses accounts without credentials", async () => {
+      const context = session([]);
+      expect(await authenticate(user(), context)).toBe(false);
+      expect(context.readKey).not.toHaveBeenCalled();
+    });
+
+    it("only opens built-in accounts without credentials", () => {
+      expect(isOpenAccount(getUser("guest")!)).toBe(true);
+
+      saveAccount({ username: "bob", displayName: "bob", isAdmin: true });
+      expect(isOpenAccount(getUser("bob")!)).toBe(false);
+      deleteAccount("bob");
+    });
+
+    it("remembers sudo authentication", async () => {
+      const admin = user({
+        username: "root-admin",
+        isAdmin: true,
+        passwordHash: await hashPassword("pw"),
+      });
+
+      expect(await authenticateSudo(admin, session(["no", "\r"]))).toBe(false);
+      expect(await authenticateSudo(admin, session(["pw", "\r"]))).toBe(true);
+
+      const again = session([]);
+      expect(await authenticateSudo(admin, again)).toBe(true);
+      expect(again.readKey).not.toHaveBeenCalled();
+    });
+  });
+});
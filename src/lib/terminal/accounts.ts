@@ -0,0 +1,217 @@
+// Credentials for terminal accounts: PBKDF2 password hashes and ECDSA
+// keypairs, both handled with WebCrypto
+import type { CommandContext } from "./commands";
+import { isLocalAccount, type User } from "./users";
+import { logError } from "@/lib/utils/dev-logger";
+
+const KEYRING_KEY = "terminal-keys";
+const PBKDF2_ITERATIONS = 100000;
+const KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const;
+
+// Successful sudo authentications are remembered this long, like sudo's
+// timestamp_timeout
+const SUDO_TIMEOUT = 5 * 60 * 1000;
+const sudoTimestamps: Record<string, number> = {};
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) || []).map((h) => parseInt(h, 16)));
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function deriveHash(password: string, salt: Uint8Array) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+// Hash a password with a random salt, stored as "salt:hash" in hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `${toHex(salt)}:${await deriveHash(password, salt)}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  const [salt, hash] = passwordHash.split(":");
+  if (!salt || !hash) return false;
+  return (await deriveHash(password, fromHex(salt))) === hash;
+}
+
+// Private keys stay in this browser, keyed by username
+function loadKeyring(): Record<string, JsonWebKey> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(KEYRING_KEY) || "{}");
+  } catch (error) {
+    logError(error, "Terminal Keyring Load");
+    return {};
+  }
+}
+
+function saveKeyring(keyring: Record<string, JsonWebKey>) {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(KEYRING_KEY, JSON.stringify(keyring));
+  } catch (error) {
+    logError(error, "Terminal Keyring Save");
+  }
+}
+
+// Generate a keypair for a user; the private key goes into the keyring and
+// the public key (Base64 SPKI) is returned for the account
+export async function generateKeyPair(username: string): Promise<string> {
+  const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, [
+    "sign",
+    "verify",
+  ]);
+  const keyring = loadKeyring();
+  keyring[username] = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  saveKeyring(keyring);
+  return toBase64(await crypto.subtle.exportKey("spki", pair.publicKey));
+}
+
+export function hasPrivateKey(username: string): boolean {
+  return !!loadKeyring()[username];
+}
+
+export function removePrivateKey(username: string): void {
+  const keyring = loadKeyring();
+  if (!keyring[username]) return;
+  delete keyring[username];
+  saveKeyring(keyring);
+}
+
+// Sign a random nonce with the user's private key and check the signature
+// against their public key
+export async function proveKeyOwnership(user: User): Promise<boolean> {
+  const privateJwk = loadKeyring()[user.username];
+  if (!privateJwk || !user.publicKey) return false;
+
+  try {
+    const privateKey = await crypto.subtle.importKey(
+      "jwk",
+      privateJwk,
+      KEY_ALGORITHM,
+      false,
+      ["sign"],
+    );
+    const publicKey = await crypto.subtle.importKey(
+      "spki",
+      fromBase64(user.publicKey),
+      KEY_ALGORITHM,
+      false,
+      ["verify"],
+    );
+    const nonce = crypto.getRandomValues(new Uint8Array(32));
+    const signature = await crypto.subtle.sign(
+      SIGN_ALGORITHM,
+      privateKey,
+      nonce,
+    );
+    return crypto.subtle.verify(SIGN_ALGORITHM, publicKey, signature, nonce);
+  } catch (error) {
+    logError(error, "Terminal Key Challenge");
+    return false;
+  }
+}
+
+// Read a line without echoing it; null when cancelled with Ctrl+C
+export async function readSecret(
+  context: CommandContext,
+  prompt: string,
+): Promise<string | null> {
+  if (!context.readKey || !context.writer) return null;
+
+  context.writer(prompt);
+  let secret = "";
+  while (true) {
+    const key = await context.readKey();
+    if (key === "\x03") {
+      context.writer("^C\r\n");
+      return null;
+    }
+    if (key === "\r" || key === "\n") {
+      context.writer("\r\n");
+      return secret;
+    }
+    if (key === "\x7f" || key === "\b") {
+      secret = secret.slice(0, -1);
+    } else if (!key.startsWith("\x1b")) {
+      // Pasted text may arrive as one chunk
+      secret += key.replace(/[\x00-\x1f]/g, "");
+    }
+  }
+}
+
+// Challenge the user: their key if this browser holds it, otherwise their
+// password. Accounts with neither cannot be answered for
+export async function authenticate(
+  user: User,
+  context: CommandContext,
+  prompt = "Password: ",
+): Promise<boolean> {
+  if (user.publicKey && hasPrivateKey(user.username)) {
+    return proveKeyOwnership(user);
+  }
+  if (user.passwordHash) {
+    const password = await readSecret(context, prompt);
+    return password !== null && verifyPassword(password, user.passwordHash);
+  }
+  return false;
+}
+
+// Whether a user has a password or key to answer a challenge with
+export function hasCredentials(user: User): boolean {
+  return !!(user.passwordHash || user.publicKey);
+}
+
+// Whether anyone may become the user without a challenge: built-in
+// accounts without credentials, like guest. Local accounts without them
+// are locked
+export function isOpenAccount(user: User): boolean {
+  return !hasCredentials(user) && !isLocalAccount(user.username);
+}
+
+// Authenticate for sudo unless the user did so recently
+export async function authenticateSudo(
+  user: User,
+  context: CommandContext,
+): Promise<boolean> {
+  const now = Date.now();
+  if (now - (sudoTimestamps[user.username] ?? -Infinity) < SUDO_TIMEOUT) {
+    return true;
+  }
+  const ok = await authenticate(
+    user,
+    context,
+    `[sudo] password for ${user.username}: `,
+  );
+  if (ok) sudoTimestamps[user.username] = now;
+  return ok;
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { parseAgentReply, runAgent } from "./agent";
+import { registerCommands } from "./registry";
+import type { CommandContext } from "./commands";
+import { DEFAULT_PERSONA, PERSONAS } from "@/lib/webllm/personas";
+import { buildSystemPrompt } from "@/lib/webllm/prompt";
+import type { LLMProvider } from "@/lib/webllm/provider";
+
+const context = {
+  currentDirectory: "/",
+  currentUser: "guest",
+} as CommandContext;
+
+// A provider that replies with the given messages in turn
+const scripted = (...replies: string[]) => {
+  const chat = vi.fn();
+  for (const reply of replies) chat.mockResolvedValueOnce(reply);
+  return { chat } as unknown as LLMProvider & { chat: typeof chat };
+};
+
+describe("Terminal AI Agent", () => {
+  beforeAll(() => {
+    const command = { category: "posix" as const, summary: "", synopsis: [] };
+    registerCommands([
+      {
+        ...command,
+        name: "ls",
+        synopsis: ["ls [PATH]"],
+        summary: "list directory contents",
+        run: (args) => ({
+          output: `blockchain.md\n${args.join(" ")}`,
+          success: true,
+        }),
+      },
+      {
+        ...command,
+        name: "cat",
+        synopsis: ["cat FILE"],
+        options: [{ flag: "-n", description: "" }],
+        run: () => ({ output: "\x1b[1m# Blockchain\x1b[0m", success: true }),
+      },
+      {
+        ...command,
+        name: "rm",
+        run: vi.fn(() => ({ output: "", success: true })),
+      },
+    ]);
+  });
+
+  describe("parseAgentReply", () => {
+    it("reads tool calls and answers", () => {
+      expect(parseAgentReply('{"tool": "ls", "args": ["/portfolio"]}')).toEqual(
+        { tool: "ls", args: ["/portfolio"] },
+      );
+      expect(
+        parseAgentReply(
+          'Sure:\n```json\n{"tool":"grep","args":"-ri x /"}\n```',
+        ),
+      ).toEqual({ tool: "grep", args: ["-ri", "x", "/"] });
+      expect(parseAgentReply('{"answer": "Done"}')).toEqual({
+        answer: "Done",
+      });
+      expect(parseAgentReply(" Plain text {oops ")).toEqual({
+        answer: "Plain text {oops",
+      });
+    });
+  });
+
+  describe("runAgent", () => {
+    it("runs tools until the model answers", async () => {
+      const client = scripted(
+        '{"tool": "ls", "args": ["/portfolio/papers"]}',
+        '{"tool": "cat", "args": ["/portfolio/papers/blockchain.md"]}',
+        '{"answer": "Blockchain, a techie overview"}',
+      );
+      const onToolCall = vi.fn();
+
+      const result = await runAgent(client, "Which paper?", context, {
+        onToolCall,
+      });
+
+      expect(result).toEqual({
+        answer: "Blockchain, a techie overview",
+        toolCalls: 2,
+        steps: 3,
+        finished: true,
+      });
+      expect(onToolCall).toHaveBeenCalledWith(
+        "ls /portfolio/papers",
+        expect.objectContaining({ success: true }),
+      );
+
+      // The model sees the instructions, its calls and their plain output
+      const messages = client.chat.mock.calls[2][0];
+      expect(messages[0].content).toContain("ls [PATH]");
+      expect(messages[0].content).toContain("Task: Which paper?");
+      expect(messages[4]).toEqual({
+        role: "user",
+        content: "$ cat /portfolio/papers/blockchain.md\n# Blockchain",
+      });
+    });
+
+    it("refuses commands outside the whitelist", async () => {
+      const client = scripted(
+        '{"tool": "rm", "args": ["-rf", "/"]}',
+        '{"tool": "cat", "args": ["-x"]}',
+        '{"answer": "No"}',
+      );
+
+      await runAgent(client, "Clean up", context);
+
+      const messages = client.chat.mock.calls[2][0];
+      expect(messages[2].content).toMatch(
+        /^\$ rm -rf \/ \(failed\)\nrm: not available/,
+      );
+      expect(messages[4].content).toBe(
+        "$ cat -x (failed)\ncat: invalid option -- 'x'",
+      );
+    });
+
+    it("stops at the step limit", async () => {
+      const client = scripted(
+        '{"tool": "ls", "args": []}',
+        '{"tool": "ls", "args": []}',
+      );
+
+      const result = await runAgent(client, "Loop", context, { maxSteps: 2 });
+
+      expect(result).toMatchObject({ toolCalls: 2, finished: false });
+      expect(client.chat).toHaveBeenCalledTimes(2);
+    });
+
+    it("uses the user's persona and parameters without its triggers", async () => {
+      const client = scripted('{"answer": "Done"}');
+      const recruiter = PERSONAS.find(({ name }) => name === "recruiter")!;
+
+      await runAgent(client, "Why?", context, {
+        persona: { ...recruiter, triggers: DEFAULT_PERSONA.triggers },
+        generation: { max_tokens: 256 },
+      });
+
+      const options = client.chat.mock.calls[0][1];
+      expect(options.persona).toMatchObject({
+        name: "recruiter",
+        triggers: [],
+      });
+      expect(options.generation).toEqual({ max_tokens: 256 });
+    });
+
+    it("gives instructions no persona trigger reads as philosophical", async () => {
+      const client = scripted('{"answer": "Done"}');
+      await runAgent(client, "List the papers", context);
+
+      const [messages] = client.chat.mock.calls[0];
+      expect(buildSystemPrompt(messages, undefined, DEFAULT_PERSONA)).toBe(
+        DEFAULT_PERSONA.systemPrompt,
+      );
+    });
+
+    it("can be cancelled between steps", async () => {
+      const controller = new AbortController();
+      const client = scripted('{"tool": "ls", "args": []}');
+
+      await expect(
+        runAgent(client, "Task", context, {
+          signal: controller.signal,
+          onToolCall: () => controller.abort(),
+        }),
+      ).rejects.toThrow("Command cancelled by user");
+      expect(client.chat).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+// Agent mode: the model looks things up with a few read-only terminal
+// commands before answering. Each reply is either a tool call or the
+// answer, as a JSON object, so that even small models can follow it
+import type { CommandContext, CommandResult } from "./commands";
+import { getCommandDefinition, validateArguments } from "./registry";
+import { stripAnsi } from "./ansi";
+import {
+  DEFAULT_PERSONA,
+  type GenerationConfig,
+  type Persona,
+} from "@/lib/webllm/personas";
+import type { LLMMessage, LLMProvider } from "@/lib/webllm/provider";
+
+// Commands the model may run
+export const AGENT_TOOLS = ["ls", "cat", "goto", "projects", "grep"];
+
+export const DEFAULT_AGENT_STEPS = 6;
+
+// Longest command output shown to the model; small context windows fill
+// up quickly
+const MAX_TOOL_OUTPUT = 2000;
+
+export type AgentReply = { tool: string; args: string[] } | { answer: string };
+
+export interface AgentOptions {
+  maxSteps?: number;
+  signal?: AbortSignal;
+  persona?: Persona; // The user's persona, the default one otherwise
+  generation?: Partial<GenerationConfig>; // The user's sampling parameters
+  onToolCall?: (command: string, result: CommandResult) => void;
+}
+
+export interface AgentResult {
+  answer: string;
+  toolCalls: number;
+  steps: number;
+  finished: boolean; // False when the step limit was reached first
+}
+
+function instructions(): string {
+  const tools = AGENT_TOOLS.flatMap((name) => {
+    const definition = getCommandDefinition(name);
+    return definition
+      ? [`  ${definition.synopsis[0].padEnd(28)} ${definition.summary}`]
+      : [];
+  });
+
+  return [
+    "You can run these terminal commands to look things up:",
+    ...tools,
+    "The portfolio is under /portfolio, in the experience, papers, projects, research and blog directories.",
+    "",
+    "Reply with exactly one JSON object and no other text. To run a command:",
+    '{"tool": "ls", "args": ["/portfolio/papers"]}',
+    "When you can answer the task:",
+    '{"answer": "your answer"}',
+  ].join("\n");
+}
+
+// Read the JSON object of a reply; a reply that is not one is taken as
+// the answer, since small models sometimes answer directly
+export function parseAgentReply(reply: string): AgentReply {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(reply.slice(start, end + 1));
+      if (typeof parsed.tool === "string") {
+        const args = Array.isArray(parsed.args)
+          ? parsed.args.map(String)
+          : typeof parsed.args === "string"
+            ? parsed.args.split(/\s+/).filter(Boolean)
+            : [];
+        return { tool: parsed.tool.trim(), args };
+      }
+      if (typeof parsed.answer === "string") {
+        return { answer: parsed.answer };
+      }
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return { answer: reply.trim() };
+}
+
+async function runTool(
+  tool: string,
+  args: string[],
+  context: CommandContext,
+): Promise<CommandResult> {
+  const definition = getCommandDefinition(tool);
+  if (!definition || !AGENT_TOOLS.includes(tool)) {
+    return {
+      output: `${tool}: not available; use one of ${AGENT_TOOLS.join(", ")}`,
+      success: false,
+    };
+  }
+
+  const error = validateArguments(definition, args);
+  if (error) return { output: error, success: false };
+
+  try {
+    // Output goes to the model, not to the terminal
+    return await definition.run(args, {
+      ...context,
+      writer: undefined,
+      piped: true,
+    });
+  } catch (error) {
+    return {
+      output: `${tool}: ${error instanceof Error ? error.message : "failed"}`,
+      success: false,
+    };
+  }
+}
+
+// Let the model call tools until it answers or runs out of steps
+export async function runAgent(
+  client: LLMProvider,
+  task: string,
+  context: CommandContext,
+  options: AgentOptions = {},
+): Promise<AgentResult> {
+  const {
+    maxSteps = DEFAULT_AGENT_STEPS,
+    signal,
+    generation,
+    onToolCall,
+  } = options;
+  // The messages are instructions and command output rather than the
+  // user's words, so the persona's triggers, such as the philosophical
+  // mode, do not apply to them
+  const persona = { ...(options.persona || DEFAULT_PERSONA), triggers: [] };
+  const messages: LLMMessage[] = [
+    { role: "user", content: `${instructions()}\n\nTask: ${task}` },
+  ];
+  let toolCalls = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    if (signal?.aborted) throw new Error("Command cancelled by user");
+
+    const reply = await client.chat(messages, {
+      signal,
+      persona,
+      generation,
+    });
+    if (signal?.aborted) throw new Error("Command cancelled by user");
+
+    const parsed = parseAgentReply(reply);
+    if ("answer" in parsed) {
+      return { answer: parsed.answer, toolCalls, steps: step, finished: true };
+    }
+
+    const command = [parsed.tool, ...parsed.args].join(" ");
+    const result = await runTool(parsed.tool, parsed.args, context);
+    toolCalls++;
+    onToolCall?.(command, result);
+
+    let output = stripAnsi(result.output).trim() || "(no output)";
+    if (output.length > MAX_TOOL_OUTPUT) {
+      output = `${output.slice(0, MAX_TOOL_OUTPUT)}\n... (truncated)`;
+    }
+    messages.push(
+      { role: "assistant", content: reply },
+      {
+        role: "user",
+        content: `$ ${command}${result.success ? "" : " (failed)"}\n${output}`,
+      },
+    );
+  }
+
+  return {
+    answer: `Stopped after ${maxSteps} steps without an answer.`,
+    toolCalls,
+    steps: maxSteps,
+    finished: false,
+  };
+}
@@ -1,33 +1,90 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { CommandContext } from "./commands";
 import type { CommandsObject } from "@/test/mock-types";
+import { detectCapabilities } from "@/lib/webllm/preflight";
+import { cacheUsage, listCachedModels, purgeCache } from "@/lib/webllm/cache";
 
 // Create simplified mock
 const mockWebLLMClient = {
   initialize: vi.fn(),
   chat: vi.fn(),
   unload: vi.fn(),
+  getCurrentModel: vi.fn(),
 };
 
 const mockWebLLMClientClass = {
   isSupported: vi.fn(() => true),
 };
 
-vi.mock("@/lib/webllm", () => ({
-  webLLMClient: mockWebLLMClient,
-  WebLLMClient: mockWebLLMClientClass,
-}));
+vi.mock("@/lib/webllm", async () => {
+  const { EchoProvider } = await import("@/lib/webllm/echo");
+  return {
+    webLLMClient: mockWebLLMClient,
+    WebLLMClient: mockWebLLMClientClass,
+    // Any provider repeats messages back, under its own name
+    createProvider: (name: string) =>
+      Object.assign(new EchoProvider(), { name }),
+  };
+});
 
 vi.mock("@/lib/webllm/config", () => ({
   WEBLLM_CONFIG: {
     defaultModel: "llama-3.2-1b",
     models: [
-      { id: "llama-3.2-1b", name: "Llama 3.2 1B", size: "1.2GB" },
-      { id: "llama-3.2-3b", name: "Llama 3.2 3B", size: "3.1GB" },
+      {
+        id: "llama-3.2-1b",
+        name: "Llama 3.2 1B",
+        size: "1.2GB",
+        vram_required_MB: 879,
+      },
+      {
+        id: "llama-3.2-3b",
+        name: "Llama 3.2 3B",
+        size: "3.1GB",
+        vram_required_MB: 2264,
+      },
     ],
+    providers: {
+      webllm: "In the browser",
+      openai: "OpenAI-compatible server",
+      echo: "Repeat messages back",
+    },
+    defaultProvider: "webllm",
+    endpointUrl: "http://localhost:11434/v1",
+    defaultContextWindow: 4096,
+    generationConfig: { temperature: 0.7, top_p: 0.9, max_tokens: 1024 },
+    systemPrompt: "You are helpful.",
   },
 }));
 
+// A laptop with an integrated GPU: the 1B model fits, the 3B one does not
+vi.mock("@/lib/webllm/preflight", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/webllm/preflight")>()),
+  detectCapabilities: vi.fn(async () => ({
+    webgpu: true,
+    shaderF16: true,
+    gpuRenderer: "Intel UHD Graphics 620",
+    gpuTier: "low",
+    deviceMemoryGB: 8,
+    mobile: false,
+    storageFreeMB: 10240,
+  })),
+}));
+
+vi.mock("@/lib/webllm/cache", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/webllm/cache")>()),
+  cacheUsage: vi.fn(async () => ({ files: 0, bytes: 0 })),
+  listCachedModels: vi.fn(async () => []),
+  purgeCache: vi.fn(async () => ({ files: 0, bytes: 0 })),
+}));
+
+vi.mock("./knowledge", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./knowledge")>()),
+  retrievePassages: vi.fn(async () => [
+    { title: "GECCO paper", source: "/portfolio/papers/gecco.md", text: "" },
+  ]),
+}));
+
 describe("AI Commands Basic Tests", () => {
   let mockContext: CommandContext;
   let aiCommands: CommandsObject;
@@ -185,6 +242,357 @@ describe("AI Commands Basic Tests", () => {
     });
   });
 
+  describe("preflight and cache", () => {
+    it("refuses models the device cannot run and recommends one", async () => {
+      const result = await aiCommands.ai(["init", "llama-3.2-3b"], mockContext);
+
+      expect(result.success).toBe(false);
+      expect(result.output).toContain(
+        "Llama 3.2 3B needs about 2.2GB of GPU memory; this device has an estimated 2.0GB",
+      );
+      expect(result.output).toContain(
+        "Recommended for this device: ai init llama-3.2-1b",
+      );
+      expect(mockWebLLMClient.initialize).not.toHaveBeenCalled();
+
+      const forced = await aiCommands.ai(
+        ["init", "--force", "llama-3.2-3b"],
+        mockContext,
+      );
+      expect(forced.success).toBe(true);
+      expect(mockWebLLMClient.initialize).toHaveBeenCalledWith(
+        "llama-3.2-3b",
+        expect.any(Function),
+      );
+    });
+
+    it("reports the device and the models that fit", async () => {
+      const result = await aiCommands.ai(["preflight"], mockContext);
+
+      expect(result.output).toContain("Estimated GPU memory: 2.0GB");
+      expect(result.output).toContain("✓ llama-3.2-1b");
+      expect(result.output).toContain("✗ llama-3.2-3b");
+      expect(result.output).toContain(
+        "Recommended: llama-3.2-1b (ai init llama-3.2-1b)",
+      );
+    });
+
+    it("resumes a download that was cancelled", async () => {
+      vi.mocked(cacheUsage).mockResolvedValue({
+        files: 3,
+        bytes: 300 * 1024 * 1024,
+      });
+      const controller = new AbortController();
+      mockWebLLMClient.initialize.mockImplementation(async () => {
+        controller.abort();
+        throw new Error("Command cancelled by user");
+      });
+
+      const cancelled = await aiCommands.ai(["init", "--force"], {
+        ...mockContext,
+        abortController: controller,
+      });
+      expect(cancelled.output).toContain(
+        "✗ AI model initialization cancelled\nFiles downloaded so far are kept; run 'ai init' to resume.",
+      );
+
+      mockWebLLMClient.initialize.mockResolvedValue(undefined);
+      const resumed = await aiCommands.ai(["init"], mockContext);
+      expect(resumed.output).toContain(
+        "Resuming: 300.0MB of the model files (1.2GB) are already cached.",
+      );
+    });
+
+    it("lists and purges cached models", async () => {
+      expect((await aiCommands.ai(["cache"], mockContext)).output).toBe(
+        "No model files are cached.",
+      );
+
+      vi.mocked(listCachedModels).mockResolvedValue([
+        { id: "llama-3.2-1b", files: 12, bytes: 1.2 * 1024 ** 3 },
+        { id: null, files: 1, bytes: 2048 },
+      ]);
+      expect(
+        (await aiCommands.ai(["cache", "list"], mockContext)).output,
+      ).toMatch(
+        /llama-3\.2-1b\s+1\.2GB {2}12 files \(loaded\)\n {2}\(other files\)\s+2\.0KB {2}1 file$/,
+      );
+
+      vi.mocked(purgeCache).mockResolvedValue({ files: 12, bytes: 1024 ** 3 });
+      expect(
+        (await aiCommands.ai(["cache", "purge", "llama-3.2-1b"], mockContext))
+          .output,
+      ).toBe(
+        "Removed 12 files (1.0GB) of llama-3.2-1b. They will be downloaded again when needed.",
+      );
+      expect(purgeCache).toHaveBeenCalledWith("llama-3.2-1b");
+      expect(
+        (await aiCommands.ai(["cache", "purge", "gpt-5"], mockContext)).output,
+      ).toBe("ai: unknown model 'gpt-5'");
+    });
+  });
+
+  describe("providers", () => {
+    it("lists the providers", async () => {
+      const result = await aiCommands.ai(["providers"], mockContext);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("webllm");
+      expect(result.output).toContain("(default)");
+      expect(result.output).toContain("http://localhost:11434/v1");
+    });
+
+    it("rejects unknown providers and misplaced options", async () => {
+      expect(
+        (await aiCommands.ai(["init", "--provider", "gpt"], mockContext))
+          .output,
+      ).toContain("Unknown provider 'gpt'");
+      expect(
+        (await aiCommands.ai(["init", "--url", "http://x"], mockContext))
+          .output,
+      ).toBe("ai: --url only applies to the openai provider");
+      expect(
+        (await aiCommands.ai(["init", "--provider"], mockContext)).output,
+      ).toBe("ai: option '--provider' requires an argument");
+    });
+
+    it("reconnects when the server changes", async () => {
+      const init = async (url: string) =>
+        (
+          await aiCommands.ai(
+            ["init", "--provider", "openai", "--url", url],
+            mockContext,
+          )
+        ).output;
+
+      expect(await init("http://one:8080/v1")).not.toContain(
+        "already initialized",
+      );
+      expect(await init("http://one:8080/v1")).toContain("already initialized");
+      expect(await init("http://two:8080/v1")).not.toContain(
+        "already initialized",
+      );
+      await aiCommands.ai(["clear"], mockContext);
+    });
+
+    it("leaves words starting with - in questions alone", async () => {
+      const { aiCommandDefinitions } = await import("./ai-commands");
+      const { validateArguments } = await import("./registry");
+      const ai = aiCommandDefinitions.find(
+        (definition) => definition.name === "ai",
+      )!;
+
+      expect(
+        validateArguments(ai, ["chat", "what", "does", "-v", "do?"]),
+      ).toBeNull();
+      expect(
+        validateArguments(ai, ["agent", "list", "--all", "projects"]),
+      ).toBeNull();
+    });
+
+    it("chats through the selected provider without WebGPU", async () => {
+      mockWebLLMClientClass.isSupported.mockReturnValue(false);
+
+      const init = await aiCommands.ai(
+        ["init", "--provider=echo"],
+        mockContext,
+      );
+      expect(init.success).toBe(true);
+
+      const status = await aiCommands.ai(["status"], mockContext);
+      expect(status.output).toContain("Provider: echo");
+
+      const result = await aiCommands.ai(["chat", "Hello"], mockContext);
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("Assistant: Echo: Hello");
+      expect(result.output).toContain(
+        "Sources:\n  [1] GECCO paper — /portfolio/papers/gecco.md",
+      );
+
+      await aiCommands.ai(["clear"], mockContext);
+    });
+
+    it("renders the Markdown of answers as they stream in", async () => {
+      const writer = vi.fn();
+      const context = { ...mockContext, writer };
+
+      const result = await aiCommands.chat(["**Hello**"], context);
+
+      const shown = writer.mock.calls.map(([text]) => text).join("");
+      expect(shown).toContain("[AI Chat Mode]\r\nUser: **Hello**");
+      expect(shown).toContain("Echo: \x1b[1mHello\x1b[22m\n");
+      expect(result.output).toMatch(/^\nSources:/);
+
+      const piped = await aiCommands.chat(["**Hi**"], {
+        ...context,
+        piped: true,
+      });
+      expect(piped.output).toContain("Assistant: Echo: **Hi**");
+      await aiCommands.ai(["clear"], mockContext);
+    });
+  });
+
+  describe("sessions", () => {
+    const run = async (...args: string[]) =>
+      (await aiCommands.ai(args, mockContext)).output;
+
+    it("keeps conversations apart and exports them", async () => {
+      await aiCommands.ai(["init", "--provider", "echo"], mockContext);
+
+      expect(await run("session", "new", "papers")).toBe(
+        "Started session 'papers'.",
+      );
+      await aiCommands.chat(["Which", "papers?"], mockContext);
+      expect(await run("session", "list")).toMatch(/\* papers\s+2 messages/);
+
+      expect(await run("session", "switch", "default")).toMatch(
+        /^Switched to session 'default'/,
+      );
+      expect(await run("status")).toContain("Session: default");
+
+      expect(await run("session", "export", "papers")).toContain(
+        "## Assistant\n\nEcho: Which papers?",
+      );
+      expect(
+        JSON.parse(await run("session", "export", "papers", "--json")).messages,
+      ).toHaveLength(2);
+      expect(await run("usage")).toMatch(/All 2 sessions\s+\d+ prompt/);
+
+      expect(await run("session", "delete", "papers")).toBe(
+        "Deleted session 'papers'. Current session: 'default'.",
+      );
+      expect(await run("session", "switch", "papers")).toBe(
+        "ai: no session named 'papers'",
+      );
+    });
+
+    it("keeps only answers that were completed", async () => {
+      await aiCommands.ai(["init", "--provider", "echo"], mockContext);
+      await run("session", "new", "drafts");
+
+      const abortController = new AbortController();
+      abortController.abort();
+      const cancelled = await aiCommands.chat(["Hello"], {
+        ...mockContext,
+        abortController,
+      });
+      expect(cancelled.success).toBe(false);
+
+      mockWebLLMClient.chat.mockRejectedValue(new Error("GPU lost"));
+      await aiCommands.ai(["init"], mockContext);
+      const failed = await aiCommands.chat(["Hello"], mockContext);
+      expect(failed.output).toBe("Error generating response: GPU lost");
+
+      expect(await run("session", "list")).toMatch(/\* drafts\s+0 messages/);
+      await run("session", "delete", "drafts");
+    });
+  });
+
+  describe("personas and settings", () => {
+    const run = async (...args: string[]) =>
+      (await aiCommands.ai(args, mockContext)).output;
+
+    beforeEach(() => {
+      const storage = new Map<string, string>();
+      vi.mocked(localStorage.getItem).mockImplementation(
+        (key) => storage.get(key) ?? null,
+      );
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) =>
+        storage.set(key, value),
+      );
+    });
+
+    it("lists, shows and switches personas", async () => {
+      expect(await run("persona")).toMatch(/^\* default\s+Portfolio guide/);
+      expect(await run("persona", "show", "recruiter")).toContain(
+        "Sampling: temperature 0.2, top_p 0.8, max_tokens 1024",
+      );
+      expect(await run("persona", "use", "pirate")).toMatch(
+        /^ai: no persona named 'pirate'/,
+      );
+
+      expect(await run("persona", "use", "recruiter")).toBe(
+        "Using persona 'recruiter'.",
+      );
+      expect(await run("persona", "list")).toMatch(/\* recruiter/);
+      expect(await run("status")).toContain("Persona: recruiter");
+    });
+
+    it("validates and persists sampling overrides", async () => {
+      expect(await run("set", "temperature", "0.2")).toBe(
+        "temperature set to 0.2.",
+      );
+      expect(await run("set", "top_p", "3")).toBe(
+        "ai: top_p must be a number from 0 to 1",
+      );
+      expect(await run("set", "max_tokens", "10.5")).toBe(
+        "ai: max_tokens must be an integer from 16 to 4096",
+      );
+      expect(await run("set", "seed", "1")).toMatch(
+        /^ai: unknown setting 'seed'/,
+      );
+      expect(await run("set", "philosophical", "off")).toBe(
+        "Philosophical mode off.",
+      );
+
+      const settings = await run("set");
+      expect(settings).toMatch(/temperature\s+0\.2 \(set\)/);
+      expect(settings).toMatch(/top_p\s+0\.9 \(default\)/);
+      expect(settings).toMatch(/philosophical\s+off/);
+
+      expect(await run("set", "temperature", "default")).toBe(
+        "temperature reset to the persona's value.",
+      );
+      expect(await run("set")).toMatch(/temperature\s+0\.7 \(default\)/);
+    });
+
+    it("sends the persona and parameters with each message", async () => {
+      mockWebLLMClient.chat.mockResolvedValue("Answer");
+      await aiCommands.ai(["init"], mockContext);
+      await run("persona", "use", "default");
+      await run("set", "philosophical", "off");
+      await run("set", "max_tokens", "256");
+
+      await aiCommands.chat(["What", "is", "the", "meaning?"], mockContext);
+
+      const options = mockWebLLMClient.chat.mock.calls[0][1];
+      expect(options.persona.name).toBe("default");
+      expect(options.persona.triggers).toEqual([]);
+      expect(options.generation).toEqual({
+        temperature: 0.7,
+        top_p: 0.9,
+        max_tokens: 256,
+      });
+      await aiCommands.ai(["clear"], mockContext);
+    });
+  });
+
+  describe("agent", () => {
+    it("checks its arguments", async () => {
+      await aiCommands.ai(["init", "--provider", "echo"], mockContext);
+
+      expect((await aiCommands.ai(["agent"], mockContext)).output).toBe(
+        "Usage: ai agent [--steps N] <task>",
+      );
+      expect(
+        (await aiCommands.ai(["agent", "--steps", "0", "x"], mockContext))
+          .output,
+      ).toBe("ai: --steps needs a positive number");
+    });
+
+    it("reports the answer and the steps taken", async () => {
+      const result = await aiCommands.ai(
+        ["agent", "which", "paper?"],
+        mockContext,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("[AI Agent Mode]\nTask: which paper?");
+      expect(result.output).toContain("Assistant: Echo:");
+      expect(result.output).toMatch(/\[0 tool calls in 1 step\]$/);
+    });
+  });
+
   describe("Writer Callback Integration", () => {
     it("includes writer callback in context for real-time output", async () => {
       const mockWriter = vi.fn();
@@ -1,10 +1,58 @@
-import { CommandFunction, CommandContext } from "./commands";
+import { CommandFunction, CommandContext, CommandResult } from "./commands";
+import { completeWords, defineCommands } from "./registry";
+import { formatContext, formatSources, retrievePassages } from "./knowledge";
+import { AGENT_TOOLS, DEFAULT_AGENT_STEPS, runAgent } from "./agent";
+import { createMarkdownStream, renderMarkdown } from "./markdown";
 import {
-  WebLLMClientInstance,
-  WebLLMConfig,
-  AIModelInfo,
-} from "@/types/webllm";
+  cachedSessionNames,
+  createSession,
+  deleteSession,
+  estimateTokens,
+  exportJson,
+  exportMarkdown,
+  fitToContext,
+  getCurrentSession,
+  getSession,
+  listSessions,
+  saveSession,
+  switchSession,
+  type TokenUsage,
+} from "./ai-sessions";
+import {
+  GENERATION_LIMITS,
+  defaultAISettings,
+  effectivePersona,
+  isGenerationParameter,
+  loadAISettings,
+  parseGenerationValue,
+  saveAISettings,
+  type AISettings,
+  type GenerationParameter,
+} from "./ai-settings";
+// Only the model list, for completion; the rest of WebLLM loads on demand
+import { WEBLLM_CONFIG as modelConfig } from "@/lib/webllm/config";
+import { PERSONAS, getPersona } from "@/lib/webllm/personas";
+import { generationConfig } from "@/lib/webllm/prompt";
+import {
+  cacheUsage,
+  formatBytes,
+  listCachedModels,
+  purgeCache,
+} from "@/lib/webllm/cache";
+import {
+  detectCapabilities,
+  estimateVramMB,
+  preflight,
+  recommendModel,
+  type PreflightResult,
+} from "@/lib/webllm/preflight";
+import { WebLLMConfig, AIModelInfo } from "@/types/webllm";
 import type { WebLLMClientClass } from "@/test/mock-types";
+import type {
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderOptions,
+} from "@/lib/webllm/provider";
 
 interface WebLLMProgress {
   progress: number;
@@ -13,12 +61,15 @@ interface WebLLMProgress {
 }
 
 // Dynamic imports for WebLLM to reduce bundle size
-let webLLMClient: WebLLMClientInstance | null = null;
+let webLLMClient: LLMProvider | null = null;
 let WebLLMClient: WebLLMClientClass | null = null; // Custom WebLLMClient class, not the imported WebLLMEngine
 let WEBLLM_CONFIG: WebLLMConfig | null = null;
+let createProvider:
+  | ((name: LLMProviderName, options?: LLMProviderOptions) => LLMProvider)
+  | null = null;
 
 async function loadWebLLM() {
-  if (!webLLMClient) {
+  if (!webLLMClient || !createProvider) {
     const [webllm, config] = await Promise.all([
       import("@/lib/webllm"),
       import("@/lib/webllm/config"),
@@ -26,14 +77,16 @@ async function loadWebLLM() {
     webLLMClient = webllm.webLLMClient;
     WebLLMClient = webllm.WebLLMClient;
     WEBLLM_CONFIG = config.WEBLLM_CONFIG;
+    createProvider = webllm.createProvider;
   }
-  return { webLLMClient, WebLLMClient, WEBLLM_CONFIG };
+  return { webLLMClient, WebLLMClient, WEBLLM_CONFIG, createProvider };
 }
 
 interface AICommandState {
   isInitialized: boolean;
   currentModel: string | null;
-  chatHistory: Array<{ role: "user" | "assistant"; content: string }>;
+  provider: LLMProvider | null;
+  url?: string; // Server given with --url, for the openai provider
   isLoading: boolean;
   terminalWriter?: (text: string) => void;
 }
@@ -42,10 +95,600 @@ interface AICommandState {
 const aiState: AICommandState = {
   isInitialized: false,
   currentModel: null,
-  chatHistory: [],
+  provider: null,
   isLoading: false,
 };
 
+const providerNames = Object.keys(modelConfig.providers) as LLMProviderName[];
+
+interface InitOptions {
+  provider: LLMProviderName;
+  url?: string;
+  model?: string;
+  force?: boolean; // Load even when the preflight finds problems
+}
+
+// Arguments of ai init: [--provider NAME] [--url URL] [--force] [MODEL].
+// Returns the error message when they are invalid
+function parseInitArgs(args: string[]): InitOptions | string {
+  const options: InitOptions = {
+    provider: modelConfig.defaultProvider as LLMProviderName,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].startsWith("--")
+      ? args[i].split(/=(.*)/)
+      : [args[i]];
+
+    if (flag === "--force") {
+      options.force = true;
+    } else if (flag === "--provider" || flag === "--url") {
+      const value = inline ?? args[++i];
+      if (!value) return `ai: option '${flag}' requires an argument`;
+      if (flag === "--url") {
+        options.url = value;
+      } else if (providerNames.includes(value as LLMProviderName)) {
+        options.provider = value as LLMProviderName;
+      } else {
+        return `Error: Unknown provider '${value}'. Available providers: ${providerNames.join(", ")}`;
+      }
+    } else if (!options.model) {
+      options.model = flag;
+    } else {
+      return "ai: too many arguments";
+    }
+  }
+
+  if (options.url && options.provider !== "openai") {
+    return "ai: --url only applies to the openai provider";
+  }
+  return options;
+}
+
+const MB = 1024 * 1024;
+
+// ai cache [list|size|purge [MODEL]]
+async function cacheCommand(args: string[]): Promise<CommandResult> {
+  const [action = "list", modelId] = args;
+  if (modelId && !modelConfig.models.some(({ id }) => id === modelId)) {
+    return { output: `ai: unknown model '${modelId}'`, success: false };
+  }
+
+  switch (action) {
+    case "list": {
+      const cached = await listCachedModels();
+      if (cached.length === 0) {
+        return { output: "No model files are cached.", success: true };
+      }
+      const names = cached.map(({ id }) => id ?? "(other files)");
+      const width = Math.max(...names.map((name) => name.length));
+      const lines = cached.map(({ id, files, bytes }, i) => {
+        const loaded = id && id === aiState.currentModel ? " (loaded)" : "";
+        return `  ${names[i].padEnd(width)}  ${formatBytes(bytes).padStart(8)}  ${files} file${files === 1 ? "" : "s"}${loaded}`;
+      });
+      return { output: `Cached models:\n${lines.join("\n")}`, success: true };
+    }
+
+    case "size": {
+      const { files, bytes } = await cacheUsage(modelId);
+      const lines = [
+        `${modelId || "Model cache"}: ${formatBytes(bytes)} in ${files} file${files === 1 ? "" : "s"}`,
+      ];
+      const estimate = await navigator.storage?.estimate?.();
+      if (!modelId && estimate?.quota) {
+        lines.push(
+          `Browser storage: ${formatBytes(estimate.usage || 0)} used of ${formatBytes(estimate.quota)}`,
+        );
+      }
+      return { output: lines.join("\n"), success: true };
+    }
+
+    case "purge": {
+      const { files, bytes } = await purgeCache(modelId);
+      if (files === 0) {
+        return {
+          output: `Nothing cached${modelId ? ` for ${modelId}` : ""}.`,
+          success: true,
+        };
+      }
+      return {
+        output: `Removed ${files} file${files === 1 ? "" : "s"} (${formatBytes(bytes)})${modelId ? ` of ${modelId}` : ""}. They will be downloaded again when needed.`,
+        success: true,
+      };
+    }
+
+    default:
+      return {
+        output: `ai: unknown cache subcommand '${action}'. Use list, size or purge.`,
+        success: false,
+      };
+  }
+}
+
+function preflightLines({ model, problems, warnings }: PreflightResult) {
+  return [
+    `${problems.length > 0 ? "✗" : "✓"} ${model.id} (${model.name}, ${model.size}, ${(model.vram_required_MB / 1024).toFixed(1)}GB GPU memory)`,
+    ...problems.map((problem) => `    ${problem}`),
+    ...warnings.map((warning) => `    Warning: ${warning}`),
+  ];
+}
+
+// ai preflight [MODEL]: what the device offers, and which models would run
+async function preflightCommand(args: string[]): Promise<CommandResult> {
+  const [modelId] = args;
+  const models = modelId
+    ? modelConfig.models.filter(({ id }) => id === modelId)
+    : modelConfig.models;
+  if (models.length === 0) {
+    return { output: `ai: unknown model '${modelId}'`, success: false };
+  }
+
+  const device = await detectCapabilities();
+  const vram = estimateVramMB(device);
+  const recommended = recommendModel(device);
+  const results = await Promise.all(
+    models.map(async (model) =>
+      preflight(model, device, (await cacheUsage(model.id)).bytes / MB),
+    ),
+  );
+
+  return {
+    output: [
+      "Device:",
+      `  WebGPU: ${device.webgpu ? "Yes" : "No"}${device.shaderF16 === false ? " (no shader-f16)" : ""}`,
+      `  GPU: ${device.gpuRenderer || "unknown"} (${device.gpuTier} tier)`,
+      `  Estimated GPU memory: ${vram === null ? "unknown" : `${(vram / 1024).toFixed(1)}GB`}`,
+      `  Storage available: ${device.storageFreeMB === null ? "unknown" : formatBytes(device.storageFreeMB * MB)}`,
+      "",
+      "Models:",
+      ...results.flatMap(preflightLines),
+      "",
+      recommended
+        ? `Recommended: ${recommended.id} (ai init ${recommended.id})`
+        : "No model is likely to run here; try 'ai init --provider openai'.",
+    ].join("\n"),
+    success: !modelId || results[0].problems.length === 0,
+  };
+}
+
+// Tokens the model can attend to, prompt and answer together
+function contextWindow(): number {
+  const model = modelConfig.models.find(
+    ({ id }) => id === aiState.currentModel,
+  );
+  return aiState.provider?.name === "webllm" && model
+    ? model.contextWindow
+    : modelConfig.defaultContextWindow;
+}
+
+// Persona and sampling parameters of the user's settings
+function chatOptions(settings: AISettings) {
+  const persona = effectivePersona(settings);
+  return {
+    persona,
+    generation: generationConfig({ persona, generation: settings.generation }),
+  };
+}
+
+// Send a message in the user's current session, grounded in the
+// portfolio passages matching it. Older messages are left out when the
+// conversation no longer fits the context window. Returns the answer and
+// the notes printed under it: its sources and any messages left out. The
+// session keeps the exchange only once the answer is complete
+async function converse(
+  client: LLMProvider,
+  user: string,
+  message: string,
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+): Promise<{ response: string; notes: string }> {
+  const session = await getCurrentSession(user);
+  const question = { role: "user" as const, content: message };
+
+  const passages = await retrievePassages(message);
+  const grounding = formatContext(passages);
+  const { persona, generation } = chatOptions(loadAISettings(user));
+
+  // The answer and the system prompt come out of the same window
+  const systemTokens = estimateTokens(persona.systemPrompt + grounding);
+  const budget = contextWindow() - generation.max_tokens - systemTokens;
+  const { messages, dropped } = fitToContext(
+    [...session.messages, question],
+    budget,
+  );
+
+  let response = "";
+  await client.chat(messages, {
+    context: grounding,
+    persona,
+    generation,
+    signal,
+    onToken: (token: string) => {
+      response += token;
+      onToken(token);
+    },
+  });
+  if (signal?.aborted) throw new Error("Command cancelled by user");
+
+  session.messages.push(question, { role: "assistant", content: response });
+  session.usage.prompt +=
+    systemTokens +
+    messages.reduce((sum, { content }) => sum + estimateTokens(content), 0);
+  session.usage.completion += estimateTokens(response);
+  await saveSession(session);
+
+  let notes = "";
+  if (passages.length > 0) {
+    notes += `\n\n${formatSources(passages)}`;
+  }
+  if (dropped > 0) {
+    notes += `\n\n[${dropped} earlier message${dropped === 1 ? "" : "s"} left out to fit the context window]`;
+  }
+  return { response, notes };
+}
+
+// Answer a message under a "[AI ... Mode]" heading. On the terminal the
+// answer is shown as it streams in, its Markdown rendered; what is left
+// to print is returned. Piped, the whole exchange is returned as written
+async function reply(
+  client: LLMProvider,
+  mode: string,
+  message: string,
+  context: CommandContext,
+  onToken: () => void = () => {},
+): Promise<string> {
+  const writer = context.piped ? undefined : context.writer;
+  if (!writer) {
+    const { response, notes } = await converse(
+      client,
+      context.currentUser,
+      message,
+      onToken,
+      context.abortController?.signal,
+    );
+    return `[AI ${mode} Mode]\nUser: ${message}\n\nAssistant: ${response}${notes}`;
+  }
+
+  // The answer starts on its own line, which the renderer redraws
+  writer(`[AI ${mode} Mode]\r\nUser: ${message}\r\n\r\nAssistant:\r\n`);
+  const markdown = createMarkdownStream(writer, context.terminalCols);
+  try {
+    const { notes } = await converse(
+      client,
+      context.currentUser,
+      message,
+      (token) => {
+        markdown.write(token);
+        onToken();
+      },
+      context.abortController?.signal,
+    );
+    return notes.replace(/^\n/, "");
+  } finally {
+    markdown.end();
+  }
+}
+
+// ai session SUBCOMMAND [NAME]
+async function sessionCommand(
+  args: string[],
+  user: string,
+): Promise<CommandResult> {
+  const [action = "list", name] = args;
+
+  switch (action) {
+    case "list": {
+      const current = await getCurrentSession(user);
+      const sessions = await listSessions(user);
+      const width = Math.max(...sessions.map((s) => s.name.length));
+      const lines = sessions.map((session) => {
+        const marker = session === current ? "*" : " ";
+        const updated = new Date(session.updated).toLocaleString();
+        return `${marker} ${session.name.padEnd(width)}  ${session.messages.length} messages, updated ${updated}`;
+      });
+      return { output: lines.join("\n"), success: true };
+    }
+
+    case "new": {
+      const session = await createSession(user, name);
+      return session
+        ? { output: `Started session '${session.name}'.`, success: true }
+        : { output: `ai: session '${name}' already exists`, success: false };
+    }
+
+    case "switch":
+    case "delete": {
+      if (!name) {
+        return { output: `Usage: ai session ${action} NAME`, success: false };
+      }
+      const done =
+        action === "switch"
+          ? await switchSession(user, name)
+          : await deleteSession(user, name);
+      if (!done) {
+        return { output: `ai: no session named '${name}'`, success: false };
+      }
+      const current = await getCurrentSession(user);
+      return {
+        output:
+          action === "switch"
+            ? `Switched to session '${name}' (${current.messages.length} messages).`
+            : `Deleted session '${name}'. Current session: '${current.name}'.`,
+        success: true,
+      };
+    }
+
+    case "export": {
+      const json = args.includes("--json");
+      const sessionName = args.slice(1).find((arg) => arg !== "--json");
+      const session = sessionName
+        ? await getSession(user, sessionName)
+        : await getCurrentSession(user);
+      if (!session) {
+        return {
+          output: `ai: no session named '${sessionName}'`,
+          success: false,
+        };
+      }
+      return {
+        output: json ? exportJson(session) : exportMarkdown(session),
+        success: true,
+      };
+    }
+
+    default:
+      return {
+        output: `ai: unknown session subcommand '${action}'. Use new, list, switch, delete or export.`,
+        success: false,
+      };
+  }
+}
+
+// ai persona [list|use NAME|show [NAME]]
+function personaCommand(args: string[], user: string): CommandResult {
+  const [action = "list", name] = args;
+  const settings = loadAISettings(user);
+
+  switch (action) {
+    case "list": {
+      const width = Math.max(...PERSONAS.map((p) => p.name.length));
+      const lines = PERSONAS.map((persona) => {
+        const marker = persona.name === settings.persona ? "*" : " ";
+        return `${marker} ${persona.name.padEnd(width)}  ${persona.description}`;
+      });
+      return { output: lines.join("\n"), success: true };
+    }
+
+    case "use": {
+      if (!name) {
+        return { output: "Usage: ai persona use NAME", success: false };
+      }
+      if (!getPersona(name)) {
+        return {
+          output: `ai: no persona named '${name}'. Available personas: ${PERSONAS.map((p) => p.name).join(", ")}`,
+          success: false,
+        };
+      }
+      saveAISettings(user, { ...settings, persona: name });
+      return { output: `Using persona '${name}'.`, success: true };
+    }
+
+    case "show": {
+      const persona = getPersona(name || settings.persona);
+      if (!persona) {
+        return { output: `ai: no persona named '${name}'`, success: false };
+      }
+      const { generation } = chatOptions({
+        ...settings,
+        persona: persona.name,
+        generation: {},
+      });
+      const triggers = persona.triggers.map(
+        ({ name, keywords }) =>
+          `  ${name}: ${keywords.length} keywords, e.g. ${keywords.slice(0, 4).join(", ")}`,
+      );
+      return {
+        output: [
+          `Persona: ${persona.name} - ${persona.description}`,
+          "",
+          "System prompt:",
+          persona.systemPrompt,
+          "",
+          "Triggers:",
+          ...(triggers.length > 0 ? triggers : ["  none"]),
+          "",
+          `Sampling: temperature ${generation.temperature}, top_p ${generation.top_p}, max_tokens ${generation.max_tokens}`,
+        ].join("\n"),
+        success: true,
+      };
+    }
+
+    default:
+      return {
+        output: `ai: unknown persona subcommand '${action}'. Use list, use or show.`,
+        success: false,
+      };
+  }
+}
+
+// ai set [PARAMETER VALUE|PARAMETER default|default]: sampling overrides
+// and the philosophical mode. Without arguments, show the settings
+function setCommand(args: string[], user: string): CommandResult {
+  const [name, value] = args;
+  const settings = loadAISettings(user);
+
+  if (!name) {
+    const { persona, generation } = chatOptions(settings);
+    const parameters = (
+      Object.keys(GENERATION_LIMITS) as GenerationParameter[]
+    ).map((parameter) => {
+      const source = parameter in settings.generation ? "set" : persona.name;
+      return `  ${parameter.padEnd(14)} ${generation[parameter]} (${source})`;
+    });
+    return {
+      output: [
+        `AI settings (persona '${persona.name}'):`,
+        ...parameters,
+        `  ${"philosophical".padEnd(14)} ${settings.philosophical ? "on" : "off"}`,
+      ].join("\n"),
+      success: true,
+    };
+  }
+
+  if (name === "default") {
+    saveAISettings(user, { ...defaultAISettings(), persona: settings.persona });
+    return { output: "AI settings reset to defaults.", success: true };
+  }
+
+  if (!value) {
+    return { output: `ai: set ${name} needs a value`, success: false };
+  }
+
+  if (name === "philosophical") {
+    if (value !== "on" && value !== "off") {
+      return { output: "ai: philosophical must be on or off", success: false };
+    }
+    saveAISettings(user, { ...settings, philosophical: value === "on" });
+    return { output: `Philosophical mode ${value}.`, success: true };
+  }
+
+  if (!isGenerationParameter(name)) {
+    return {
+      output: `ai: unknown setting '${name}'. Settings: ${[...Object.keys(GENERATION_LIMITS), "philosophical"].join(", ")}`,
+      success: false,
+    };
+  }
+
+  const generation = { ...settings.generation };
+  if (value === "default") {
+    delete generation[name];
+  } else {
+    const parsed = parseGenerationValue(name, value);
+    if ("error" in parsed) {
+      return { output: `ai: ${parsed.error}`, success: false };
+    }
+    generation[name] = parsed.value;
+  }
+  saveAISettings(user, { ...settings, generation });
+  return {
+    output:
+      value === "default"
+        ? `${name} reset to the persona's value.`
+        : `${name} set to ${generation[name]}.`,
+    success: true,
+  };
+}
+
+// ai agent [--steps N] TASK: the model runs read-only commands to answer.
+// Each command it runs is echoed as it happens
+async function agentCommand(
+  args: string[],
+  context: CommandContext,
+): Promise<CommandResult> {
+  if (!aiState.isInitialized || !aiState.provider) {
+    return {
+      output: 'AI not initialized. Run "ai init" first.',
+      success: false,
+    };
+  }
+
+  let maxSteps = DEFAULT_AGENT_STEPS;
+  const words: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].split(/=(.*)/);
+    if (flag !== "--steps") {
+      words.push(args[i]);
+      continue;
+    }
+    maxSteps = parseInt(inline ?? args[++i], 10);
+    if (!(maxSteps > 0)) {
+      return {
+        output: "ai: --steps needs a positive number",
+        success: false,
+      };
+    }
+  }
+
+  const task = words.join(" ");
+  if (!task) {
+    return { output: "Usage: ai agent [--steps N] <task>", success: false };
+  }
+
+  const header = `[AI Agent Mode]\nTask: ${task}\nTools: ${AGENT_TOOLS.join(", ")}\n`;
+  const transcript: string[] = [];
+  const echo = (line: string) => {
+    if (context.writer) {
+      context.writer(`${line}\r\n`);
+    } else {
+      transcript.push(line);
+    }
+  };
+  if (context.writer) context.writer(header.replace(/\n/g, "\r\n"));
+
+  try {
+    const result = await runAgent(aiState.provider, task, context, {
+      maxSteps,
+      signal: context.abortController?.signal,
+      ...chatOptions(loadAISettings(context.currentUser)),
+      onToolCall: (command, { success }) =>
+        echo(`\x1b[2m$ ${command}${success ? "" : " (failed)"}\x1b[0m`),
+    });
+
+    const calls = `${result.toolCalls} tool call${result.toolCalls === 1 ? "" : "s"}`;
+    return {
+      output: [
+        ...(context.writer ? [] : [header, ...transcript]),
+        "",
+        context.writer && !context.piped
+          ? `Assistant:\n${renderMarkdown(result.answer, context.terminalCols)}`
+          : `Assistant: ${result.answer}`,
+        "",
+        `[${calls} in ${result.steps} step${result.steps === 1 ? "" : "s"}]`,
+      ].join("\n"),
+      success: result.finished,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const cancelled = context.abortController?.signal.aborted;
+    return {
+      output: [
+        ...(context.writer ? [] : [header, ...transcript]),
+        cancelled ? "✗ Agent cancelled" : `Error running agent: ${message}`,
+      ].join("\n"),
+      success: false,
+    };
+  }
+}
+
+// ai usage: estimated tokens of the current session and of all sessions
+async function usageReport(user: string): Promise<string> {
+  const current = await getCurrentSession(user);
+  const sessions = await listSessions(user);
+  const total = sessions.reduce(
+    (sum, { usage }) => ({
+      prompt: sum.prompt + usage.prompt,
+      completion: sum.completion + usage.completion,
+    }),
+    { prompt: 0, completion: 0 },
+  );
+
+  const line = (label: string, { prompt, completion }: TokenUsage) =>
+    `  ${label.padEnd(24)} ${prompt} prompt + ${completion} completion = ${prompt + completion}`;
+  const history = current.messages.reduce(
+    (sum, { content }) => sum + estimateTokens(content),
+    0,
+  );
+
+  return [
+    "Token usage (estimated):",
+    line(`Session '${current.name}'`, current.usage),
+    line(`All ${sessions.length} sessions`, total),
+    "",
+    `Context window: ${contextWindow()} tokens, ${chatOptions(loadAISettings(user)).generation.max_tokens} reserved for the answer`,
+    `Conversation history: ${history} tokens in ${current.messages.length} messages`,
+  ].join("\n");
+}
+
 // AI-related commands
 export const aiCommands: Record<string, CommandFunction> = {
   ai: async (args, context) => {
@@ -56,10 +699,44 @@ export const aiCommands: Record<string, CommandFunction> = {
           cmd: "ai init [model]",
           desc: "Initialize AI model (default: Llama 3.2 1B)",
         },
+        {
+          cmd: "ai init --provider <name>",
+          desc: "Use another backend, e.g. a local server",
+        },
         { cmd: "ai models", desc: "List available models" },
+        { cmd: "ai providers", desc: "List available providers" },
+        {
+          cmd: "ai preflight [model]",
+          desc: "Check which models this device can run",
+        },
+        {
+          cmd: "ai cache list|size|purge [model]",
+          desc: "Manage downloaded model files",
+        },
         { cmd: "ai chat <message>", desc: "Chat with the AI assistant" },
         { cmd: "ai stream <message>", desc: "Chat with streaming responses" },
+        {
+          cmd: "ai agent <task>",
+          desc: "Let the AI run ls, cat, grep... to answer",
+        },
         { cmd: "ai clear", desc: "Clear chat history" },
+        {
+          cmd: "ai persona list|use|show",
+          desc: "Choose how the assistant answers",
+        },
+        {
+          cmd: "ai set [param value]",
+          desc: "Change temperature, top_p, max_tokens...",
+        },
+        {
+          cmd: "ai session new|list|switch|delete",
+          desc: "Manage saved conversations",
+        },
+        {
+          cmd: "ai session export [name] [--json]",
+          desc: "Print a conversation as Markdown or JSON",
+        },
+        { cmd: "ai usage", desc: "Show estimated token usage" },
         { cmd: "ai status", desc: "Show AI status" },
       ];
 
@@ -87,39 +764,57 @@ export const aiCommands: Record<string, CommandFunction> = {
         return aiCommands.ai([], {} as CommandContext);
 
       case "init":
+        const options = parseInitArgs(subArgs);
+        if (typeof options === "string") {
+          return { output: options, success: false };
+        }
+        const providerName = options.provider;
+
         // Dynamically load WebLLM only when needed
         const {
-          webLLMClient: client,
+          webLLMClient: webLLM,
           WebLLMClient: Client,
           WEBLLM_CONFIG: config,
+          createProvider,
         } = await loadWebLLM();
 
-        if (!Client || !Client.isSupported()) {
+        if (!config) {
           return {
-            output:
-              "Error: WebGPU is not supported in your browser. AI features are unavailable.",
+            output: "Error: WebLLM configuration not loaded.",
             success: false,
           };
         }
 
-        if (!config) {
+        if (providerName === "webllm" && (!Client || !Client.isSupported())) {
           return {
-            output: "Error: WebLLM configuration not loaded.",
+            output:
+              "Error: WebGPU is not supported in your browser. AI features are unavailable.\n" +
+              "Use 'ai init --provider openai --url URL' to connect to a local server instead.",
             success: false,
           };
         }
 
-        if (aiState.isInitialized) {
+        if (
+          aiState.isInitialized &&
+          aiState.provider?.name === providerName &&
+          aiState.url === options.url &&
+          (!options.model || options.model === aiState.currentModel)
+        ) {
           return {
             output: `AI is already initialized with model: ${aiState.currentModel}`,
             success: true,
           };
         }
 
-        const modelId = subArgs[0] || config.defaultModel;
-        const modelInfo = config.models.find(
-          (m: AIModelInfo) => m.id === modelId,
-        );
+        // Only WebLLM models are known in advance; other providers
+        // report theirs when they connect
+        const modelId =
+          options.model ||
+          (providerName === "webllm" ? config.defaultModel : undefined);
+        const modelInfo: AIModelInfo | undefined =
+          providerName === "webllm"
+            ? config.models.find((m: AIModelInfo) => m.id === modelId)
+            : { id: modelId ?? "", name: `the ${providerName} provider` };
 
         if (!modelInfo) {
           const availableModels = config.models
@@ -131,19 +826,63 @@ export const aiCommands: Record<string, CommandFunction> = {
           };
         }
 
+        // Check the device before downloading anything. Files left by an
+        // earlier, cancelled download are reused
+        const configModel = modelConfig.models.find(({ id }) => id === modelId);
+        let cachedBytes = 0;
+        let preflightWarnings: string[] = [];
+        if (providerName === "webllm" && configModel) {
+          cachedBytes = (await cacheUsage(configModel.id)).bytes;
+          const device = await detectCapabilities();
+          const check = preflight(configModel, device, cachedBytes / MB);
+          if (check.problems.length > 0 && !options.force) {
+            const recommended = recommendModel(device);
+            return {
+              output: [
+                `Error: ${configModel.name} is unlikely to run on this device:`,
+                ...check.problems.map((problem) => `  - ${problem}`),
+                "",
+                ...(recommended && recommended.id !== configModel.id
+                  ? [`Recommended for this device: ai init ${recommended.id}`]
+                  : []),
+                "Use 'ai init --force' to try anyway, or 'ai preflight' for details.",
+              ].join("\n"),
+              success: false,
+            };
+          }
+          preflightWarnings = check.warnings;
+        }
+        const cacheNote =
+          cachedBytes > 0
+            ? `Resuming: ${formatBytes(cachedBytes)} of the model files (${modelInfo.size}) are already cached.`
+            : `This may take a few minutes on first load.\nThe model files (${modelInfo.size}) will be cached for future use.`;
+
+        // Switching provider or model releases the previous one
+        if (aiState.provider) {
+          await aiState.provider.unload().catch(() => {});
+          updateAIState({ isInitialized: false, provider: null });
+        }
+
+        const client =
+          providerName === "webllm"
+            ? webLLM
+            : createProvider(providerName, { baseUrl: options.url });
+
         // Update state to show loading
         updateAIState({
           isLoading: true,
-          currentModel: modelId,
+          currentModel: modelId ?? null,
         });
 
         // Write initial message if writer is available
         if (context.writer) {
           context.writer(`Initializing ${modelInfo.name}...\r\n`);
-          context.writer(`This may take a few minutes on first load.\r\n`);
-          context.writer(
-            `The model files (${modelInfo.size}) will be cached for future use.\r\n\r\n`,
-          );
+          for (const warning of preflightWarnings) {
+            context.writer(`Warning: ${warning}\r\n`);
+          }
+          if (modelInfo.size) {
+            context.writer(`${cacheNote.replace(/\n/g, "\r\n")}\r\n\r\n`);
+          }
           context.writer("Loading progress:\r\n");
         }
 
@@ -215,7 +954,9 @@ export const aiCommands: Record<string, CommandFunction> = {
           updateAIState({
             isInitialized: true,
             isLoading: false,
-            currentModel: modelId,
+            currentModel: client.getCurrentModel() ?? modelId ?? null,
+            provider: client,
+            url: options.url,
           });
 
           // Write success message
@@ -235,7 +976,14 @@ export const aiCommands: Record<string, CommandFunction> = {
           // Build fallback output when writer is not available
           let fallbackOutput = "";
           if (!context.writer) {
-            fallbackOutput = `Initializing ${modelInfo.name}...\nThis may take a few minutes on first load.\nThe model files (${modelInfo.size}) will be cached for future use.\n\n`;
+            fallbackOutput = `Initializing ${modelInfo.name}...\n`;
+            for (const warning of preflightWarnings) {
+              fallbackOutput += `Warning: ${warning}\n`;
+            }
+            if (modelInfo.size) {
+              fallbackOutput += `${cacheNote}\n`;
+            }
+            fallbackOutput += "\n";
             if (progressSteps.length > 0) {
               fallbackOutput += "Loading progress:\n";
               fallbackOutput += progressSteps.slice(-5).join("\n") + "\n\n";
@@ -254,6 +1002,7 @@ export const aiCommands: Record<string, CommandFunction> = {
             isInitialized: false,
             isLoading: false,
             currentModel: null,
+            provider: null,
           });
 
           const errorMessage =
@@ -263,6 +1012,12 @@ export const aiCommands: Record<string, CommandFunction> = {
             errorMessage.includes("abort") ||
             context.abortController?.signal.aborted;
 
+          // Finished files stay cached, so the download picks up there
+          const resumeNote =
+            providerName === "webllm"
+              ? `Files downloaded so far are kept; run 'ai init${options.model ? ` ${options.model}` : ""}' to resume.`
+              : "";
+
           // Try to clean up WebLLM client on error/cancellation
           try {
             await client.unload();
@@ -280,6 +1035,7 @@ export const aiCommands: Record<string, CommandFunction> = {
             }
             if (isCancelled) {
               context.writer("✗ AI model initialization cancelled");
+              if (resumeNote) context.writer(`\r\n${resumeNote}`);
             } else {
               context.writer(`✗ Error loading model: ${errorMessage}`);
             }
@@ -296,6 +1052,7 @@ export const aiCommands: Record<string, CommandFunction> = {
             }
             if (isCancelled) {
               fallbackErrorOutput += "✗ AI model initialization cancelled";
+              if (resumeNote) fallbackErrorOutput += `\n${resumeNote}`;
             } else {
               fallbackErrorOutput += `✗ Error loading model: ${errorMessage}`;
             }
@@ -330,26 +1087,74 @@ export const aiCommands: Record<string, CommandFunction> = {
         };
       }
 
+      case "providers": {
+        const width = Math.max(...providerNames.map((name) => name.length));
+        const providerList = providerNames
+          .map(
+            (name) =>
+              `  ${name.padEnd(width + 2)} ${modelConfig.providers[name]}${name === modelConfig.defaultProvider ? " (default)" : ""}`,
+          )
+          .join("\n");
+        return {
+          output: `Available providers:\n${providerList}\n\nThe openai provider connects to ${modelConfig.endpointUrl} unless --url is given.`,
+          success: true,
+        };
+      }
+
       case "status": {
         const { WebLLMClient: Client } = await loadWebLLM();
+        const session = await getCurrentSession(context.currentUser);
         return {
           output: [
             "AI Status:",
             `  Initialized: ${aiState.isInitialized ? "Yes" : "No"}`,
+            `  Provider: ${aiState.provider?.name || "None"}`,
             `  Model: ${aiState.currentModel || "None"}`,
             `  WebGPU Support: ${Client && Client.isSupported() ? "Yes" : "No"}`,
-            `  Chat History: ${aiState.chatHistory.length} messages`,
+            `  Persona: ${loadAISettings(context.currentUser).persona}`,
+            `  Session: ${session.name}`,
+            `  Chat History: ${session.messages.length} messages`,
           ].join("\n"),
           success: true,
         };
       }
 
-      case "clear":
-        aiState.chatHistory = [];
+      case "chat":
+        return aiCommands.chat(subArgs, context);
+
+      case "session":
+        return sessionCommand(subArgs, context.currentUser);
+
+      case "agent":
+        return agentCommand(subArgs, context);
+
+      case "cache":
+        return cacheCommand(subArgs);
+
+      case "preflight":
+        return preflightCommand(subArgs);
+
+      case "persona":
+        return personaCommand(subArgs, context.currentUser);
+
+      case "set":
+        return setCommand(subArgs, context.currentUser);
+
+      case "usage":
+        return {
+          output: await usageReport(context.currentUser),
+          success: true,
+        };
+
+      case "clear": {
+        const session = await getCurrentSession(context.currentUser);
+        session.messages = [];
+        await saveSession(session);
         return {
           output: "Chat history cleared.",
           success: true,
         };
+      }
 
       case "stream":
         // Streaming chat is handled by a separate command
@@ -382,8 +1187,8 @@ export const aiCommands: Record<string, CommandFunction> = {
     }
   },
 
-  chat: async (args) => {
-    if (!aiState.isInitialized) {
+  chat: async (args, context) => {
+    if (!aiState.isInitialized || !aiState.provider) {
       return {
         output: 'AI not initialized. Run "ai init" first.',
         success: false,
@@ -399,31 +1204,9 @@ export const aiCommands: Record<string, CommandFunction> = {
 
     const message = args.join(" ");
 
-    // Add user message to chat history
-    aiState.chatHistory.push({ role: "user", content: message });
-
     try {
-      // Dynamically load WebLLM client
-      const { webLLMClient: client } = await loadWebLLM();
-
-      // Generate AI response
-      let output = `[AI Chat Mode]\nUser: ${message}\n\nAssistant: `;
-      let aiResponse = "";
-
-      // For terminal output, we'll collect the full response first
-      await client.chat(aiState.chatHistory, {
-        onToken: (token: string) => {
-          aiResponse += token;
-        },
-      });
-
-      // Add AI response to chat history
-      aiState.chatHistory.push({ role: "assistant", content: aiResponse });
-
-      output += aiResponse;
-
       return {
-        output,
+        output: await reply(aiState.provider, "Chat", message, context),
         success: true,
       };
     } catch (error) {
@@ -434,8 +1217,8 @@ export const aiCommands: Record<string, CommandFunction> = {
     }
   },
 
-  stream: async (args) => {
-    if (!aiState.isInitialized) {
+  stream: async (args, context) => {
+    if (!aiState.isInitialized || !aiState.provider) {
       return {
         output: 'AI not initialized. Run "ai init" first.',
         success: false,
@@ -451,37 +1234,26 @@ export const aiCommands: Record<string, CommandFunction> = {
 
     const message = args.join(" ");
 
-    // Add user message to chat history
-    aiState.chatHistory.push({ role: "user", content: message });
-
     try {
-      // Dynamically load WebLLM client
-      const { webLLMClient: client } = await loadWebLLM();
-
-      // Generate AI response with streaming
-      let output = `[AI Streaming Mode]\nUser: ${message}\n\nAssistant: `;
-      let aiResponse = "";
       let tokenCount = 0;
       const startTime = Date.now();
 
-      await client.chat(aiState.chatHistory, {
-        onToken: (token: string) => {
-          aiResponse += token;
+      const output = await reply(
+        aiState.provider,
+        "Streaming",
+        message,
+        context,
+        () => {
           tokenCount++;
         },
-      });
+      );
 
       const endTime = Date.now();
       const duration = ((endTime - startTime) / 1000).toFixed(2);
-
-      // Add AI response to chat history
-      aiState.chatHistory.push({ role: "assistant", content: aiResponse });
-
-      output += aiResponse;
-      output += `\n\n[Streamed ${tokenCount} tokens in ${duration}s]`;
+      const stats = `[Streamed ${tokenCount} tokens in ${duration}s]`;
 
       return {
-        output,
+        output: [output, stats].filter(Boolean).join("\n\n"),
         success: true,
       };
     } catch (error) {
@@ -521,6 +1293,238 @@ Use 'ai init' to start the conversation.`,
   },
 };
 
+const completeSubcommand = completeWords([
+  "help",
+  "init",
+  "models",
+  "providers",
+  "preflight",
+  "cache",
+  "chat",
+  "stream",
+  "agent",
+  "clear",
+  "session",
+  "persona",
+  "set",
+  "usage",
+  "status",
+]);
+const completeModel = completeWords(modelConfig.models.map(({ id }) => id));
+const completeProvider = completeWords(providerNames);
+const completeSessionAction = completeWords([
+  "new",
+  "list",
+  "switch",
+  "delete",
+  "export",
+]);
+const completeCacheAction = completeWords(["list", "size", "purge"]);
+const completePersonaAction = completeWords(["list", "use", "show"]);
+const completePersona = completeWords(PERSONAS.map(({ name }) => name));
+const completeSetting = completeWords([
+  ...Object.keys(GENERATION_LIMITS),
+  "philosophical",
+  "default",
+]);
+
+// Options of the subcommands that read them, by subcommand (export for
+// ai session export). They are not declared on ai, where every word of a
+// question would be checked as an option
+const SUBCOMMAND_OPTIONS: Record<string, string[]> = {
+  init: ["--provider", "--url", "--force"],
+  agent: ["--steps"],
+  export: ["--json"],
+};
+
+export const aiCommandDefinitions = defineCommands(aiCommands, {
+  ai: {
+    category: "ai",
+    complete: (partial, context, previous) => {
+      if (previous.length === 0) {
+        return completeSubcommand(partial, context, previous);
+      }
+      if (partial.startsWith("-")) {
+        const subcommand =
+          previous[0] === "session" ? previous[1] : previous[0];
+        return completeWords(SUBCOMMAND_OPTIONS[subcommand] || [])(
+          partial,
+          context,
+          previous,
+        );
+      }
+      if (previous[0] === "session") {
+        if (previous.length === 1) {
+          return completeSessionAction(partial, context, previous);
+        }
+        return previous.length === 2 &&
+          ["switch", "delete", "export"].includes(previous[1])
+          ? completeWords(cachedSessionNames(context.currentUser))(
+              partial,
+              context,
+              previous,
+            )
+          : [];
+      }
+      if (previous[0] === "cache") {
+        if (previous.length === 1) {
+          return completeCacheAction(partial, context, previous);
+        }
+        return previous.length === 2 && previous[1] !== "list"
+          ? completeModel(partial, context, previous)
+          : [];
+      }
+      if (previous[0] === "preflight") {
+        return previous.length === 1
+          ? completeModel(partial, context, previous)
+          : [];
+      }
+      if (previous[0] === "persona") {
+        if (previous.length === 1) {
+          return completePersonaAction(partial, context, previous);
+        }
+        return previous.length === 2 && ["use", "show"].includes(previous[1])
+          ? completePersona(partial, context, previous)
+          : [];
+      }
+      if (previous[0] === "set") {
+        if (previous.length === 1) {
+          return completeSetting(partial, context, previous);
+        }
+        if (previous.length !== 2 || previous[1] === "default") return [];
+        return completeWords(
+          previous[1] === "philosophical" ? ["on", "off"] : ["default"],
+        )(partial, context, previous);
+      }
+      if (previous[0] !== "init") return [];
+      const last = previous[previous.length - 1];
+      if (last === "--provider") return completeProvider(partial, context, []);
+      return last === "--url" ? [] : completeModel(partial, context, previous);
+    },
+    summary: "AI assistant commands",
+    synopsis: [
+      "ai [SUBCOMMAND] [ARGS...]",
+      "ai init [--provider NAME] [--url URL] [--force] [MODEL]",
+      "ai preflight [MODEL]",
+      "ai cache [list|size|purge] [MODEL]",
+      "ai session [new|list|switch|delete|export] [NAME]",
+      "ai agent [--steps N] TASK",
+      "ai persona [list|use|show] [NAME]",
+      "ai set [PARAMETER VALUE|default]",
+    ],
+    description: [
+      "Control and interact with the built-in AI assistant. By default the",
+      "model runs in the browser with WebLLM, which needs WebGPU. Without",
+      "it, --provider openai connects to an OpenAI-compatible server such",
+      "as a local Ollama or llama.cpp, which must allow requests from this",
+      "site (CORS). The echo provider repeats messages back, without a model.",
+      "",
+      "Before downloading a WebLLM model, init checks that the GPU likely has",
+      "the memory the model needs and that the browser can store it, and",
+      "suggests a model that fits otherwise. Downloaded files are cached, so",
+      "an init cancelled with Ctrl+C resumes where it stopped.",
+      "",
+      "Conversations are kept in named sessions, saved per user in the",
+      "browser's IndexedDB. When a conversation outgrows the model's context",
+      "window, its oldest messages are left out of the prompt.",
+      "",
+      "A persona sets the system prompt and sampling parameters: 'default'",
+      "turns philosophical when a message touches on meaning or existence,",
+      "'recruiter' stays neutral and factual. 'ai set' overrides the",
+      "temperature, top_p and max_tokens of the persona, and 'ai set",
+      "philosophical off' disables the philosophical mode. Both are saved",
+      "per user.",
+    ],
+    sections: {
+      OPTIONS: [
+        "--provider NAME    Backend for init: webllm, openai or echo",
+        "--url URL          Server of the openai provider",
+        "--force            Load the model even if the preflight check fails",
+        "--steps N          Most commands the agent may run before answering",
+        "--json             Export a session as JSON instead of Markdown",
+        "",
+        "Only init, agent and session export read them; in the text of chat,",
+        "stream and agent, words starting with - are left as they are.",
+      ],
+      SUBCOMMANDS: [
+        "help            Show AI command help",
+        "init [model]    Initialize AI model (default: Llama 3.2 1B)",
+        "models          List available models",
+        "providers       List available providers",
+        "preflight [model]",
+        "                Estimate which models this device can run",
+        "cache [list|size|purge [model]]",
+        "                Show or delete the downloaded model files",
+        "chat <message>  Send a message to the AI",
+        "stream <msg>    Chat with streaming responses",
+        "agent [--steps N] <task>",
+        "                Let the AI run ls, cat, goto, projects and grep to",
+        "                answer, stopping after N steps (default 6)",
+        "clear           Clear chat history",
+        "session [new [name]|list|switch name|delete name]",
+        "                Manage conversations, saved per user in the browser",
+        "session export [name] [--json]",
+        "                Print a conversation as Markdown or JSON",
+        "persona [list|use name|show [name]]",
+        "                List, choose or describe the assistant's personas",
+        "set [parameter value|parameter default|default]",
+        "                Show or change temperature (0-2), top_p (0-1),",
+        "                max_tokens (16-4096) and philosophical (on|off)",
+        "usage           Show estimated prompt and completion tokens",
+        "status          Show AI status",
+      ],
+    },
+    examples: [
+      "ai init                 Initialize default model",
+      "ai init --provider openai --url http://localhost:8080/v1",
+      "ai cache purge Phi-3.5-mini-instruct-q4f16_1-MLC",
+      "ai agent which paper is about blockchain?",
+      "ai session export > chat.md",
+      "ai persona use recruiter",
+      "ai set temperature 0.2",
+      "ai set philosophical off",
+      "ai chat Hello          Send 'Hello' to AI",
+      "ai status              Check if AI is ready",
+    ],
+  },
+  chat: {
+    category: "ai",
+    summary: "quick AI chat interface",
+    synopsis: ["chat <MESSAGE>"],
+    description: [
+      "Send a message directly to the AI assistant. This is a shorthand",
+      "for 'ai chat'. The AI must be initialized first using 'ai init'.",
+      "",
+      "The passages of the portfolio that best match the message are given",
+      "to the model, and the documents they come from are listed as Sources",
+      "under the answer.",
+      "",
+      "The answer appears as it is generated, with its Markdown headings,",
+      "lists, tables and code rendered. Piped, it is printed as written.",
+    ],
+    examples: ["chat What is JavaScript?", "chat Help me write a function"],
+  },
+  stream: {
+    category: "ai",
+    summary: "chat with a streamed response",
+    synopsis: ["stream <MESSAGE>"],
+    description: [
+      "Send a message to the AI assistant and report how many tokens were",
+      "streamed and how long it took. The AI must be initialized first",
+      "using 'ai init'. Answers cite their sources like those of chat.",
+    ],
+    examples: ["stream Explain neuroevolution"],
+  },
+  about: {
+    category: "website",
+    summary: "about Romain Claret",
+    synopsis: ["about"],
+    description: [
+      "Show a short introduction to the author and their research.",
+    ],
+  },
+});
+
 function updateAIState(updates: Partial<AICommandState>): void {
   Object.assign(aiState, updates);
 }
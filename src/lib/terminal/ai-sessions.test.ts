@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AISession, ChatMessage } from "./ai-sessions";
+
+vi.mock("@/lib/utils/dev-logger", () => ({
+  logError: vi.fn(),
+}));
+
+// Sessions are cached per user in the module, so load a fresh copy per
+// test. Without IndexedDB, as in jsdom, they live in memory only
+const loadModule = () => import("./ai-sessions");
+
+const message = (content: string): ChatMessage => ({ role: "user", content });
+
+describe("Terminal AI Sessions", () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it("starts every user with a default session", async () => {
+    const { getCurrentSession, listSessions } = await loadModule();
+
+    expect((await getCurrentSession("guest")).name).toBe("default");
+    expect((await listSessions("alice")).map(({ id }) => id)).toEqual([
+      "alice/default",
+    ]);
+  });
+
+  it("creates, switches and deletes sessions", async () => {
+    const {
+      createSession,
+      deleteSession,
+      getCurrentSession,
+      listSessions,
+      switchSession,
+    } = await loadModule();
+
+    expect((await createSession("guest", "papers"))?.name).toBe("papers");
+    expect(await createSession("guest", "papers")).toBeNull();
+    expect((await createSession("guest"))?.name).toBe("session-3");
+    expect((await getCurrentSession("guest")).name).toBe("session-3");
+
+    expect(await switchSession("guest", "papers")).toBe(true);
+    expect(await switchSession("guest", "missing")).toBe(false);
+    expect((await getCurrentSession("guest")).name).toBe("papers");
+
+    expect(await deleteSession("guest", "papers")).toBe(true);
+    expect(await deleteSession("guest", "papers")).toBe(false);
+    expect((await getCurrentSession("guest")).name).not.toBe("papers");
+    expect((await listSessions("guest")).map(({ name }) => name)).toEqual([
+      "default",
+      "session-3",
+    ]);
+  });
+
+  it("replaces the last session with a new default one", async () => {
+    const { deleteSession, getCurrentSession } = await loadModule();
+    const session = await getCurrentSession("guest");
+    session.messages.push(message("hello"));
+
+    await deleteSession("guest", "default");
+
+    const replacement = await getCurrentSession("guest");
+    expect(replacement.name).toBe("default");
+    expect(replacement.messages).toEqual([]);
+  });
+
+  it("keeps the most recent messages that fit the budget", async () => {
+    const { fitToContext } = await loadModule();
+    const messages = [
+      message("a".repeat(40)),
+      message("b".repeat(40)),
+      message("c".repeat(40)),
+    ];
+
+    expect(fitToContext(messages, 20)).toEqual({
+      messages: messages.slice(1),
+      dropped: 1,
+    });
+    // The question itself is always sent
+    expect(fitToContext(messages, 0)).toEqual({
+      messages: messages.slice(2),
+      dropped: 2,
+    });
+  });
+
+  it("exports conversations as Markdown and JSON", async () => {
+    const { exportJson, exportMarkdown } = await loadModule();
+    const session: AISession = {
+      id: "guest/demo",
+      user: "guest",
+      name: "demo",
+      messages: [message("Hi"), { role: "assistant", content: "Hello" }],
+      usage: { prompt: 10, completion: 2 },
+      created: Date.UTC(2025, 0, 2),
+      updated: Date.UTC(2025, 0, 3),
+    };
+
+    expect(exportMarkdown(session)).toBe(
+      "# demo\n\n*2025-01-02T00:00:00.000Z*\n\n## User\n\nHi\n\n## Assistant\n\nHello",
+    );
+    expect(JSON.parse(exportJson(session))).toEqual({
+      name: "demo",
+      created: "2025-01-02T00:00:00.000Z",
+      updated: "2025-01-03T00:00:00.000Z",
+      usage: { prompt: 10, completion: 2 },
+      messages: session.messages,
+    });
+  });
+});
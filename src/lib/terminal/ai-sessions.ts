@@ -0,0 +1,272 @@
+// Named AI conversations: kept per user in IndexedDB so they survive the
+// terminal closing, exported as Markdown or JSON, and trimmed to fit the
+// model's context window
+import { logError } from "@/lib/utils/dev-logger";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+}
+
+export interface AISession {
+  id: string; // "user/name", the IndexedDB key
+  user: string;
+  name: string;
+  messages: ChatMessage[];
+  usage: TokenUsage;
+  created: number;
+  updated: number;
+}
+
+export const DEFAULT_SESSION = "default";
+
+const DB_NAME = "terminal-ai";
+const STORE = "sessions";
+
+// Sessions of a user by name, and the one chats go to
+interface UserSessions {
+  byName: Map<string, AISession>;
+  current: AISession;
+}
+
+// Sessions of each user, loaded from IndexedDB on first use
+const sessions = new Map<string, UserSessions>();
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Resolve an IndexedDB request
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The database, or null where IndexedDB is unavailable, e.g. on the
+// server or in private windows of some browsers; sessions then only last
+// until the page is closed
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    if (typeof indexedDB === "undefined") {
+      database = Promise.resolve(null);
+    } else {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, {
+          keyPath: "id",
+        });
+        store.createIndex("user", "user");
+      };
+      database = settle(request).catch((error) => {
+        logError(error, "Terminal AI Sessions Open");
+        return null;
+      });
+    }
+  }
+  return database;
+}
+
+async function persist(session: AISession): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await settle(
+      db.transaction(STORE, "readwrite").objectStore(STORE).put(session),
+    );
+  } catch (error) {
+    logError(error, "Terminal AI Sessions Save");
+  }
+}
+
+async function unpersist(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await settle(
+      db.transaction(STORE, "readwrite").objectStore(STORE).delete(id),
+    );
+  } catch (error) {
+    logError(error, "Terminal AI Sessions Delete");
+  }
+}
+
+function newSession(user: string, name: string): AISession {
+  const now = Date.now();
+  return {
+    id: `${user}/${name}`,
+    user,
+    name,
+    messages: [],
+    usage: { prompt: 0, completion: 0 },
+    created: now,
+    updated: now,
+  };
+}
+
+function mostRecent(byName: Map<string, AISession>): AISession | undefined {
+  return [...byName.values()].sort((a, b) => b.updated - a.updated)[0];
+}
+
+// Sessions of a user. The most recently updated one is current when the
+// terminal opens, and a default session always exists
+async function userSessions(user: string): Promise<UserSessions> {
+  const cached = sessions.get(user);
+  if (cached) return cached;
+
+  let stored: AISession[] = [];
+  const db = await openDatabase();
+  if (db) {
+    try {
+      const index = db.transaction(STORE).objectStore(STORE).index("user");
+      stored = await settle(index.getAll(user));
+    } catch (error) {
+      logError(error, "Terminal AI Sessions Load");
+    }
+  }
+
+  // Another call may have finished loading while this one waited
+  const loaded = sessions.get(user);
+  if (loaded) return loaded;
+
+  const byName = new Map(stored.map((session) => [session.name, session]));
+  const initial = mostRecent(byName) || newSession(user, DEFAULT_SESSION);
+  byName.set(initial.name, initial);
+
+  const entry = { byName, current: initial };
+  sessions.set(user, entry);
+  return entry;
+}
+
+export async function listSessions(user: string): Promise<AISession[]> {
+  const { byName } = await userSessions(user);
+  return [...byName.values()].sort((a, b) => a.created - b.created);
+}
+
+export async function getCurrentSession(user: string): Promise<AISession> {
+  return (await userSessions(user)).current;
+}
+
+export async function getSession(
+  user: string,
+  name: string,
+): Promise<AISession | null> {
+  return (await userSessions(user)).byName.get(name) || null;
+}
+
+// Names of a user's sessions once they are loaded, for completion
+export function cachedSessionNames(user: string): string[] {
+  return [...(sessions.get(user)?.byName.keys() || [])];
+}
+
+// Create a session and make it current; null when the name is taken
+export async function createSession(
+  user: string,
+  name?: string,
+): Promise<AISession | null> {
+  const entry = await userSessions(user);
+  if (!name) {
+    let n = entry.byName.size + 1;
+    while (entry.byName.has(`session-${n}`)) n++;
+    name = `session-${n}`;
+  }
+  if (entry.byName.has(name)) return null;
+
+  const session = newSession(user, name);
+  entry.byName.set(name, session);
+  entry.current = session;
+  await persist(session);
+  return session;
+}
+
+// Make a session current; false when there is none with that name
+export async function switchSession(
+  user: string,
+  name: string,
+): Promise<boolean> {
+  const entry = await userSessions(user);
+  const session = entry.byName.get(name);
+  if (!session) return false;
+  entry.current = session;
+  return true;
+}
+
+// Delete a session. Deleting the current one switches to the most recent
+// of the others, or to a new default session when it was the last
+export async function deleteSession(
+  user: string,
+  name: string,
+): Promise<boolean> {
+  const entry = await userSessions(user);
+  const session = entry.byName.get(name);
+  if (!session) return false;
+
+  entry.byName.delete(name);
+  await unpersist(session.id);
+
+  if (entry.current === session) {
+    entry.current =
+      mostRecent(entry.byName) || newSession(user, DEFAULT_SESSION);
+    entry.byName.set(entry.current.name, entry.current);
+  }
+  return true;
+}
+
+// Save a session after its messages or usage changed
+export async function saveSession(session: AISession): Promise<void> {
+  session.updated = Date.now();
+  await persist(session);
+}
+
+// Rough token count, about four characters per token for English text;
+// the providers do not all report real counts
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// The most recent messages that fit in the budget, always including the
+// last one, and how many older messages were left out
+export function fitToContext(
+  messages: ChatMessage[],
+  budget: number,
+): { messages: ChatMessage[]; dropped: number } {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content);
+    if (start < messages.length && used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+  return { messages: messages.slice(start), dropped: start };
+}
+
+// A conversation as Markdown, one section per message
+export function exportMarkdown(session: AISession): string {
+  return [
+    `# ${session.name}`,
+    `*${new Date(session.created).toISOString()}*`,
+    ...session.messages.map(
+      ({ role, content }) =>
+        `## ${role === "user" ? "User" : "Assistant"}\n\n${content}`,
+    ),
+  ].join("\n\n");
+}
+
+export function exportJson(session: AISession): string {
+  const { name, messages, usage, created, updated } = session;
+  return JSON.stringify(
+    {
+      name,
+      created: new Date(created).toISOString(),
+      updated: new Date(updated).toISOString(),
+      usage,
+      messages,
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  effectivePersona,
+  loadAISettings,
+  parseGenerationValue,
+  saveAISettings,
+} from "./ai-settings";
+import { buildSystemPrompt, generationConfig } from "@/lib/webllm/prompt";
+
+describe("Terminal AI Settings", () => {
+  it("saves settings per user", () => {
+    saveAISettings("alice", {
+      persona: "recruiter",
+      philosophical: false,
+      generation: { temperature: 0.2 },
+    });
+
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      "terminal-ai-settings-alice",
+      '{"persona":"recruiter","philosophical":false,"generation":{"temperature":0.2}}',
+    );
+  });
+
+  it("drops unknown personas and out-of-range values", () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(
+      JSON.stringify({
+        persona: "pirate",
+        philosophical: false,
+        generation: { temperature: 5, top_p: 0.5, seed: 1 },
+      }),
+    );
+
+    expect(loadAISettings("alice")).toEqual({
+      persona: "default",
+      philosophical: false,
+      generation: { top_p: 0.5 },
+    });
+    expect(localStorage.getItem).toHaveBeenCalledWith(
+      "terminal-ai-settings-alice",
+    );
+  });
+
+  it("falls back to the defaults on corrupt data", () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce("{oops");
+    expect(loadAISettings("guest")).toEqual({
+      persona: "default",
+      philosophical: true,
+      generation: {},
+    });
+  });
+
+  it("parses parameter values within their limits", () => {
+    expect(parseGenerationValue("temperature", "1.5")).toEqual({ value: 1.5 });
+    expect(parseGenerationValue("temperature", "")).toEqual({
+      error: "temperature must be a number from 0 to 2",
+    });
+    expect(parseGenerationValue("max_tokens", "512")).toEqual({ value: 512 });
+    expect(parseGenerationValue("max_tokens", "1e9")).toHaveProperty("error");
+  });
+
+  it("switches the philosophical mode off", () => {
+    const question = [{ role: "user" as const, content: "Why existence?" }];
+    const on = effectivePersona(loadAISettings("guest"));
+    const off = effectivePersona({
+      persona: "default",
+      philosophical: false,
+      generation: {},
+    });
+
+    expect(buildSystemPrompt(question, undefined, on)).toContain("Nietzsche");
+    expect(buildSystemPrompt(question, undefined, off)).not.toContain(
+      "Nietzsche",
+    );
+  });
+
+  it("layers the persona and user sampling parameters", () => {
+    const recruiter = effectivePersona({
+      persona: "recruiter",
+      philosophical: true,
+      generation: {},
+    });
+
+    expect(
+      generationConfig({ persona: recruiter, generation: { top_p: 0.5 } }),
+    ).toEqual({ temperature: 0.2, top_p: 0.5, max_tokens: 1024 });
+  });
+});
@@ -0,0 +1,110 @@
+// Assistant preferences, saved per user: the persona, whether messages
+// may switch on the philosophical mode, and sampling parameters
+import { logError } from "@/lib/utils/dev-logger";
+import {
+  DEFAULT_PERSONA,
+  getPersona,
+  type GenerationConfig,
+  type Persona,
+} from "@/lib/webllm/personas";
+
+const STORAGE_PREFIX = "terminal-ai-settings-";
+
+export type GenerationParameter = keyof GenerationConfig;
+
+export interface AISettings {
+  persona: string;
+  philosophical: boolean;
+  generation: Partial<GenerationConfig>; // Over the persona's parameters
+}
+
+// Accepted values of each sampling parameter
+export const GENERATION_LIMITS: Record<
+  GenerationParameter,
+  { min: number; max: number; integer?: boolean }
+> = {
+  temperature: { min: 0, max: 2 },
+  top_p: { min: 0, max: 1 },
+  max_tokens: { min: 16, max: 4096, integer: true },
+};
+
+export function isGenerationParameter(
+  name: string,
+): name is GenerationParameter {
+  return Object.hasOwn(GENERATION_LIMITS, name);
+}
+
+export function defaultAISettings(): AISettings {
+  return { persona: DEFAULT_PERSONA.name, philosophical: true, generation: {} };
+}
+
+// Read a parameter value, or explain what it accepts
+export function parseGenerationValue(
+  name: GenerationParameter,
+  value: string,
+): { value: number } | { error: string } {
+  const { min, max, integer } = GENERATION_LIMITS[name];
+  const number = Number(value);
+  if (
+    value.trim() === "" ||
+    !Number.isFinite(number) ||
+    number < min ||
+    number > max ||
+    (integer && !Number.isInteger(number))
+  ) {
+    return {
+      error: `${name} must be ${integer ? "an integer" : "a number"} from ${min} to ${max}`,
+    };
+  }
+  return { value: number };
+}
+
+export function loadAISettings(username: string): AISettings {
+  const settings = defaultAISettings();
+  if (typeof window === "undefined") return settings;
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_PREFIX + username) || "{}",
+    );
+    if (typeof stored.persona === "string" && getPersona(stored.persona)) {
+      settings.persona = stored.persona;
+    }
+    if (typeof stored.philosophical === "boolean") {
+      settings.philosophical = stored.philosophical;
+    }
+    // Values saved under other limits are dropped rather than clamped
+    for (const [name, value] of Object.entries(stored.generation || {})) {
+      if (!isGenerationParameter(name)) continue;
+      const parsed = parseGenerationValue(name, String(value));
+      if ("value" in parsed) settings.generation[name] = parsed.value;
+    }
+  } catch (error) {
+    logError(error, "Terminal AI Settings Load");
+  }
+  return settings;
+}
+
+export function saveAISettings(username: string, settings: AISettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(settings));
+  } catch (error) {
+    logError(error, "Terminal AI Settings Save");
+  }
+}
+
+// The persona the settings select, without the philosophical trigger
+// when that mode is off
+export function effectivePersona(settings: AISettings): Persona {
+  const persona = getPersona(settings.persona) || DEFAULT_PERSONA;
+  return settings.philosophical
+    ? persona
+    : {
+        ...persona,
+        triggers: persona.triggers.filter(
+          ({ name }) => name !== "philosophical",
+        ),
+      };
+}
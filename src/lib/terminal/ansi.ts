@@ -0,0 +1,10 @@
+// ANSI escape sequence helpers for terminal output
+
+// Matches CSI sequences such as colors (\x1b[1;32m) and cursor movement
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+// Remove ANSI escape sequences, leaving only the visible text
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
@@ -47,10 +47,15 @@ import type { CommandsObject } from "@/test/mock-types";
 vi.mock("./fileSystem", () => ({
   getFileAtPath: vi.fn(),
   resolvePath: vi.fn(),
+  getParentPath: vi.fn(),
+  showsPortfolio: vi.fn(),
+  writeFile: vi.fn(),
 }));
 
 vi.mock("./users", () => ({
   getUser: vi.fn(),
+  getHomePath: vi.fn(),
+  isLocalAccount: vi.fn(() => false),
   listUsernames: vi.fn(() => ["guest", "admin"]),
 }));
 
@@ -67,14 +72,17 @@ vi.mock("@/lib/api/fetch-external-data", () => ({
   fetchMediumPosts: vi.fn(() => Promise.resolve([])),
 }));
 
-vi.mock("./ai-commands", () => ({
-  aiCommands: {
-    ai: vi.fn(),
-    chat: vi.fn(),
-    stream: vi.fn(),
-    about: vi.fn(),
-  },
-}));
+// Keep the real definitions, so help, man and completion see them
+vi.mock("./ai-commands", async (importOriginal) => {
+  const { aiCommandDefinitions } =
+    await importOriginal<typeof import("./ai-commands")>();
+  return {
+    aiCommandDefinitions: aiCommandDefinitions.map((definition) => ({
+      ...definition,
+      run: vi.fn(),
+    })),
+  };
+});
 
 vi.mock("@/data/sections/contact", () => ({
   contactInfo: {
@@ -328,6 +336,16 @@ describe("Terminal Commands", () => {
       expect(result.output).toContain("-rw-r--r--");
     });
 
+    it.each([["-al"], ["-l", "-a"], ["-l", "--all"]])(
+      "reads the flags of ls %s",
+      (...flags) => {
+        const result = commands.ls(flags, mockContext) as CommandResult;
+
+        expect(result.output).toContain(".hidden");
+        expect(result.output).toContain("-rw-r--r--");
+      },
+    );
+
     it("shows single file info", () => {
       const result = commands.ls(["file1.txt"], mockContext) as CommandResult;
 
@@ -452,6 +470,25 @@ describe("Terminal Commands", () => {
       expect(result.success).toBe(false);
       expect(result.output).toContain("not a directory");
     });
+
+    it("returns to the previous directory with cd -", () => {
+      const result = commands.cd(["-"], {
+        ...mockContext,
+        currentDirectory: "/docs",
+        previousDirectory: "/dir1",
+      }) as CommandResult;
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("/dir1");
+      expect(mockContext.setCurrentDirectory).toHaveBeenCalledWith("/dir1");
+    });
+
+    it("fails cd - without a previous directory", () => {
+      const result = commands.cd(["-"], mockContext) as CommandResult;
+
+      expect(result.success).toBe(false);
+      expect(result.output).toBe("cd: OLDPWD not set");
+    });
   });
 
   describe("pwd command", () => {
@@ -515,6 +552,13 @@ describe("Terminal Commands", () => {
         if (path === "/file.txt") {
           return { type: "file", name: "file.txt", content: "Test content" };
         }
+        if (path === "/notes.md") {
+          return {
+            type: "file",
+            name: "notes.md",
+            content: "# Notes\n- **one**",
+          };
+        }
         if (path === "/docs") {
           return { type: "directory", name: "docs" };
         }
@@ -583,6 +627,19 @@ describe("Terminal Commands", () => {
       expect(result.success).toBe(false);
       expect(result.output).toContain("Is a directory");
     });
+
+    it("renders Markdown files unless piped", () => {
+      const rendered = commands.cat(["notes.md"], mockContext) as CommandResult;
+      expect(rendered.output).toBe(
+        "\x1b[1;4;36mNotes\x1b[0m\n  \x1b[36m•\x1b[39m \x1b[1mone\x1b[22m",
+      );
+
+      const piped = commands.cat(["notes.md"], {
+        ...mockContext,
+        piped: true,
+      }) as CommandResult;
+      expect(piped.output).toBe("# Notes\n- **one**");
+    });
   });
 
   describe("clear command", () => {
@@ -690,6 +747,47 @@ describe("Terminal Commands", () => {
       expect(result.output).not.toContain("Admin privileges");
     });
 
+    it("challenges accounts with a password", async () => {
+      const { getUser } = await import("./users");
+      const { hashPassword } = await import("./accounts");
+      const passwordHash = await hashPassword("pw");
+      vi.mocked(getUser).mockReturnValue({
+        username: "alice",
+        displayName: "Alice",
+        passwordHash,
+        homeDirectory: { type: "directory", name: "alice", children: {} },
+      });
+      const keys = ["wrong", "\r", "pw", "\r"];
+      const context = {
+        ...mockContext,
+        writer: vi.fn(),
+        readKey: vi.fn(() => Promise.resolve(keys.shift()!)),
+      };
+
+      expect(await commands.login(["alice"], context)).toEqual({
+        output: "Login incorrect",
+        success: false,
+      });
+      expect(mockContext.setCurrentUser).not.toHaveBeenCalled();
+
+      const result = await commands.login(["alice"], context);
+      expect(result.output).toContain("Welcome, Alice!");
+      expect(mockContext.setCurrentUser).toHaveBeenCalledWith("alice");
+    });
+
+    it("refuses local accounts without a password or key", async () => {
+      const { isLocalAccount } = await import("./users");
+      vi.mocked(isLocalAccount).mockReturnValue(true);
+      const context = { ...mockContext, writer: vi.fn(), readKey: vi.fn() };
+
+      expect(await commands.login(["user"], context)).toEqual({
+        output: "Login incorrect",
+        success: false,
+      });
+      expect(context.readKey).not.toHaveBeenCalled();
+      expect(mockContext.setCurrentUser).not.toHaveBeenCalled();
+    });
+
     it("handles non-existent user", () => {
       const result = commands.login(
         ["nonexistent"],
@@ -1175,6 +1273,36 @@ describe("Terminal Commands", () => {
         "Permission denied: This command requires administrator privileges.",
       );
     });
+
+    it("runs commands for administrators after their password", async () => {
+      const { getUser } = await import("./users");
+      const { hashPassword } = await import("./accounts");
+      const passwordHash = await hashPassword("pw");
+      vi.mocked(getUser).mockReturnValue({
+        username: "root",
+        displayName: "Root",
+        isAdmin: true,
+        passwordHash,
+        homeDirectory: { type: "directory", name: "root", children: {} },
+      });
+      const keys = ["nope", "\r", "pw", "\r"];
+      const context = {
+        ...mockContext,
+        currentUser: "root",
+        writer: vi.fn(),
+        readKey: vi.fn(() => Promise.resolve(keys.shift()!)),
+      };
+
+      expect(await commands.sudo(["whoami"], context)).toEqual({
+        output: "sudo: Authentication failure",
+        success: false,
+      });
+      expect(await commands.sudo(["whoami"], context)).toEqual({
+        output: "root",
+        success: true,
+      });
+      expect(context.writer).toHaveBeenCalledWith("[sudo] password for root: ");
+    });
   });
 });
 
@@ -1222,6 +1350,158 @@ describe("executeCommand", () => {
     expect(result.output).toBe("hello world");
     expect(result.success).toBe(true);
   });
+
+  it("preserves quoted whitespace", async () => {
+    const result = await executeCommand('echo "hello   world"', mockContext);
+    expect(result.output).toBe("hello   world");
+  });
+
+  it("reports parse errors", async () => {
+    const result = await executeCommand("echo 'unterminated", mockContext);
+    expect(result.success).toBe(false);
+    expect(result.output).toContain("parse error");
+  });
+
+  it("pipes output into the next command's stdin", async () => {
+    const result = await executeCommand("echo piped | cat", mockContext);
+    expect(result.output).toBe("piped");
+    expect(result.success).toBe(true);
+  });
+
+  it("pipes command output through text filters", async () => {
+    const result = await executeCommand(
+      "help | grep -i 'posix-like' | wc -l",
+      mockContext,
+    );
+    expect(result.output.trim()).toBe("1");
+    expect(result.success).toBe(true);
+  });
+
+  it("runs commands separated by semicolons", async () => {
+    const result = await executeCommand("echo one; echo two", mockContext);
+    expect(result.output).toBe("one\ntwo");
+  });
+
+  it("short-circuits && and || chains", async () => {
+    const failed = await executeCommand(
+      "nonexistent && echo skipped || echo fallback",
+      mockContext,
+    );
+    expect(failed.output).toBe("nonexistent: command not found\nfallback");
+    expect(failed.success).toBe(true);
+
+    const succeeded = await executeCommand(
+      "echo ok || echo skipped",
+      mockContext,
+    );
+    expect(succeeded.output).toBe("ok");
+  });
+
+  it("redirects output into a file", async () => {
+    const { getFileAtPath, resolvePath, getParentPath, writeFile } =
+      await import("./fileSystem");
+    vi.mocked(resolvePath).mockImplementation((_current, target) =>
+      target.startsWith("/") ? target : `/${target}`,
+    );
+    vi.mocked(getParentPath).mockReturnValue("/");
+    vi.mocked(getFileAtPath).mockImplementation((path) =>
+      path === "/" ? { type: "directory", name: "/", children: {} } : null,
+    );
+    vi.mocked(writeFile).mockReturnValue({ type: "file", name: "out.txt" });
+
+    const result = await executeCommand("echo saved >> out.txt", mockContext);
+
+    expect(result.output).toBe("");
+    expect(result.success).toBe(true);
+    expect(writeFile).toHaveBeenCalledWith("/out.txt", "saved\n", true);
+  });
+
+  describe("variables and aliases", () => {
+    beforeEach(() => {
+      mockContext.env = {};
+      mockContext.aliases = {};
+    });
+
+    it("expands variables set by earlier commands", async () => {
+      const result = await executeCommand(
+        'export GREETING="hello world"; echo "$GREETING, $USER"',
+        mockContext,
+      );
+      expect(result.output).toBe("hello world, guest");
+      expect(mockContext.env!.GREETING).toBe("hello world");
+    });
+
+    it("sets variables with bare assignments", async () => {
+      const result = await executeCommand("X=1; echo $X$X", mockContext);
+      expect(result.output).toBe("11");
+    });
+
+    it("tracks the exit status in $?", async () => {
+      const result = await executeCommand(
+        "nope; echo $?; echo ok; echo $?",
+        mockContext,
+      );
+      expect(result.output).toBe("nope: command not found\n1\nok\n0");
+    });
+
+    it("expands $PWD after directory changes", async () => {
+      const result = await executeCommand("echo $PWD", {
+        ...mockContext,
+        currentDirectory: "/docs",
+      });
+      expect(result.output).toBe("/docs");
+    });
+
+    it("runs aliases with extra arguments", async () => {
+      await executeCommand("alias say='echo said:'", mockContext);
+      const result = await executeCommand("say hi 'there you'", mockContext);
+      expect(result.output).toBe("said: hi there you");
+    });
+
+    it("supports pipelines in aliases and does not recurse", async () => {
+      mockContext.aliases = { echo: "echo again", shout: "echo hi | grep hi" };
+      expect((await executeCommand("echo x", mockContext)).output).toBe(
+        "again x",
+      );
+      expect((await executeCommand("shout", mockContext)).output).toBe(
+        "again hi",
+      );
+    });
+  });
+
+  it("sources files in the current session", async () => {
+    const { getFileAtPath, resolvePath } = await import("./fileSystem");
+    vi.mocked(resolvePath).mockImplementation((_current, target) => target);
+    vi.mocked(getFileAtPath).mockReturnValue({
+      type: "file",
+      name: ".profile",
+      content: "# comment\n\nexport NAME=\"guest\"\nalias hi='echo hi $NAME'\n",
+    });
+    mockContext.env = {};
+    mockContext.aliases = {};
+
+    const result = await executeCommand("source ~/.profile; hi", mockContext);
+
+    expect(result.output).toBe("hi guest");
+    expect(mockContext.aliases.hi).toBe("echo hi $NAME");
+  });
+
+  it("applies directory changes to the rest of the chain", async () => {
+    const { getFileAtPath, resolvePath } = await import("./fileSystem");
+    vi.mocked(resolvePath).mockImplementation((current, target) =>
+      target.startsWith("/") ? target : `${current}${target}`,
+    );
+    vi.mocked(getFileAtPath).mockReturnValue({
+      type: "directory",
+      name: "docs",
+      children: {},
+    });
+
+    const result = await executeCommand("cd /docs; pwd; cd -", mockContext);
+
+    expect(result.output).toBe("/docs\n/");
+    expect(mockContext.setCurrentDirectory).toHaveBeenLastCalledWith("/");
+  });
 });
 
 describe("getCompletions", () => {
@@ -1238,7 +1518,7 @@ describe("getCompletions", () => {
       closeTerminal: vi.fn(),
     };
 
-    const { getFileAtPath } = await import("./fileSystem");
+    const { getFileAtPath, resolvePath } = await import("./fileSystem");
     vi.mocked(getFileAtPath).mockImplementation((path) => {
       if (path === "/") {
         return {
@@ -1250,8 +1530,25 @@ describe("getCompletions", () => {
           },
         };
       }
+      if (path === "/docs") {
+        return {
+          type: "directory",
+          name: "docs",
+          children: {
+            "api.md": { type: "file", name: "api.md" },
+          },
+        };
+      }
       return null;
     });
+    vi.mocked(resolvePath).mockImplementation((current, target) =>
+      target === "." ? current : `/${target.replace(/^\/|\/$/g, "")}`,
+    );
+  });
+
+  it("completes paths relative to the directory being typed", () => {
+    expect(getCompletions("cat docs/a", mockContext)).toEqual(["docs/api.md"]);
+    expect(getCompletions("cat /d", mockContext)).toEqual(["/docs/"]);
   });
 
   it("completes command names", () => {
@@ -1363,6 +1660,14 @@ describe("getCompletions", () => {
     );
   });
 
+  it("completes option flags, usernames and model ids", () => {
+    expect(getCompletions("ls -", mockContext)).toEqual(["--all", "-a", "-l"]);
+    expect(getCompletions("login g", mockContext)).toEqual(["guest"]);
+    expect(getCompletions("ai init phi", mockContext)).toEqual([
+      "Phi-3.5-mini-instruct-q4f16_1-MLC",
+    ]);
+  });
+
   it("returns empty array for unknown command", () => {
     const completions = getCompletions("unknown ", mockContext);
     expect(completions).toEqual([]);
@@ -1,7 +1,62 @@
 // Terminal command implementations
 
-import { getFileAtPath, resolvePath } from "./fileSystem";
-import { aiCommands } from "./ai-commands";
+import {
+  getFileAtPath,
+  getParentPath,
+  resolvePath,
+  writeFile,
+  VirtualFile,
+} from "./fileSystem";
+import {
+  expandVariables,
+  formatChain,
+  isArgumentList,
+  parseCommandLine,
+  type ChainEntry,
+  Pipeline,
+  SimpleCommand,
+} from "./parser";
+import { stripAnsi } from "./ansi";
+import { renderMarkdown } from "./markdown";
+import { aiCommandDefinitions } from "./ai-commands";
+import { textCommandDefinitions } from "./text-commands";
+import { fileCommandDefinitions } from "./file-commands";
+import { accountCommandDefinitions } from "./account-commands";
+import { paneCommandDefinitions } from "./pane-commands";
+import { scriptCommandDefinitions } from "./script-commands";
+import { recordCommandDefinitions } from "./record-commands";
+import { settingsCommandDefinitions } from "./settings-commands";
+import { jobCommandDefinitions } from "./job-commands";
+import { shareCommandDefinitions } from "./share-commands";
+import { transferCommandDefinitions } from "./transfer-commands";
+import { parseScript, runScript, type ScriptNode } from "./script";
+import type { PaneControl } from "./layout";
+import type { RecordingControl } from "./recording";
+import type { Job, JobTable } from "./jobs";
+import { authenticate, authenticateSudo, isOpenAccount } from "./accounts";
+import { completeLine } from "./completion";
+import { loadPortfolioFeeds } from "./portfolio";
+import {
+  lookupVariable,
+  parseAssignment,
+  shellCommandDefinitions,
+  shellQuote,
+  trackSession,
+} from "./shell-commands";
+import {
+  COMMAND_CATEGORIES,
+  completeDirectories,
+  completeFirst,
+  completePaths,
+  completeWords,
+  defineCommands,
+  formatManual,
+  getCommandDefinition,
+  listCommandDefinitions,
+  readsPortfolio,
+  registerCommands,
+  validateArguments,
+} from "./registry";
 import { getUser, listUsernames } from "./users";
 import { contactInfo } from "@/data/sections/contact";
 import { socialMediaLinks } from "@/data/sections/social";
@@ -18,7 +73,20 @@ export interface CommandContext {
   terminalCols?: number;
   terminalRows?: number;
   writer?: (text: string) => void;
+  piped?: boolean; // Output goes to a pipe or file, so it is left unstyled
   abortController?: AbortController;
+  stdin?: string; // Output of the previous command in a pipeline
+  readKey?: () => Promise<string>; // Next keypress, for interactive commands
+  previousDirectory?: string; // OLDPWD, the directory cd - returns to
+  env?: Record<string, string>; // Session variables, changed by export/unset
+  aliases?: Record<string, string>; // Session aliases, changed by alias/unalias
+  functions?: Record<string, CommandFunction>; // Shell functions from scripts
+  positional?: string[]; // $0 and the arguments of a script or function
+  privileged?: boolean; // Set by sudo for administrators
+  history?: string[]; // The session's command history, oldest first
+  panes?: PaneControl; // Tabs and split panes of the terminal window
+  recording?: RecordingControl; // Session recording of the pane
+  jobs?: JobTable; // Background and stopped jobs of the pane
 }
 
 export interface CommandResult {
@@ -31,89 +99,173 @@ export type CommandFunction = (
   context: CommandContext,
 ) => CommandResult | Promise<CommandResult>;
 
-export const commands: Record<string, CommandFunction> = {
-  help: () => {
-    const systemCommands = [
-      { cmd: "help", desc: "Show this help message" },
-      { cmd: "man [command]", desc: "Display command manual pages" },
-      {
-        cmd: "fps",
-        desc: "Open lightweight FPS monitor (no performance impact)",
-      },
-      { cmd: "performance [action]", desc: "Performance monitoring controls" },
-    ];
+// Website sections goto can scroll to
+const SECTIONS = [
+  "home",
+  "skills",
+  "experience",
+  "projects",
+  "research",
+  "papers",
+  "education",
+  "blog",
+  "contact",
+];
+
+// One Markdown file per GitHub repository
+const PROJECTS_DIRECTORY = "/portfolio/projects";
+
+// Repository names, fetched the first time they are needed
+function projectNames(): string[] {
+  void loadPortfolioFeeds();
+  const directory = getFileAtPath(PROJECTS_DIRECTORY);
+  return Object.keys(directory?.children || {})
+    .filter((name) => name.endsWith(".md") && name !== "README.md")
+    .map((name) => name.slice(0, -3));
+}
 
-    const posixCommands = [
-      { cmd: "ls [path]", desc: "List directory contents" },
-      { cmd: "cd <path>", desc: "Change directory" },
-      { cmd: "pwd", desc: "Print working directory" },
-      { cmd: "cat <file>", desc: "Display file contents" },
-      { cmd: "clear", desc: "Clear the terminal" },
-      { cmd: "echo <text>", desc: "Display text" },
-      { cmd: "whoami", desc: "Display current user" },
-      { cmd: "date", desc: "Display current date and time" },
-      { cmd: "exit", desc: "Close the terminal" },
-    ];
+// Files from the static tree have no timestamp; show when the session began
+const SESSION_START = Date.now();
 
-    const websiteCommands = [
-      { cmd: "goto <section>", desc: "Navigate to any website section" },
-      { cmd: "resume", desc: "Display resume/CV information" },
-      { cmd: "contact", desc: "Show contact information" },
-      { cmd: "email", desc: "Copy email to clipboard" },
-      { cmd: "socialmedia", desc: "Show all social media commands" },
-      {
-        cmd: "animations <command>",
-        desc: "Control quality and background animations",
-      },
-      { cmd: "reload", desc: "Refresh the webpage" },
-    ];
+// One line of `ls -l`: permissions, size in bytes, modification time, name
+function formatLongEntry(file: VirtualFile, name: string): string {
+  const date = new Date(file.modified ?? SESSION_START)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
 
-    const aiCommands = [
-      { cmd: "ai <command>", desc: "AI assistant commands" },
-      { cmd: "chat <message>", desc: "Chat with AI assistant" },
-    ];
+  if (file.link) {
+    const size = String(file.link.length);
+    return `lrwxrwxrwx ${size.padStart(6)} ${date} ${file.name} -> ${file.link}`;
+  }
 
-    // Calculate max command length across all categories
-    const allCommands = [
-      ...systemCommands,
-      ...posixCommands,
-      ...websiteCommands,
-      ...aiCommands,
-    ];
-    const maxCmdLength = Math.max(...allCommands.map((c) => c.cmd.length));
+  const isDir = file.type === "directory";
+  const perms = isDir ? "drwxr-xr-x" : "-rw-r--r--";
+  const size = isDir
+    ? "-"
+    : String(new TextEncoder().encode(file.content || "").length);
+  return `${perms} ${size.padStart(6)} ${date} ${name}`;
+}
 
-    const formatCommands = (cmds: typeof systemCommands) =>
-      cmds
-        .map(({ cmd, desc }) => `  ${cmd.padEnd(maxCmdLength + 2)} ${desc}`)
-        .join("\n");
+// Read and parse a script for sh and source; errors come back as results
+function loadScript(
+  command: string,
+  filename: string,
+  context: CommandContext,
+): ScriptNode[] | CommandResult {
+  const file = getFileAtPath(resolvePath(context.currentDirectory, filename));
+  if (!file) {
+    return {
+      output: `${command}: no such file or directory: ${filename}`,
+      success: false,
+    };
+  }
+  if (file.type === "directory") {
+    return {
+      output: `${command}: ${filename}: is a directory`,
+      success: false,
+    };
+  }
 
+  try {
+    return parseScript(file.content || "");
+  } catch (error) {
     return {
-      output: `\x1b[1m\x1b[33mHybrid Terminal\x1b[0m - Mix of POSIX and custom website commands
+      output: `${command}: ${filename}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      success: false,
+    };
+  }
+}
 
-\x1b[1m\x1b[36mSystem Commands:\x1b[0m
-${formatCommands(systemCommands)}
+// Copy of a context for sh: the script runs with its own arguments, and
+// its directory, user, variable, alias and function changes stay inside
+function isolateSession(
+  context: CommandContext,
+  positional: string[],
+): CommandContext {
+  const isolated: CommandContext = {
+    ...context,
+    env: { ...context.env },
+    aliases: { ...context.aliases },
+    functions: { ...context.functions },
+    positional,
+    setCurrentDirectory: (path: string) => {
+      isolated.previousDirectory = isolated.currentDirectory;
+      isolated.currentDirectory = path;
+    },
+    setCurrentUser: (username: string) => {
+      isolated.currentUser = username;
+    },
+  };
+  return isolated;
+}
 
-\x1b[1m\x1b[36mPOSIX-like Commands:\x1b[0m
-${formatCommands(posixCommands)}
+const coreCommands: Record<string, CommandFunction> = {
+  help: () => {
+    const visible = listCommandDefinitions().filter((d) => !d.hidden);
+    const width = Math.max(...visible.map((d) => d.synopsis[0].length));
+
+    // One block per category, in the order of COMMAND_CATEGORIES
+    const blocks = Object.entries(COMMAND_CATEGORIES).map(
+      ([category, title]) => {
+        const lines = visible
+          .filter((d) => d.category === category)
+          .map(
+            ({ synopsis, summary }) =>
+              `  ${synopsis[0].padEnd(width + 2)} ${summary[0].toUpperCase()}${summary.slice(1)}`,
+          );
+        return `\x1b[1m\x1b[36m${title}:\x1b[0m\n${lines.join("\n")}`;
+      },
+    );
 
-\x1b[1m\x1b[36mWebsite Commands:\x1b[0m
-${formatCommands(websiteCommands)}
+    return {
+      output: `\x1b[1m\x1b[33mHybrid Terminal\x1b[0m - Mix of POSIX and custom website commands
 
-\x1b[1m\x1b[36mAI Assistant:\x1b[0m
-${formatCommands(aiCommands)}
+${blocks.join("\n\n")}
 
 \x1b[1m\x1b[36mNavigation:\x1b[0m
   Use Tab for command completion
+  Press Tab again to cycle through candidates (Shift+Tab backwards)
   Use Up/Down arrows for command history
-  Use Ctrl+C to cancel current input`,
+  Use Ctrl+R to search command history
+  Use Ctrl+C to cancel current input
+  Use Ctrl+Z to stop a running command (fg and bg continue it)
+  Use share for a link that runs your last command here
+  Drag files onto the terminal to upload them (download saves them)
+
+\x1b[1m\x1b[36mLine Editing:\x1b[0m
+  Ctrl+A / Ctrl+E     Go to the start / end of the line (Home / End)
+  Alt+B / Alt+F       Move back / forward a word (Ctrl+Left / Ctrl+Right)
+  Ctrl+W / Alt+D      Cut the word before / after the cursor
+  Ctrl+U / Ctrl+K     Cut to the start / end of the line
+  Ctrl+Y / Alt+Y      Paste the last cut / cycle through older ones
+  Ctrl+_              Undo
+  Ctrl+L              Clear the screen
+
+\x1b[1m\x1b[36mShell Syntax:\x1b[0m
+  "..." '...' \\       Quote or escape spaces and special characters
+  cmd1 | cmd2         Pipe output of cmd1 into cmd2
+  cmd > file          Write output to a file (>> appends)
+  cmd1 ; cmd2         Run commands in sequence
+  cmd1 && cmd2        Run cmd2 only if cmd1 succeeds (|| if it fails)
+  cmd &               Run cmd in the background (see jobs)
+  $VAR \${VAR}         Expand a variable ($? is the last exit status)
+  sh FILE             Run a script with if, for, while and functions`,
       success: true,
     };
   },
 
   ls: (args, context) => {
-    const showHidden =
-      args.includes("-a") || args.includes("--all") || args.includes("-la");
-    const longFormat = args.includes("-l") || args.includes("-la");
+    // Short flags may be combined, like -la or -al
+    const flags = new Set<string>();
+    for (const arg of args) {
+      if (arg === "--all") flags.add("a");
+      else if (arg.startsWith("-") && !arg.startsWith("--")) {
+        for (const flag of arg.slice(1)) flags.add(flag);
+      }
+    }
+    const showHidden = flags.has("a");
+    const longFormat = flags.has("l");
     const targetPath = args.find((arg) => !arg.startsWith("-")) || ".";
     const resolvedPath = resolvePath(context.currentDirectory, targetPath);
     const target = getFileAtPath(resolvedPath);
@@ -127,9 +279,8 @@ ${formatCommands(aiCommands)}
 
     if (target.type === "file") {
       if (longFormat) {
-        const date = new Date().toISOString().split("T")[0];
         return {
-          output: `-rw-r--r-- 42 ${date} ${target.name}`,
+          output: formatLongEntry(target, target.name),
           success: true,
         };
       }
@@ -153,10 +304,7 @@ ${formatCommands(aiCommands)}
         const name = file.name + (isDir ? "/" : "");
 
         if (longFormat) {
-          const date = new Date().toISOString().split("T")[0];
-          const perms = isDir ? "drwxr-xr-x" : "-rw-r--r--";
-          const size = isDir ? "-" : "42";
-          return `${perms} ${size} ${date} ${name}`;
+          return formatLongEntry(file, name);
         }
 
         return name;
@@ -183,7 +331,14 @@ ${formatCommands(aiCommands)}
     }
 
     const targetPath = args[0];
-    const resolvedPath = resolvePath(context.currentDirectory, targetPath);
+    if (targetPath === "-" && !context.previousDirectory) {
+      return { output: "cd: OLDPWD not set", success: false };
+    }
+
+    const resolvedPath =
+      targetPath === "-"
+        ? context.previousDirectory!
+        : resolvePath(context.currentDirectory, targetPath);
     const target = getFileAtPath(resolvedPath);
 
     if (!target) {
@@ -201,7 +356,8 @@ ${formatCommands(aiCommands)}
     }
 
     context.setCurrentDirectory(resolvedPath);
-    return { output: "", success: true };
+    // Like bash, cd - prints the directory it switched to
+    return { output: targetPath === "-" ? resolvedPath : "", success: true };
   },
 
   pwd: (args, context) => ({
@@ -210,6 +366,10 @@ ${formatCommands(aiCommands)}
   }),
 
   cat: (args, context) => {
+    if (args.length === 0 && context.stdin !== undefined) {
+      return { output: context.stdin, success: true };
+    }
+
     if (args.length === 0) {
       return {
         output: "cat: missing file operand",
@@ -236,7 +396,13 @@ ${formatCommands(aiCommands)}
         continue;
       }
 
-      outputs.push(file.content || "");
+      // Markdown is rendered for the terminal, but not for other commands
+      const content = file.content || "";
+      outputs.push(
+        filename.endsWith(".md") && !context.piped
+          ? renderMarkdown(content, context.terminalCols)
+          : content,
+      );
     }
 
     return {
@@ -397,6 +563,34 @@ ${formatCommands(aiCommands)}
     success: true,
   }),
 
+  source: async (args, context) => {
+    const [filename, ...rest] = args;
+    if (!filename) {
+      return { output: "Usage: source <file> [args...]", success: false };
+    }
+
+    const script = loadScript("source", filename, context);
+    if (!Array.isArray(script)) return script;
+
+    // Run in the current session, so variables, aliases, functions and
+    // directory changes stay in effect
+    const session = trackSession(context);
+    if (rest.length > 0) session.positional = [filename, ...rest];
+    return runScript(script, session, executeCommand);
+  },
+
+  sh: async (args, context) => {
+    const [filename, ...rest] = args;
+    const script = loadScript("sh", filename, context);
+    if (!Array.isArray(script)) return script;
+
+    return runScript(
+      script,
+      isolateSession(context, [filename, ...rest]),
+      executeCommand,
+    );
+  },
+
   whoami: (_args, context) => ({
     output: context.currentUser,
     success: true,
@@ -417,13 +611,24 @@ ${formatCommands(aiCommands)}
       };
     }
 
-    context.setCurrentUser(username);
-    context.setCurrentDirectory("/");
+    const welcome = (): CommandResult => {
+      context.setCurrentUser(user.username);
+      context.setCurrentDirectory("/");
 
-    return {
-      output: `\x1b[32mWelcome, ${user.displayName}!\x1b[0m\n\nYou are now logged in as '${username}'. ${user.isAdmin ? "(Admin privileges granted)" : ""}\n`,
-      success: true,
+      return {
+        output: `\x1b[32mWelcome, ${user.displayName}!\x1b[0m\n\nYou are now logged in as '${user.username}'. ${user.isAdmin ? "(Admin privileges granted)" : ""}\n`,
+        success: true,
+      };
     };
+
+    if (isOpenAccount(user)) {
+      return welcome();
+    }
+
+    // Other accounts answer a challenge first
+    return authenticate(user, context).then((ok) =>
+      ok ? welcome() : { output: "Login incorrect", success: false },
+    );
   },
 
   logout: (_args, context) => {
@@ -457,12 +662,27 @@ ${formatCommands(aiCommands)}
     success: true,
   }),
 
-  sudo: (_args) => {
-    return {
-      output:
-        "Permission denied: This command requires administrator privileges.",
-      success: false,
-    };
+  sudo: (args, context) => {
+    const user = getUser(context.currentUser);
+    if (!user?.isAdmin) {
+      return {
+        output:
+          "Permission denied: This command requires administrator privileges.",
+        success: false,
+      };
+    }
+    if (args.length === 0) {
+      return { output: "Usage: sudo <command> [args...]", success: false };
+    }
+
+    return authenticateSudo(user, context).then((ok) =>
+      ok
+        ? executeCommand(args.map(shellQuote).join(" "), {
+            ...context,
+            privileged: true,
+          })
+        : { output: "sudo: Authentication failure", success: false },
+    );
   },
 
   exit: (args, context) => {
@@ -643,22 +863,6 @@ ${formatCommands(aiCommands)}
     return { output: lines.join("\n"), success: true };
   },
 
-  about: () => {
-    const lines = [
-      "",
-      "\x1b[1m\x1b[36mRomain Claret\x1b[0m",
-      "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━",
-      "",
-      "PhD Researcher. Evolving Artificial Intelligence. Switzerland.",
-      "",
-      "romclaret@gmail.com",
-      "github.com/RomainClaret",
-      "",
-    ];
-
-    return { output: lines.join("\n"), success: true };
-  },
-
   skills: () => {
     const lines = [
       "",
@@ -689,19 +893,33 @@ ${formatCommands(aiCommands)}
     return { output: lines.join("\n"), success: true };
   },
 
-  projects: () => {
-    const lines = [
-      "",
-      "\x1b[1m\x1b[36mProjects\x1b[0m",
-      "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━",
-      "",
-      "A little bit of everything",
-      "",
-      "github.com/RomainClaret",
-      "",
-    ];
+  projects: async (args) => {
+    if (args.length === 0) {
+      const lines = [
+        "",
+        "\x1b[1m\x1b[36mProjects\x1b[0m",
+        "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━",
+        "",
+        "A little bit of everything",
+        "",
+        "github.com/RomainClaret",
+        "",
+        "Use 'projects <name>' to read about a repository.",
+        "",
+      ];
 
-    return { output: lines.join("\n"), success: true };
+      return { output: lines.join("\n"), success: true };
+    }
+
+    await loadPortfolioFeeds();
+    const file = getFileAtPath(`${PROJECTS_DIRECTORY}/${args[0]}.md`);
+    if (!file || file.type !== "file") {
+      return {
+        output: `projects: ${args[0]}: no such project`,
+        success: false,
+      };
+    }
+    return { output: (file.content || "").trimEnd(), success: true };
   },
 
   education: () => {
@@ -744,19 +962,7 @@ ${formatCommands(aiCommands)}
     }
 
     const section = args[0].toLowerCase();
-    const validSections = [
-      "home",
-      "skills",
-      "experience",
-      "projects",
-      "research",
-      "papers",
-      "education",
-      "blog",
-      "contact",
-    ];
-
-    if (!validSections.includes(section)) {
+    if (!SECTIONS.includes(section)) {
       return {
         output: [`Unknown section: ${section}`, "", ...commands].join("\n"),
         success: false,
@@ -776,435 +982,27 @@ ${formatCommands(aiCommands)}
   },
 
   man: (args) => {
-    // Manual pages for all commands
-    const manuals: Record<string, string[]> = {
-      help: [
-        "\x1b[1mNAME\x1b[0m",
-        "    help - display available commands",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    help",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display a list of all available commands with brief descriptions.",
-        "    Commands marked as hidden will not appear in this list.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    help",
-      ],
-
-      ls: [
-        "\x1b[1mNAME\x1b[0m",
-        "    ls - list directory contents",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    ls [OPTIONS] [PATH]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    List information about files and directories at the specified PATH",
-        "    (current directory by default).",
-        "",
-        "\x1b[1mOPTIONS\x1b[0m",
-        "    -l      Use long listing format showing permissions, size, and date",
-        "    -a      Show all files including hidden files (starting with .)",
-        "    -la     Combine -l and -a options",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    ls              List current directory",
-        "    ls -l           Long format listing",
-        "    ls -a           Show hidden files",
-        "    ls docs/        List contents of docs directory",
-      ],
-
-      cd: [
-        "\x1b[1mNAME\x1b[0m",
-        "    cd - change directory",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    cd [PATH]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Change the current working directory to PATH. If no PATH is given,",
-        "    change to the root directory (/).",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    cd              Change to root directory",
-        "    cd docs         Change to docs directory",
-        "    cd ..           Go up one directory",
-        "    cd /docs        Change to /docs (absolute path)",
-      ],
-
-      pwd: [
-        "\x1b[1mNAME\x1b[0m",
-        "    pwd - print working directory",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    pwd",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display the absolute path of the current working directory.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    pwd",
-      ],
-
-      cat: [
-        "\x1b[1mNAME\x1b[0m",
-        "    cat - concatenate and display files",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    cat FILE [FILE...]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display the contents of one or more files. Multiple files are",
-        "    concatenated in the order specified.",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    cat README.md           Display README.md",
-        "    cat file1 file2         Display file1 followed by file2",
-        "    cat docs/guide.md       Display guide.md from docs directory",
-      ],
-
-      clear: [
-        "\x1b[1mNAME\x1b[0m",
-        "    clear - clear the terminal screen",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    clear",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Clear the terminal screen, leaving only the command prompt.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    clear",
-      ],
-
-      fps: [
-        "\x1b[1mNAME\x1b[0m",
-        "    fps - open lightweight FPS performance monitor",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    fps",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Open the lightweight real-time FPS monitor with minimal performance",
-        "    impact. This mode only tracks frame rate, animations, and GPU layers",
-        "    without CPU/GPU benchmarking or heavy resource monitoring.",
-        "",
-        "\x1b[1mMONITORING MODE\x1b[0m",
-        "    Lightweight: Only FPS tracking (no performance impact)",
-        "    • Real-time frame rate monitoring",
-        "    • Animation and GPU layer counting",
-        "    • Browser optimization status",
-        "    • Safe for continuous use",
-        "",
-        "\x1b[1mGRANULAR CONTROLS\x1b[0m",
-        "    The monitor UI includes toggle controls to selectively enable:",
-        "    • CPU monitoring (benchmarking worker)",
-        "    • GPU monitoring (WebGL performance tests)",
-        "    • Memory tracking (heap usage analysis)",
-        "    • Web Vitals (LCP, INP, CLS, FCP, TTFB)",
-        "    • Network analysis (connection type, bandwidth)",
-        "    • Resource tracking (transfer sizes, long tasks)",
-        "    • Hardware detection (device capabilities)",
-        "",
-        "\x1b[1mFULL MONITORING\x1b[0m",
-        "    For comprehensive monitoring with all features enabled, use:",
-        "    performance full    (enables all monitoring systems)",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    fps                 # Lightweight FPS monitor",
-        "    performance full    # Heavy monitoring (all features)",
-      ],
-
-      echo: [
-        "\x1b[1mNAME\x1b[0m",
-        "    echo - display text",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    echo [TEXT...]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display the specified text. Multiple arguments are joined with spaces.",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    echo Hello World        Display 'Hello World'",
-        "    echo                    Display empty line",
-        "    echo Test 123           Display 'Test 123'",
-      ],
-
-      whoami: [
-        "\x1b[1mNAME\x1b[0m",
-        "    whoami - display current username",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    whoami",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display the username of the current user.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    whoami",
-      ],
-
-      date: [
-        "\x1b[1mNAME\x1b[0m",
-        "    date - display current date and time",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    date",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display the current system date and time.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    date",
-      ],
-
-      goto: [
-        "\x1b[1mNAME\x1b[0m",
-        "    goto - navigate to website sections",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    goto [SECTION]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Navigate to different sections of the website. Without arguments,",
-        "    displays available sections.",
-        "",
-        "\x1b[1mSECTIONS\x1b[0m",
-        "    home         Introduction section",
-        "    skills       Technical skills",
-        "    experience   Work experience",
-        "    projects     Project showcase",
-        "    research     Academic research",
-        "    papers       Academic papers",
-        "    education    Education history",
-        "    blog         Blog posts",
-        "    contact      Contact information",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    goto                Show available sections",
-        "    goto projects       Navigate to projects section",
-      ],
-
-      ai: [
-        "\x1b[1mNAME\x1b[0m",
-        "    ai - AI assistant commands",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    ai [SUBCOMMAND] [ARGS...]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Control and interact with the built-in AI assistant powered by WebLLM.",
-        "",
-        "\x1b[1mSUBCOMMANDS\x1b[0m",
-        "    help            Show AI command help",
-        "    init [model]    Initialize AI model (default: Llama 3.2 1B)",
-        "    models          List available models",
-        "    chat <message>  Send a message to the AI",
-        "    stream <msg>    Chat with streaming responses",
-        "    clear           Clear chat history",
-        "    status          Show AI status",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    ai init                 Initialize default model",
-        "    ai chat Hello          Send 'Hello' to AI",
-        "    ai status              Check if AI is ready",
-      ],
-
-      animations: [
-        "\x1b[1mNAME\x1b[0m",
-        "    animations - control quality and background animations",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    animations <command>",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Control animation quality and background elements (neural networks, signals).",
-        "    The quality system provides adaptive performance with 4 quality modes that",
-        "    adjust FPS targets, effects, and visual complexity. Animation control allows",
-        "    starting/stopping animations independently of quality settings.",
-        "",
-        "\x1b[1mQUALITY MODES\x1b[0m",
-        "    battery     🔋 Battery saver mode (minimal effects, 60 FPS target)",
-        "    low         🔅 Low performance mode (Safari-optimized, 50 FPS target)",
-        "    balanced    ⚖️  Balanced mode (key animations, 45 FPS target)",
-        "    maximum     🚀 Maximum quality mode (all effects, 30 FPS target)",
-        "    auto        🤖 Auto quality adjustment based on real-time performance",
-        "",
-        "\x1b[1mANIMATION CONTROL\x1b[0m",
-        "    play        🎬 Start background animations",
-        "    stop        ⏸️  Stop background animations",
-        "    force       💪 Force-enable animations (overrides auto-disable protection)",
-        "",
-        "\x1b[1mSTATUS & INFO\x1b[0m",
-        "    status      📊 Show current quality mode and animation state",
-        "",
-        "\x1b[1mQUALITY FEATURES BY MODE\x1b[0m",
-        "    Battery:    Static lines, no particles, minimal effects",
-        "    Low:        Animated signals, Safari-safe, no WebGL effects",
-        "    Balanced:   Glow effects, normal stroke width, balanced performance",
-        "    Maximum:    Rainbow gradients, particles, blur effects, thick strokes",
-        "",
-        "\x1b[1mAUTO-DISABLE PROTECTION\x1b[0m",
-        "    Animations automatically disable when FPS drops below 15 for 10+ seconds",
-        "    to protect device performance. Use 'force' to override this protection.",
-        "    A 30-minute cooldown prevents repeated auto-disables.",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    animations balanced     Switch to balanced quality mode",
-        "    animations auto         Enable auto quality adjustment",
-        "    animations play         Start animations",
-        "    animations stop         Stop animations",
-        "    animations status       Show current quality and animation state",
-        "    animations force        Override auto-disable protection",
-      ],
-
-      chat: [
-        "\x1b[1mNAME\x1b[0m",
-        "    chat - quick AI chat interface",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    chat <MESSAGE>",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Send a message directly to the AI assistant. This is a shorthand",
-        "    for 'ai chat'. The AI must be initialized first using 'ai init'.",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    chat What is JavaScript?",
-        "    chat Help me write a function",
-      ],
-
-      exit: [
-        "\x1b[1mNAME\x1b[0m",
-        "    exit - close the terminal",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    exit",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Close the terminal window and end the session.",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    exit",
-      ],
-
-      performance: [
-        "\x1b[1mNAME\x1b[0m",
-        "    performance - granular performance monitoring controls",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    performance [ACTION]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Control performance monitoring with granular feature selection.",
-        "    By default, only lightweight FPS monitoring is enabled. Additional",
-        "    monitoring features can be enabled via commands or UI toggles.",
-        "",
-        "\x1b[1mACTIONS\x1b[0m",
-        "    monitor     Enable all monitoring features + show overlay",
-        "    full        Enable all monitoring features + show overlay",
-        "    hide        Disable monitoring + hide overlay",
-        "    status      Check monitoring status (no performance impact)",
-        "    (none)      Open performance dashboard",
-        "    open        Open performance dashboard",
-        "    close       Close the dashboard",
-        "    report      Generate performance report",
-        "    help        Show performance command help",
-        "",
-        "\x1b[1mMONITORING LEVELS\x1b[0m",
-        "    Lightweight: FPS only (default, no performance impact)",
-        "    Selective:   Choose specific features via UI toggles",
-        "    Full:        All monitoring enabled (may impact performance)",
-        "",
-        "\x1b[1mGRANULAR CONTROLS\x1b[0m",
-        "    The performance monitor UI includes toggle controls for:",
-        "    • Web Vitals (LCP, INP, CLS, FCP, TTFB)",
-        "    • CPU monitoring (benchmark worker)",
-        "    • GPU monitoring (WebGL performance tests)",
-        "    • Memory tracking (heap usage analysis)",
-        "    • Network analysis (connection type, bandwidth)",
-        "    • Resource tracking (transfer sizes, long tasks)",
-        "    • Hardware detection (device capabilities)",
-        "",
-        "\x1b[1mDEFAULT BEHAVIOR\x1b[0m",
-        "    • 'fps' command: Lightweight FPS-only monitoring",
-        "    • 'performance full': All monitoring features enabled",
-        "    • UI toggles: Individual feature control",
-        "",
-        "\x1b[1mPERFORMANCE IMPACT\x1b[0m",
-        "    Features that may impact browser performance:",
-        "    • CPU benchmark worker (intensive math operations)",
-        "    • GPU monitoring with WebGL contexts",
-        "    • Memory heap analysis",
-        "    • Web Vitals performance observers",
-        "    • Resource transfer size calculations",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    fps                     Lightweight FPS monitor",
-        "    performance full        Enable all monitoring + overlay",
-        "    performance monitor     Same as 'full'",
-        "    performance hide        Stop monitoring + release resources",
-        "    performance status      Check monitoring status",
-        "    performance             Open dashboard",
-        "    performance close       Close dashboard",
-        "    performance report      Generate performance report",
-      ],
-
-      socialmedia: [
-        "\x1b[1mNAME\x1b[0m",
-        "    socialmedia - display social media commands",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    socialmedia",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display all available social media commands with descriptions.",
-        "    Each command opens the corresponding social profile in a new tab.",
-        "",
-        "\x1b[1mAVAILABLE COMMANDS\x1b[0m",
-        "    linkedin        Open LinkedIn profile",
-        "    github          Open GitHub repositories",
-        "    orcid           Open ORCID academic profile",
-        "    gitlab          Open GitLab repositories",
-        "    medium          Open Medium blog posts",
-        "    stackoverflow   Open Stack Overflow profile",
-        "    instagram       Open Instagram profile (@weak_intelligence)",
-        "    reddit          Open Reddit profile",
-        "",
-        "\x1b[1mEXAMPLE\x1b[0m",
-        "    socialmedia     Show all social media commands",
-      ],
-
-      man: [
-        "\x1b[1mNAME\x1b[0m",
-        "    man - display command manual pages",
-        "",
-        "\x1b[1mSYNOPSIS\x1b[0m",
-        "    man [COMMAND]",
-        "",
-        "\x1b[1mDESCRIPTION\x1b[0m",
-        "    Display detailed documentation for commands. Without arguments,",
-        "    shows this help and lists all documented commands.",
-        "",
-        "\x1b[1mEXAMPLES\x1b[0m",
-        "    man             Show this help",
-        "    man ls          Show manual for ls command",
-        "    man cd          Show manual for cd command",
-      ],
-    };
-
     if (args.length === 0) {
       // Show man help and list of commands
-      const availableCommands = Object.keys(manuals).sort();
+      const names = listCommandDefinitions()
+        .map(({ name }) => name)
+        .sort();
+      const width = Math.max(...names.map((name) => name.length)) + 2;
+      const perRow = Math.max(1, Math.floor(72 / width));
+      const rows: string[] = [];
+      for (let i = 0; i < names.length; i += perRow) {
+        const row = names.slice(i, i + perRow);
+        rows.push(
+          `    ${row.map((name) => name.padEnd(width)).join("")}`.trimEnd(),
+        );
+      }
+
       return {
         output: [
-          ...manuals.man,
+          formatManual(getCommandDefinition("man")!),
           "",
           "\x1b[1mAVAILABLE MANUAL PAGES\x1b[0m",
-          availableCommands.map((cmd) => `    ${cmd}`).join("\n"),
+          ...rows,
           "",
           "Use 'man <command>' to read a specific manual page.",
         ].join("\n"),
@@ -1213,9 +1011,9 @@ ${formatCommands(aiCommands)}
     }
 
     const command = args[0].toLowerCase();
-    const manual = manuals[command];
+    const definition = getCommandDefinition(command);
 
-    if (!manual) {
+    if (!definition) {
       return {
         output: `No manual entry for '${command}'`,
         success: false,
@@ -1223,7 +1021,7 @@ ${formatCommands(aiCommands)}
     }
 
     return {
-      output: manual.join("\n"),
+      output: formatManual(definition),
       success: true,
     };
   },
@@ -1480,171 +1278,933 @@ Info: status`,
         };
     }
   },
-
-  // Add AI commands
-  ...aiCommands,
 };
 
-// Command not found handler
-export async function executeCommand(
-  commandLine: string,
+const coreCommandDefinitions = defineCommands(coreCommands, {
+  help: {
+    category: "system",
+    summary: "display available commands",
+    synopsis: ["help"],
+    description: [
+      "Display a list of all available commands with brief descriptions.",
+      "Commands marked as hidden will not appear in this list.",
+    ],
+    examples: ["help"],
+  },
+  ls: {
+    category: "posix",
+    complete: completePaths,
+    summary: "list directory contents",
+    synopsis: ["ls [OPTIONS] [PATH]"],
+    description: [
+      "List information about files and directories at the specified PATH",
+      "(current directory by default).",
+    ],
+    options: [
+      {
+        flag: "-l",
+        description:
+          "Use long listing format showing permissions, size, and date",
+      },
+      {
+        flag: "-a",
+        aliases: ["--all"],
+        description: "Show all files including hidden files (starting with .)",
+      },
+    ],
+    examples: [
+      "ls              List current directory",
+      "ls -l           Long format listing",
+      "ls -a           Show hidden files",
+      "ls docs/        List contents of docs directory",
+    ],
+  },
+  cd: {
+    category: "posix",
+    args: { max: 1 },
+    complete: completeDirectories,
+    summary: "change directory",
+    synopsis: ["cd [PATH]"],
+    description: [
+      "Change the current working directory to PATH. If no PATH is given,",
+      "change to the root directory (/). PATH may contain . and ..",
+      "segments and start with ~ for your home directory.",
+    ],
+    examples: [
+      "cd              Change to root directory",
+      "cd docs         Change to docs directory",
+      "cd ..           Go up one directory",
+      "cd /docs        Change to /docs (absolute path)",
+      "cd ~            Change to your home directory",
+      "cd -            Return to the previous directory",
+    ],
+  },
+  pwd: {
+    category: "posix",
+    summary: "print working directory",
+    synopsis: ["pwd"],
+    description: [
+      "Display the absolute path of the current working directory.",
+    ],
+    examples: ["pwd"],
+  },
+  cat: {
+    category: "posix",
+    complete: completePaths,
+    summary: "concatenate and display files",
+    synopsis: ["cat [FILE...]"],
+    description: [
+      "Display the contents of one or more files. Multiple files are",
+      "concatenated in the order specified. Without FILE, read the",
+      "output piped in from the previous command.",
+      "",
+      "Markdown files (.md) are rendered with headings, lists, tables and",
+      "highlighted code, fitted to the terminal width. Piped or redirected,",
+      "they are printed as is.",
+    ],
+    examples: [
+      "cat README.md           Display README.md",
+      "cat file1 file2         Display file1 followed by file2",
+      "cat docs/guide.md       Display guide.md from docs directory",
+      "help | cat              Display the output of help",
+      "cat notes.md | less     Page the Markdown source of notes.md",
+    ],
+  },
+  clear: {
+    category: "posix",
+    summary: "clear the terminal screen",
+    synopsis: ["clear"],
+    description: [
+      "Clear the terminal screen, leaving only the command prompt.",
+    ],
+    examples: ["clear"],
+  },
+  fps: {
+    category: "system",
+    summary: "open lightweight FPS performance monitor",
+    synopsis: ["fps"],
+    description: [
+      "Open the lightweight real-time FPS monitor with minimal performance",
+      "impact. This mode only tracks frame rate, animations, and GPU layers",
+      "without CPU/GPU benchmarking or heavy resource monitoring.",
+    ],
+    sections: {
+      "MONITORING MODE": [
+        "Lightweight: Only FPS tracking (no performance impact)",
+        "• Real-time frame rate monitoring",
+        "• Animation and GPU layer counting",
+        "• Browser optimization status",
+        "• Safe for continuous use",
+      ],
+      "GRANULAR CONTROLS": [
+        "The monitor UI includes toggle controls to selectively enable:",
+        "• CPU monitoring (benchmarking worker)",
+        "• GPU monitoring (WebGL performance tests)",
+        "• Memory tracking (heap usage analysis)",
+        "• Web Vitals (LCP, INP, CLS, FCP, TTFB)",
+        "• Network analysis (connection type, bandwidth)",
+        "• Resource tracking (transfer sizes, long tasks)",
+        "• Hardware detection (device capabilities)",
+      ],
+      "FULL MONITORING": [
+        "For comprehensive monitoring with all features enabled, use:",
+        "performance full    (enables all monitoring systems)",
+      ],
+    },
+    examples: [
+      "fps                 # Lightweight FPS monitor",
+      "performance full    # Heavy monitoring (all features)",
+    ],
+  },
+  performance: {
+    category: "system",
+    complete: completeFirst(
+      completeWords([
+        "monitor",
+        "full",
+        "hide",
+        "status",
+        "open",
+        "close",
+        "report",
+        "help",
+      ]),
+    ),
+    summary: "granular performance monitoring controls",
+    synopsis: ["performance [ACTION]"],
+    description: [
+      "Control performance monitoring with granular feature selection.",
+      "By default, only lightweight FPS monitoring is enabled. Additional",
+      "monitoring features can be enabled via commands or UI toggles.",
+    ],
+    sections: {
+      ACTIONS: [
+        "monitor     Enable all monitoring features + show overlay",
+        "full        Enable all monitoring features + show overlay",
+        "hide        Disable monitoring + hide overlay",
+        "status      Check monitoring status (no performance impact)",
+        "(none)      Open performance dashboard",
+        "open        Open performance dashboard",
+        "close       Close the dashboard",
+        "report      Generate performance report",
+        "help        Show performance command help",
+      ],
+      "MONITORING LEVELS": [
+        "Lightweight: FPS only (default, no performance impact)",
+        "Selective:   Choose specific features via UI toggles",
+        "Full:        All monitoring enabled (may impact performance)",
+      ],
+      "GRANULAR CONTROLS": [
+        "The performance monitor UI includes toggle controls for:",
+        "• Web Vitals (LCP, INP, CLS, FCP, TTFB)",
+        "• CPU monitoring (benchmark worker)",
+        "• GPU monitoring (WebGL performance tests)",
+        "• Memory tracking (heap usage analysis)",
+        "• Network analysis (connection type, bandwidth)",
+        "• Resource tracking (transfer sizes, long tasks)",
+        "• Hardware detection (device capabilities)",
+      ],
+      "DEFAULT BEHAVIOR": [
+        "• 'fps' command: Lightweight FPS-only monitoring",
+        "• 'performance full': All monitoring features enabled",
+        "• UI toggles: Individual feature control",
+      ],
+      "PERFORMANCE IMPACT": [
+        "Features that may impact browser performance:",
+        "• CPU benchmark worker (intensive math operations)",
+        "• GPU monitoring with WebGL contexts",
+        "• Memory heap analysis",
+        "• Web Vitals performance observers",
+        "• Resource transfer size calculations",
+      ],
+    },
+    examples: [
+      "fps                     Lightweight FPS monitor",
+      "performance full        Enable all monitoring + overlay",
+      "performance monitor     Same as 'full'",
+      "performance hide        Stop monitoring + release resources",
+      "performance status      Check monitoring status",
+      "performance             Open dashboard",
+      "performance close       Close dashboard",
+      "performance report      Generate performance report",
+    ],
+  },
+  echo: {
+    category: "posix",
+    summary: "display text",
+    synopsis: ["echo [TEXT...]"],
+    description: [
+      "Display the specified text. Multiple arguments are joined with spaces.",
+    ],
+    examples: [
+      "echo Hello World        Display 'Hello World'",
+      "echo                    Display empty line",
+      "echo Test 123           Display 'Test 123'",
+    ],
+  },
+  source: {
+    category: "posix",
+    complete: completePaths,
+    summary: "run commands from a file",
+    synopsis: ["source FILE [ARGS...]"],
+    description: [
+      "Run the script FILE in the current session, so variables,",
+      "aliases, functions and directory changes stay in effect. See sh",
+      "for what scripts can contain. ~/.profile is sourced",
+      "automatically when you log in.",
+    ],
+    examples: ["source ~/.profile       Reload your profile"],
+  },
+  sh: {
+    category: "posix",
+    complete: completePaths,
+    args: { min: 1 },
+    summary: "run a shell script",
+    synopsis: ["sh FILE [ARGS...]"],
+    description: [
+      "Run the script FILE with ARGS as $1, $2... Changes to the",
+      "directory, variables, aliases and functions stay inside the",
+      "script; use source to keep them. Output appears as the script",
+      "runs, and Ctrl+C stops it.",
+      "",
+      "A script holds commands as typed at the prompt, one per line or",
+      "separated by ;. Lines starting with # are comments.",
+    ],
+    sections: {
+      SYNTAX: [
+        "NAME=value                   Set a variable",
+        "$1 ... $9, $#, $@, $0        Arguments, their count, all of them,",
+        "                             and the script name",
+        "if COMMAND; then ... elif COMMAND; then ... else ... fi",
+        "for NAME in WORDS; do ... done",
+        "while COMMAND; do ... done   (until loops while it fails)",
+        "NAME() { ... }               Define a function taking $1...",
+        "break, continue              Leave or restart a loop",
+        "return [N], exit [N]         Leave a function or the script",
+        "",
+        "A command succeeds with status 0 and fails with 1, which $?",
+        "holds; if and while branch on it, and test or [ ] checks",
+        "conditions. sleep pauses between steps.",
+      ],
+    },
+    examples: [
+      "sh /usr/share/tours/research.sh     Take the research tour",
+      "sh /usr/share/tours/research.sh 0   The tour without pauses",
+    ],
+  },
+  whoami: {
+    category: "posix",
+    summary: "display current username",
+    synopsis: ["whoami"],
+    description: ["Display the username of the current user."],
+    examples: ["whoami"],
+  },
+  login: {
+    category: "posix",
+    complete: completeFirst(completeWords(listUsernames)),
+    summary: "log in as another user",
+    synopsis: ["login USERNAME"],
+    description: [
+      "Start a session as USERNAME in the root directory. Accounts",
+      "with a keypair in this browser sign a random challenge; other",
+      "accounts with a password are asked for it. Use 'users' to see",
+      "the available accounts.",
+    ],
+    examples: ["login guest"],
+  },
+  logout: {
+    category: "posix",
+    summary: "log out to the guest account",
+    synopsis: ["logout"],
+    description: [
+      "End the current session and continue as guest in the root",
+      "directory.",
+    ],
+  },
+  users: {
+    category: "posix",
+    summary: "list user accounts",
+    synopsis: ["users"],
+    description: [
+      "List every account, marking administrators. Use",
+      "'login <username>' to switch to one.",
+    ],
+  },
+  date: {
+    category: "posix",
+    summary: "display current date and time",
+    synopsis: ["date"],
+    description: ["Display the current system date and time."],
+    examples: ["date"],
+  },
+  sudo: {
+    category: "posix",
+    summary: "run a command as administrator",
+    synopsis: ["sudo COMMAND [ARGS...]"],
+    description: [
+      "Run COMMAND with administrator privileges. Only administrators",
+      "may use sudo; they authenticate again unless they did so in",
+      "the last five minutes.",
+    ],
+    examples: ["sudo userdel alice"],
+  },
+  exit: {
+    category: "posix",
+    summary: "close the terminal",
+    synopsis: ["exit"],
+    description: [
+      "End the session and close its pane, or its tab when it is the",
+      "only pane. Exiting the last session closes the terminal window.",
+    ],
+    examples: ["exit"],
+  },
+  reload: {
+    category: "website",
+    summary: "refresh the webpage",
+    synopsis: ["reload"],
+    description: ["Reload the website after a short delay."],
+  },
+  resume: {
+    category: "website",
+    summary: "display resume/CV information",
+    synopsis: ["resume"],
+    description: [
+      "Show a summary of the resume and where to find the full",
+      "Experience and Education sections.",
+    ],
+  },
+  contact: {
+    category: "website",
+    summary: "show contact information",
+    synopsis: ["contact"],
+    description: [
+      "Show the email address and social profiles to get in touch.",
+    ],
+  },
+  linkedin: {
+    category: "website",
+    hidden: true,
+    summary: "open the LinkedIn profile",
+    synopsis: ["linkedin"],
+    description: [
+      "Open the LinkedIn profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  github: {
+    category: "website",
+    hidden: true,
+    summary: "open the GitHub profile",
+    synopsis: ["github"],
+    description: [
+      "Open the GitHub profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  email: {
+    category: "website",
+    summary: "copy email to clipboard",
+    synopsis: ["email"],
+    description: [
+      "Copy the contact email address to the clipboard, or print it",
+      "when the clipboard is not available.",
+    ],
+  },
+  orcid: {
+    category: "website",
+    hidden: true,
+    summary: "open the ORCID profile",
+    synopsis: ["orcid"],
+    description: [
+      "Open the ORCID profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  gitlab: {
+    category: "website",
+    hidden: true,
+    summary: "open the GitLab profile",
+    synopsis: ["gitlab"],
+    description: [
+      "Open the GitLab profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  medium: {
+    category: "website",
+    hidden: true,
+    summary: "open the Medium profile",
+    synopsis: ["medium"],
+    description: [
+      "Open the Medium profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  stackoverflow: {
+    category: "website",
+    hidden: true,
+    summary: "open the Stack Overflow profile",
+    synopsis: ["stackoverflow"],
+    description: [
+      "Open the Stack Overflow profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  instagram: {
+    category: "website",
+    hidden: true,
+    summary: "open the Instagram profile",
+    synopsis: ["instagram"],
+    description: [
+      "Open the Instagram profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  reddit: {
+    category: "website",
+    hidden: true,
+    summary: "open the Reddit profile",
+    synopsis: ["reddit"],
+    description: [
+      "Open the Reddit profile in a new tab. See 'socialmedia' for",
+      "every profile.",
+    ],
+  },
+  socialmedia: {
+    category: "website",
+    summary: "display social media commands",
+    synopsis: ["socialmedia"],
+    description: [
+      "Display all available social media commands with descriptions.",
+      "Each command opens the corresponding social profile in a new tab.",
+    ],
+    sections: {
+      "AVAILABLE COMMANDS": [
+        "linkedin        Open LinkedIn profile",
+        "github          Open GitHub repositories",
+        "orcid           Open ORCID academic profile",
+        "gitlab          Open GitLab repositories",
+        "medium          Open Medium blog posts",
+        "stackoverflow   Open Stack Overflow profile",
+        "instagram       Open Instagram profile (@weak_intelligence)",
+        "reddit          Open Reddit profile",
+      ],
+    },
+    examples: ["socialmedia     Show all social media commands"],
+  },
+  skills: {
+    category: "website",
+    summary: "show technical skills",
+    synopsis: ["skills"],
+    description: [
+      "Print a short summary of technical skills. Use 'goto skills' to open",
+      "the full section.",
+    ],
+  },
+  experience: {
+    category: "website",
+    summary: "show work experience",
+    synopsis: ["experience"],
+    description: [
+      "Print a short summary of work experience. Use 'goto experience' to open",
+      "the full section.",
+    ],
+  },
+  projects: {
+    category: "website",
+    summary: "show projects",
+    synopsis: ["projects [NAME]"],
+    description: [
+      "Print a short summary of projects, or the details of the GitHub",
+      "repository NAME. Use 'goto projects' to open the full section.",
+    ],
+    args: { max: 1 },
+    complete: completeFirst(completeWords(projectNames)),
+  },
+  education: {
+    category: "website",
+    summary: "show education history",
+    synopsis: ["education"],
+    description: [
+      "Print a short summary of education history. Use 'goto education' to open",
+      "the full section.",
+    ],
+  },
+  goto: {
+    category: "website",
+    complete: completeFirst(completeWords(SECTIONS)),
+    summary: "navigate to website sections",
+    synopsis: ["goto [SECTION]"],
+    description: [
+      "Navigate to different sections of the website. Without arguments,",
+      "displays available sections.",
+    ],
+    sections: {
+      SECTIONS: [
+        "home         Introduction section",
+        "skills       Technical skills",
+        "experience   Work experience",
+        "projects     Project showcase",
+        "research     Academic research",
+        "papers       Academic papers",
+        "education    Education history",
+        "blog         Blog posts",
+        "contact      Contact information",
+      ],
+    },
+    examples: [
+      "goto                Show available sections",
+      "goto projects       Navigate to projects section",
+    ],
+  },
+  man: {
+    category: "system",
+    complete: completeFirst(
+      completeWords(() => listCommandDefinitions().map(({ name }) => name)),
+    ),
+    summary: "display command manual pages",
+    synopsis: ["man [COMMAND]"],
+    description: [
+      "Display detailed documentation for commands. Without arguments,",
+      "shows this help and lists all documented commands.",
+    ],
+    examples: [
+      "man             Show this help",
+      "man ls          Show manual for ls command",
+      "man cd          Show manual for cd command",
+    ],
+  },
+  animations: {
+    category: "website",
+    complete: completeFirst(
+      completeWords([
+        "battery",
+        "low",
+        "balanced",
+        "maximum",
+        "auto",
+        "play",
+        "stop",
+        "force",
+        "status",
+      ]),
+    ),
+    summary: "control quality and background animations",
+    synopsis: ["animations <command>"],
+    description: [
+      "Control animation quality and background elements (neural networks, signals).",
+      "The quality system provides adaptive performance with 4 quality modes that",
+      "adjust FPS targets, effects, and visual complexity. Animation control allows",
+      "starting/stopping animations independently of quality settings.",
+    ],
+    sections: {
+      "QUALITY MODES": [
+        "battery     🔋 Battery saver mode (minimal effects, 60 FPS target)",
+        "low         🔅 Low performance mode (Safari-optimized, 50 FPS target)",
+        "balanced    ⚖️  Balanced mode (key animations, 45 FPS target)",
+        "maximum     🚀 Maximum quality mode (all effects, 30 FPS target)",
+        "auto        🤖 Auto quality adjustment based on real-time performance",
+      ],
+      "ANIMATION CONTROL": [
+        "play        🎬 Start background animations",
+        "stop        ⏸️  Stop background animations",
+        "force       💪 Force-enable animations (overrides auto-disable protection)",
+      ],
+      "STATUS & INFO": [
+        "status      📊 Show current quality mode and animation state",
+      ],
+      "QUALITY FEATURES BY MODE": [
+        "Battery:    Static lines, no particles, minimal effects",
+        "Low:        Animated signals, Safari-safe, no WebGL effects",
+        "Balanced:   Glow effects, normal stroke width, balanced performance",
+        "Maximum:    Rainbow gradients, particles, blur effects, thick strokes",
+      ],
+      "AUTO-DISABLE PROTECTION": [
+        "Animations automatically disable when FPS drops below 15 for 10+ seconds",
+        "to protect device performance. Use 'force' to override this protection.",
+        "A 30-minute cooldown prevents repeated auto-disables.",
+      ],
+    },
+    examples: [
+      "animations balanced     Switch to balanced quality mode",
+      "animations auto         Enable auto quality adjustment",
+      "animations play         Start animations",
+      "animations stop         Stop animations",
+      "animations status       Show current quality and animation state",
+      "animations force        Override auto-disable protection",
+    ],
+  },
+});
+
+registerCommands([
+  ...coreCommandDefinitions,
+  ...textCommandDefinitions,
+  ...fileCommandDefinitions,
+  ...shellCommandDefinitions,
+  ...accountCommandDefinitions,
+  ...paneCommandDefinitions,
+  ...scriptCommandDefinitions,
+  ...recordCommandDefinitions,
+  ...settingsCommandDefinitions,
+  ...jobCommandDefinitions,
+  ...shareCommandDefinitions,
+  ...transferCommandDefinitions,
+  ...aiCommandDefinitions,
+]);
+
+// Every registered command by name
+export const commands: Record<string, CommandFunction> = Object.fromEntries(
+  listCommandDefinitions().map(({ name, run }) => [name, run]),
+);
+
+// Substitute $VARIABLES in a command's name, arguments and redirections
+function expandCommand(
+  command: SimpleCommand,
   context: CommandContext,
+): SimpleCommand {
+  const expand = (word: string) =>
+    expandVariables(word, (name) => lookupVariable(name, context));
+
+  return {
+    name: expand(command.name),
+    args: command.args.flatMap((arg) =>
+      isArgumentList(arg) ? (context.positional || []).slice(1) : [expand(arg)],
+    ),
+    redirects: command.redirects.map((redirect) => ({
+      ...redirect,
+      target: expand(redirect.target),
+    })),
+  };
+}
+
+// Run a single command of a pipeline
+async function runSimpleCommand(
+  { name, args }: SimpleCommand,
+  context: CommandContext,
+  activeAliases: Set<string>,
 ): Promise<CommandResult> {
-  const trimmed = commandLine.trim();
-  if (!trimmed) {
+  // NAME=value on its own sets a session variable
+  const assignment = parseAssignment(name);
+  if (
+    args.length === 0 &&
+    assignment.value !== undefined &&
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(assignment.name) &&
+    context.env
+  ) {
+    context.env[assignment.name] = assignment.value;
     return { output: "", success: true };
   }
 
-  const [commandName, ...args] = trimmed.split(/\s+/);
-  const command = commands[commandName];
+  // An alias is replaced by its text; it is not expanded again inside itself
+  const alias = context.aliases?.[name];
+  if (alias !== undefined && !activeAliases.has(name)) {
+    return runCommandLine(
+      [alias, ...args.map(shellQuote)].join(" "),
+      context,
+      new Set([...activeAliases, name]),
+    );
+  }
 
-  if (!command) {
+  // Functions defined by scripts come before commands of the same name
+  const shellFunction = context.functions?.[name];
+  if (shellFunction) {
+    return await shellFunction(args, context);
+  }
+
+  const definition = getCommandDefinition(name);
+
+  if (!definition) {
     return {
-      output: `${commandName}: command not found`,
+      output: `${name}: command not found`,
       success: false,
     };
   }
 
-  return await command(args, context);
+  const invalid = validateArguments(definition, args);
+  if (invalid) {
+    return { output: invalid, success: false };
+  }
+
+  // Repositories and blog posts under /portfolio are fetched on first use
+  if (readsPortfolio(definition, args, context)) {
+    await loadPortfolioFeeds();
+  }
+
+  return await definition.run(args, context);
 }
 
-// Tab completion helper
-export function getCompletions(
-  input: string,
+// Write command output to the targets of its redirections
+function applyRedirects(
+  { redirects }: SimpleCommand,
+  output: string,
   context: CommandContext,
-): string[] {
-  const parts = input.split(/\s+/);
+): string | null {
+  for (const { operator, target } of redirects) {
+    const resolvedPath = resolvePath(context.currentDirectory, target);
+    const existing = getFileAtPath(resolvedPath);
 
-  // Command completion
-  if (parts.length === 1) {
-    const partial = parts[0].toLowerCase();
-    return Object.keys(commands)
-      .filter((cmd) => cmd.startsWith(partial))
-      .sort();
+    if (existing && existing.type === "directory") {
+      return `${target}: Is a directory`;
+    }
+    if (!getFileAtPath(getParentPath(resolvedPath))) {
+      return `${target}: No such file or directory`;
+    }
+
+    const content = output ? stripAnsi(output) + "\n" : "";
+    if (!writeFile(resolvedPath, content, operator === ">>")) {
+      return `${target}: Permission denied`;
+    }
   }
 
-  // File/directory completion for certain commands
-  const command = parts[0];
-  if (["cd", "cat", "ls"].includes(command)) {
-    const partial = parts[parts.length - 1] || "";
-    const dirPath = partial.includes("/")
-      ? resolvePath(
-          context.currentDirectory,
-          partial.substring(0, partial.lastIndexOf("/")),
-        )
-      : context.currentDirectory;
-
-    const dir = getFileAtPath(dirPath);
-    if (dir && dir.type === "directory" && dir.children) {
-      const prefix = partial.includes("/")
-        ? partial.substring(0, partial.lastIndexOf("/") + 1)
-        : "";
-
-      const basename = partial.substring(partial.lastIndexOf("/") + 1);
-
-      return Object.values(dir.children)
-        .filter((file) => {
-          if (!file.name.startsWith(basename)) return false;
-          // For cd command, only show directories
-          if (command === "cd" && file.type !== "directory") return false;
-          return true;
-        })
-        .map(
-          (file) => prefix + file.name + (file.type === "directory" ? "/" : ""),
-        )
-        .sort();
+  return null;
+}
+
+// Run a pipeline, feeding each command's output to the next one's stdin
+async function runPipeline(
+  pipeline: Pipeline,
+  context: CommandContext,
+  activeAliases: Set<string>,
+): Promise<CommandResult> {
+  const diagnostics: string[] = [];
+  let stdin: string | undefined = context.stdin;
+  let result: CommandResult = { output: "", success: true };
+
+  for (let i = 0; i < pipeline.commands.length; i++) {
+    const stage = expandCommand(pipeline.commands[i], context);
+    const isLast = i === pipeline.commands.length - 1;
+    const isCaptured = !isLast || stage.redirects.length > 0;
+
+    // Streamed output of piped or redirected commands is captured, not shown
+    const captured: string[] = [];
+    result = await runSimpleCommand(
+      stage,
+      {
+        ...context,
+        stdin,
+        piped: isCaptured || context.piped,
+        writer: isCaptured
+          ? (text: string) => captured.push(text.replace(/\r\n/g, "\n"))
+          : context.writer,
+        readKey: isCaptured ? undefined : context.readKey,
+      },
+      activeAliases,
+    );
+
+    const output = captured.join("") + result.output;
+
+    if (!result.success) {
+      // Failed commands report errors on the terminal instead of the pipe
+      if (output && !isLast) diagnostics.push(output);
+      stdin = isLast ? output : "";
+    } else if (stage.redirects.length > 0) {
+      const error = applyRedirects(stage, output, context);
+      if (error) {
+        result = { output: error, success: false };
+        stdin = isLast ? error : "";
+      } else {
+        stdin = "";
+      }
+    } else {
+      stdin = output;
     }
+
+    if (context.abortController?.signal.aborted) break;
   }
 
-  // Goto command completion
-  if (command === "goto") {
-    const sections = [
-      "home",
-      "skills",
-      "experience",
-      "projects",
-      "research",
-      "papers",
-      "education",
-      "blog",
-      "contact",
-    ];
-    const partial = parts[1]?.toLowerCase() || "";
-    return sections.filter((section) => section.startsWith(partial)).sort();
+  return {
+    output: [...diagnostics, stdin].filter(Boolean).join("\n"),
+    success: result.success,
+  };
+}
+
+// Run pipelines chained with ;, && and ||
+async function runChain(
+  chain: ChainEntry[],
+  context: CommandContext,
+  activeAliases: Set<string>,
+): Promise<CommandResult> {
+  const outputs: string[] = [];
+  let last: CommandResult = { output: "", success: true };
+
+  for (const { operator, pipeline } of chain) {
+    if (operator === "&&" && !last.success) continue;
+    if (operator === "||" && last.success) continue;
+    if (context.abortController?.signal.aborted) break;
+
+    last = await runPipeline(pipeline, context, activeAliases);
+    if (last.output) outputs.push(last.output);
+
+    // Exit status for $?
+    if (context.env) context.env["?"] = last.success ? "0" : "1";
   }
 
-  // Animations command completion
-  if (command === "animations") {
-    const subcommands = [
-      "battery",
-      "low",
-      "balanced",
-      "maximum",
-      "auto",
-      "play",
-      "stop",
-      "force",
-      "status",
-    ];
-    const partial = parts[1]?.toLowerCase() || "";
-    return subcommands.filter((sub) => sub.startsWith(partial)).sort();
+  return { output: outputs.join("\n"), success: last.success };
+}
+
+// Split a chain at each &, which sends the && / || list before it to the
+// background: "a; b && c & d" runs a, then b && c as a job, then d
+function splitJobs(
+  chain: ChainEntry[],
+): { chain: ChainEntry[]; background: boolean }[] {
+  const parts: { chain: ChainEntry[]; background: boolean }[] = [];
+  let foreground: ChainEntry[] = [];
+  let list: ChainEntry[] = [];
+
+  for (const entry of chain) {
+    if (entry.operator === ";") {
+      foreground.push(...list);
+      list = [];
+    }
+    list.push(entry);
+    if (entry.background) {
+      if (foreground.length)
+        parts.push({ chain: foreground, background: false });
+      parts.push({ chain: list, background: true });
+      foreground = [];
+      list = [];
+    }
   }
+  foreground.push(...list);
+  if (foreground.length) parts.push({ chain: foreground, background: false });
+  return parts;
+}
 
-  // Performance command completion
-  if (command === "performance") {
-    const subcommands = [
-      "monitor",
-      "hide",
-      "status",
-      "open",
-      "close",
-      "report",
-      "help",
-    ];
-    const partial = parts[1]?.toLowerCase() || "";
-    return subcommands.filter((sub) => sub.startsWith(partial)).sort();
+// Run a list as a background job, in a copy of the session like a
+// subshell, so its cd and variables do not change the shell's
+function startJob(
+  chain: ChainEntry[],
+  context: CommandContext,
+  activeAliases: Set<string>,
+): Job {
+  const session = isolateSession(context, context.positional || []);
+  return context.jobs!.start(
+    formatChain(chain),
+    ({ writer, readKey, abortController }) =>
+      runChain(
+        chain,
+        { ...session, writer, readKey, abortController },
+        activeAliases,
+      ),
+  );
+}
+
+async function runCommandLine(
+  commandLine: string,
+  context: CommandContext,
+  activeAliases: Set<string>,
+): Promise<CommandResult> {
+  const trimmed = commandLine.trim();
+  if (!trimmed) {
+    return { output: "", success: true };
   }
 
-  // AI command completion
-  if (command === "ai") {
-    const subcommands = [
-      "help",
-      "init",
-      "models",
-      "chat",
-      "stream",
-      "clear",
-      "status",
-    ];
-    const partial = parts[1]?.toLowerCase() || "";
-    return subcommands.filter((sub) => sub.startsWith(partial)).sort();
+  let chain;
+  try {
+    chain = parseCommandLine(trimmed);
+  } catch (error) {
+    return {
+      output: `parse error: ${error instanceof Error ? error.message : "Unknown error"}`,
+      success: false,
+    };
   }
 
-  // Man command completion
-  if (command === "man") {
-    const documentedCommands = [
-      "help",
-      "man",
-      "ls",
-      "cd",
-      "pwd",
-      "cat",
-      "clear",
-      "fps",
-      "performance",
-      "echo",
-      "whoami",
-      "date",
-      "goto",
-      "animations",
-      "ai",
-      "chat",
-      "exit",
-      "socialmedia",
-    ];
-    const partial = parts[1]?.toLowerCase() || "";
-    return documentedCommands.filter((cmd) => cmd.startsWith(partial)).sort();
+  const shell = trackSession(context);
+
+  const outputs: string[] = [];
+  let success = true;
+
+  for (const part of splitJobs(chain)) {
+    if (context.abortController?.signal.aborted) break;
+
+    // Without job control, e.g. in tests, a job runs in turn
+    if (part.background && shell.jobs) {
+      const job = startJob(part.chain, shell, activeAliases);
+      outputs.push(`[${job.id}] ${job.command}`);
+      success = true;
+      if (shell.env) shell.env["?"] = "0";
+      continue;
+    }
+
+    const result = await runChain(part.chain, shell, activeAliases);
+    if (result.output) outputs.push(result.output);
+    success = result.success;
   }
 
-  return [];
+  return { output: outputs.join("\n"), success };
+}
+
+// Parse and run a command line with pipes, redirections and chaining
+export async function executeCommand(
+  commandLine: string,
+  context: CommandContext,
+): Promise<CommandResult> {
+  return runCommandLine(commandLine, context, new Set());
+}
+
+// Candidates for the last word of input
+export function getCompletions(
+  input: string,
+  context: CommandContext,
+): string[] {
+  return completeLine(input, input.length, context).candidates;
 }
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import {
+  applyCompletion,
+  commonPrefix,
+  completeLine,
+  formatCandidates,
+} from "./completion";
+import { removePath, writeFile } from "./fileSystem";
+import { completePaths, completeWords, registerCommands } from "./registry";
+import type { CommandContext } from "./commands";
+
+const context = (fields: Partial<CommandContext> = {}): CommandContext => ({
+  currentDirectory: "/",
+  currentUser: "guest",
+  setCurrentDirectory: vi.fn(),
+  setCurrentUser: vi.fn(),
+  addToHistory: vi.fn(),
+  clearTerminal: vi.fn(),
+  closeTerminal: vi.fn(),
+  ...fields,
+});
+
+const candidates = (line: string, cursor = line.length, ctx = context()) =>
+  completeLine(line, cursor, ctx).candidates;
+
+describe("Terminal Completion", () => {
+  beforeAll(() => {
+    const command = { category: "posix" as const, summary: "", run: vi.fn() };
+    registerCommands([
+      {
+        ...command,
+        name: "ls",
+        synopsis: ["ls"],
+        options: [
+          { flag: "-l", description: "" },
+          { flag: "-a", aliases: ["--all"], description: "" },
+        ],
+        complete: completePaths,
+      },
+      {
+        ...command,
+        name: "goto",
+        synopsis: ["goto"],
+        complete: completeWords(["papers", "projects"]),
+      },
+      { ...command, name: "grep", synopsis: ["grep"] },
+      { ...command, name: "sudo", synopsis: ["sudo"] },
+    ]);
+  });
+
+  describe("completeLine", () => {
+    it("completes command names after pipes, chains and sudo", () => {
+      expect(candidates("g")).toEqual(["goto", "grep"]);
+      expect(candidates("ls | gr")).toEqual(["grep"]);
+      expect(candidates("ls; sudo go")).toEqual(["goto"]);
+      expect(candidates("l", 1, context({ aliases: { ll: "ls -l" } }))).toEqual(
+        ["ll", "ls"],
+      );
+    });
+
+    it("completes option flags from the command's options", () => {
+      expect(candidates("ls -")).toEqual(["--all", "-a", "-l"]);
+      expect(candidates("ls --a")).toEqual(["--all"]);
+      expect(candidates("sudo ls --a")).toEqual(["--all"]);
+    });
+
+    it("completes arguments with the command's completer", () => {
+      expect(candidates("goto p")).toEqual(["papers", "projects"]);
+      expect(candidates("ls docs/a")).toEqual(["docs/api.md"]);
+      expect(candidates("grep x > docs/g")).toEqual(["docs/guide.md"]);
+      expect(candidates("unknown a")).toEqual([]);
+    });
+
+    it("completes aliases like the command they run", () => {
+      const ctx = context({ aliases: { ll: "ls -l" } });
+      expect(candidates("ll --", undefined, ctx)).toEqual(["--all"]);
+      expect(candidates("ll do", undefined, ctx)).toEqual(["docs/"]);
+    });
+
+    it("completes the whole word under the cursor mid-line", () => {
+      const line = "goto pap && ls";
+      const completion = completeLine(line, 6, context());
+
+      expect(completion).toMatchObject({
+        start: 5,
+        end: 8,
+        word: "pap",
+        candidates: ["papers"],
+      });
+      expect(applyCompletion(line, completion, "papers", true)).toEqual({
+        line: "goto papers && ls",
+        cursor: 11,
+      });
+    });
+  });
+
+  describe("applyCompletion", () => {
+    it("adds a space after finished words but not directories", () => {
+      const completion = completeLine("ls do", 5, context());
+
+      expect(applyCompletion("ls do", completion, "docs/", true)).toEqual({
+        line: "ls docs/",
+        cursor: 8,
+      });
+      expect(applyCompletion("ls do", completion, "dogs", true)).toEqual({
+        line: "ls dogs ",
+        cursor: 8,
+      });
+      expect(applyCompletion("ls do", completion, "dog")).toEqual({
+        line: "ls dog",
+        cursor: 6,
+      });
+    });
+
+    it("escapes names with spaces and reads escaped words", () => {
+      writeFile("/docs/My Resume.pdf", "%PDF");
+      writeFile("/docs/My Notes.txt", "notes");
+
+      const line = "ls docs/My\\ R";
+      const completion = completeLine(line, line.length, context());
+      expect(completion.word).toBe("docs/My R");
+      expect(completion.candidates).toEqual(["docs/My Resume.pdf"]);
+      expect(
+        applyCompletion(line, completion, completion.candidates[0], true),
+      ).toEqual({ line: "ls docs/My\\ Resume.pdf ", cursor: 23 });
+
+      expect(candidates("ls docs/My")).toEqual([
+        "docs/My Notes.txt",
+        "docs/My Resume.pdf",
+      ]);
+      expect(
+        applyCompletion("ls x", completeLine("ls x", 4, context()), "a&b'c$"),
+      ).toEqual({ line: "ls a\\&b\\'c\\$", cursor: 12 });
+
+      removePath("/docs/My Resume.pdf");
+      removePath("/docs/My Notes.txt");
+    });
+  });
+
+  describe("commonPrefix", () => {
+    it("finds the shared start of all candidates", () => {
+      expect(commonPrefix(["papers", "projects"])).toBe("p");
+      expect(commonPrefix(["docs/api.md"])).toBe("docs/api.md");
+      expect(commonPrefix([])).toBe("");
+    });
+  });
+
+  describe("formatCandidates", () => {
+    const words = ["a", "bb", "ccc", "d", "e"];
+
+    it("fills columns top to bottom within the width", () => {
+      expect(formatCandidates(words, 12)).toEqual(["a    d", "bb   e", "ccc"]);
+      expect(formatCandidates(words, 3)).toHaveLength(5);
+    });
+
+    it("counts candidates beyond the row limit", () => {
+      expect(formatCandidates(words, 12, 1)).toEqual([
+        "a    bb",
+        "... and 3 more",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Tab completion: which word is being completed, its candidates, and how
+// they are inserted and listed
+import type { CommandContext } from "./commands";
+import {
+  completePaths,
+  getCommandDefinition,
+  listCommandDefinitions,
+} from "./registry";
+
+// Characters that end a word or separate commands on a line
+const BOUNDARY = /[\s|;&<>]/;
+
+// Characters the command line would read as spaces, quotes, operators,
+// variables or history references; inserted names escape them
+const SPECIAL = /[\s$\\'"|;&<>!]/g;
+
+export interface Completion {
+  start: number; // Offset of the word being completed
+  end: number; // End of that word, which may extend past the cursor
+  word: string; // The whole word without its escapes, which candidates start with
+  candidates: string[];
+}
+
+// Whether the character at i ends a word, rather than being escaped
+function isBoundary(line: string, i: number): boolean {
+  return BOUNDARY.test(line[i]) && line[i - 1] !== "\\";
+}
+
+// Options of a command, including their long or alternative spellings
+function completeFlags(name: string, word: string): string[] {
+  const options = getCommandDefinition(name)?.options || [];
+  return options
+    .flatMap((option) => [option.flag, ...(option.aliases || [])])
+    .filter((flag) => flag.startsWith(word))
+    .sort();
+}
+
+function candidatesFor(
+  previous: string[],
+  word: string,
+  context: CommandContext,
+): string[] {
+  // sudo runs the command after it, which is completed as usual
+  while (previous[0] === "sudo") previous = previous.slice(1);
+
+  if (previous.length === 0) {
+    const names = new Set([
+      ...listCommandDefinitions().map(({ name }) => name),
+      ...Object.keys(context.aliases || {}),
+    ]);
+    return [...names].filter((name) => name.startsWith(word)).sort();
+  }
+
+  // Targets of redirections are files whatever the command
+  if ([">", ">>", "<"].includes(previous[previous.length - 1])) {
+    return completePaths(word, context, []);
+  }
+
+  // An alias completes like the command it runs
+  const [typed, ...args] = previous;
+  const name = context.aliases?.[typed]?.trim().split(/\s+/)[0] ?? typed;
+
+  if (word.startsWith("-")) {
+    const flags = completeFlags(name, word);
+    if (flags.length > 0) return flags;
+  }
+
+  const definition = getCommandDefinition(name);
+  return definition?.complete ? definition.complete(word, context, args) : [];
+}
+
+// Complete the word at the cursor, as a whole like zsh does. The rest of
+// the line is kept, so completion works in the middle of a line too
+export function completeLine(
+  line: string,
+  cursor: number,
+  context: CommandContext,
+): Completion {
+  let start = cursor;
+  while (start > 0 && !isBoundary(line, start - 1)) start--;
+  let end = cursor;
+  while (end < line.length && !isBoundary(line, end)) end++;
+
+  // Words of the current command, after the last | ; or &
+  const command = line.slice(0, start).split(/[|;&]/).pop() || "";
+  const previous = command
+    .replace(/(>>?|<)/g, " $1 ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const word = line.slice(start, end).replace(/\\(.)/g, "$1");
+  return {
+    start,
+    end,
+    word,
+    candidates: candidatesFor(previous, word, context),
+  };
+}
+
+// Longest prefix shared by all candidates
+export function commonPrefix(candidates: string[]): string {
+  if (candidates.length === 0) return "";
+  let prefix = candidates[0];
+  for (const candidate of candidates.slice(1)) {
+    while (!candidate.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix;
+}
+
+// Put text in place of the completed word, escaping spaces and the like
+// in it. A finished word is followed by a space, except directories,
+// which are usually completed further
+export function applyCompletion(
+  line: string,
+  { start, end }: Completion,
+  candidate: string,
+  finished = false,
+): { line: string; cursor: number } {
+  const text = candidate.replace(SPECIAL, "\\$&");
+  const after = line.slice(end);
+  const suffix =
+    finished && !candidate.endsWith("/") && !/^\s/.test(after) ? " " : "";
+  return {
+    line: line.slice(0, start) + text + suffix + after,
+    cursor: start + text.length + suffix.length,
+  };
+}
+
+// Candidates in columns filling the terminal width, ordered down each
+// column like ls. Candidates beyond maxRows rows are only counted
+export function formatCandidates(
+  candidates: string[],
+  cols: number,
+  maxRows = Infinity,
+): string[] {
+  const width = Math.max(...candidates.map((c) => c.length)) + 2;
+  const columns = Math.max(1, Math.floor(cols / width));
+  const shown = candidates.slice(0, maxRows * columns);
+  const rows = Math.ceil(shown.length / columns);
+
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    let line = "";
+    for (let column = 0; column < columns; column++) {
+      const candidate = shown[column * rows + row];
+      if (candidate !== undefined) line += candidate.padEnd(width);
+    }
+    lines.push(line.trimEnd());
+  }
+
+  if (shown.length < candidates.length) {
+    lines.push(`... and ${candidates.length - shown.length} more`);
+  }
+  return lines;
+}
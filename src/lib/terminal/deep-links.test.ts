@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkDeepLinkCommand,
+  formatDeepLink,
+  MAX_DEEP_LINK_COMMAND,
+  parseDeepLink,
+  removeDeepLink,
+} from "./deep-links";
+
+describe("Deep Links", () => {
+  it("reads the command from the hash or the query string", () => {
+    expect(
+      parseDeepLink({ hash: "#terminal?cmd=man%20ai", search: "" }),
+    ).toEqual({ command: "man ai", cwd: undefined, typing: true });
+    expect(parseDeepLink({ hash: "", search: "?term=goto+papers" })).toEqual({
+      command: "goto papers",
+      cwd: undefined,
+      typing: true,
+    });
+    expect(
+      parseDeepLink({
+        hash: "#terminal?cmd=ls&cwd=/docs&typing=off",
+        search: "",
+      }),
+    ).toEqual({ command: "ls", cwd: "/docs", typing: false });
+  });
+
+  it("opens the terminal without a command, and ignores other pages", () => {
+    expect(parseDeepLink({ hash: "#terminal", search: "" })).toEqual({
+      command: undefined,
+      cwd: undefined,
+      typing: true,
+    });
+    expect(parseDeepLink({ hash: "#projects", search: "?q=1" })).toBeNull();
+    expect(parseDeepLink({ hash: "#terminals", search: "" })).toBeNull();
+    // Directories are absolute
+    expect(
+      parseDeepLink({ hash: "#terminal?cwd=docs", search: "" })?.cwd,
+    ).toBeUndefined();
+  });
+
+  it("only allows commands that show things", () => {
+    expect(checkDeepLinkCommand("man ai")).toBeNull();
+    expect(
+      checkDeepLinkCommand("cd /docs && cat README.md | head -3"),
+    ).toBeNull();
+
+    expect(checkDeepLinkCommand("rm -r /home/guest")).toBe(
+      "rm cannot be run from a link",
+    );
+    expect(checkDeepLinkCommand("ls; passwd")).toBe(
+      "passwd cannot be run from a link",
+    );
+    expect(checkDeepLinkCommand("echo hi > notes.txt")).toBe(
+      "links cannot write to files",
+    );
+    expect(checkDeepLinkCommand("ls &")).toBe(
+      "jobs cannot be started from a link",
+    );
+    for (const command of ["echo !!", "echo !-1", "echo !ls", "ls; !rm"]) {
+      expect(checkDeepLinkCommand(command)).toBe(
+        "links cannot use history expansion (!)",
+      );
+    }
+    for (const encoded of ["%0D", "%03", "%09"]) {
+      const { command } = parseDeepLink({
+        hash: `#terminal?cmd=echo%20a${encoded}rm%20-rf%20~`,
+        search: "",
+      })!;
+      expect(checkDeepLinkCommand(command!)).toBe(
+        "links cannot contain control characters",
+      );
+    }
+    // A quoted or lone ! is not expanded
+    expect(checkDeepLinkCommand("echo 'hi!!' !")).toBeNull();
+    expect(checkDeepLinkCommand("ls |")).toBe(
+      "syntax error near unexpected token `newline'",
+    );
+    expect(checkDeepLinkCommand("x".repeat(MAX_DEEP_LINK_COMMAND + 1))).toBe(
+      `the command is longer than ${MAX_DEEP_LINK_COMMAND} characters`,
+    );
+  });
+
+  it("formats links that parse back to the same command", () => {
+    const link = formatDeepLink("https://claret.tech/?term=ls#about", {
+      command: "grep -i 'neural nets' README.md",
+      cwd: "/docs",
+    });
+    expect(link).toBe(
+      "https://claret.tech/#terminal?cmd=grep%20-i%20'neural%20nets'%20README.md&cwd=/docs",
+    );
+
+    const url = new URL(link);
+    expect(parseDeepLink(url)).toEqual({
+      command: "grep -i 'neural nets' README.md",
+      cwd: "/docs",
+      typing: true,
+    });
+    expect(formatDeepLink("https://claret.tech/", {})).toBe(
+      "https://claret.tech/#terminal",
+    );
+  });
+
+  it("takes the link off the address", () => {
+    expect(removeDeepLink("https://claret.tech/#terminal?cmd=ls")).toBe(
+      "https://claret.tech/",
+    );
+    expect(removeDeepLink("https://claret.tech/?term=ls&lang=en#about")).toBe(
+      "https://claret.tech/?lang=en#about",
+    );
+  });
+});
@@ -0,0 +1,145 @@
+// Links that open the terminal and run a command:
+//   /#terminal?cmd=man%20ai&cwd=/portfolio   or   /?term=goto+papers
+// Anyone can send such a link, so only commands that show things run
+// from it, and the command is typed on the prompt where it can be seen
+import { expandHistory } from "./history";
+import { parseCommandLine } from "./parser";
+
+export interface DeepLink {
+  command?: string; // Typed on the prompt and run
+  cwd?: string; // Directory to run it in
+  typing: boolean; // Type the command key by key, or all at once
+}
+
+const HASH = "#terminal";
+const SEARCH_PARAMETER = "term";
+
+// The site the share command links to, when there is no window
+const SITE_URL = "https://claret.tech/";
+
+// Commands a link may run: they read files and show the portfolio, but do
+// not change files, accounts or settings, start downloads or open windows
+export const DEEP_LINK_COMMANDS = [
+  "about",
+  "cat",
+  "cd",
+  "date",
+  "echo",
+  "education",
+  "experience",
+  "goto",
+  "grep",
+  "head",
+  "help",
+  "less",
+  "ls",
+  "man",
+  "projects",
+  "pwd",
+  "skills",
+  "sort",
+  "tail",
+  "uniq",
+  "wc",
+  "whoami",
+];
+
+// Longer commands are not typed out from a link
+export const MAX_DEEP_LINK_COMMAND = 200;
+
+// The link in a page's location, if it has one. An empty command just
+// opens the terminal
+export function parseDeepLink(location: {
+  hash: string;
+  search: string;
+}): DeepLink | null {
+  let parameters: URLSearchParams;
+  let command: string | null;
+
+  if (location.hash === HASH || location.hash.startsWith(`${HASH}?`)) {
+    parameters = new URLSearchParams(location.hash.slice(HASH.length + 1));
+    command = parameters.get("cmd");
+  } else {
+    parameters = new URLSearchParams(location.search);
+    command = parameters.get(SEARCH_PARAMETER);
+    if (command === null) return null;
+  }
+
+  const cwd = parameters.get("cwd");
+  return {
+    command: command?.trim() || undefined,
+    cwd: cwd?.startsWith("/") ? cwd : undefined,
+    typing: parameters.get("typing") !== "off",
+  };
+}
+
+// Why a command may not run from a link, or null when it may
+export function checkDeepLinkCommand(command: string): string | null {
+  if (command.length > MAX_DEEP_LINK_COMMAND) {
+    return `the command is longer than ${MAX_DEEP_LINK_COMMAND} characters`;
+  }
+  // The command is typed key by key, so a carriage return in it would
+  // run what comes before and type the rest as a new, unchecked line
+  if (/[\x00-\x1f\x7f]/.test(command)) {
+    return "links cannot contain control characters";
+  }
+  // The prompt expands !! and friends before running the line, which
+  // would bring in the visitor's own earlier commands unchecked
+  if ("error" in expandHistory(command, [])) {
+    return "links cannot use history expansion (!)";
+  }
+
+  let chain;
+  try {
+    chain = parseCommandLine(command);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  for (const { pipeline, background } of chain) {
+    if (background) return "jobs cannot be started from a link";
+    for (const { name, redirects } of pipeline.commands) {
+      if (!DEEP_LINK_COMMANDS.includes(name)) {
+        return `${name} cannot be run from a link`;
+      }
+      if (redirects.length > 0) {
+        return "links cannot write to files";
+      }
+    }
+  }
+  return null;
+}
+
+// A link to the terminal in the directory, running the command if given
+export function formatDeepLink(
+  base: string,
+  { command, cwd }: { command?: string; cwd?: string },
+): string {
+  const url = new URL(base);
+  url.search = "";
+  const parameters = [
+    command && `cmd=${encodeURIComponent(command)}`,
+    cwd && `cwd=${encodeURIComponent(cwd).replace(/%2F/g, "/")}`,
+  ].filter(Boolean);
+  url.hash = parameters.length
+    ? `${HASH.slice(1)}?${parameters.join("&")}`
+    : HASH.slice(1);
+  return url.toString();
+}
+
+// The page's address without its link, so reloading does not run the
+// command again
+export function removeDeepLink(href: string): string {
+  const url = new URL(href);
+  if (url.hash === HASH || url.hash.startsWith(`${HASH}?`)) url.hash = "";
+  url.searchParams.delete(SEARCH_PARAMETER);
+  return url.toString();
+}
+
+// The page the share command links to
+export function siteAddress(): string {
+  if (typeof window !== "undefined" && window.location?.origin) {
+    return `${window.location.origin}${window.location.pathname}`;
+  }
+  return SITE_URL;
+}
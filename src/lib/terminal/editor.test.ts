@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEditor,
+  getEditorContent,
+  handleEditorKey,
+  renderEditor,
+} from "./editor";
+
+const type = (content: string, keys: string[], rows = 10) => {
+  const state = createEditor(content);
+  const actions = keys.map((key) => handleEditorKey(state, key, rows));
+  return { state, actions };
+};
+
+describe("Terminal Editor", () => {
+  it("inserts typed and pasted text at the cursor", () => {
+    const { state } = type("world\n", ["Hello, ", "\x1b[F", "!"]);
+    expect(getEditorContent(state)).toBe("Hello, world!\n");
+    expect(state.modified).toBe(true);
+  });
+
+  it("splits and joins lines with Enter and Backspace", () => {
+    const { state } = type("ab", ["\x1b[C", "\r"]);
+    expect(state.lines).toEqual(["a", "b"]);
+    expect([state.row, state.col]).toEqual([1, 0]);
+
+    handleEditorKey(state, "\x7f", 10);
+    expect(state.lines).toEqual(["ab"]);
+    expect(state.col).toBe(1);
+  });
+
+  it("deletes forward and joins with the next line", () => {
+    const { state } = type("ab\ncd", ["\x1b[3~", "\x1b[F", "\x1b[3~"]);
+    expect(state.lines).toEqual(["bcd"]);
+  });
+
+  it("cuts and pastes lines", () => {
+    const { state } = type("one\ntwo\nthree", ["\x0b", "\x1b[B", "\x15"]);
+    expect(state.lines).toEqual(["two", "one", "three"]);
+  });
+
+  it("keeps the cursor within shorter lines", () => {
+    const { state } = type("long line\nab", ["\x1b[F", "\x1b[B"]);
+    expect([state.row, state.col]).toEqual([1, 2]);
+  });
+
+  it("scrolls to keep the cursor visible", () => {
+    const content = Array.from({ length: 20 }, (_, i) => `${i}`).join("\n");
+    const { state } = type(content, ["\x1b[6~", "\x1b[6~"], 8);
+    expect(state.row).toBe(8);
+    expect(state.top).toBe(5);
+  });
+
+  it("reports save and exit commands", () => {
+    const { state, actions } = type("", ["x", "\x0f", "\x18"]);
+    expect(actions).toEqual([null, "save", "exit"]);
+    expect(getEditorContent(state)).toBe("x\n");
+  });
+
+  it("renders the file name, text and help", () => {
+    const { state } = type("hello", ["!"]);
+    const screen = renderEditor(state, "notes.md", 10, 40, "Saved");
+    expect(screen).toContain("notes.md  [Modified]");
+    expect(screen).toContain("!hello");
+    expect(screen).toContain("[ Saved ]");
+    expect(screen).toContain("Write Out");
+    expect(screen.endsWith("\x1b[2;2H")).toBe(true);
+  });
+
+  it("treats empty files as empty", () => {
+    expect(getEditorContent(createEditor(""))).toBe("");
+  });
+});
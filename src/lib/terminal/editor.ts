@@ -0,0 +1,223 @@
+// Minimal full-screen text editor used by the nano command
+// Key handling is kept free of any terminal so it can be tested headlessly
+
+export interface EditorState {
+  lines: string[];
+  row: number;
+  col: number;
+  top: number; // First visible line
+  modified: boolean;
+  clipboard: string[]; // Lines cut with Ctrl+K, pasted with Ctrl+U
+}
+
+export type EditorAction = "save" | "exit" | null;
+
+// Layout: title bar, text area, status line and two help lines
+const CHROME_ROWS = 4;
+
+export function createEditor(content: string): EditorState {
+  const lines = content.replace(/\n$/, "").split("\n");
+  return {
+    lines,
+    row: 0,
+    col: 0,
+    top: 0,
+    modified: false,
+    clipboard: [],
+  };
+}
+
+export function getEditorContent(state: EditorState): string {
+  const text = state.lines.join("\n");
+  return text ? `${text}\n` : "";
+}
+
+function textRows(rows: number): number {
+  return Math.max(1, rows - CHROME_ROWS);
+}
+
+function insertText(state: EditorState, text: string) {
+  const pieces = text.replace(/\r\n?/g, "\n").split("\n");
+  const line = state.lines[state.row];
+  const before = line.slice(0, state.col);
+  const after = line.slice(state.col);
+
+  if (pieces.length === 1) {
+    state.lines[state.row] = before + text + after;
+    state.col += text.length;
+  } else {
+    const last = pieces[pieces.length - 1];
+    state.lines.splice(
+      state.row,
+      1,
+      before + pieces[0],
+      ...pieces.slice(1, -1),
+      last + after,
+    );
+    state.row += pieces.length - 1;
+    state.col = last.length;
+  }
+  state.modified = true;
+}
+
+// Apply a key to the editor state; returns the command the key triggered
+export function handleEditorKey(
+  state: EditorState,
+  key: string,
+  rows: number,
+): EditorAction {
+  const line = state.lines[state.row];
+  const pageRows = textRows(rows);
+
+  switch (key) {
+    case "\x0f": // Ctrl+O
+      return "save";
+    case "\x18": // Ctrl+X
+      return "exit";
+
+    case "\r":
+      insertText(state, "\n");
+      break;
+
+    case "\x7f": // Backspace
+      if (state.col > 0) {
+        state.lines[state.row] =
+          line.slice(0, state.col - 1) + line.slice(state.col);
+        state.col--;
+        state.modified = true;
+      } else if (state.row > 0) {
+        state.col = state.lines[state.row - 1].length;
+        state.lines[state.row - 1] += line;
+        state.lines.splice(state.row, 1);
+        state.row--;
+        state.modified = true;
+      }
+      break;
+
+    case "\x1b[3~": // Delete
+      if (state.col < line.length) {
+        state.lines[state.row] =
+          line.slice(0, state.col) + line.slice(state.col + 1);
+        state.modified = true;
+      } else if (state.row < state.lines.length - 1) {
+        state.lines[state.row] += state.lines[state.row + 1];
+        state.lines.splice(state.row + 1, 1);
+        state.modified = true;
+      }
+      break;
+
+    case "\x0b": // Ctrl+K - cut the current line
+      state.clipboard = [line];
+      if (state.lines.length > 1) {
+        state.lines.splice(state.row, 1);
+        state.row = Math.min(state.row, state.lines.length - 1);
+      } else {
+        state.lines[0] = "";
+      }
+      state.col = 0;
+      state.modified = true;
+      break;
+
+    case "\x15": // Ctrl+U - paste the cut line above the cursor
+      if (state.clipboard.length > 0) {
+        state.lines.splice(state.row, 0, ...state.clipboard);
+        state.row += state.clipboard.length;
+        state.col = 0;
+        state.modified = true;
+      }
+      break;
+
+    case "\x1b[A":
+      state.row = Math.max(0, state.row - 1);
+      break;
+    case "\x1b[B":
+      state.row = Math.min(state.lines.length - 1, state.row + 1);
+      break;
+    case "\x1b[D":
+      if (state.col > 0) {
+        state.col--;
+      } else if (state.row > 0) {
+        state.row--;
+        state.col = state.lines[state.row].length;
+      }
+      break;
+    case "\x1b[C":
+      if (state.col < line.length) {
+        state.col++;
+      } else if (state.row < state.lines.length - 1) {
+        state.row++;
+        state.col = 0;
+      }
+      break;
+    case "\x1b[H":
+    case "\x1bOH":
+    case "\x01": // Ctrl+A
+      state.col = 0;
+      break;
+    case "\x1b[F":
+    case "\x1bOF":
+    case "\x05": // Ctrl+E
+      state.col = line.length;
+      break;
+    case "\x1b[5~": // Page Up
+      state.row = Math.max(0, state.row - pageRows);
+      break;
+    case "\x1b[6~": // Page Down
+      state.row = Math.min(state.lines.length - 1, state.row + pageRows);
+      break;
+
+    default:
+      // Printable text, including pasted chunks
+      if (!key.startsWith("\x1b") && key.charCodeAt(0) >= 32) {
+        insertText(state, key);
+      }
+  }
+
+  // Keep the cursor inside the text and the visible window
+  state.col = Math.min(state.col, state.lines[state.row].length);
+  if (state.row < state.top) {
+    state.top = state.row;
+  } else if (state.row >= state.top + pageRows) {
+    state.top = state.row - pageRows + 1;
+  }
+
+  return null;
+}
+
+// Draw the whole editor screen, leaving the cursor at the edit position
+export function renderEditor(
+  state: EditorState,
+  filename: string,
+  rows: number,
+  cols: number,
+  message = "",
+): string {
+  const pageRows = textRows(rows);
+  const title = ` nano  ${filename}${state.modified ? "  [Modified]" : ""}`;
+
+  // Scroll long lines horizontally so the cursor stays on screen
+  const offset = Math.max(0, state.col - cols + 1);
+  const body = Array.from({ length: pageRows }, (_, i) => {
+    const index = state.top + i;
+    if (index >= state.lines.length) return "";
+    const text = state.lines[index];
+    return (index === state.row ? text.slice(offset) : text).slice(0, cols);
+  });
+
+  const status = message ? `\x1b[7m[ ${message} ]\x1b[0m` : "";
+  const help = [
+    "\x1b[7m^O\x1b[0m Write Out   \x1b[7m^K\x1b[0m Cut Line",
+    "\x1b[7m^X\x1b[0m Exit        \x1b[7m^U\x1b[0m Paste",
+  ];
+
+  const cursorRow = state.row - state.top + 2;
+  const cursorCol = state.col - offset + 1;
+
+  return (
+    "\x1b[H\x1b[2J" +
+    `\x1b[7m${title.padEnd(cols).slice(0, cols)}\x1b[0m\r\n` +
+    body.join("\r\n") +
+    `\r\n${status}\r\n${help.join("\r\n")}` +
+    `\x1b[${cursorRow};${cursorCol}H`
+  );
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fileCommands } from "./file-commands";
+import { getFileAtPath, mountUserFileSystem } from "./fileSystem";
+import type { CommandContext, CommandResult } from "./commands";
+
+const run = async (
+  name: string,
+  args: string[],
+  context: Partial<CommandContext> = {},
+) =>
+  (await fileCommands[name](args, {
+    currentDirectory: "/",
+    currentUser: "guest",
+    setCurrentDirectory: vi.fn(),
+    setCurrentUser: vi.fn(),
+    addToHistory: vi.fn(),
+    clearTerminal: vi.fn(),
+    closeTerminal: vi.fn(),
+    ...context,
+  })) as CommandResult;
+
+describe("File Commands", () => {
+  beforeEach(() => {
+    // Start every test from the unmodified tree
+    mountUserFileSystem("nobody");
+    mountUserFileSystem("guest");
+  });
+
+  describe("mkdir", () => {
+    it("creates directories relative to the current directory", async () => {
+      const result = await run("mkdir", ["drafts"], {
+        currentDirectory: "/docs",
+      });
+      expect(result.success).toBe(true);
+      expect(getFileAtPath("/docs/drafts")?.type).toBe("directory");
+    });
+
+    it("creates parents with -p", async () => {
+      expect((await run("mkdir", ["-p", "a/b/c"])).success).toBe(true);
+      expect(getFileAtPath("/a/b/c")?.type).toBe("directory");
+      expect((await run("mkdir", ["-p", "a/b"])).success).toBe(true);
+    });
+
+    it("reports existing and unreachable directories", async () => {
+      expect((await run("mkdir", ["docs"])).output).toBe(
+        "mkdir: cannot create directory 'docs': File exists",
+      );
+      expect((await run("mkdir", ["x/y"])).output).toBe(
+        "mkdir: cannot create directory 'x/y': No such file or directory",
+      );
+      expect((await run("mkdir", [])).output).toBe("mkdir: missing operand");
+    });
+  });
+
+  describe("touch", () => {
+    it("creates empty files and keeps existing content", async () => {
+      await run("touch", ["new.txt", "file"]);
+      expect(getFileAtPath("/new.txt")?.content).toBe("");
+      expect(getFileAtPath("/file")?.content).toContain("simple text file");
+      expect(getFileAtPath("/file")?.modified).toBeDefined();
+    });
+
+    it("fails when the directory does not exist", async () => {
+      const result = await run("touch", ["missing/new.txt"]);
+      expect(result.success).toBe(false);
+      expect(result.output).toContain("No such file or directory");
+    });
+  });
+
+  describe("rm", () => {
+    it("removes files", async () => {
+      expect((await run("rm", ["file"])).success).toBe(true);
+      expect(getFileAtPath("/file")).toBeNull();
+    });
+
+    it("requires -r for directories", async () => {
+      expect((await run("rm", ["docs"])).output).toBe(
+        "rm: cannot remove 'docs': Is a directory",
+      );
+      expect((await run("rm", ["-r", "docs"])).success).toBe(true);
+      expect(getFileAtPath("/docs")).toBeNull();
+    });
+
+    it("ignores missing files with -f and refuses the root", async () => {
+      expect((await run("rm", ["nope"])).success).toBe(false);
+      expect((await run("rm", ["-f", "nope"])).success).toBe(true);
+      expect((await run("rm", ["-rf", "/"])).output).toContain("dangerous");
+      expect(getFileAtPath("/docs")).not.toBeNull();
+    });
+  });
+
+  describe("cp and mv", () => {
+    it("copies a file to a new name", async () => {
+      await run("cp", ["file", "copy.txt"]);
+      expect(getFileAtPath("/copy.txt")?.content).toBe(
+        getFileAtPath("/file")?.content,
+      );
+    });
+
+    it("copies into an existing directory", async () => {
+      await run("cp", ["file", "README.md", "docs"]);
+      expect(getFileAtPath("/docs/file")).not.toBeNull();
+      expect(getFileAtPath("/docs/README.md")?.content).toContain(
+        "Interactive terminal",
+      );
+    });
+
+    it("requires -r to copy directories", async () => {
+      expect((await run("cp", ["docs", "backup"])).output).toBe(
+        "cp: -r not specified; omitting directory 'docs'",
+      );
+      await run("cp", ["-r", "docs", "backup"]);
+      expect(getFileAtPath("/backup/api.md")?.content).toBe(
+        "API documentation",
+      );
+    });
+
+    it("renames and moves files", async () => {
+      await run("mv", ["file", "renamed"]);
+      expect(getFileAtPath("/file")).toBeNull();
+      expect(getFileAtPath("/renamed")).not.toBeNull();
+
+      await run("mv", ["renamed", "docs"]);
+      expect(getFileAtPath("/docs/renamed")).not.toBeNull();
+    });
+
+    it("keeps the source when the storage has no room to move it", async () => {
+      // The copy is saved, then the removal of the source is not
+      vi.mocked(localStorage.setItem)
+        .mockImplementationOnce(() => {})
+        .mockImplementationOnce(() => {
+          throw new DOMException(
+            "The quota has been exceeded",
+            "QuotaExceededError",
+          );
+        });
+
+      expect(await run("mv", ["file", "renamed"])).toEqual({
+        output:
+          "mv: cannot move 'file' to '/renamed': the browser's storage is full",
+        success: false,
+      });
+      expect(getFileAtPath("/file")).not.toBeNull();
+      expect(getFileAtPath("/renamed")).toBeNull();
+    });
+
+    it("reports missing operands and sources", async () => {
+      expect((await run("mv", ["file"])).output).toBe(
+        "mv: missing destination file operand after 'file'",
+      );
+      expect((await run("cp", ["nope", "x"])).output).toBe(
+        "cp: cannot stat 'nope': No such file or directory",
+      );
+      expect((await run("mv", ["file", "README.md", "x"])).output).toBe(
+        "mv: target 'x' is not a directory",
+      );
+    });
+  });
+
+  describe("nano", () => {
+    const session = (keys: string[]) => ({
+      terminalRows: 10,
+      terminalCols: 40,
+      writer: vi.fn(),
+      readKey: vi.fn(() => Promise.resolve(keys.shift() || "\x18")),
+    });
+
+    it("saves edits with Ctrl+O", async () => {
+      const context = session(["hello", "\x0f", "\x18"]);
+      const result = await run("nano", ["notes.txt"], context);
+
+      expect(result.success).toBe(true);
+      expect(getFileAtPath("/notes.txt")?.content).toBe("hello\n");
+
+      const screens = context.writer.mock.calls.map(([text]) => text);
+      expect(screens[0]).toContain("\x1b[?1049h");
+      expect(screens[screens.length - 1]).toContain("\x1b[?1049l");
+    });
+
+    it("asks before discarding changes", async () => {
+      await run("nano", ["file"], session(["changed ", "\x18", "n"]));
+      expect(getFileAtPath("/file")?.content).toBe(
+        "This is a simple text file in the root directory.",
+      );
+
+      await run("nano", ["file"], session(["changed ", "\x18", "y"]));
+      expect(getFileAtPath("/file")?.content).toMatch(/^changed This/);
+    });
+
+    it("needs an interactive terminal and a file", async () => {
+      expect((await run("nano", ["file"])).success).toBe(false);
+      expect((await run("nano", [], session([]))).output).toBe(
+        "Usage: nano <file>",
+      );
+      expect((await run("nano", ["docs"], session([]))).output).toBe(
+        "nano: docs: Is a directory",
+      );
+    });
+  });
+});
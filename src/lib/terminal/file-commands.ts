@@ -0,0 +1,451 @@
+// Commands that create, change and remove files in the virtual file system
+import type { CommandFunction, CommandContext } from "./commands";
+import {
+  copyPath,
+  getFileAtPath,
+  getParentPath,
+  lastSaveFailed,
+  makeDirectory,
+  movePath,
+  removePath,
+  resolvePath,
+  writeFile,
+} from "./fileSystem";
+import {
+  createEditor,
+  getEditorContent,
+  handleEditorKey,
+  renderEditor,
+} from "./editor";
+import { completePaths, defineCommands } from "./registry";
+
+const STORAGE_FULL = "the browser's storage is full";
+
+// Why a change failed: a full storage, or the given reason
+function failure(reason: string): string {
+  return lastSaveFailed() ? STORAGE_FULL : reason;
+}
+
+// Split leading flags (-rf, -p) from operands
+function splitFlags(
+  command: string,
+  args: string[],
+  allowed: string,
+): { flags: Set<string>; operands: string[]; error?: string } {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      operands.push(arg);
+      continue;
+    }
+    for (const flag of arg.slice(1)) {
+      if (!allowed.includes(flag)) {
+        return {
+          flags,
+          operands,
+          error: `${command}: invalid option -- '${flag}'`,
+        };
+      }
+      flags.add(flag);
+    }
+  }
+
+  return { flags, operands };
+}
+
+function baseName(path: string): string {
+  return path.split("/").filter(Boolean).pop() || "/";
+}
+
+// Shared implementation of cp and mv: SOURCE DEST or SOURCE... DIRECTORY
+function transfer(command: "cp" | "mv"): CommandFunction {
+  return (args, context) => {
+    const { flags, operands, error } = splitFlags(
+      command,
+      args,
+      command === "cp" ? "rR" : "",
+    );
+    if (error) return { output: error, success: false };
+
+    if (operands.length < 2) {
+      return {
+        output:
+          operands.length === 0
+            ? `${command}: missing file operand`
+            : `${command}: missing destination file operand after '${operands[0]}'`,
+        success: false,
+      };
+    }
+
+    const sources = operands.slice(0, -1);
+    const destination = operands[operands.length - 1];
+    const destinationPath = resolvePath(context.currentDirectory, destination);
+    const destinationNode = getFileAtPath(destinationPath);
+    const intoDirectory = destinationNode?.type === "directory";
+
+    if (sources.length > 1 && !intoDirectory) {
+      return {
+        output: `${command}: target '${destination}' is not a directory`,
+        success: false,
+      };
+    }
+
+    const errors: string[] = [];
+    for (const source of sources) {
+      const sourcePath = resolvePath(context.currentDirectory, source);
+      const node = getFileAtPath(sourcePath);
+
+      if (!node) {
+        errors.push(
+          `${command}: cannot stat '${source}': No such file or directory`,
+        );
+        continue;
+      }
+      if (
+        command === "cp" &&
+        node.type === "directory" &&
+        !flags.has("r") &&
+        !flags.has("R")
+      ) {
+        errors.push(`cp: -r not specified; omitting directory '${source}'`);
+        continue;
+      }
+
+      const target = intoDirectory
+        ? resolvePath(destinationPath, baseName(sourcePath))
+        : destinationPath;
+      const existing = getFileAtPath(target);
+      if (existing?.type === "directory" && node.type === "file") {
+        errors.push(
+          `${command}: cannot overwrite directory '${target}' with non-directory`,
+        );
+        continue;
+      }
+
+      const result =
+        command === "cp"
+          ? copyPath(sourcePath, target)
+          : movePath(sourcePath, target);
+      if (!result) {
+        const verb = command === "cp" ? "copy" : "move";
+        errors.push(
+          lastSaveFailed()
+            ? `${command}: cannot ${verb} '${source}' to '${target}': ${STORAGE_FULL}`
+            : getFileAtPath(getParentPath(target))
+              ? `${command}: cannot ${verb} '${source}' to '${target}'`
+              : `${command}: cannot create '${target}': No such file or directory`,
+        );
+      }
+    }
+
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  };
+}
+
+// Edit a file full-screen until the user exits
+async function edit(
+  filename: string,
+  path: string,
+  context: CommandContext,
+  readKey: () => Promise<string>,
+  writer: (text: string) => void,
+): Promise<string | null> {
+  const existing = getFileAtPath(path);
+  const state = createEditor(existing?.content || "");
+  const rows = context.terminalRows || 24;
+  const cols = context.terminalCols || 80;
+  let message = existing ? "" : "New File";
+  let confirmingExit = false;
+  let saveError: string | null = null;
+
+  const save = () => {
+    if (writeFile(path, getEditorContent(state))) {
+      state.modified = false;
+      message = `Wrote ${state.lines.length} lines`;
+      saveError = null;
+    } else {
+      saveError = `nano: cannot write '${filename}': ${failure("No such file or directory")}`;
+      message = "Error writing file";
+    }
+  };
+
+  writer("\x1b[?1049h\x1b[?7l");
+  writer(renderEditor(state, filename, rows, cols, message));
+
+  while (!context.abortController?.signal.aborted) {
+    const key = await readKey();
+    message = "";
+
+    if (confirmingExit) {
+      if (key === "y" || key === "Y") {
+        save();
+        if (!saveError) break;
+      } else if (key === "n" || key === "N") {
+        break;
+      }
+      confirmingExit = false;
+    } else {
+      const action = handleEditorKey(state, key, rows);
+      if (action === "save") {
+        save();
+      } else if (action === "exit") {
+        if (!state.modified) break;
+        confirmingExit = true;
+        message = "Save modified buffer? (y/n)";
+      }
+    }
+
+    writer(renderEditor(state, filename, rows, cols, message));
+  }
+
+  writer("\x1b[?7h\x1b[?1049l");
+  return saveError;
+}
+
+export const fileCommands: Record<string, CommandFunction> = {
+  mkdir: (args, context) => {
+    const { flags, operands, error } = splitFlags("mkdir", args, "p");
+    if (error) return { output: error, success: false };
+    if (operands.length === 0) {
+      return { output: "mkdir: missing operand", success: false };
+    }
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const path = resolvePath(context.currentDirectory, operand);
+
+      if (flags.has("p")) {
+        // Create each missing directory along the way
+        let current = "";
+        for (const part of path.split("/").filter(Boolean)) {
+          current += `/${part}`;
+          const node = getFileAtPath(current);
+          if (node?.type === "file") {
+            errors.push(
+              `mkdir: cannot create directory '${operand}': Not a directory`,
+            );
+            break;
+          }
+          if (!node) makeDirectory(current);
+        }
+      } else if (getFileAtPath(path)) {
+        errors.push(`mkdir: cannot create directory '${operand}': File exists`);
+      } else if (!makeDirectory(path)) {
+        errors.push(
+          `mkdir: cannot create directory '${operand}': ${failure("No such file or directory")}`,
+        );
+      }
+    }
+
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+
+  touch: (args, context) => {
+    if (args.length === 0) {
+      return { output: "touch: missing file operand", success: false };
+    }
+
+    const errors: string[] = [];
+    for (const operand of args) {
+      const path = resolvePath(context.currentDirectory, operand);
+      const existing = getFileAtPath(path);
+
+      // Directories keep their contents; files get a fresh timestamp
+      if (existing?.type === "directory") continue;
+      if (!writeFile(path, existing?.content || "")) {
+        errors.push(
+          `touch: cannot touch '${operand}': ${failure("No such file or directory")}`,
+        );
+      }
+    }
+
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+
+  rm: (args, context) => {
+    const { flags, operands, error } = splitFlags("rm", args, "rRf");
+    if (error) return { output: error, success: false };
+
+    const recursive = flags.has("r") || flags.has("R");
+    const force = flags.has("f");
+
+    if (operands.length === 0) {
+      return force
+        ? { output: "", success: true }
+        : { output: "rm: missing operand", success: false };
+    }
+
+    const errors: string[] = [];
+    for (const operand of operands) {
+      const path = resolvePath(context.currentDirectory, operand);
+      const node = getFileAtPath(path);
+
+      if (getParentPath(path) === path) {
+        errors.push("rm: it is dangerous to operate recursively on '/'");
+      } else if (!node) {
+        if (!force) {
+          errors.push(
+            `rm: cannot remove '${operand}': No such file or directory`,
+          );
+        }
+      } else if (node.type === "directory" && !recursive) {
+        errors.push(`rm: cannot remove '${operand}': Is a directory`);
+      } else if (!removePath(path)) {
+        errors.push(
+          `rm: cannot remove '${operand}': ${failure("Unknown error")}`,
+        );
+      }
+    }
+
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+
+  cp: transfer("cp"),
+
+  mv: transfer("mv"),
+
+  nano: async (args, context) => {
+    const [filename] = args;
+    if (!filename) {
+      return { output: "Usage: nano <file>", success: false };
+    }
+    if (!context.readKey || !context.writer) {
+      return {
+        output: "nano: standard input is not a terminal",
+        success: false,
+      };
+    }
+
+    const path = resolvePath(context.currentDirectory, filename);
+    if (getFileAtPath(path)?.type === "directory") {
+      return { output: `nano: ${filename}: Is a directory`, success: false };
+    }
+
+    const error = await edit(
+      filename,
+      path,
+      context,
+      context.readKey,
+      context.writer,
+    );
+    return { output: error || "", success: error === null };
+  },
+};
+
+export const fileCommandDefinitions = defineCommands(fileCommands, {
+  mkdir: {
+    category: "posix",
+    complete: completePaths,
+    summary: "make directories",
+    synopsis: ["mkdir [-p] DIRECTORY..."],
+    description: [
+      "Create each DIRECTORY. Changes are saved for the current user and",
+      "survive page reloads.",
+    ],
+    options: [
+      {
+        flag: "-p",
+        description:
+          "Create parent directories as needed, no error if existing",
+      },
+    ],
+    examples: [
+      "mkdir notes             Create the notes directory",
+      "mkdir -p a/b/c          Create a, a/b and a/b/c",
+    ],
+  },
+  touch: {
+    category: "posix",
+    complete: completePaths,
+    summary: "create files or update their modification time",
+    synopsis: ["touch FILE..."],
+    description: [
+      "Create each FILE as an empty file if it does not exist, otherwise",
+      "set its modification time to now.",
+    ],
+    examples: ["touch todo.txt          Create an empty todo.txt"],
+  },
+  rm: {
+    category: "posix",
+    complete: completePaths,
+    summary: "remove files or directories",
+    synopsis: ["rm [-r] [-f] FILE..."],
+    description: [
+      "Remove each FILE. Directories are only removed with -r. Removing",
+      "built-in files hides them for the current user only.",
+    ],
+    options: [
+      {
+        flag: "-r",
+        aliases: ["-R"],
+        description: "Remove directories and their contents recursively",
+      },
+      { flag: "-f", description: "Ignore missing files" },
+    ],
+    examples: [
+      "rm todo.txt             Remove a file",
+      "rm -rf notes            Remove the notes directory",
+    ],
+  },
+  cp: {
+    category: "posix",
+    complete: completePaths,
+    summary: "copy files and directories",
+    synopsis: ["cp [-r] SOURCE DEST", "cp [-r] SOURCE... DIRECTORY"],
+    description: [
+      "Copy SOURCE to DEST, or each SOURCE into an existing DIRECTORY.",
+    ],
+    options: [
+      {
+        flag: "-r",
+        aliases: ["-R"],
+        description: "Copy directories recursively",
+      },
+    ],
+    examples: [
+      "cp README.md notes.md   Copy a file",
+      "cp -r docs backup       Copy a directory tree",
+    ],
+  },
+  mv: {
+    category: "posix",
+    complete: completePaths,
+    summary: "move or rename files",
+    synopsis: ["mv SOURCE DEST", "mv SOURCE... DIRECTORY"],
+    description: [
+      "Rename SOURCE to DEST, or move each SOURCE into an existing",
+      "DIRECTORY.",
+    ],
+    examples: [
+      "mv notes.md ideas.md    Rename a file",
+      "mv a.md b.md docs       Move two files into docs",
+    ],
+  },
+  nano: {
+    category: "posix",
+    complete: completePaths,
+    summary: "simple full-screen text editor",
+    synopsis: ["nano FILE"],
+    description: [
+      "Edit FILE, creating it on first save. Saved files persist for",
+      "the current user.",
+    ],
+    sections: {
+      KEYS: [
+        "Ctrl+O          Save the file",
+        "Ctrl+X          Exit (asks to save unsaved changes)",
+        "Ctrl+K          Cut the current line",
+        "Ctrl+U          Paste the cut line",
+        "Ctrl+A / Ctrl+E Go to the beginning / end of the line",
+      ],
+    },
+    examples: ["nano notes.md           Edit notes.md"],
+  },
+});
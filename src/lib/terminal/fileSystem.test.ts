@@ -1,9 +1,16 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   fileSystem,
   resolvePath,
   getFileAtPath,
   getParentPath,
+  writeFile,
+  makeDirectory,
+  removePath,
+  copyPath,
+  movePath,
+  mountUserFileSystem,
+  lastSaveFailed,
 } from "./fileSystem";
 
 describe("Terminal File System", () => {
@@ -38,14 +45,24 @@ describe("Terminal File System", () => {
       expect(resolvePath("/home/user", "docs")).toBe("/home/user/docs");
     });
 
-    it("handles complex relative paths", () => {
-      // The resolvePath function doesn't resolve complex paths - it just concatenates
+    it("normalizes . and .. segments anywhere in the path", () => {
       expect(resolvePath("/home/user/projects", "../docs")).toBe(
-        "/home/user/projects/../docs",
+        "/home/user/docs",
       );
-      expect(resolvePath("/docs/api", "./guide.md")).toBe(
-        "/docs/api/./guide.md",
+      expect(resolvePath("/docs/api", "./guide.md")).toBe("/docs/api/guide.md");
+      expect(resolvePath("/", "docs/../.hidden")).toBe("/.hidden");
+      expect(resolvePath("/docs", "/a/./b/../../c//d/")).toBe("/c/d");
+      expect(resolvePath("/docs", "../../..")).toBe("/");
+    });
+
+    it("expands ~ to home directories", () => {
+      mountUserFileSystem("guest");
+      expect(resolvePath("/docs", "~")).toBe("/home/guest");
+      expect(resolvePath("/docs", "~/notes/../README.md")).toBe(
+        "/home/guest/README.md",
       );
+      expect(resolvePath("/", "~guest/.profile")).toBe("/home/guest/.profile");
+      expect(resolvePath("/", "~nobody")).toBe("/~nobody");
     });
   });
 
@@ -120,6 +137,17 @@ describe("Terminal File System", () => {
     it("returns null when trying to access children of files", () => {
       expect(getFileAtPath("/README.md/nonexistent")).toBeNull();
     });
+
+    it("follows link entries", () => {
+      const link = getFileAtPath("/home/guest")?.children?.portfolio;
+      expect(link?.link).toBe("/portfolio");
+      expect(getFileAtPath("/home/guest/portfolio")).toBe(
+        getFileAtPath("/portfolio"),
+      );
+      expect(
+        getFileAtPath("/home/guest/portfolio/experience/artificialkind.md"),
+      ).toBe(getFileAtPath("/portfolio/experience/artificialkind.md"));
+    });
   });
 
   describe("getParentPath", () => {
@@ -148,6 +176,162 @@ describe("Terminal File System", () => {
     });
   });
 
+  describe("writeFile", () => {
+    it("creates a new file in an existing directory", () => {
+      const file = writeFile("/.hiddenDir/notes.txt", "first\n");
+      expect(file?.type).toBe("file");
+      expect(getFileAtPath("/.hiddenDir/notes.txt")?.content).toBe("first\n");
+    });
+
+    it("overwrites or appends to existing files", () => {
+      writeFile("/.hiddenDir/log", "one\n");
+      writeFile("/.hiddenDir/log", "two\n", true);
+      expect(getFileAtPath("/.hiddenDir/log")?.content).toBe("one\ntwo\n");
+
+      writeFile("/.hiddenDir/log", "three\n");
+      expect(getFileAtPath("/.hiddenDir/log")?.content).toBe("three\n");
+    });
+
+    it("marks dot files as hidden", () => {
+      expect(writeFile("/.hiddenDir/.rc", "")?.hidden).toBe(true);
+    });
+
+    it("returns null when the parent directory is missing", () => {
+      expect(writeFile("/nonexistent/file.txt", "x")).toBeNull();
+    });
+
+    it("refuses to overwrite directories", () => {
+      expect(writeFile("/docs", "x")).toBeNull();
+      expect(getFileAtPath("/docs")?.type).toBe("directory");
+    });
+  });
+
+  describe("writable layer", () => {
+    beforeEach(() => {
+      // Remounting drops the in-memory changes of the previous test
+      mountUserFileSystem("nobody");
+      mountUserFileSystem("guest");
+    });
+
+    it("mounts user home directories under /home", () => {
+      const profile = getFileAtPath("/home/guest/.profile");
+      expect(profile?.content).toContain('export USER="guest"');
+      expect(getFileAtPath("/home/guest")?.name).toBe("guest");
+    });
+
+    it("mounts the generated portfolio under /portfolio", () => {
+      const experience = getFileAtPath("/portfolio/experience");
+      expect(experience?.type).toBe("directory");
+      expect(
+        getFileAtPath("/portfolio/experience/artificialkind.md")?.content,
+      ).toContain("Artificialkind");
+    });
+
+    it("creates directories without touching the static tree", () => {
+      expect(makeDirectory("/docs/drafts")?.type).toBe("directory");
+      expect(getFileAtPath("/docs/drafts")?.children).toEqual({});
+      expect(getFileAtPath("/docs/api.md")?.content).toBe("API documentation");
+      expect(fileSystem.children!["docs"].children!["drafts"]).toBeUndefined();
+
+      expect(makeDirectory("/docs/drafts")).toBeNull();
+      expect(makeDirectory("/missing/dir")).toBeNull();
+    });
+
+    it("records modification times for new files", () => {
+      const before = Date.now();
+      const file = writeFile("/notes.txt", "hello");
+      expect(file?.modified).toBeGreaterThanOrEqual(before);
+    });
+
+    it("removes files and whole directory trees", () => {
+      writeFile("/docs/extra.md", "extra");
+      expect(removePath("/docs")).toBe(true);
+      expect(getFileAtPath("/docs")).toBeNull();
+      expect(getFileAtPath("/docs/extra.md")).toBeNull();
+      expect(fileSystem.children!["docs"]).toBeDefined();
+
+      expect(removePath("/docs")).toBe(false);
+      expect(removePath("/")).toBe(false);
+    });
+
+    it("recreates removed paths from scratch", () => {
+      removePath("/docs");
+      makeDirectory("/docs");
+      expect(getFileAtPath("/docs")?.children).toEqual({});
+    });
+
+    it("copies directory trees", () => {
+      writeFile("/docs/extra.md", "extra");
+      const copy = copyPath("/docs", "/backup");
+      expect(Object.keys(copy?.children || {}).sort()).toEqual([
+        "README.md",
+        "api.md",
+        "extra.md",
+        "guide.md",
+      ]);
+
+      writeFile("/backup/api.md", "changed");
+      expect(getFileAtPath("/docs/api.md")?.content).toBe("API documentation");
+    });
+
+    it("refuses to copy a directory into itself", () => {
+      expect(copyPath("/docs", "/docs/inner")).toBeNull();
+      expect(copyPath("/missing", "/copy")).toBeNull();
+    });
+
+    it("writes through links into the directory they point to", () => {
+      copyPath("/README.md", "/home/guest/portfolio/notes.md");
+      expect(getFileAtPath("/portfolio/notes.md")).not.toBeNull();
+
+      expect(removePath("/home/guest/portfolio")).toBe(true);
+      expect(getFileAtPath("/home/guest/portfolio")).toBeNull();
+      expect(getFileAtPath("/portfolio/notes.md")).not.toBeNull();
+    });
+
+    it("moves files", () => {
+      expect(movePath("/file", "/docs/file.txt")?.content).toBe(
+        "This is a simple text file in the root directory.",
+      );
+      expect(getFileAtPath("/file")).toBeNull();
+    });
+
+    it("persists changes per user", () => {
+      writeFile("/home/guest/todo.txt", "buy milk\n");
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        "terminal-fs-guest",
+        expect.stringContaining("todo.txt"),
+      );
+      const [, saved] = vi.mocked(localStorage.setItem).mock.lastCall!;
+
+      mountUserFileSystem("nobody");
+      expect(getFileAtPath("/home/guest/todo.txt")).toBeNull();
+
+      vi.mocked(localStorage.getItem).mockReturnValueOnce(saved);
+      mountUserFileSystem("guest");
+      expect(localStorage.getItem).toHaveBeenLastCalledWith(
+        "terminal-fs-guest",
+      );
+      expect(getFileAtPath("/home/guest/todo.txt")?.content).toBe("buy milk\n");
+    });
+
+    it("undoes changes the browser's storage has no room for", () => {
+      writeFile("/home/guest/todo.txt", "buy milk\n");
+      vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+        throw new DOMException(
+          "The quota has been exceeded",
+          "QuotaExceededError",
+        );
+      });
+
+      expect(writeFile("/home/guest/todo.txt", "buy bread\n", true)).toBeNull();
+      expect(lastSaveFailed()).toBe(true);
+      expect(getFileAtPath("/home/guest/todo.txt")?.content).toBe("buy milk\n");
+
+      expect(makeDirectory("/home/guest/notes")).not.toBeNull();
+      expect(lastSaveFailed()).toBe(false);
+    });
+  });
+
   describe("fileSystem structure", () => {
     it("has expected root structure", () => {
       expect(fileSystem.type).toBe("directory");
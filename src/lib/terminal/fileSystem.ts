@@ -1,4 +1,12 @@
 // Virtual file system for the terminal
+import { logError } from "@/lib/utils/dev-logger";
+import {
+  getAccountsRevision,
+  getHomePath,
+  getUser,
+  listUsernames,
+} from "./users";
+import { getPortfolioTree } from "./portfolio";
 
 export interface VirtualFile {
   type: "file" | "directory";
@@ -6,8 +14,19 @@ export interface VirtualFile {
   content?: string;
   hidden?: boolean;
   children?: { [key: string]: VirtualFile };
+  modified?: number; // Last modification time (ms since epoch)
+  link?: string; // Path this entry points to, like a symbolic link
+  url?: string; // Site asset the file stands for, e.g. a PDF, saved by download
 }
 
+// Changes made on top of the static tree, keyed by absolute path
+type OverlayEntry =
+  | { type: "file"; content: string; modified: number }
+  | { type: "directory"; modified: number }
+  | { type: "deleted" };
+
+const STORAGE_PREFIX = "terminal-fs-";
+
 export const fileSystem: VirtualFile = {
   type: "directory",
   name: "/",
@@ -17,7 +36,8 @@ export const fileSystem: VirtualFile = {
       name: "README.md",
       content: `Interactive terminal exploring the intersection of human and machine intelligence.
 
-Type 'help' to begin.`,
+Type 'help' to begin, or browse /portfolio for experience, papers,
+projects, research and blog posts.`,
     },
     file: {
       type: "file",
@@ -45,6 +65,63 @@ Type 'help' to begin.`,
         },
       },
     },
+    usr: {
+      type: "directory",
+      name: "usr",
+      children: {
+        share: {
+          type: "directory",
+          name: "share",
+          children: {
+            tours: {
+              type: "directory",
+              name: "tours",
+              children: {
+                "research.sh": {
+                  type: "file",
+                  name: "research.sh",
+                  content: `# A guided tour of the research in /portfolio
+# Usage: sh /usr/share/tours/research.sh [SECONDS]
+# SECONDS is the pause between steps (2 by default, 0 for none)
+
+pause=2
+if [ $# -gt 0 ]; then
+  pause=$1
+fi
+
+step() {
+  echo ""
+  echo "==> $1"
+  sleep $pause
+}
+
+step "Everything on the site is also a file under /portfolio"
+cd /portfolio
+ls
+
+for section in research papers experience; do
+  if [ -d $section ]; then
+    step "/portfolio/$section"
+    ls $section
+  fi
+done
+
+step "Entries are Markdown: open one with cat, or search them with grep"
+echo "  cat /portfolio/research/<name>.md"
+echo "  grep -i learning /portfolio/papers/<name>.md"
+
+step "Questions? Ask the assistant about any of it"
+echo "  ai what is the research about?"
+echo ""
+echo "End of the tour. Run it again with: sh $0"
+`,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
     ".hidden": {
       type: "directory",
       name: ".hidden",
@@ -95,43 +172,261 @@ Type 'help' to begin.`,
 };
 
 // Helper functions for navigating the file system
+
+// Resolve a path the way a POSIX shell does: relative to currentPath, with
+// "~" expanded to a home directory and "." / ".." segments collapsed
 export function resolvePath(currentPath: string, newPath: string): string {
-  if (newPath.startsWith("/")) {
-    return newPath;
+  let path = newPath;
+
+  const tilde = path.match(/^~([^/]*)(.*)$/);
+  if (tilde) {
+    const home = getHomePath(tilde[1] || mountedUser || "");
+    if (home) path = home + tilde[2];
   }
 
-  if (newPath === ".") {
-    return currentPath;
+  const segments = path.startsWith("/")
+    ? []
+    : currentPath.split("/").filter(Boolean);
+
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
   }
 
-  if (newPath === "..") {
-    const parts = currentPath.split("/").filter(Boolean);
-    parts.pop();
-    return "/" + parts.join("/");
+  return "/" + segments.join("/");
+}
+
+// Writable layer over the static tree, persisted per user
+let mountedUser: string | null = null;
+let overlay: Record<string, OverlayEntry> = {};
+let mergedRoot: VirtualFile | null = null;
+let mergedPortfolio: VirtualFile | null = null;
+let mergedAccounts = 0;
+
+function joinPath(parent: string, name: string): string {
+  return parent === "/" ? `/${name}` : `${parent}/${name}`;
+}
+
+function normalizeAbsolute(path: string): string {
+  return "/" + path.split("/").filter(Boolean).join("/");
+}
+
+// The static tree with every user's home directory mounted under /home and
+// the site content under /portfolio
+function getBaseRoot(portfolio: VirtualFile): VirtualFile {
+  const homes: { [key: string]: VirtualFile } = {};
+  for (const username of listUsernames()) {
+    const user = getUser(username);
+    if (user) {
+      homes[username] = { ...user.homeDirectory, name: username };
+    }
   }
 
-  const normalizedCurrent = currentPath.endsWith("/")
-    ? currentPath
-    : currentPath + "/";
-  return normalizedCurrent + newPath;
+  return {
+    ...fileSystem,
+    children: {
+      ...fileSystem.children,
+      home: { type: "directory", name: "home", children: homes },
+      portfolio,
+    },
+  };
 }
 
-export function getFileAtPath(path: string): VirtualFile | null {
-  const parts = path.split("/").filter(Boolean);
-  let current = fileSystem;
+function hasChangesBelow(path: string): boolean {
+  const prefix = path === "/" ? "/" : `${path}/`;
+  return Object.keys(overlay).some((key) => key.startsWith(prefix));
+}
+
+// Build a directory node with overlay changes applied; untouched subtrees
+// are shared with the static tree
+function mergeDirectory(
+  path: string,
+  base: VirtualFile | null,
+  modified?: number,
+): VirtualFile {
+  const children: { [key: string]: VirtualFile } = { ...base?.children };
 
-  for (const part of parts) {
+  for (const [entryPath, entry] of Object.entries(overlay)) {
+    if (entryPath === path || getParentPath(entryPath) !== path) continue;
+
+    const name = entryPath.slice(entryPath.lastIndexOf("/") + 1);
+    if (entry.type === "deleted") {
+      delete children[name];
+    } else if (entry.type === "file") {
+      children[name] = {
+        type: "file",
+        name,
+        ...(name.startsWith(".") && { hidden: true }),
+        content: entry.content,
+        modified: entry.modified,
+      };
+    } else {
+      children[name] = mergeDirectory(entryPath, null, entry.modified);
+      if (name.startsWith(".")) children[name].hidden = true;
+    }
+  }
+
+  for (const [name, child] of Object.entries(children)) {
+    const childPath = joinPath(path, name);
     if (
-      current.type !== "directory" ||
-      !current.children ||
-      !current.children[part]
+      child.type === "directory" &&
+      !child.link &&
+      !overlay[childPath] &&
+      hasChangesBelow(childPath)
     ) {
+      children[name] = mergeDirectory(childPath, child);
+    }
+  }
+
+  return {
+    ...base,
+    type: "directory",
+    name: base?.name ?? path.slice(path.lastIndexOf("/") + 1),
+    children,
+    ...(modified !== undefined && { modified }),
+  };
+}
+
+function getRoot(): VirtualFile {
+  const portfolio = getPortfolioTree();
+  const accounts = getAccountsRevision();
+  if (
+    !mergedRoot ||
+    portfolio !== mergedPortfolio ||
+    accounts !== mergedAccounts
+  ) {
+    mergedRoot = mergeDirectory("/", getBaseRoot(portfolio));
+    mergedPortfolio = portfolio;
+    mergedAccounts = accounts;
+  }
+  return mergedRoot;
+}
+
+// Set when the last change could not be saved, e.g. because the browser's
+// storage is full
+let saveFailed = false;
+
+// Make a change to the overlay and save it; a change that cannot be saved
+// is undone, so the files shown are the ones that are stored
+function changeOverlay(change: () => void): boolean {
+  const previous = { ...overlay };
+  change();
+  mergedRoot = null;
+  saveFailed = false;
+  if (!mountedUser || typeof window === "undefined") return true;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + mountedUser, JSON.stringify(overlay));
+    return true;
+  } catch (error) {
+    logError(error, "Terminal File System Save");
+    overlay = previous;
+    saveFailed = true;
+    return false;
+  }
+}
+
+// Whether the last change failed because it could not be saved, rather
+// than because of a missing directory or the like
+export function lastSaveFailed(): boolean {
+  return saveFailed;
+}
+
+// Switch to a user's file system, restoring their saved changes
+export function mountUserFileSystem(username: string): void {
+  if (mountedUser === username) return;
+
+  mountedUser = username;
+  overlay = {};
+  mergedRoot = null;
+
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + username);
+    if (stored) {
+      overlay = JSON.parse(stored);
+    }
+  } catch (error) {
+    logError(error, "Terminal File System Load");
+  }
+}
+
+// Forget a user's saved changes, e.g. when their account is deleted
+export function removeUserFileSystem(username: string): void {
+  if (mountedUser === username) {
+    overlay = {};
+    mergedRoot = null;
+  }
+  if (typeof window === "undefined") return;
+  localStorage.removeItem(STORAGE_PREFIX + username);
+}
+
+// Links are followed at most this many times to guard against cycles
+const MAX_LINK_DEPTH = 8;
+
+// Walk a path following links; also returns the link-free path reached
+function lookup(
+  path: string,
+  followLast = true,
+  depth = 0,
+): { node: VirtualFile; realPath: string } | null {
+  const parts = path.split("/").filter(Boolean);
+  let node = getRoot();
+  let realPath = "/";
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (node.type !== "directory" || !node.children || !node.children[part]) {
       return null;
     }
-    current = current.children[part];
+    node = node.children[part];
+    realPath = joinPath(realPath, part);
+
+    if (node.link && (followLast || i < parts.length - 1)) {
+      if (depth >= MAX_LINK_DEPTH) return null;
+      const target = lookup(
+        resolvePath(getParentPath(realPath), node.link),
+        true,
+        depth + 1,
+      );
+      if (!target) return null;
+      ({ node, realPath } = target);
+    }
   }
 
-  return current;
+  return { node, realPath };
+}
+
+// Where a change to path actually lands: links in its parent directories
+// are followed, while the final entry itself is not
+function toRealPath(path: string): string {
+  const target = normalizeAbsolute(path);
+  if (target === "/") return target;
+
+  const parent = lookup(getParentPath(target));
+  return parent
+    ? joinPath(parent.realPath, target.slice(target.lastIndexOf("/") + 1))
+    : target;
+}
+
+export function getFileAtPath(path: string): VirtualFile | null {
+  return lookup(path)?.node ?? null;
+}
+
+// Whether a path shows what the portfolio feeds fill in: /portfolio and
+// below, also through links such as ~/portfolio, or / which lists it
+export function showsPortfolio(path: string): boolean {
+  const realPath = lookup(path)?.realPath ?? toRealPath(path);
+  return (
+    realPath === "/" ||
+    realPath === "/portfolio" ||
+    realPath.startsWith("/portfolio/")
+  );
 }
 
 export function getParentPath(path: string): string {
@@ -139,3 +434,132 @@ export function getParentPath(path: string): string {
   parts.pop();
   return "/" + parts.join("/");
 }
+
+// Create or overwrite a file; returns null if the parent directory is
+// missing or the file could not be saved
+export function writeFile(
+  path: string,
+  content: string,
+  append = false,
+): VirtualFile | null {
+  const target = toRealPath(path);
+  const parent = getFileAtPath(getParentPath(target));
+  const existing = getFileAtPath(target);
+
+  if (target === "/" || !parent || parent.type !== "directory") {
+    return null;
+  }
+  if (existing && existing.type === "directory") {
+    return null;
+  }
+
+  const saved = changeOverlay(() => {
+    overlay[target] = {
+      type: "file",
+      content:
+        append && existing ? (existing.content || "") + content : content,
+      modified: Date.now(),
+    };
+  });
+  return saved ? getFileAtPath(target) : null;
+}
+
+// Create an empty directory; returns null if it exists or has no parent
+export function makeDirectory(path: string): VirtualFile | null {
+  const target = toRealPath(path);
+  const parent = getFileAtPath(getParentPath(target));
+
+  if (target === "/" || !parent || parent.type !== "directory") {
+    return null;
+  }
+  if (getFileAtPath(target)) {
+    return null;
+  }
+
+  const saved = changeOverlay(() => {
+    overlay[target] = { type: "directory", modified: Date.now() };
+  });
+  return saved ? getFileAtPath(target) : null;
+}
+
+// Remove a file or a whole directory tree
+export function removePath(path: string): boolean {
+  const target = toRealPath(path);
+  if (target === "/" || !getFileAtPath(target)) {
+    return false;
+  }
+
+  return changeOverlay(() => {
+    for (const key of Object.keys(overlay)) {
+      if (key.startsWith(`${target}/`)) {
+        delete overlay[key];
+      }
+    }
+    overlay[target] = { type: "deleted" };
+  });
+}
+
+// Copy a file or directory tree to a new path
+export function copyPath(
+  source: string,
+  destination: string,
+): VirtualFile | null {
+  const from = toRealPath(source);
+  const to = toRealPath(destination);
+  const node = getFileAtPath(from);
+  const parent = getFileAtPath(getParentPath(to));
+
+  if (!node || !parent || parent.type !== "directory" || to === "/") {
+    return null;
+  }
+  if (to === from || to.startsWith(`${from}/`)) {
+    return null;
+  }
+
+  const now = Date.now();
+  const copyNode = (file: VirtualFile, path: string) => {
+    if (file.type === "file") {
+      overlay[path] = {
+        type: "file",
+        content: file.content || "",
+        modified: now,
+      };
+      return;
+    }
+    overlay[path] = { type: "directory", modified: now };
+    for (const [name, child] of Object.entries(file.children || {})) {
+      copyNode(child, joinPath(path, name));
+    }
+  };
+
+  const saved = changeOverlay(() => {
+    // Replace whatever was at the destination
+    for (const key of Object.keys(overlay)) {
+      if (key.startsWith(`${to}/`)) {
+        delete overlay[key];
+      }
+    }
+    copyNode(node, to);
+  });
+  return saved ? getFileAtPath(to) : null;
+}
+
+// Move a file or directory tree to a new path
+export function movePath(
+  source: string,
+  destination: string,
+): VirtualFile | null {
+  const before = { ...overlay };
+  if (!copyPath(source, destination)) return null;
+
+  // The storage had room for the copy but not for the removal, which
+  // would leave both: take the copy back
+  if (!removePath(source)) {
+    changeOverlay(() => {
+      overlay = before;
+    });
+    saveFailed = true;
+    return null;
+  }
+  return getFileAtPath(toRealPath(destination));
+}
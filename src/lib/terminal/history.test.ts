@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  addHistoryEntry,
+  expandHistory,
+  HISTORY_LIMIT,
+  loadHistory,
+  saveHistory,
+  searchHistory,
+} from "./history";
+
+const history = ["ls", "cd docs", "cat api.md", "grep api api.md"];
+
+describe("Terminal History", () => {
+  describe("addHistoryEntry", () => {
+    it("moves repeated commands to the end", () => {
+      const entries = ["ls", "pwd"];
+      addHistoryEntry(entries, "ls");
+      expect(entries).toEqual(["pwd", "ls"]);
+    });
+
+    it("keeps only the most recent entries", () => {
+      const entries = Array.from({ length: HISTORY_LIMIT }, (_, i) => `c${i}`);
+      addHistoryEntry(entries, "new");
+      expect(entries).toHaveLength(HISTORY_LIMIT);
+      expect(entries[0]).toBe("c1");
+      expect(entries[HISTORY_LIMIT - 1]).toBe("new");
+    });
+  });
+
+  describe("persistence", () => {
+    it("saves and loads history per user", () => {
+      saveHistory("alice", ["ls"]);
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        "terminal-history-alice",
+        '["ls"]',
+      );
+
+      vi.mocked(localStorage.getItem).mockReturnValueOnce('["pwd","ls"]');
+      expect(loadHistory("alice")).toEqual(["pwd", "ls"]);
+      expect(localStorage.getItem).toHaveBeenCalledWith(
+        "terminal-history-alice",
+      );
+    });
+
+    it("ignores corrupted history", () => {
+      vi.mocked(localStorage.getItem).mockReturnValueOnce("{oops");
+      expect(loadHistory("alice")).toEqual([]);
+    });
+  });
+
+  describe("expandHistory", () => {
+    const expand = (line: string) => expandHistory(line, history);
+
+    it("expands !! and numbered events", () => {
+      expect(expand("sudo !!")).toEqual({
+        line: "sudo grep api api.md",
+        expanded: true,
+      });
+      expect(expand("!2")).toEqual({ line: "cd docs", expanded: true });
+      expect(expand("!-2")).toEqual({ line: "cat api.md", expanded: true });
+    });
+
+    it("expands the latest command with a prefix", () => {
+      expect(expand("!c | wc")).toEqual({
+        line: "cat api.md | wc",
+        expanded: true,
+      });
+    });
+
+    it("leaves quoted, escaped and lone exclamation marks alone", () => {
+      expect(expand("echo 'hi!!'")).toEqual({
+        line: "echo 'hi!!'",
+        expanded: false,
+      });
+      expect(expand("echo \\!! wow! a != b")).toEqual({
+        line: "echo !! wow! a != b",
+        expanded: false,
+      });
+      expect(expand('echo "last: !!"')).toEqual({
+        line: 'echo "last: grep api api.md"',
+        expanded: true,
+      });
+    });
+
+    it("reports missing events", () => {
+      expect(expand("!nope")).toEqual({ error: "!nope: event not found" });
+      expect(expand("!9")).toEqual({ error: "!9: event not found" });
+      expect(expandHistory("!!", [])).toEqual({
+        error: "!!: event not found",
+      });
+    });
+  });
+
+  describe("searchHistory", () => {
+    it("finds older matches before an index", () => {
+      expect(searchHistory(history, "api")).toBe(3);
+      expect(searchHistory(history, "api", 3)).toBe(2);
+      expect(searchHistory(history, "api", 2)).toBe(-1);
+      expect(searchHistory(history, "zzz")).toBe(-1);
+    });
+  });
+});
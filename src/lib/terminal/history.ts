@@ -0,0 +1,113 @@
+// Command history: per-user persistence, ! expansion and reverse search
+import { logError } from "@/lib/utils/dev-logger";
+
+const STORAGE_PREFIX = "terminal-history-";
+
+// Oldest entries are dropped beyond this many
+export const HISTORY_LIMIT = 500;
+
+export function loadHistory(username: string): string[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_PREFIX + username) || "[]",
+    );
+    return Array.isArray(stored) ? stored.slice(-HISTORY_LIMIT) : [];
+  } catch (error) {
+    logError(error, "Terminal History Load");
+    return [];
+  }
+}
+
+export function saveHistory(username: string, history: string[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(history));
+  } catch (error) {
+    logError(error, "Terminal History Save");
+  }
+}
+
+// Append a line in place; an earlier copy of the same line is dropped so
+// every command appears once, at its most recent position
+export function addHistoryEntry(history: string[], line: string): void {
+  const existing = history.indexOf(line);
+  if (existing !== -1) history.splice(existing, 1);
+  history.push(line);
+  if (history.length > HISTORY_LIMIT) {
+    history.splice(0, history.length - HISTORY_LIMIT);
+  }
+}
+
+// Find the entry an event designator refers to: !! (last), !n (number n,
+// counting from 1), !-n (n back) or !prefix (latest starting with prefix)
+function findEvent(history: string[], event: string): string | undefined {
+  if (event === "!") return history[history.length - 1];
+  if (/^-?\d+$/.test(event)) {
+    const n = parseInt(event, 10);
+    return n < 0 ? history[history.length + n] : history[n - 1];
+  }
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].startsWith(event)) return history[i];
+  }
+  return undefined;
+}
+
+// Expand history references like bash. Single-quoted text and a "!" before
+// a space, "=" or "(" or at the end of the line are left alone
+export function expandHistory(
+  line: string,
+  history: string[],
+): { line: string; expanded: boolean } | { error: string } {
+  let result = "";
+  let expanded = false;
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === "\\" && quote !== "'" && line[i + 1] === "!") {
+      result += "!";
+      i++;
+      continue;
+    }
+    if (char === "'" && quote !== '"') {
+      quote = quote ? null : "'";
+    } else if (char === '"' && quote !== "'") {
+      quote = quote ? null : '"';
+    }
+
+    const match =
+      char === "!" && quote !== "'"
+        ? line.slice(i + 1).match(/^(!|-?\d+|[^\s=("'|;&<>]+)/)
+        : null;
+    if (!match) {
+      result += char;
+      continue;
+    }
+
+    const entry = findEvent(history, match[1]);
+    if (entry === undefined) {
+      return { error: `!${match[1]}: event not found` };
+    }
+    result += entry;
+    expanded = true;
+    i += match[1].length;
+  }
+
+  return { line: result, expanded };
+}
+
+// Index of the latest entry before `before` containing query, or -1
+export function searchHistory(
+  history: string[],
+  query: string,
+  before = history.length,
+): number {
+  for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+    if (history[i].includes(query)) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { jobCommands } from "./job-commands";
+import { createJobTable, type JobTable } from "./jobs";
+import {
+  executeCommand,
+  type CommandContext,
+  type CommandResult,
+} from "./commands";
+
+describe("Job Commands", () => {
+  let context: CommandContext;
+  let jobs: JobTable;
+  let notify: ReturnType<typeof vi.fn>;
+
+  const run = async (name: string, args: string[]) =>
+    (await jobCommands[name](args, context)) as CommandResult;
+
+  beforeEach(() => {
+    notify = vi.fn();
+    jobs = createJobTable(notify);
+    context = {
+      currentDirectory: "/",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      env: {},
+      jobs,
+    };
+  });
+
+  it("runs pipelines ending with & in the background", async () => {
+    const result = await executeCommand("sleep 0.01 & echo now", context);
+    expect(result).toEqual({ output: "[1] sleep 0.01\nnow", success: true });
+
+    expect((await run("jobs", [])).output).toBe(
+      "[1]+  Running                 sleep 0.01",
+    );
+    await vi.waitFor(() =>
+      expect(notify).toHaveBeenCalledWith(
+        "[1]+  Done                    sleep 0.01",
+      ),
+    );
+  });
+
+  it("keeps a background job's cd and variables to itself", async () => {
+    await executeCommand("cd /docs && X=1 &", context);
+    await vi.waitFor(() => expect(notify).toHaveBeenCalled());
+    expect(context.setCurrentDirectory).not.toHaveBeenCalled();
+    expect(context.env!.X).toBeUndefined();
+  });
+
+  it("continues, stops and ends jobs by spec", async () => {
+    const job = jobs.start("sleep 60", () => new Promise(() => {}));
+
+    expect(await run("kill", ["-STOP", "%1"])).toEqual({
+      output: "",
+      success: true,
+    });
+    expect(job.state).toBe("stopped");
+    expect(await run("bg", [])).toEqual({
+      output: "[1]+ sleep 60 &",
+      success: true,
+    });
+    expect((await run("bg", ["%1"])).output).toBe(
+      "bg: job 1 already in background",
+    );
+
+    expect(await run("kill", ["%2", "42"])).toEqual({
+      output: "kill: %2: no such job\nkill: 42: arguments must be job IDs",
+      success: false,
+    });
+    expect((await run("kill", ["-s", "WINCH", "%1"])).output).toBe(
+      "kill: WINCH: invalid signal specification",
+    );
+    expect((await run("kill", ["-9", "%sleep"])).success).toBe(true);
+    expect(jobs.jobs).toEqual([]);
+    expect(await run("bg", [])).toEqual({
+      output: "bg: current: no such job",
+      success: false,
+    });
+  });
+
+  it("brings a job to the foreground with its held output", async () => {
+    const written: string[] = [];
+    context.writer = (text) => written.push(text);
+    jobs.start("greet", async ({ writer }) => {
+      writer("hello\n");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return { output: "bye", success: true };
+    });
+
+    expect(await run("fg", ["%1"])).toEqual({ output: "bye", success: true });
+    expect(written).toEqual(["greet\n", "hello\n"]);
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("needs the terminal window", async () => {
+    delete context.jobs;
+    expect(await run("jobs", [])).toEqual({
+      output: "jobs: job control is only available in the terminal window",
+      success: false,
+    });
+  });
+});
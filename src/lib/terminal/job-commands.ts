@@ -0,0 +1,238 @@
+// Job control: jobs, fg, bg and kill act on the pane's background and
+// stopped jobs, started with & or stopped with Ctrl+Z
+import type { CommandFunction, CommandResult } from "./commands";
+import type { Job, JobTable } from "./jobs";
+import {
+  completeWords,
+  defineCommands,
+  type ArgumentCompleter,
+} from "./registry";
+
+// What kill does with each signal, by name and number
+const SIGNALS: Record<
+  string,
+  { number: number; action: "kill" | "stop" | "resume" }
+> = {
+  HUP: { number: 1, action: "kill" },
+  INT: { number: 2, action: "kill" },
+  KILL: { number: 9, action: "kill" },
+  TERM: { number: 15, action: "kill" },
+  CONT: { number: 18, action: "resume" },
+  STOP: { number: 19, action: "stop" },
+  TSTP: { number: 20, action: "stop" },
+};
+
+const unavailable = (name: string): CommandResult => ({
+  output: `${name}: job control is only available in the terminal window`,
+  success: false,
+});
+
+// The job a spec names, or the message when there is none
+function findJob(
+  name: string,
+  table: JobTable,
+  spec: string | undefined,
+): Job | CommandResult {
+  if (spec !== undefined && !spec.startsWith("%") && !/^[0-9]+$/.test(spec)) {
+    return { output: `${name}: ${spec}: no such job`, success: false };
+  }
+  return (
+    table.find(spec) || {
+      output: `${name}: ${spec || "current"}: no such job`,
+      success: false,
+    }
+  );
+}
+
+// A signal given as KILL, SIGKILL or 9
+function findSignal(value: string): string | undefined {
+  const name = value.toUpperCase().replace(/^SIG/, "");
+  if (SIGNALS[name]) return name;
+  return Object.keys(SIGNALS).find(
+    (signal) => String(SIGNALS[signal].number) === value,
+  );
+}
+
+const completeJobs: ArgumentCompleter = (partial, context, previous) =>
+  completeWords((context.jobs?.jobs || []).map(({ id }) => `%${id}`))(
+    partial,
+    context,
+    previous,
+  );
+
+export const jobCommands: Record<string, CommandFunction> = {
+  jobs: (_args, context) => {
+    const table = context.jobs;
+    if (!table) return unavailable("jobs");
+
+    return {
+      output: table.jobs.map((job) => table.describe(job)).join("\n"),
+      success: true,
+    };
+  },
+
+  fg: async (args, context) => {
+    const table = context.jobs;
+    const writer = context.writer;
+    if (!table || !writer || context.piped) return unavailable("fg");
+
+    const job = findJob("fg", table, args[0]);
+    if (!("id" in job)) return job;
+
+    // Like bash, show what is running again
+    writer(`${job.command}\n`);
+    const end = await table.foreground(job, {
+      write: writer,
+      readKey: context.readKey,
+    });
+    if (end.type === "done") return end.result;
+    if (end.type === "stopped") {
+      return { output: table.describe(end.job), success: false };
+    }
+    return { output: "", success: false };
+  },
+
+  bg: (args, context) => {
+    const table = context.jobs;
+    if (!table) return unavailable("bg");
+
+    const job = findJob("bg", table, args[0]);
+    if (!("id" in job)) return job;
+
+    if (job.state === "running") {
+      return {
+        output: `bg: job ${job.id} already in background`,
+        success: true,
+      };
+    }
+    table.resume(job);
+    return { output: `[${job.id}]+ ${job.command} &`, success: true };
+  },
+
+  kill: (args, context) => {
+    const table = context.jobs;
+    if (!table) return unavailable("kill");
+
+    if (args[0] === "-l") {
+      return {
+        output: Object.entries(SIGNALS)
+          .map(
+            ([name, { number }]) => `${String(number).padStart(2)}) SIG${name}`,
+          )
+          .join("\n"),
+        success: true,
+      };
+    }
+
+    let signal = "TERM";
+    let specs = args;
+    if (args[0] === "-s" || (args[0]?.startsWith("-") && args[0].length > 1)) {
+      const value = args[0] === "-s" ? args[1] : args[0].slice(1);
+      const found = value === undefined ? undefined : findSignal(value);
+      if (!found) {
+        return {
+          output: `kill: ${value ?? "-s"}: invalid signal specification`,
+          success: false,
+        };
+      }
+      signal = found;
+      specs = args.slice(args[0] === "-s" ? 2 : 1);
+    }
+
+    if (specs.length === 0) {
+      return {
+        output: "Usage: kill [-s SIGNAL | -SIGNAL] %JOB...",
+        success: false,
+      };
+    }
+
+    const errors: string[] = [];
+    for (const spec of specs) {
+      // There are no processes, only jobs
+      if (!spec.startsWith("%")) {
+        errors.push(`kill: ${spec}: arguments must be job IDs`);
+        continue;
+      }
+      const job = findJob("kill", table, spec);
+      if (!("id" in job)) {
+        errors.push(job.output);
+        continue;
+      }
+      const { action } = SIGNALS[signal];
+      if (action === "kill") table.kill(job);
+      else if (action === "stop") table.stop(job);
+      else table.resume(job);
+    }
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+};
+
+export const jobCommandDefinitions = defineCommands(jobCommands, {
+  jobs: {
+    category: "system",
+    summary: "list background and stopped jobs",
+    synopsis: ["jobs"],
+    description: [
+      "List the jobs of this pane: commands started with & at the end,",
+      "and commands stopped with Ctrl+Z. The current job, which fg and",
+      "bg act on without a job, is marked +, the one before it -.",
+    ],
+    args: { max: 0 },
+    examples: [
+      "ai init &       Download the model in the background",
+      "jobs            See how it is going",
+    ],
+  },
+  fg: {
+    category: "system",
+    summary: "bring a job to the foreground",
+    synopsis: ["fg [%JOB]"],
+    description: [
+      "Continue a job in the foreground: its held output is shown, and it",
+      "gets the keyboard until it ends. Ctrl+Z stops it again, and Ctrl+C",
+      "ends it. Without a job, fg takes the current one.",
+    ],
+    sections: {
+      JOBS: [
+        "%N              Job number N",
+        "%+ or %%        The current job",
+        "%-              The job before it",
+        "%TEXT           The job whose command starts with TEXT",
+      ],
+    },
+    args: { max: 1 },
+    complete: completeJobs,
+  },
+  bg: {
+    category: "system",
+    summary: "continue a stopped job in the background",
+    synopsis: ["bg [%JOB]"],
+    description: [
+      "Let a job stopped with Ctrl+Z go on in the background. Its output",
+      "is held, and shown when it ends. Jobs are named as for fg.",
+    ],
+    args: { max: 1 },
+    complete: completeJobs,
+  },
+  kill: {
+    category: "posix",
+    summary: "end, stop or continue jobs",
+    synopsis: ["kill [-s SIGNAL | -SIGNAL] %JOB...", "kill -l"],
+    description: [
+      "Send a signal to jobs, named as for fg. TERM, the default, and",
+      "the other ending signals end the jobs; STOP and TSTP stop them",
+      "like Ctrl+Z, and CONT lets them go on like bg. kill -l lists the",
+      "signals.",
+    ],
+    sections: {
+      SIGNALS: [
+        "HUP (1), INT (2), KILL (9), TERM (15)    End the job",
+        "STOP (19), TSTP (20)                    Stop the job",
+        "CONT (18)                               Continue the job",
+      ],
+    },
+    args: { min: 1 },
+    examples: ["kill %1         End job 1", "kill -STOP %2   Stop job 2"],
+    complete: completeJobs,
+  },
+});
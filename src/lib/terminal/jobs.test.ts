@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from "vitest";
+import { createJobTable, type JobRunner } from "./jobs";
+import type { CommandResult } from "./commands";
+
+// A job that writes a line and ends when told to
+function controlled() {
+  let end: (result: CommandResult) => void = () => {};
+  let write: (text: string) => void = () => {};
+  const runner: JobRunner = ({ writer }) => {
+    write = writer;
+    return new Promise((resolve) => {
+      end = resolve;
+    });
+  };
+  return {
+    runner,
+    write: (text: string) => write(text),
+    end: (result: CommandResult) => end(result),
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Job Table", () => {
+  it("runs a command in the foreground until it ends", async () => {
+    const table = createJobTable(vi.fn());
+    const written: string[] = [];
+    const job = controlled();
+
+    const end = table.run("make", job.runner, {
+      write: (text) => written.push(text),
+    });
+    job.write("building\n");
+    job.end({ output: "built", success: true });
+
+    expect(await end).toEqual({
+      type: "done",
+      result: { output: "built", success: true },
+    });
+    expect(written).toEqual(["building\n"]);
+    expect(table.jobs).toEqual([]);
+  });
+
+  it("holds the output of stopped jobs until fg", async () => {
+    const notify = vi.fn();
+    const table = createJobTable(notify);
+    const written: string[] = [];
+    const io = { write: (text: string) => written.push(text) };
+    const job = controlled();
+
+    const end = table.run("download", job.runner, io);
+    const stopped = table.stop();
+    expect(await end).toEqual({ type: "stopped", job: stopped });
+    expect(table.describe(stopped!)).toBe(
+      "[1]+  Stopped                 download",
+    );
+
+    job.write("50%\n");
+    expect(written).toEqual([]);
+
+    const resumed = table.foreground(stopped!, io);
+    expect(written).toEqual(["50%\n"]);
+    job.end({ output: "", success: true });
+    expect((await resumed).type).toBe("done");
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("reports background jobs that end, with their output", async () => {
+    const notify = vi.fn();
+    const table = createJobTable(notify);
+    const first = controlled();
+    const second = controlled();
+
+    table.start("sleep 10", first.runner);
+    table.start("ai init", second.runner);
+    expect(table.jobs.map((job) => table.describe(job))).toEqual([
+      "[1]-  Running                 sleep 10",
+      "[2]+  Running                 ai init",
+    ]);
+    expect(table.find("%ai")?.id).toBe(2);
+    expect(table.find("%-")?.id).toBe(1);
+
+    second.write("Loading...\n");
+    second.end({ output: "Model ready", success: true });
+    await flush();
+
+    expect(notify).toHaveBeenCalledWith(
+      "Loading...\nModel ready\n[2]+  Done                    ai init",
+    );
+    expect(table.jobs.map(({ id }) => id)).toEqual([1]);
+  });
+
+  it("ends jobs with kill and Ctrl+C", async () => {
+    const notify = vi.fn();
+    const table = createJobTable(notify);
+    let signal: AbortSignal | undefined;
+    const job = table.start("sleep 60", ({ abortController }) => {
+      signal = abortController.signal;
+      return new Promise(() => {});
+    });
+
+    expect(table.kill(job)).toBe(true);
+    expect(signal?.aborted).toBe(true);
+    expect(notify).toHaveBeenCalledWith(
+      "[1]+  Terminated              sleep 60",
+    );
+
+    const end = table.run("less", () => new Promise(() => {}), {
+      write: vi.fn(),
+    });
+    expect(table.kill()).toBe(true);
+    expect(await end).toEqual({ type: "killed" });
+    expect(table.kill()).toBe(false);
+  });
+
+  it("passes keys to a job only while it is in the foreground", async () => {
+    const table = createJobTable(vi.fn());
+    let keys = 0;
+    const readKey = vi.fn(() => Promise.resolve(`key${++keys}`));
+    let read: Promise<string> | undefined;
+
+    const end = table.run(
+      "read",
+      ({ readKey }) => {
+        read = readKey();
+        return new Promise(() => {});
+      },
+      { write: vi.fn(), readKey: () => new Promise(() => {}) },
+    );
+    const stopped = table.stop()!;
+    await end;
+
+    table.foreground(stopped, { write: vi.fn(), readKey });
+    expect(await read).toBe("key1");
+  });
+});
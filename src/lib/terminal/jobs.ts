@@ -0,0 +1,289 @@
+// Job control for a terminal pane: command lines run as foreground jobs,
+// pipelines ending with & as background jobs. Ctrl+Z stops the
+// foreground job, and fg, bg and kill act on the jobs by number.
+//
+// A running command cannot be frozen, so a stopped job goes on with what
+// it was doing, like a download. What it prints is held, and it waits for
+// any key it reads, until it is brought back to the foreground
+import type { CommandResult } from "./commands";
+
+// Output held for a job in the background is cut to its last this many
+// characters, so a long download's progress does not fill the memory
+export const MAX_HELD_OUTPUT = 100_000;
+
+export type JobState = "running" | "stopped";
+
+export interface Job {
+  readonly id: number; // 0 until the job is in the table
+  readonly command: string;
+  readonly state: JobState;
+}
+
+// Where a job in the foreground writes and reads keys
+export interface JobIO {
+  write: (text: string) => void;
+  readKey?: () => Promise<string>;
+}
+
+// Runs a job's command with the job's output, keys and Ctrl+C
+export type JobRunner = (io: {
+  writer: (text: string) => void;
+  readKey: () => Promise<string>;
+  abortController: AbortController;
+}) => Promise<CommandResult>;
+
+// How a job left the foreground
+export type JobEnd =
+  | { type: "done"; result: CommandResult }
+  | { type: "stopped"; job: Job }
+  | { type: "killed" };
+
+export interface JobTable {
+  readonly jobs: Job[]; // By number
+  // Run a command line in the foreground, until it ends or is stopped
+  run(command: string, runner: JobRunner, io: JobIO): Promise<JobEnd>;
+  // Run a command in the background
+  start(command: string, runner: JobRunner): Job;
+  // Bring a job to the foreground, as fg does
+  foreground(job: Job, io: JobIO): Promise<JobEnd>;
+  // Let a stopped job go on in the background, as bg does
+  resume(job: Job): void;
+  // Stop a job, or the foreground one for Ctrl+Z; null when there is none
+  stop(job?: Job): Job | null;
+  // End a job, or the foreground one for Ctrl+C; false when there is none
+  kill(job?: Job): boolean;
+  // A job by its spec: %N, %+ or %% for the current job, %- for the one
+  // before, %TEXT for the job whose command starts with TEXT
+  find(spec?: string): Job | undefined;
+  // The job as jobs lists it: [1]+  Stopped                 sleep 60
+  describe(job: Job, status?: string): string;
+  // End every job, when the pane closes
+  dispose(): void;
+}
+
+interface Entry extends Job {
+  id: number;
+  state: JobState;
+  abortController: AbortController;
+  held: string;
+  io: JobIO | null;
+  pendingKey: ((key: string) => void) | null;
+  settle: ((end: JobEnd) => void) | null;
+  ended: boolean;
+}
+
+// notify prints a line about a job that ended in the background
+export function createJobTable(notify: (text: string) => void): JobTable {
+  // Numbered jobs, the current one last
+  const entries: Entry[] = [];
+  // Jobs in the foreground: fg runs as one and brings another there
+  const foreground: Entry[] = [];
+
+  const remove = (list: Entry[], entry: Entry) => {
+    const index = list.indexOf(entry);
+    if (index !== -1) list.splice(index, 1);
+  };
+
+  // Make the job the current one, numbering it when it is new
+  const makeCurrent = (entry: Entry) => {
+    if (!entry.id) {
+      entry.id = Math.max(0, ...entries.map(({ id }) => id)) + 1;
+    }
+    remove(entries, entry);
+    entries.push(entry);
+  };
+
+  // Ask the terminal for the key the job waits for, if it is there
+  const requestKey = (entry: Entry) => {
+    const io = entry.io;
+    if (!io?.readKey || !entry.pendingKey) return;
+    io.readKey().then((key) => {
+      const deliver = entry.pendingKey;
+      if (!deliver || entry.io !== io) return;
+      entry.pendingKey = null;
+      deliver(key);
+    });
+  };
+
+  const leaveForeground = (entry: Entry, end: JobEnd) => {
+    remove(foreground, entry);
+    entry.io = null;
+    const settle = entry.settle;
+    entry.settle = null;
+    settle?.(end);
+  };
+
+  const attach = (entry: Entry, io: JobIO): Promise<JobEnd> => {
+    remove(foreground, entry);
+    foreground.push(entry);
+    entry.io = io;
+    entry.state = "running";
+    if (entry.held) io.write(entry.held);
+    entry.held = "";
+    requestKey(entry);
+    return new Promise((resolve) => {
+      entry.settle = resolve;
+    });
+  };
+
+  const finish = (entry: Entry, result: CommandResult) => {
+    if (entry.ended) return;
+    entry.ended = true;
+    if (entry.settle) {
+      remove(entries, entry);
+      leaveForeground(entry, { type: "done", result });
+      return;
+    }
+    const status = table.describe(entry, result.success ? "Done" : "Exit 1");
+    remove(entries, entry);
+    notify(
+      [entry.held.replace(/\n$/, ""), result.output, status]
+        .filter(Boolean)
+        .join("\n"),
+    );
+  };
+
+  const create = (command: string): Entry => ({
+    id: 0,
+    command,
+    state: "running",
+    abortController: new AbortController(),
+    held: "",
+    io: null,
+    pendingKey: null,
+    settle: null,
+    ended: false,
+  });
+
+  // Start the job's command, with output that goes to the terminal while
+  // the job is in the foreground and is held otherwise
+  const launch = (entry: Entry, runner: JobRunner) => {
+    const writer = (text: string) => {
+      if (entry.io) {
+        entry.io.write(text);
+      } else {
+        entry.held = (entry.held + text).slice(-MAX_HELD_OUTPUT);
+      }
+    };
+    const readKey = () =>
+      new Promise<string>((resolve) => {
+        entry.pendingKey = resolve;
+        requestKey(entry);
+      });
+
+    let running: Promise<CommandResult>;
+    try {
+      running = runner({
+        writer,
+        readKey,
+        abortController: entry.abortController,
+      });
+    } catch (error) {
+      running = Promise.reject(error);
+    }
+    running.then(
+      (result) => finish(entry, result),
+      (error) =>
+        finish(entry, {
+          output: `Command error: ${error instanceof Error ? error.message : String(error)}`,
+          success: false,
+        }),
+    );
+  };
+
+  const current = () => entries[entries.length - 1];
+
+  const table: JobTable = {
+    get jobs() {
+      return [...entries].sort((a, b) => a.id - b.id);
+    },
+
+    run: (command, runner, io) => {
+      const entry = create(command);
+      const end = attach(entry, io);
+      launch(entry, runner);
+      return end;
+    },
+
+    start: (command, runner) => {
+      const entry = create(command);
+      makeCurrent(entry);
+      launch(entry, runner);
+      return entry;
+    },
+
+    foreground: (job, io) => {
+      const entry = job as Entry;
+      makeCurrent(entry);
+      return attach(entry, io);
+    },
+
+    resume: (job) => {
+      const entry = job as Entry;
+      entry.state = "running";
+      makeCurrent(entry);
+    },
+
+    stop: (job) => {
+      const entry = (job || foreground[foreground.length - 1]) as
+        | Entry
+        | undefined;
+      if (!entry || entry.ended) return null;
+      entry.state = "stopped";
+      makeCurrent(entry);
+      if (entry.settle) leaveForeground(entry, { type: "stopped", job: entry });
+      return entry;
+    },
+
+    kill: (job) => {
+      const entry = (job || foreground[foreground.length - 1]) as
+        | Entry
+        | undefined;
+      if (!entry || entry.ended) return false;
+      entry.ended = true;
+      entry.abortController.abort();
+      if (entry.settle) {
+        remove(entries, entry);
+        leaveForeground(entry, { type: "killed" });
+      } else {
+        const status = table.describe(entry, "Terminated");
+        remove(entries, entry);
+        notify(status);
+      }
+      return true;
+    },
+
+    find: (spec = "%+") => {
+      const name = spec.replace(/^%/, "");
+      if (name === "+" || name === "%" || name === "") return current();
+      if (name === "-") return entries[entries.length - 2];
+      if (/^[0-9]+$/.test(name)) {
+        return entries.find(({ id }) => id === Number(name));
+      }
+      return [...entries]
+        .reverse()
+        .find(({ command }) => command.startsWith(name));
+    },
+
+    describe: (job, status) => {
+      const marker =
+        job === current()
+          ? "+"
+          : job === entries[entries.length - 2]
+            ? "-"
+            : " ";
+      const label = status || (job.state === "stopped" ? "Stopped" : "Running");
+      return `[${job.id}]${marker}  ${label.padEnd(24)}${job.command}`;
+    },
+
+    dispose: () => {
+      for (const entry of [...foreground, ...entries]) {
+        entry.ended = true;
+        entry.abortController.abort();
+      }
+      entries.length = 0;
+      foreground.length = 0;
+    },
+  };
+  return table;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/utils/dev-logger", () => ({
+  logError: vi.fn(),
+}));
+
+const publications = {
+  publications: [
+    {
+      title: "Investigating Hyperparameter Optimization for ES-HyperNEAT",
+      authors: ["Romain Claret", "Michael O'Neill"],
+      year: "2024",
+      venue: "GECCO Companion",
+      abstract: "Tree-structured Parzen Estimator on MNIST.",
+      doi: "10.1145/3638530.3664144",
+      paperUrl: null,
+    },
+  ],
+};
+
+const respond = (body: unknown, ok = true) =>
+  Promise.resolve({
+    ok,
+    status: ok ? 200 : 500,
+    json: () => Promise.resolve(body),
+  });
+
+// The knowledge module caches its index, so load a fresh copy per test
+const loadModule = () => import("./knowledge");
+
+const passage = (title: string, text: string, source = `/${title}`) => ({
+  title,
+  source,
+  text,
+});
+
+describe("Terminal Knowledge", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    global.fetch = vi.fn((url: string) =>
+      respond(url.includes("publications") ? publications : {}),
+    ) as unknown as typeof fetch;
+  });
+
+  it("tokenizes without case, accents or stop words", async () => {
+    const { tokenize } = await loadModule();
+    expect(tokenize("What is the University of Neuchâtel?")).toEqual([
+      "university",
+      "neuchatel",
+    ]);
+  });
+
+  it("chunks documents at paragraph boundaries", async () => {
+    const { chunkDocument } = await loadModule();
+    const document = {
+      title: "Doc",
+      source: "/doc.md",
+      content: "one two three\n\nfour five\n\nsix seven eight nine ten eleven",
+    };
+
+    expect(chunkDocument(document, 5).map(({ text }) => text)).toEqual([
+      "one two three\n\nfour five",
+      "six seven eight nine ten",
+      "eleven",
+    ]);
+  });
+
+  it("ranks passages by BM25 score", async () => {
+    const { buildIndex, search } = await loadModule();
+    const index = buildIndex([
+      passage("Cooking", "pasta recipes and sauces"),
+      passage("NEAT", "neuroevolution evolves neural networks"),
+      passage("HyperNEAT", "neuroevolution with substrates, neuroevolution"),
+    ]);
+
+    expect(search(index, "neuroevolution").map(({ title }) => title)).toEqual([
+      "HyperNEAT",
+      "NEAT",
+    ]);
+    expect(search(index, "hyperneat substrates", 1)[0].title).toBe("HyperNEAT");
+    expect(search(index, "quantum")).toEqual([]);
+  });
+
+  it("numbers excerpts and sources by document", async () => {
+    const { formatContext, formatSources } = await loadModule();
+    const passages = [
+      passage("Paper", "first part", "/portfolio/papers/paper.md"),
+      passage("Site", "about", "/#home"),
+      passage("Paper", "second part", "/portfolio/papers/paper.md"),
+    ];
+
+    expect(formatContext(passages)).toBe(
+      [
+        "[1] Paper (/portfolio/papers/paper.md)\nfirst part",
+        "[2] Site (/#home)\nabout",
+        "[1] Paper (/portfolio/papers/paper.md)\nsecond part",
+      ].join("\n\n"),
+    );
+    expect(formatSources(passages)).toBe(
+      [
+        "Sources:",
+        "  [1] Paper — /portfolio/papers/paper.md",
+        "  [2] Site — /#home",
+      ].join("\n"),
+    );
+  });
+
+  it("retrieves from the portfolio, sections and publications", async () => {
+    const { retrievePassages } = await loadModule();
+
+    const [paper] = await retrievePassages("Parzen estimator", 1);
+    expect(paper.source).toBe("https://doi.org/10.1145/3638530.3664144");
+
+    const [school] = await retrievePassages("PhD thesis supervisors", 1);
+    expect(school.source).toBe("https://www.unine.ch");
+
+    const [job] = await retrievePassages("Artificialkind founder", 1);
+    expect(job.source).toBe("/portfolio/experience/artificialkind.md");
+
+    expect(global.fetch).toHaveBeenCalledWith("/publications.json");
+  });
+
+  it("still answers from local data when the feeds fail", async () => {
+    global.fetch = vi.fn(() => respond({}, false)) as unknown as typeof fetch;
+    const { retrievePassages } = await loadModule();
+
+    const passages = await retrievePassages("Artificialkind");
+    expect(passages[0].source).toBe("/portfolio/experience/artificialkind.md");
+  });
+});
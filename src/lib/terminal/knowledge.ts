@@ -0,0 +1,357 @@
+// Retrieval over the portfolio for the AI assistant: the site's content is
+// cut into passages, indexed with BM25, and the passages that best match a
+// question are given to the model and cited under its answer
+import type { VirtualFile } from "./fileSystem";
+import { getPortfolioTree, loadPortfolioFeeds } from "./portfolio";
+import { logError } from "@/lib/utils/dev-logger";
+import { greeting } from "@/data/sections/greeting";
+import { skillsSection } from "@/data/sections/skills";
+import { educationInfo } from "@/data/sections/education";
+import { contactInfo } from "@/data/sections/contact";
+import { kudosArticles } from "@/data/sections/kudos-articles";
+
+export interface KnowledgeDocument {
+  title: string;
+  source: string; // Portfolio path or URL, shown in citations
+  content: string;
+}
+
+export interface Passage {
+  title: string;
+  source: string;
+  text: string;
+}
+
+// Subset of the fields of public/publications.json
+interface Publication {
+  title: string;
+  authors: string[];
+  year: string;
+  venue: string;
+  abstract: string | null;
+  doi: string | null;
+  paperUrl: string | null;
+}
+
+// Passages are kept short, so several fit a small model's context window
+const PASSAGE_WORDS = 120;
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by did do does for from had has have he her " +
+    "his how i in is it its me my of on or our she so that the their them " +
+    "there they this to was we were what when where which who why will " +
+    "with you your about tell romain claret"
+  ).split(" "),
+);
+
+let publications: Publication[] | null = null;
+let publicationsPromise: Promise<void> | null = null;
+let cached: {
+  tree: VirtualFile;
+  publications: Publication[] | null;
+  index: SearchIndex;
+} | null = null;
+
+// Lowercased words without accents or stop words
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Cut a document into passages of whole paragraphs, splitting paragraphs
+// that are longer than a passage on their own
+export function chunkDocument(
+  document: KnowledgeDocument,
+  maxWords = PASSAGE_WORDS,
+): Passage[] {
+  const pieces = document.content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      const words = paragraph.split(/\s+/);
+      const parts: string[] = [];
+      for (let i = 0; i < words.length; i += maxWords) {
+        parts.push(words.slice(i, i + maxWords).join(" "));
+      }
+      return parts;
+    });
+
+  const passages: Passage[] = [];
+  let text = "";
+  for (const piece of pieces) {
+    const length = text.split(/\s+/).length + piece.split(/\s+/).length;
+    if (text && length > maxWords) {
+      passages.push({ title: document.title, source: document.source, text });
+      text = "";
+    }
+    text = text ? `${text}\n\n${piece}` : piece;
+  }
+  if (text) {
+    passages.push({ title: document.title, source: document.source, text });
+  }
+  return passages;
+}
+
+interface SearchIndex {
+  passages: Passage[];
+  terms: Map<string, number>[]; // Term frequencies of each passage
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+export function buildIndex(passages: Passage[]): SearchIndex {
+  const terms: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const passage of passages) {
+    // The title is part of every passage, so "papers about X" finds them
+    const tokens = tokenize(`${passage.title} ${passage.text}`);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+    for (const token of counts.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+    terms.push(counts);
+    lengths.push(tokens.length);
+  }
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    passages,
+    terms,
+    lengths,
+    averageLength: total / Math.max(1, passages.length),
+    documentFrequency,
+  };
+}
+
+// The k passages with the highest BM25 score; passages sharing no word
+// with the query are never returned
+export function search(index: SearchIndex, query: string, k = 4): Passage[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  const count = index.passages.length;
+
+  return index.passages
+    .map((passage, i) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = index.terms[i].get(term);
+        if (!frequency) continue;
+        const df = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        const norm = 1 - B + (B * index.lengths[i]) / index.averageLength;
+        score += (idf * frequency * (K1 + 1)) / (frequency + K1 * norm);
+      }
+      return { passage, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(({ passage }) => passage);
+}
+
+// Markdown files of the /portfolio tree, cited by their path so they can
+// be opened with cat
+function portfolioDocuments(
+  directory: VirtualFile,
+  path: string,
+): KnowledgeDocument[] {
+  return Object.values(directory.children || {}).flatMap((entry) => {
+    const entryPath = `${path}/${entry.name}`;
+    if (entry.type === "directory") return portfolioDocuments(entry, entryPath);
+    // Assets such as PDFs only have a note for content
+    if (entry.url) return [];
+    const content = entry.content || "";
+    const heading = content.match(/^# (.+)$/m);
+    return [
+      {
+        title: heading ? heading[1] : entry.name,
+        source: entryPath,
+        content,
+      },
+    ];
+  });
+}
+
+// Sections of the site that have no file under /portfolio
+function sectionDocuments(): KnowledgeDocument[] {
+  return [
+    {
+      title: "About",
+      source: "/#home",
+      content: [
+        `${greeting.titleGreetingNewline} ${greeting.titleGreeting}.`,
+        greeting.subTitle,
+        greeting.titleGreetingTitleList
+          .filter((item) => typeof item === "string")
+          .join(" "),
+      ].join("\n\n"),
+    },
+    {
+      title: skillsSection.title,
+      source: "/#skills",
+      content: [
+        skillsSection.skills.join("\n"),
+        ...skillsSection.coreActivities.map(
+          (activity) =>
+            `${activity.title}\n${activity.expandedDescription}\n` +
+            `Technologies: ${activity.technologies.join(", ")}`,
+        ),
+        `Frameworks: ${skillsSection.frameworks.join(", ")}`,
+        "Languages: " +
+          skillsSection.languages
+            .map(({ language, proficiency }) => `${language} (${proficiency})`)
+            .join(", "),
+      ].join("\n\n"),
+    },
+    ...educationInfo.schools.map((school) => ({
+      title: `${school.subHeader}, ${school.schoolName}`,
+      source: school.schoolUrl,
+      content: [
+        `${school.subHeader} at ${school.schoolName}, ${school.duration}`,
+        school.desc,
+        school.research,
+        school.descBullets.join("\n"),
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    })),
+    {
+      title: educationInfo.certificationSection.title,
+      source: "/#education",
+      content: educationInfo.certifications
+        .map(({ name, issuer, year }) => `${name}, ${issuer} (${year})`)
+        .join("\n"),
+    },
+    {
+      title: contactInfo.title,
+      source: "/#contact",
+      content: [
+        contactInfo.subtitle.highlightedText + contactInfo.subtitle.normalText,
+        `Email: ${contactInfo.emailAddress}`,
+        `Twitter: ${contactInfo.twitterUrl}`,
+      ].join("\n\n"),
+    },
+    ...kudosArticles.map((article) => ({
+      title: article.storyTitle || article.title,
+      source: article.kudosUrl,
+      content: [
+        `${article.title} by ${article.authors.join(", ")}, ${article.venue || article.publisher || ""} ${article.date}`,
+        article.storyDescription || article.description,
+        article.highlights?.join("\n"),
+        article.perspectives,
+        article.applications &&
+          `Applications: ${article.applications.join(", ")}`,
+        article.tags && `Tags: ${article.tags.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    })),
+  ];
+}
+
+function publicationDocuments(): KnowledgeDocument[] {
+  return (publications || []).map((publication) => ({
+    title: publication.title,
+    source:
+      publication.paperUrl ||
+      (publication.doi ? `https://doi.org/${publication.doi}` : "/#papers"),
+    content: [
+      `${publication.title} by ${publication.authors.join(", ")}, ${publication.venue} ${publication.year}`,
+      publication.abstract,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  }));
+}
+
+// Load public/publications.json once per session
+function loadPublications(): Promise<void> {
+  if (!publicationsPromise) {
+    publicationsPromise = fetch("/publications.json")
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to fetch publications: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((data) => {
+        publications = Array.isArray(data.publications)
+          ? data.publications
+          : [];
+      })
+      .catch((error) => logError(error, "Terminal Knowledge Publications"));
+  }
+  return publicationsPromise;
+}
+
+// Passages relevant to a question. The remote feeds are loaded first, and
+// the index is rebuilt whenever the content they provide changes
+export async function retrievePassages(
+  question: string,
+  k = 4,
+): Promise<Passage[]> {
+  await Promise.all([loadPortfolioFeeds(), loadPublications()]);
+
+  const tree = getPortfolioTree();
+  if (!cached || cached.tree !== tree || cached.publications !== publications) {
+    const documents = [
+      ...portfolioDocuments(tree, "/portfolio"),
+      ...sectionDocuments(),
+      ...publicationDocuments(),
+    ];
+    cached = {
+      tree,
+      publications,
+      index: buildIndex(
+        documents.flatMap((document) => chunkDocument(document)),
+      ),
+    };
+  }
+  return search(cached.index, question, k);
+}
+
+// Documents the passages come from, in order of first appearance; a
+// document is cited once however many of its passages were used
+function citedSources(passages: Passage[]): Passage[] {
+  const sources: Passage[] = [];
+  for (const passage of passages) {
+    if (!sources.some(({ source }) => source === passage.source)) {
+      sources.push(passage);
+    }
+  }
+  return sources;
+}
+
+// Numbered excerpts for the system message; the numbers match the sources
+// listed under the answer
+export function formatContext(passages: Passage[]): string {
+  const sources = citedSources(passages).map(({ source }) => source);
+  return passages
+    .map((passage) => {
+      const number = sources.indexOf(passage.source) + 1;
+      return `[${number}] ${passage.title} (${passage.source})\n${passage.text}`;
+    })
+    .join("\n\n");
+}
+
+export function formatSources(passages: Passage[]): string {
+  return [
+    "Sources:",
+    ...citedSources(passages).map(
+      ({ title, source }, i) => `  [${i + 1}] ${title} — ${source}`,
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  activePane,
+  addTab,
+  closePane,
+  closeTab,
+  createLayout,
+  cyclePane,
+  listPanes,
+  paneRects,
+  restoreLayout,
+  splitPane,
+  updatePane,
+} from "./layout";
+
+describe("Terminal Layout", () => {
+  it("opens tabs after the active one, in the same session", () => {
+    let layout = createLayout("guest", "/projects");
+    layout = addTab(layout, "admin", "/blog");
+    layout = addTab(
+      { ...layout, activeTab: 0 },
+      activePane(layout).user,
+      activePane(layout).cwd,
+    );
+
+    expect(layout.tabs.map((tab) => activePaneOf(tab))).toEqual([
+      "guest /projects",
+      "admin /blog",
+      "admin /blog",
+    ]);
+    expect(layout.activeTab).toBe(1);
+    // Ids never repeat
+    const ids = layout.tabs.flatMap((tab) => [
+      tab.id,
+      ...listPanes(tab.root).map(({ id }) => id),
+    ]);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    function activePaneOf(tab: (typeof layout.tabs)[number]) {
+      const pane = listPanes(tab.root).find(({ id }) => id === tab.activePane)!;
+      return `${pane.user} ${pane.cwd}`;
+    }
+  });
+
+  it("closes tabs, keeping a neighbour active", () => {
+    let layout = addTab(addTab(createLayout("guest"), "guest"), "guest");
+    expect(layout.activeTab).toBe(2);
+
+    layout = closeTab(layout, 2)!;
+    expect(layout.activeTab).toBe(1);
+    layout = closeTab(layout, 0)!;
+    expect(layout.tabs).toHaveLength(1);
+    expect(layout.activeTab).toBe(0);
+    expect(closeTab(layout, 0)).toBeNull();
+  });
+
+  it("splits panes and lays them out", () => {
+    let layout = createLayout("guest", "/blog");
+    const first = activePane(layout).id;
+    layout = splitPane(layout, first, "horizontal");
+    const second = activePane(layout).id;
+    layout = splitPane(layout, second, "vertical");
+
+    expect(activePane(layout)).toMatchObject({ user: "guest", cwd: "/blog" });
+    expect(
+      paneRects(layout.tabs[0].root).map(({ left, top, width, height }) => [
+        left,
+        top,
+        width,
+        height,
+      ]),
+    ).toEqual([
+      [0, 0, 0.5, 1],
+      [0.5, 0, 0.5, 0.5],
+      [0.5, 0.5, 0.5, 0.5],
+    ]);
+
+    layout = cyclePane(layout, 1);
+    expect(activePane(layout).id).toBe(first);
+    layout = cyclePane(layout, -1);
+    expect(listPanes(layout.tabs[0].root).at(-1)!.id).toBe(
+      activePane(layout).id,
+    );
+  });
+
+  it("closes panes, giving the space to their sibling", () => {
+    let layout = createLayout("guest");
+    const first = activePane(layout).id;
+    layout = splitPane(layout, first, "horizontal");
+    const second = activePane(layout).id;
+
+    layout = closePane(layout, second)!;
+    expect(layout.tabs[0].root).toMatchObject({ type: "pane", id: first });
+    expect(activePane(layout).id).toBe(first);
+
+    layout = addTab(layout, "guest");
+    layout = closePane(layout, activePane(layout).id)!;
+    expect(layout.tabs).toHaveLength(1);
+    expect(closePane(layout, first)).toBeNull();
+  });
+
+  it("records where each pane is", () => {
+    const layout = createLayout("guest");
+    const id = activePane(layout).id;
+
+    expect(
+      activePane(updatePane(layout, id, { user: "admin", cwd: "/etc" })),
+    ).toEqual({ type: "pane", id, user: "admin", cwd: "/etc" });
+  });
+
+  it("restores only valid layouts", () => {
+    const layout = splitPane(
+      createLayout("guest"),
+      activePane(createLayout("guest")).id,
+      "vertical",
+    );
+
+    expect(restoreLayout(JSON.parse(JSON.stringify(layout)))).toEqual(layout);
+    expect(restoreLayout({ ...layout, activeTab: 5 })?.activeTab).toBe(0);
+    expect(restoreLayout({ tabs: [] })).toBeNull();
+    expect(
+      restoreLayout({
+        tabs: [{ id: "1", activePane: "2", root: { type: "split" } }],
+      }),
+    ).toBeNull();
+    expect(restoreLayout("guest")).toBeNull();
+  });
+});
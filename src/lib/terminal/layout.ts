@@ -0,0 +1,307 @@
+// Tabs and split panes of the terminal window. Each pane runs its own
+// session; the layout records only what is needed to restore them
+// (user and directory), and every change returns a new layout
+
+// Horizontal splits place panes side by side, vertical ones stack them
+// (like tmux split-window -h and -v)
+export type SplitDirection = "horizontal" | "vertical";
+
+export interface PaneNode {
+  type: "pane";
+  id: string;
+  user: string;
+  cwd: string;
+}
+
+export interface SplitNode {
+  type: "split";
+  direction: SplitDirection;
+  children: [LayoutNode, LayoutNode];
+}
+
+export type LayoutNode = PaneNode | SplitNode;
+
+export interface TerminalTab {
+  id: string;
+  root: LayoutNode;
+  activePane: string;
+}
+
+export interface TerminalLayout {
+  tabs: TerminalTab[];
+  activeTab: number;
+}
+
+// What commands see of the layout: the pane they run in, and a way to
+// change the layout of the window
+export interface PaneControl {
+  paneId: string;
+  layout: TerminalLayout;
+  update: (change: (layout: TerminalLayout) => TerminalLayout | null) => void;
+}
+
+// Panes of a tab in reading order, left to right and top to bottom
+export function listPanes(node: LayoutNode): PaneNode[] {
+  return node.type === "pane"
+    ? [node]
+    : [...listPanes(node.children[0]), ...listPanes(node.children[1])];
+}
+
+// Ids are numbers, one above the highest in use
+function nextId(layout: TerminalLayout): string {
+  const ids = layout.tabs.flatMap((tab) => [
+    tab.id,
+    ...listPanes(tab.root).map(({ id }) => id),
+  ]);
+  return String(Math.max(0, ...ids.map(Number).filter(isFinite)) + 1);
+}
+
+export function createLayout(user: string, cwd = "/"): TerminalLayout {
+  return {
+    tabs: [
+      {
+        id: "1",
+        root: { type: "pane", id: "2", user, cwd },
+        activePane: "2",
+      },
+    ],
+    activeTab: 0,
+  };
+}
+
+// "user: dir", as shown on tabs and by tab list
+export function paneTitle(pane: PaneNode): string {
+  return `${pane.user}: ${pane.cwd === "/" ? "~" : pane.cwd}`;
+}
+
+export function activePane(layout: TerminalLayout): PaneNode {
+  const tab = layout.tabs[layout.activeTab];
+  const panes = listPanes(tab.root);
+  return panes.find(({ id }) => id === tab.activePane) || panes[0];
+}
+
+// The tab holding a pane, or -1
+export function findTab(layout: TerminalLayout, paneId: string): number {
+  return layout.tabs.findIndex((tab) =>
+    listPanes(tab.root).some(({ id }) => id === paneId),
+  );
+}
+
+// Open a tab after the active one and switch to it
+export function addTab(
+  layout: TerminalLayout,
+  user: string,
+  cwd = "/",
+): TerminalLayout {
+  const tabId = nextId(layout);
+  const paneId = String(Number(tabId) + 1);
+  const tabs = [...layout.tabs];
+  tabs.splice(layout.activeTab + 1, 0, {
+    id: tabId,
+    root: { type: "pane", id: paneId, user, cwd },
+    activePane: paneId,
+  });
+  return { tabs, activeTab: layout.activeTab + 1 };
+}
+
+// Null when the last tab closes
+export function closeTab(
+  layout: TerminalLayout,
+  index: number,
+): TerminalLayout | null {
+  if (!layout.tabs[index]) return layout;
+  if (layout.tabs.length === 1) return null;
+
+  const tabs = layout.tabs.filter((_, i) => i !== index);
+  const activeTab =
+    index < layout.activeTab || layout.activeTab === tabs.length
+      ? layout.activeTab - 1
+      : layout.activeTab;
+  return { tabs, activeTab };
+}
+
+export function selectTab(
+  layout: TerminalLayout,
+  index: number,
+): TerminalLayout {
+  return layout.tabs[index] ? { ...layout, activeTab: index } : layout;
+}
+
+// Replace the pane, wherever it is in the tree, with what make returns
+function replacePane(
+  node: LayoutNode,
+  paneId: string,
+  make: (pane: PaneNode) => LayoutNode | null,
+): LayoutNode | null {
+  if (node.type === "pane") return node.id === paneId ? make(node) : node;
+
+  const [first, second] = node.children.map((child) =>
+    replacePane(child, paneId, make),
+  );
+  // A split left with one child gives way to it
+  if (!first || !second) return first || second;
+  return { ...node, children: [first, second] };
+}
+
+function mapTab(
+  layout: TerminalLayout,
+  paneId: string,
+  change: (tab: TerminalTab) => TerminalTab,
+): TerminalLayout {
+  const index = findTab(layout, paneId);
+  if (index === -1) return layout;
+  const tabs = [...layout.tabs];
+  tabs[index] = change(tabs[index]);
+  return { ...layout, tabs };
+}
+
+// Split a pane in two; the new pane continues in the same directory as
+// the same user, and gets the focus
+export function splitPane(
+  layout: TerminalLayout,
+  paneId: string,
+  direction: SplitDirection,
+): TerminalLayout {
+  const id = nextId(layout);
+  return mapTab(layout, paneId, (tab) => ({
+    ...tab,
+    root: replacePane(tab.root, paneId, (pane) => ({
+      type: "split",
+      direction,
+      children: [pane, { ...pane, id }],
+    }))!,
+    activePane: id,
+  }));
+}
+
+// Closing the only pane of a tab closes the tab; null when it was the
+// last pane of the window
+export function closePane(
+  layout: TerminalLayout,
+  paneId: string,
+): TerminalLayout | null {
+  const index = findTab(layout, paneId);
+  if (index === -1) return layout;
+
+  const tab = layout.tabs[index];
+  const panes = listPanes(tab.root);
+  const root = replacePane(tab.root, paneId, () => null);
+  if (!root) return closeTab(layout, index);
+
+  // The focus moves to the pane before the closed one
+  const position = panes.findIndex(({ id }) => id === paneId);
+  const remaining = panes.filter(({ id }) => id !== paneId);
+  const activePane =
+    tab.activePane === paneId
+      ? remaining[Math.max(0, position - 1)].id
+      : tab.activePane;
+  return mapTab(layout, paneId, () => ({ ...tab, root, activePane }));
+}
+
+export function focusPane(
+  layout: TerminalLayout,
+  paneId: string,
+): TerminalLayout {
+  const index = findTab(layout, paneId);
+  if (index === -1) return layout;
+  return {
+    ...mapTab(layout, paneId, (tab) => ({ ...tab, activePane: paneId })),
+    activeTab: index,
+  };
+}
+
+// Move the focus to the next or previous pane of the active tab
+export function cyclePane(
+  layout: TerminalLayout,
+  step: 1 | -1,
+): TerminalLayout {
+  const panes = listPanes(layout.tabs[layout.activeTab].root);
+  const index = panes.findIndex(({ id }) => id === activePane(layout).id);
+  return focusPane(
+    layout,
+    panes[(index + step + panes.length) % panes.length].id,
+  );
+}
+
+// Record the user or directory of a pane, so a restored layout resumes it
+export function updatePane(
+  layout: TerminalLayout,
+  paneId: string,
+  changes: Partial<Pick<PaneNode, "user" | "cwd">>,
+): TerminalLayout {
+  return mapTab(layout, paneId, (tab) => ({
+    ...tab,
+    root: replacePane(tab.root, paneId, (pane) => ({ ...pane, ...changes }))!,
+  }));
+}
+
+function isLayoutNode(node: unknown): node is LayoutNode {
+  if (!node || typeof node !== "object") return false;
+  const value = node as Record<string, unknown>;
+  if (value.type === "pane") {
+    return (
+      typeof value.id === "string" &&
+      typeof value.user === "string" &&
+      typeof value.cwd === "string"
+    );
+  }
+  return (
+    value.type === "split" &&
+    (value.direction === "horizontal" || value.direction === "vertical") &&
+    Array.isArray(value.children) &&
+    value.children.length === 2 &&
+    value.children.every(isLayoutNode)
+  );
+}
+
+// A layout read back from storage, or null when it is not one
+export function restoreLayout(stored: unknown): TerminalLayout | null {
+  if (!stored || typeof stored !== "object") return null;
+  const { tabs, activeTab } = stored as Record<string, unknown>;
+  if (!Array.isArray(tabs) || tabs.length === 0) return null;
+
+  const valid = tabs.every(
+    (tab) =>
+      tab &&
+      typeof tab.id === "string" &&
+      typeof tab.activePane === "string" &&
+      isLayoutNode(tab.root),
+  );
+  if (!valid) return null;
+
+  return {
+    tabs: tabs as TerminalTab[],
+    activeTab: typeof activeTab === "number" && tabs[activeTab] ? activeTab : 0,
+  };
+}
+
+// Where each pane of a tab goes, as fractions of the tab's area. Splits
+// share their area equally
+export interface PaneRect {
+  pane: PaneNode;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export function paneRects(
+  node: LayoutNode,
+  area: Omit<PaneRect, "pane"> = { left: 0, top: 0, width: 1, height: 1 },
+): PaneRect[] {
+  if (node.type === "pane") return [{ pane: node, ...area }];
+
+  const [first, second] = node.children;
+  if (node.direction === "horizontal") {
+    const width = area.width / 2;
+    return [
+      ...paneRects(first, { ...area, width }),
+      ...paneRects(second, { ...area, left: area.left + width, width }),
+    ];
+  }
+  const height = area.height / 2;
+  return [
+    ...paneRects(first, { ...area, height }),
+    ...paneRects(second, { ...area, top: area.top + height, height }),
+  ];
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createLineEditor,
+  cursorPosition,
+  displayWidth,
+  redrawInput,
+  unicodeProvider,
+  verticalMove,
+  type LineEditor,
+} from "./line-editor";
+
+describe("Line Editor", () => {
+  let editor: LineEditor;
+
+  // Feed keys and show the line with | at the cursor
+  const press = (...keys: string[]) => {
+    for (const key of keys) editor.handleKey(key);
+    return (
+      editor.line.slice(0, editor.cursor) +
+      "|" +
+      editor.line.slice(editor.cursor)
+    );
+  };
+
+  beforeEach(() => {
+    editor = createLineEditor();
+    editor.set("git commit -m message");
+  });
+
+  it("moves by characters, words and to either end", () => {
+    expect(press("\x01")).toBe("|git commit -m message");
+    expect(press("\x1bf", "\x1bf")).toBe("git commit| -m message");
+    expect(press("\x1b[C", "\x1b[C")).toBe("git commit -|m message");
+    expect(press("\x1bb")).toBe("git |commit -m message");
+    expect(press("\x1bb")).toBe("|git commit -m message");
+    expect(press("\x1b[F")).toBe("git commit -m message|");
+    expect(press("\x1b[H", "\x06")).toBe("g|it commit -m message");
+  });
+
+  it("deletes characters around the cursor", () => {
+    expect(press("\x7f")).toBe("git commit -m messag|");
+    expect(press("\x01", "\x1b[3~")).toBe("|it commit -m messag");
+    expect(press("\x04")).toBe("|t commit -m messag");
+    // Ctrl+D on an empty line is left to the terminal
+    editor.set("");
+    expect(editor.handleKey("\x04")).toBe(false);
+  });
+
+  it("kills into a ring and yanks back", () => {
+    expect(press("\x17")).toBe("git commit -m |");
+    expect(press("\x17")).toBe("git commit |");
+    // Consecutive kills join
+    expect(press("\x19")).toBe("git commit -m message|");
+    expect(press("\x01", "\x0b")).toBe("|");
+    expect(press("\x19")).toBe("git commit -m message|");
+
+    editor.set("one two");
+    expect(press("\x1b\x7f")).toBe("one |");
+    expect(press("\x01", "\x1bd")).toBe("| ");
+    expect(press("\x19")).toBe("one| ");
+    // Alt+Y swaps the yank for older kills
+    expect(press("\x1by")).toBe("two| ");
+    expect(press("\x1by")).toBe("git commit -m message| ");
+  });
+
+  it("kills to the start of the line with Ctrl+U", () => {
+    press("\x1bb");
+    expect(press("\x15")).toBe("|message");
+    expect(press("\x19")).toBe("git commit -m |message");
+  });
+
+  it("undoes edits, typed words at a time", () => {
+    editor.set("");
+    for (const char of "echo hello") editor.handleKey(char);
+    expect(press("\x1f")).toBe("echo |");
+    expect(press("\x1f")).toBe("echo|");
+    expect(press("\x1f")).toBe("|");
+    expect(press("\x1f")).toBe("git commit -m message|");
+
+    press("\x17");
+    expect(press("\x1f")).toBe("git commit -m message|");
+  });
+
+  it("moves over emoji and accents as one character", () => {
+    editor.set("a👍🏽éb");
+    expect(press("\x1b[D")).toBe("a👍🏽é|b");
+    expect(press("\x1b[D")).toBe("a👍🏽|éb");
+    expect(press("\x7f")).toBe("a|éb");
+  });
+
+  it("inserts pasted text without control characters", () => {
+    editor.set("");
+    editor.insert("ls\n-la\x1b");
+    expect(editor.line).toBe("ls -la");
+  });
+
+  describe("display", () => {
+    it("counts wide and zero-width characters", () => {
+      expect(displayWidth("abc")).toBe(3);
+      expect(displayWidth("日本")).toBe(4);
+      expect(displayWidth("👍")).toBe(2);
+      expect(displayWidth("é")).toBe(1);
+      expect(unicodeProvider.wcwidth(0x1f44d)).toBe(2);
+    });
+
+    it("wraps wide characters that do not fit to the next row", () => {
+      expect(cursorPosition("abcd", 5, 0)).toEqual({ row: 0, col: 4 });
+      expect(cursorPosition("abcd日", 5, 0)).toEqual({ row: 1, col: 2 });
+      expect(cursorPosition("abcde", 5, 0)).toEqual({ row: 1, col: 0 });
+      expect(cursorPosition("ab", 5, 4)).toEqual({ row: 1, col: 1 });
+    });
+
+    it("redraws the input from the prompt row", () => {
+      expect(redrawInput("\x1b[32m$\x1b[0m ", "echo hi", 4, 80, 0)).toEqual({
+        output: "\r\x1b[J\x1b[32m$\x1b[0m echo hi\r\x1b[6C",
+        rowsAbove: 0,
+      });
+      // A prompt of 2 and 9 characters on rows of 6: the cursor at 5 is
+      // on the second row, like the end
+      expect(redrawInput("$ ", "012345678", 5, 6, 1)).toEqual({
+        output: "\x1b[1A\r\x1b[J$ 012345678\r\x1b[1C",
+        rowsAbove: 1,
+      });
+      // A full row is followed by a space to move xterm onto the next one
+      expect(redrawInput("$ ", "0123", 4, 6, 0)).toEqual({
+        output: "\r\x1b[J$ 0123 \b\r",
+        rowsAbove: 1,
+      });
+    });
+
+    it("moves between rows of a wrapped input", () => {
+      expect(verticalMove(2, "012345678", 8, 6, -1)).toBe(2);
+      expect(verticalMove(2, "012345678", 2, 6, 1)).toBe(8);
+      expect(verticalMove(2, "012345678", 1, 6, -1)).toBeNull();
+      expect(verticalMove(2, "012345678", 8, 6, 1)).toBeNull();
+    });
+  });
+});
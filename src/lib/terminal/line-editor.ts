@@ -0,0 +1,386 @@
+// Headless line editor: the input line and its cursor, edited with Emacs
+// key bindings, with a kill ring and undo. It knows nothing of xterm; the
+// terminal feeds it keys and draws the line with redrawInput
+import { stripAnsi } from "./ansi";
+
+// Cells a code point takes, the way the terminal counts them once
+// unicodeProvider is active: combining marks and joiners take none, emoji
+// and East Asian wide characters two
+const widthCache = new Map<number, 0 | 1 | 2>();
+
+function isWide(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x1100 && codePoint < 0x1160) ||
+    codePoint === 0x2329 ||
+    codePoint === 0x232a ||
+    (codePoint >= 0x2e80 && codePoint < 0xa4d0 && codePoint !== 0x303f) ||
+    (codePoint >= 0xac00 && codePoint < 0xd7a4) ||
+    (codePoint >= 0xf900 && codePoint < 0xfb00) ||
+    (codePoint >= 0xfe10 && codePoint < 0xfe1a) ||
+    (codePoint >= 0xfe30 && codePoint < 0xfe70) ||
+    (codePoint >= 0xff00 && codePoint < 0xff61) ||
+    (codePoint >= 0xffe0 && codePoint < 0xffe7) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  );
+}
+
+export function charWidth(codePoint: number): 0 | 1 | 2 {
+  if (codePoint < 32 || (codePoint >= 0x7f && codePoint < 0xa0)) return 0;
+  if (codePoint < 0x300) return 1;
+
+  let width = widthCache.get(codePoint);
+  if (width === undefined) {
+    const char = String.fromCodePoint(codePoint);
+    width = /[\p{Mn}\p{Me}\p{Cf}]/u.test(char)
+      ? 0
+      : /\p{Emoji_Presentation}/u.test(char) || isWide(codePoint)
+        ? 2
+        : 1;
+    widthCache.set(codePoint, width);
+  }
+  return width;
+}
+
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char.codePointAt(0)!);
+  return width;
+}
+
+// A Unicode version for xterm that counts cells like charWidth, so the
+// editor and the screen agree on where wrapped lines break. A zero-width
+// code point joins the character before it
+export const unicodeProvider = {
+  version: "line-editor",
+  wcwidth: charWidth,
+  charProperties(codePoint: number, preceding: number): number {
+    const width = charWidth(codePoint);
+    const join = width === 0 && ((preceding >> 1) & 3) !== 0;
+    return (width << 1) | (join ? 1 : 0);
+  },
+};
+
+// Where the cursor ends up after writing text from column start of a row
+// cols wide. A wide character that does not fit moves to the next row, and
+// a full row leaves the cursor at the start of the next one
+export function cursorPosition(
+  text: string,
+  cols: number,
+  start = 0,
+): { row: number; col: number } {
+  let row = Math.floor(start / cols);
+  let col = start % cols;
+  for (const char of text) {
+    const width = charWidth(char.codePointAt(0)!);
+    if (col + width > cols) {
+      row++;
+      col = 0;
+    }
+    col += width;
+    if (col === cols) {
+      row++;
+      col = 0;
+    }
+  }
+  return { row, col };
+}
+
+// Redraw the prompt and input line. rowsAbove is how many rows the cursor
+// sits below the prompt; the new value is returned. Text wraps by itself,
+// so xterm reflows it like any long line when the terminal is resized
+export function redrawInput(
+  prompt: string,
+  line: string,
+  cursor: number,
+  cols: number,
+  rowsAbove: number,
+): { output: string; rowsAbove: number } {
+  const promptWidth = displayWidth(stripAnsi(prompt));
+  const end = cursorPosition(line, cols, promptWidth);
+  const target = cursorPosition(line.slice(0, cursor), cols, promptWidth);
+
+  let output = rowsAbove > 0 ? `\x1b[${rowsAbove}A` : "";
+  output += `\r\x1b[J${prompt}${line}`;
+  // A full last row leaves xterm at its end, waiting to wrap; a space
+  // forces the wrap so the cursor is where cursorPosition says
+  if (end.col === 0 && end.row > 0) output += " \b";
+
+  if (end.row > target.row) output += `\x1b[${end.row - target.row}A`;
+  output += "\r";
+  if (target.col > 0) output += `\x1b[${target.col}C`;
+  return { output, rowsAbove: target.row };
+}
+
+// Offset in line straight above (step -1) or below (step 1) the cursor,
+// when the input wraps onto more rows; null past its first or last row
+export function verticalMove(
+  promptWidth: number,
+  line: string,
+  cursor: number,
+  cols: number,
+  step: 1 | -1,
+): number | null {
+  const position = (offset: number) =>
+    cursorPosition(line.slice(0, offset), cols, promptWidth);
+  const { row, col } = position(cursor);
+  const target = row + step;
+  if (target < 0 || target > position(line.length).row) return null;
+
+  // The last character start in that row not right of the cursor
+  const offsets = boundaries(line).filter(
+    (offset) => position(offset).row === target,
+  );
+  return (
+    offsets.filter((offset) => position(offset).col <= col).at(-1) ?? offsets[0]
+  );
+}
+
+// Grapheme clusters, so the cursor never stops inside an emoji or
+// between a letter and its accent
+const segmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+function boundaries(line: string): number[] {
+  if (segmenter) {
+    return [
+      ...[...segmenter.segment(line)].map(({ index }) => index),
+      line.length,
+    ];
+  }
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of line) {
+    offsets.push(offset);
+    offset += char.length;
+  }
+  return [...offsets, line.length];
+}
+
+// Words are letters and digits (Alt+B/F), or anything but spaces (Ctrl+W)
+const isWordPart = (char: string) => /[\p{L}\p{M}\p{N}_]/u.test(char);
+const isNotSpace = (char: string) => !/\s/.test(char);
+
+// Kills Ctrl+Y can bring back; kills one after another make one entry
+const KILL_RING_SIZE = 16;
+const UNDO_LIMIT = 100;
+
+interface LineState {
+  line: string;
+  cursor: number;
+}
+
+export interface LineEditor {
+  readonly line: string;
+  readonly cursor: number; // Offset in line, at a character boundary
+  // Replace the line, e.g. with a history entry; undo can bring it back
+  set: (line: string, cursor?: number) => void;
+  insert: (text: string) => void;
+  // Apply an editing key. Returns false when the key does not edit, so
+  // the terminal can handle it
+  handleKey: (data: string) => boolean;
+  // Start an empty line, forgetting undo but keeping the kill ring
+  reset: () => void;
+}
+
+export function createLineEditor(): LineEditor {
+  let state: LineState = { line: "", cursor: 0 };
+  let undoStack: LineState[] = [];
+  const killRing: string[] = [];
+  // What the last key did, to join kills and typed characters into one
+  // kill or undo step, and to let Alt+Y replace a yank
+  let lastAction: "insert" | "kill" | "yank" | null = null;
+  let yank: { start: number; index: number } | null = null;
+
+  const change = (next: LineState, action: typeof lastAction = null) => {
+    if (
+      next.line !== state.line &&
+      !(action === "insert" && lastAction === "insert")
+    ) {
+      undoStack.push(state);
+      if (undoStack.length > UNDO_LIMIT) undoStack.shift();
+    }
+    state = next;
+    lastAction = action;
+  };
+
+  const move = (cursor: number) => {
+    state = { ...state, cursor };
+    lastAction = null;
+  };
+
+  const previousBoundary = (offset: number) =>
+    boundaries(state.line)
+      .filter((b) => b < offset)
+      .at(-1) ?? 0;
+  const nextBoundary = (offset: number) =>
+    boundaries(state.line).find((b) => b > offset) ?? state.line.length;
+
+  // Start of the word before the cursor, and end of the word after it
+  const wordStart = (isPart: (char: string) => boolean) => {
+    const chars = Array.from(state.line.slice(0, state.cursor));
+    let i = chars.length;
+    while (i > 0 && !isPart(chars[i - 1])) i--;
+    while (i > 0 && isPart(chars[i - 1])) i--;
+    return chars.slice(0, i).join("").length;
+  };
+  const wordEnd = (isPart: (char: string) => boolean) => {
+    const chars = Array.from(state.line.slice(state.cursor));
+    let i = 0;
+    while (i < chars.length && !isPart(chars[i])) i++;
+    while (i < chars.length && isPart(chars[i])) i++;
+    return state.cursor + chars.slice(0, i).join("").length;
+  };
+
+  const kill = (from: number, to: number) => {
+    if (from === to) return;
+    const text = state.line.slice(from, to);
+    if (lastAction === "kill" && killRing.length > 0) {
+      // Killing backwards puts the text in front of the previous kill
+      killRing[0] =
+        from < state.cursor ? text + killRing[0] : killRing[0] + text;
+    } else {
+      killRing.unshift(text);
+      if (killRing.length > KILL_RING_SIZE) killRing.pop();
+    }
+    change(
+      { line: state.line.slice(0, from) + state.line.slice(to), cursor: from },
+      "kill",
+    );
+  };
+
+  const insert = (text: string) => {
+    // Control characters would garble the line; pasted newlines become spaces
+    const clean = text
+      .replace(/\r\n?|\n|\t/g, " ")
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x1f\x7f]/g, "");
+    if (!clean) return;
+    change(
+      {
+        line:
+          state.line.slice(0, state.cursor) +
+          clean +
+          state.line.slice(state.cursor),
+        cursor: state.cursor + clean.length,
+      },
+      clean.length === 1 && clean !== " " ? "insert" : null,
+    );
+  };
+
+  const insertYank = (index: number, replace: number | null) => {
+    const text = killRing[index];
+    const start = replace ?? state.cursor;
+    const line =
+      state.line.slice(0, start) + text + state.line.slice(state.cursor);
+    change({ line, cursor: start + text.length }, "yank");
+    yank = { start, index };
+  };
+
+  const handleKey = (data: string): boolean => {
+    const { line, cursor } = state;
+
+    switch (data) {
+      case "\x01": // Ctrl+A
+      case "\x1b[H":
+      case "\x1bOH":
+      case "\x1b[1~":
+        move(0);
+        return true;
+      case "\x05": // Ctrl+E
+      case "\x1b[F":
+      case "\x1bOF":
+      case "\x1b[4~":
+        move(line.length);
+        return true;
+      case "\x02": // Ctrl+B
+      case "\x1b[D":
+        move(previousBoundary(cursor));
+        return true;
+      case "\x06": // Ctrl+F
+      case "\x1b[C":
+        move(nextBoundary(cursor));
+        return true;
+      case "\x1bb": // Alt+B and Ctrl+Left
+      case "\x1b[1;5D":
+        move(wordStart(isWordPart));
+        return true;
+      case "\x1bf": // Alt+F and Ctrl+Right
+      case "\x1b[1;5C":
+        move(wordEnd(isWordPart));
+        return true;
+      case "\x7f": // Backspace
+      case "\b": {
+        const start = previousBoundary(cursor);
+        if (start < cursor) {
+          change({
+            line: line.slice(0, start) + line.slice(cursor),
+            cursor: start,
+          });
+        }
+        return true;
+      }
+      case "\x1b[3~": // Delete
+      case "\x04": // Ctrl+D, which on an empty line is left to the terminal
+        if (data === "\x04" && !line) return false;
+        if (cursor < line.length) {
+          change({
+            line: line.slice(0, cursor) + line.slice(nextBoundary(cursor)),
+            cursor,
+          });
+        }
+        return true;
+      case "\x17": // Ctrl+W kills the previous space-separated word
+        kill(wordStart(isNotSpace), cursor);
+        return true;
+      case "\x1b\x7f": // Alt+Backspace kills the previous word
+        kill(wordStart(isWordPart), cursor);
+        return true;
+      case "\x1bd": // Alt+D kills the next word
+        kill(cursor, wordEnd(isWordPart));
+        return true;
+      case "\x15": // Ctrl+U
+        kill(0, cursor);
+        return true;
+      case "\x0b": // Ctrl+K
+        kill(cursor, line.length);
+        return true;
+      case "\x19": // Ctrl+Y
+        if (killRing.length > 0) insertYank(0, null);
+        return true;
+      case "\x1by": // Alt+Y swaps the yanked text for an older kill
+        if (lastAction === "yank" && yank && killRing.length > 1) {
+          insertYank((yank.index + 1) % killRing.length, yank.start);
+        }
+        return true;
+      case "\x1f": // Ctrl+_ (and Ctrl+/)
+        state = undoStack.pop() ?? state;
+        lastAction = null;
+        return true;
+    }
+
+    if (data.charCodeAt(0) >= 32 && !data.startsWith("\x1b")) {
+      insert(data);
+      return true;
+    }
+    return false;
+  };
+
+  return {
+    get line() {
+      return state.line;
+    },
+    get cursor() {
+      return state.cursor;
+    },
+    set: (line, cursor = line.length) => change({ line, cursor }),
+    insert,
+    handleKey,
+    reset: () => {
+      state = { line: "", cursor: 0 };
+      undoStack = [];
+      lastAction = null;
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  createMarkdownStream,
+  highlightCode,
+  renderInline,
+  renderMarkdown,
+  wrapAnsi,
+} from "./markdown";
+import { stripAnsi } from "./ansi";
+
+describe("Terminal Markdown", () => {
+  describe("renderInline", () => {
+    it("styles emphasis, code and links", () => {
+      expect(renderInline("**bold** and *italic* or _this_")).toBe(
+        "\x1b[1mbold\x1b[22m and \x1b[3mitalic\x1b[23m or \x1b[3mthis\x1b[23m",
+      );
+      expect(renderInline("run `ai *init*` now")).toBe(
+        "run \x1b[36mai *init*\x1b[39m now",
+      );
+      expect(renderInline("[paper](https://doi.org/1)")).toBe(
+        "\x1b[4mpaper\x1b[24m \x1b[2m(https://doi.org/1)\x1b[22m",
+      );
+    });
+
+    it("leaves lone markers alone", () => {
+      expect(renderInline("2 * 3 * 4 and snake_case_name")).toBe(
+        "2 * 3 * 4 and snake_case_name",
+      );
+    });
+  });
+
+  describe("wrapAnsi", () => {
+    it("wraps at spaces and cuts long words", () => {
+      expect(wrapAnsi("one two three", 7)).toEqual(["one two", "three"]);
+      expect(wrapAnsi("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+    });
+
+    it("carries styles across lines", () => {
+      expect(wrapAnsi("\x1b[1mbold words\x1b[0m", 5)).toEqual([
+        "\x1b[1mbold\x1b[0m",
+        "\x1b[1mwords\x1b[0m",
+      ]);
+    });
+  });
+
+  it("highlights code by language", () => {
+    expect(highlightCode('const x = "hi"; // note', "ts")).toBe(
+      '\x1b[35mconst\x1b[39m x = \x1b[32m"hi"\x1b[39m; \x1b[90m// note\x1b[39m',
+    );
+    expect(highlightCode("def f(): return None", "python")).toBe(
+      "\x1b[35mdef\x1b[39m f(): \x1b[35mreturn\x1b[39m \x1b[33mNone\x1b[39m",
+    );
+    expect(highlightCode("plain text", "unknown")).toBe("plain text");
+  });
+
+  describe("renderMarkdown", () => {
+    it("renders block elements", () => {
+      const rendered = renderMarkdown(
+        [
+          "# Title",
+          "Some **text**.",
+          "- one",
+          "  - nested",
+          "1. first",
+          "- [x] done",
+          "> quoted",
+          "---",
+        ].join("\n"),
+        20,
+      );
+
+      expect(stripAnsi(rendered)).toBe(
+        [
+          "Title",
+          "Some text.",
+          "  • one",
+          "    ◦ nested",
+          "  1. first",
+          "  ☑ done",
+          "│ quoted",
+          "─".repeat(20),
+        ].join("\n"),
+      );
+      expect(rendered.startsWith("\x1b[1;4;36mTitle")).toBe(true);
+    });
+
+    it("renders fenced code without the fences", () => {
+      const rendered = renderMarkdown("```js\nlet a = 1;\n```\nafter");
+
+      expect(stripAnsi(rendered)).toBe("  js\n  let a = 1;\nafter");
+      expect(rendered).toContain("\x1b[35mlet\x1b[39m a = \x1b[33m1\x1b[39m;");
+    });
+
+    it("draws tables that fit the width", () => {
+      const table = [
+        "| Model | Size |",
+        "|:------|-----:|",
+        "| Llama 3.2 1B Instruct | 0.5GB |",
+      ].join("\n");
+
+      expect(stripAnsi(renderMarkdown(table, 40))).toBe(
+        [
+          "┌───────────────────────┬───────┐",
+          "│ Model                 │  Size │",
+          "├───────────────────────┼───────┤",
+          "│ Llama 3.2 1B Instruct │ 0.5GB │",
+          "└───────────────────────┴───────┘",
+        ].join("\n"),
+      );
+      expect(stripAnsi(renderMarkdown(table, 24))).toBe(
+        [
+          "┌──────────────┬───────┐",
+          "│ Model        │  Size │",
+          "├──────────────┼───────┤",
+          "│ Llama 3.2 1B │ 0.5GB │",
+          "│ Instruct     │       │",
+          "└──────────────┴───────┘",
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("createMarkdownStream", () => {
+    it("renders the same text whatever the chunks", () => {
+      const markdown =
+        "## Results\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n```py\nx = 1\n```\nDone **now**";
+      const chunks: string[] = [];
+      const stream = createMarkdownStream((text) => chunks.push(text), 40);
+      for (const char of markdown) stream.write(char);
+      stream.end();
+
+      // Strip the raw echo of unfinished lines and its erasure
+      const output = chunks
+        .join("")
+        .replace(/[^\n]*\r\x1b\[J/g, "")
+        .replace(/\n$/, "");
+      expect(output).toBe(renderMarkdown(markdown, 40));
+    });
+
+    it("shows the line being typed and redraws it when complete", () => {
+      const chunks: string[] = [];
+      const stream = createMarkdownStream((text) => chunks.push(text), 10);
+
+      stream.write("# Hel");
+      stream.write("lo world!!");
+      expect(chunks).toEqual(["# Hel", "lo world!!"]);
+
+      stream.write("\n");
+      // 15 characters took two rows of 10
+      expect(chunks[2]).toBe("\x1b[1A\r\x1b[J");
+      expect(chunks[3]).toBe("\x1b[1;4;36mHello world!!\x1b[0m\n");
+    });
+  });
+});
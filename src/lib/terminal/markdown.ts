@@ -0,0 +1,379 @@
+// Markdown rendered with ANSI styles for the terminal: headings, emphasis,
+// lists, quotes, tables fitted to the terminal width and highlighted code
+// blocks. The stream renderer is fed text as it arrives, e.g. token by
+// token from the AI; each line is styled once complete, and until then
+// shown as typed
+import { stripAnsi } from "./ansi";
+
+const RESET = "\x1b[0m";
+const DIM = "\x1b[2m";
+
+// Widest line drawn for rules, even on wide terminals
+const MAX_RULE = 80;
+
+export interface MarkdownStream {
+  write(text: string): void;
+  end(): void; // Render what is left; the stream is not used after
+}
+
+interface Fence {
+  marker: string;
+  language: string;
+}
+
+// Width of text on screen, one column per character
+export function visibleWidth(text: string): number {
+  return Array.from(stripAnsi(text)).length;
+}
+
+// Styles of `code`, **bold**, *italic*, ~~struck~~ and [links](url).
+// Each style is switched off on its own so styles can nest
+export function renderInline(text: string): string {
+  return text
+    .split(/(`+)(.+?)\1/)
+    .map((part, i) => {
+      if (i % 3 === 1) return "";
+      if (i % 3 === 2) return `\x1b[36m${part}\x1b[39m`;
+      return part
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) =>
+          label === url
+            ? `\x1b[4m${url}\x1b[24m`
+            : `\x1b[4m${label}\x1b[24m ${DIM}(${url})\x1b[22m`,
+        )
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "\x1b[1m$1$2\x1b[22m")
+        .replace(
+          /(^|[^*\w])\*(?=\S)(.+?)(?<=\S)\*(?!\*)|(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g,
+          (_, before = "", starred, under, underlined) =>
+            starred !== undefined
+              ? `${before}\x1b[3m${starred}\x1b[23m`
+              : `${under}\x1b[3m${underlined}\x1b[23m`,
+        )
+        .replace(/~~(.+?)~~/g, "\x1b[9m$1\x1b[29m");
+    })
+    .join("");
+}
+
+// Break styled text into lines of at most width columns, at spaces when
+// possible. Styles open at a break are closed and reopened on the next line
+export function wrapAnsi(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  let lineWidth = 0;
+  let active = ""; // Style sequences since the last reset
+  let space = false;
+
+  const breakLine = () => {
+    lines.push(active ? line + RESET : line);
+    line = active;
+    lineWidth = 0;
+  };
+
+  // eslint-disable-next-line no-control-regex
+  for (const token of text.match(/\x1b\[[0-9;]*m|\s+|[^\s\x1b]+/g) || []) {
+    if (token.startsWith("\x1b")) {
+      line += token;
+      active = token === RESET ? "" : active + token;
+    } else if (/^\s/.test(token)) {
+      space = lineWidth > 0;
+    } else {
+      let chars = Array.from(token);
+      const gap = space ? 1 : 0;
+      if (lineWidth > 0 && lineWidth + gap + chars.length > width) {
+        breakLine();
+      } else if (gap) {
+        line += " ";
+        lineWidth++;
+      }
+      space = false;
+      // Words longer than a line are cut
+      while (lineWidth + chars.length > width) {
+        const room = Math.max(1, width - lineWidth);
+        line += chars.slice(0, room).join("");
+        chars = chars.slice(room);
+        breakLine();
+      }
+      line += chars.join("");
+      lineWidth += chars.length;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+const words = (list: string) => list.split(" ");
+
+const KEYWORDS: Record<string, string[]> = {
+  js: words(
+    "async await break case catch class const continue default delete do else export extends finally for from function if import in instanceof interface let new of return static switch throw try type typeof var void while yield",
+  ),
+  python: words(
+    "and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield",
+  ),
+  bash: words(
+    "case do done elif else esac export fi for function if in local return then until while",
+  ),
+  rust: words(
+    "as async await break const continue crate else enum extern fn for if impl in let loop match mod move mut pub ref return self static struct trait type unsafe use where while",
+  ),
+  c: words(
+    "break case char class const continue default do double else enum extends final float for func go if import int interface long new package private public return static struct switch this throw try var void while",
+  ),
+  sql: words(
+    "and as by create delete from group insert into join left limit not on or order select set table update values where",
+  ),
+};
+
+const LANGUAGES: Record<string, string> = {
+  javascript: "js",
+  jsx: "js",
+  ts: "js",
+  tsx: "js",
+  typescript: "js",
+  json: "js",
+  py: "python",
+  sh: "bash",
+  shell: "bash",
+  zsh: "bash",
+  console: "bash",
+  rs: "rust",
+  go: "c",
+  java: "c",
+  cpp: "c",
+  "c++": "c",
+  cs: "c",
+};
+
+const LINE_COMMENTS: Record<string, string> = {
+  js: "//",
+  python: "#",
+  bash: "#",
+  rust: "//",
+  c: "//",
+  sql: "--",
+};
+
+const CONSTANTS = words("true false null undefined None True False nil");
+
+// Color a line of code: keywords, strings, numbers and comments. Each
+// line is highlighted on its own, so comments and strings spanning
+// lines are only colored on their first line
+export function highlightCode(line: string, language: string): string {
+  const lang = LANGUAGES[language.toLowerCase()] || language.toLowerCase();
+  const keywords = KEYWORDS[lang];
+  if (!keywords) return line;
+
+  const pattern = new RegExp(
+    `(${LINE_COMMENTS[lang]}.*$)|("(?:\\\\.|[^"\\\\])*"?|'(?:\\\\.|[^'\\\\])*'?|\`[^\`]*\`?)|(\\b\\d+(?:\\.\\d+)?\\b)|(\\b[A-Za-z_]\\w*\\b)`,
+    "g",
+  );
+
+  return line.replace(pattern, (token, isComment, isString, isNumber, word) => {
+    if (isComment) return `\x1b[90m${token}\x1b[39m`;
+    if (isString) return `\x1b[32m${token}\x1b[39m`;
+    if (isNumber || CONSTANTS.includes(word)) return `\x1b[33m${token}\x1b[39m`;
+    const keyword = lang === "sql" ? word.toLowerCase() : word;
+    return keywords.includes(keyword) ? `\x1b[35m${token}\x1b[39m` : token;
+  });
+}
+
+function splitRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+const isTableSeparator = (row: string) =>
+  /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(row);
+
+// Draw a table with box lines, shrinking its widest columns and wrapping
+// their cells until it fits the width
+function renderTable(rows: string[], width: number): string[] {
+  const aligns = splitRow(rows[1]).map((cell) =>
+    cell.endsWith(":") ? (cell.startsWith(":") ? "center" : "right") : "left",
+  );
+  const cells = [rows[0], ...rows.slice(2)].map((row, i) =>
+    splitRow(row).map((cell) =>
+      i === 0 ? `\x1b[1m${renderInline(cell)}\x1b[22m` : renderInline(cell),
+    ),
+  );
+  const columns = Math.max(...cells.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, c) =>
+    Math.max(1, ...cells.map((row) => visibleWidth(row[c] || ""))),
+  );
+
+  // Borders take three columns per cell and one more
+  const available = width - 3 * columns - 1;
+  while (widths.reduce((sum, w) => sum + w, 0) > available) {
+    const widest = widths.indexOf(Math.max(...widths));
+    if (widths[widest] <= 3) break;
+    widths[widest]--;
+  }
+
+  const border = (left: string, middle: string, right: string) =>
+    `${DIM}${left}${widths.map((w) => "─".repeat(w + 2)).join(middle)}${right}${RESET}`;
+  const pad = (text: string, c: number) => {
+    const space = widths[c] - visibleWidth(text);
+    if (aligns[c] === "right") return " ".repeat(space) + text;
+    if (aligns[c] === "center") {
+      const left = Math.floor(space / 2);
+      return " ".repeat(left) + text + " ".repeat(space - left);
+    }
+    return text + " ".repeat(space);
+  };
+  const drawRow = (row: string[]) => {
+    const wrapped = widths.map((w, c) => wrapAnsi(row[c] || "", w));
+    const height = Math.max(...wrapped.map((lines) => lines.length));
+    return Array.from({ length: height }, (_, l) => {
+      const line = wrapped.map((lines, c) => pad(lines[l] || "", c));
+      return `${DIM}│${RESET} ${line.join(` ${DIM}│${RESET} `)} ${DIM}│${RESET}`;
+    });
+  };
+
+  return [
+    border("┌", "┬", "┐"),
+    ...drawRow(cells[0]),
+    border("├", "┼", "┤"),
+    ...cells.slice(1).flatMap(drawRow),
+    border("└", "┴", "┘"),
+  ];
+}
+
+const BULLETS = ["•", "◦", "▪"];
+
+// Style a line outside code blocks and tables
+function renderLine(line: string, width: number): string {
+  const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/);
+  if (heading) {
+    const style =
+      heading[1].length === 1
+        ? "\x1b[1;4;36m"
+        : heading[1].length === 2
+          ? "\x1b[1;36m"
+          : "\x1b[1m";
+    return `${style}${renderInline(heading[2])}${RESET}`;
+  }
+
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return `${DIM}${"─".repeat(Math.min(width, MAX_RULE))}${RESET}`;
+  }
+
+  const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+  if (quote) {
+    return `${DIM}│${RESET} \x1b[3m${renderInline(quote[1])}\x1b[23m`;
+  }
+
+  const item = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+  if (item) {
+    const depth = Math.floor(item[1].length / 2);
+    let marker = /\d/.test(item[2])
+      ? `\x1b[36m${item[2]}\x1b[39m`
+      : `\x1b[36m${BULLETS[depth % BULLETS.length]}\x1b[39m`;
+    let text = item[3];
+    const task = text.match(/^\[([ xX])\]\s+(.*)$/);
+    if (task) {
+      marker = task[1] === " " ? "☐" : "\x1b[32m☑\x1b[39m";
+      text = task[2];
+    }
+    return `${"  ".repeat(depth + 1)}${marker} ${renderInline(text)}`;
+  }
+
+  return renderInline(line);
+}
+
+// Render Markdown incrementally, passing the styled text to output.
+// Complete lines are final; the line being typed is shown raw and
+// redrawn once its newline arrives. Tables are held back until they end,
+// since their column widths depend on every row
+export function createMarkdownStream(
+  output: (text: string) => void,
+  width = 80,
+): MarkdownStream {
+  let pending = ""; // The line being received
+  let shown = 0; // Characters of it on screen
+  let fence: Fence | null = null;
+  let table: string[] = [];
+
+  // Remove the raw line being typed, which may have wrapped
+  const unshow = () => {
+    if (shown === 0) return;
+    const rows = Math.ceil(shown / width) - 1;
+    output(`${rows > 0 ? `\x1b[${rows}A` : ""}\r\x1b[J`);
+    shown = 0;
+  };
+
+  const flushTable = () => {
+    if (table.length === 0) return;
+    const lines =
+      table.length >= 2 && isTableSeparator(table[1])
+        ? renderTable(table, width)
+        : table.map((row) => renderInline(row));
+    table = [];
+    output(lines.map((line) => `${line}\n`).join(""));
+  };
+
+  const emit = (line: string) => {
+    if (fence) {
+      if (line.trim().startsWith(fence.marker)) {
+        fence = null;
+      } else {
+        output(`  ${highlightCode(line, fence.language)}\n`);
+      }
+      return;
+    }
+
+    if (/^\s*\|/.test(line)) {
+      table.push(line);
+      return;
+    }
+    flushTable();
+
+    const opening = line.match(/^\s{0,3}(```+|~~~+)\s*([\w+#-]*)/);
+    if (opening) {
+      fence = { marker: opening[1], language: opening[2] };
+      if (fence.language) output(`${DIM}  ${fence.language}${RESET}\n`);
+      return;
+    }
+    output(`${renderLine(line, width)}\n`);
+  };
+
+  return {
+    write(text: string) {
+      pending += text;
+      let newline;
+      while ((newline = pending.indexOf("\n")) !== -1) {
+        const line = pending.slice(0, newline).replace(/\r$/, "");
+        pending = pending.slice(newline + 1);
+        unshow();
+        emit(line);
+      }
+
+      // Table rows wait for the rest of the table
+      if (pending && !(!fence && /^\s*\|/.test(pending))) {
+        const chars = Array.from(pending);
+        if (chars.length > shown) {
+          output(chars.slice(shown).join(""));
+          shown = chars.length;
+        }
+      }
+    },
+
+    end() {
+      unshow();
+      if (pending) emit(pending);
+      pending = "";
+      flushTable();
+    },
+  };
+}
+
+// Render a whole document
+export function renderMarkdown(markdown: string, width = 80): string {
+  const chunks: string[] = [];
+  const stream = createMarkdownStream((text) => chunks.push(text), width);
+  // Complete lines only, so none is shown raw first
+  stream.write(markdown.endsWith("\n") ? markdown : `${markdown}\n`);
+  stream.end();
+  return chunks.join("").replace(/\n$/, "");
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { paneCommands } from "./pane-commands";
+import {
+  activePane,
+  createLayout,
+  listPanes,
+  type TerminalLayout,
+} from "./layout";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Pane Commands", () => {
+  let context: CommandContext;
+  let layout: TerminalLayout | null;
+
+  const run = (name: string, args: string[]) => {
+    // Commands see the layout as it is when they run
+    context.panes = {
+      paneId: activePane(layout!).id,
+      layout: layout!,
+      update: (change) => {
+        layout = change(layout!);
+      },
+    };
+    return paneCommands[name](args, context) as CommandResult;
+  };
+
+  beforeEach(() => {
+    layout = createLayout("guest");
+    context = {
+      currentDirectory: "/blog",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+    };
+  });
+
+  it("opens, lists and switches tabs", () => {
+    expect(run("tab", ["new"]).success).toBe(true);
+    expect(activePane(layout!).cwd).toBe("/blog");
+    run("split", []);
+
+    expect(run("tab", []).output).toBe(
+      [" 1  guest: ~", "*2  guest: /blog  (2 panes)"].join("\n"),
+    );
+
+    run("tab", ["1"]);
+    expect(layout!.activeTab).toBe(0);
+    run("tab", ["prev"]);
+    expect(layout!.activeTab).toBe(1);
+
+    const result = run("tab", ["3"]);
+    expect(result.success).toBe(false);
+    expect(result.output).toContain("tab: unknown action or tab '3'");
+  });
+
+  it("closes tabs, and the window with the last one", () => {
+    run("tab", ["new"]);
+    expect(run("tab", ["close", "4"]).output).toBe("tab: no tab 4");
+
+    run("tab", ["close", "1"]);
+    expect(layout!.tabs).toHaveLength(1);
+    run("tab", ["close"]);
+    expect(layout).toBeNull();
+  });
+
+  it("splits the pane it runs in", () => {
+    run("split", ["-v"]);
+    expect(layout!.tabs[0].root).toMatchObject({
+      type: "split",
+      direction: "vertical",
+    });
+    expect(listPanes(layout!.tabs[0].root)).toHaveLength(2);
+  });
+
+  it("needs the terminal window", () => {
+    expect(paneCommands.split([], context)).toEqual({
+      output: "split: tabs and panes are only available in the terminal window",
+      success: false,
+    });
+  });
+});
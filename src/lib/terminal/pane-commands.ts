@@ -0,0 +1,156 @@
+// Tabs and split panes: commands that change the layout of the window
+import type { CommandFunction, CommandResult } from "./commands";
+import {
+  addTab,
+  closeTab,
+  findTab,
+  listPanes,
+  paneTitle,
+  selectTab,
+  splitPane,
+  type TerminalLayout,
+} from "./layout";
+import { completeWords, defineCommands } from "./registry";
+
+const unavailable = (name: string): CommandResult => ({
+  output: `${name}: tabs and panes are only available in the terminal window`,
+  success: false,
+});
+
+// One line per tab: number, title of its focused pane and pane count; the
+// active tab is starred
+export function formatTabs(layout: TerminalLayout): string {
+  return layout.tabs
+    .map((tab, index) => {
+      const panes = listPanes(tab.root);
+      const focused = panes.find(({ id }) => id === tab.activePane);
+      const marker = index === layout.activeTab ? "*" : " ";
+      const count = panes.length > 1 ? `  (${panes.length} panes)` : "";
+      return `${marker}${index + 1}  ${paneTitle(focused || panes[0])}${count}`;
+    })
+    .join("\n");
+}
+
+export const paneCommands: Record<string, CommandFunction> = {
+  tab: (args, context) => {
+    const panes = context.panes;
+    if (!panes) return unavailable("tab");
+
+    const [action = "list", target] = args;
+    const current = findTab(panes.layout, panes.paneId);
+    const count = panes.layout.tabs.length;
+
+    // Tab numbers count from 1, like the numbers tab list shows
+    const parseTab = (value: string): number | null => {
+      const index = Number(value) - 1;
+      return Number.isInteger(index) && index >= 0 && index < count
+        ? index
+        : null;
+    };
+
+    if (action === "list") {
+      return { output: formatTabs(panes.layout), success: true };
+    }
+    if (action === "new") {
+      panes.update((layout) =>
+        addTab(layout, context.currentUser, context.currentDirectory),
+      );
+      return { output: "", success: true };
+    }
+    if (action === "close") {
+      const index = target === undefined ? current : parseTab(target);
+      if (index === null) {
+        return { output: `tab: no tab ${target}`, success: false };
+      }
+      panes.update((layout) => closeTab(layout, index));
+      return { output: "", success: true };
+    }
+    if (action === "next" || action === "prev") {
+      const step = action === "next" ? 1 : -1;
+      panes.update((layout) =>
+        selectTab(layout, (layout.activeTab + step + count) % count),
+      );
+      return { output: "", success: true };
+    }
+
+    const index = parseTab(action);
+    if (index === null) {
+      return {
+        output: `tab: unknown action or tab '${action}'\nUsage: tab [list|new|close [N]|next|prev|N]`,
+        success: false,
+      };
+    }
+    panes.update((layout) => selectTab(layout, index));
+    return { output: "", success: true };
+  },
+
+  split: (args, context) => {
+    const panes = context.panes;
+    if (!panes) return unavailable("split");
+
+    const direction = args.includes("-v") ? "vertical" : "horizontal";
+    panes.update((layout) => splitPane(layout, panes.paneId, direction));
+    return { output: "", success: true };
+  },
+};
+
+export const paneCommandDefinitions = defineCommands(paneCommands, {
+  tab: {
+    category: "system",
+    summary: "open, close and switch terminal tabs",
+    synopsis: ["tab [list|new|close [N]|next|prev|N]"],
+    description: [
+      "Each tab runs its own session, with its own user, directory,",
+      "history and running command. A new tab opens after the current",
+      "one, as the same user in the same directory.",
+      "",
+      "Without arguments, or with list, show the tabs with their",
+      "numbers; the active tab is marked with *. N switches to tab N.",
+      "Closing the last tab closes the terminal. The tabs and panes are",
+      "restored when the terminal is opened again.",
+    ],
+    args: { max: 2 },
+    sections: {
+      KEYS: [
+        "Alt+T          Open a new tab",
+        "Alt+1 ... 9    Switch to tab 1 to 9",
+        "Alt+[ / Alt+]  Switch to the previous or next tab",
+        "Alt+W          Close the focused pane, and its tab with it",
+      ],
+    },
+    examples: [
+      "tab new                 Open a tab in the current directory",
+      "tab 2                   Switch to the second tab",
+      "tab close 3             Close the third tab",
+    ],
+    complete: completeWords(["list", "new", "close", "next", "prev"]),
+  },
+  split: {
+    category: "system",
+    summary: "split the terminal into panes",
+    synopsis: ["split [-h|-v]"],
+    description: [
+      "Split the current pane in two and move to the new pane, which",
+      "starts a session as the same user in the same directory. Every",
+      "pane runs its own commands, so one can stream an AI answer while",
+      "another browses files. Type exit to close a pane.",
+    ],
+    options: [
+      { flag: "-h", description: "place the new pane on the right (default)" },
+      { flag: "-v", description: "place the new pane below" },
+    ],
+    args: { max: 0 },
+    sections: {
+      KEYS: [
+        "Alt+\\          Split side by side",
+        "Alt+-          Split one above the other",
+        "Alt+Arrows     Move to the previous or next pane",
+        "Alt+W          Close the focused pane",
+      ],
+    },
+    examples: [
+      "split                   Open a pane to the right",
+      "split -v                Open a pane below",
+    ],
+  },
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import {
+  tokenize,
+  parseCommandLine,
+  expandVariables,
+  formatChain,
+} from "./parser";
+
+const words = (input: string) =>
+  tokenize(input)
+    .filter((token) => token.type === "word")
+    .map((token) => token.value);
+
+describe("Terminal Command Parser", () => {
+  describe("tokenize", () => {
+    it("splits words on whitespace", () => {
+      expect(words("echo  hello \t world")).toEqual(["echo", "hello", "world"]);
+    });
+
+    it("keeps whitespace inside double quotes", () => {
+      expect(words('echo "hello   world"')).toEqual(["echo", "hello   world"]);
+    });
+
+    it("keeps single-quoted text literal", () => {
+      expect(words("cat 'my file' '\\n'")).toEqual(["cat", "my file", "\\n"]);
+    });
+
+    it("handles backslash escapes", () => {
+      expect(words("cat my\\ file \\|")).toEqual(["cat", "my file", "|"]);
+      expect(words('echo "say \\"hi\\" \\n"')).toEqual([
+        "echo",
+        'say "hi" \\n',
+      ]);
+    });
+
+    it("joins adjacent quoted and unquoted parts", () => {
+      expect(words("echo a'b c'\"d\"")).toEqual(["echo", "ab cd"]);
+    });
+
+    it("keeps empty quoted arguments", () => {
+      expect(words('echo "" x')).toEqual(["echo", "", "x"]);
+    });
+
+    it("recognizes operators without surrounding spaces", () => {
+      expect(tokenize("a|b>>c&&d||e;f>g")).toEqual([
+        { type: "word", value: "a" },
+        { type: "operator", value: "|" },
+        { type: "word", value: "b" },
+        { type: "operator", value: ">>" },
+        { type: "word", value: "c" },
+        { type: "operator", value: "&&" },
+        { type: "word", value: "d" },
+        { type: "operator", value: "||" },
+        { type: "word", value: "e" },
+        { type: "operator", value: ";" },
+        { type: "word", value: "f" },
+        { type: "operator", value: ">" },
+        { type: "word", value: "g" },
+      ]);
+    });
+
+    it("does not treat quoted operators as operators", () => {
+      expect(tokenize("echo '|' \";\"")).toEqual([
+        { type: "word", value: "echo" },
+        { type: "word", value: "|" },
+        { type: "word", value: ";" },
+      ]);
+    });
+
+    it("rejects unterminated quotes", () => {
+      expect(() => tokenize("echo 'oops")).toThrow("unterminated quote");
+      expect(() => tokenize('echo "oops')).toThrow("unterminated quote");
+    });
+  });
+
+  describe("expandVariables", () => {
+    const env: Record<string, string> = { HOME: "/home/guest", "?": "1" };
+    const expand = (input: string) =>
+      words(input).map((word) =>
+        expandVariables(word, (name) => env[name] ?? ""),
+      );
+
+    it("expands $NAME, ${NAME} and $?", () => {
+      expect(expand("echo $HOME ${HOME}/x $? $MISSING")).toEqual([
+        "echo",
+        "/home/guest",
+        "/home/guest/x",
+        "1",
+        "",
+      ]);
+    });
+
+    it("expands inside double quotes but not single quotes", () => {
+      expect(expand(`echo "at $HOME" '$HOME' \\$HOME "\\$HOME"`)).toEqual([
+        "echo",
+        "at /home/guest",
+        "$HOME",
+        "$HOME",
+        "$HOME",
+      ]);
+    });
+
+    it("keeps a lone dollar sign", () => {
+      expect(expand("echo $ 5$")).toEqual(["echo", "$", "5$"]);
+    });
+
+    it("does not split expanded values", () => {
+      env.LIST = "a b";
+      expect(expand("echo $LIST")).toEqual(["echo", "a b"]);
+    });
+  });
+
+  describe("parseCommandLine", () => {
+    it("parses a simple command", () => {
+      expect(parseCommandLine("ls -la docs")).toEqual([
+        {
+          operator: ";",
+          pipeline: {
+            commands: [{ name: "ls", args: ["-la", "docs"], redirects: [] }],
+          },
+        },
+      ]);
+    });
+
+    it("parses pipelines", () => {
+      const [entry] = parseCommandLine("help | grep ai | head");
+      expect(entry.pipeline.commands.map((cmd) => cmd.name)).toEqual([
+        "help",
+        "grep",
+        "head",
+      ]);
+      expect(entry.pipeline.commands[1].args).toEqual(["ai"]);
+    });
+
+    it("parses redirections anywhere in a command", () => {
+      const [entry] = parseCommandLine("echo > out.txt hello >> log");
+      expect(entry.pipeline.commands[0]).toEqual({
+        name: "echo",
+        args: ["hello"],
+        redirects: [
+          { operator: ">", target: "out.txt" },
+          { operator: ">>", target: "log" },
+        ],
+      });
+    });
+
+    it("parses command chains with their operators", () => {
+      const chain = parseCommandLine("cd docs && ls || pwd; whoami");
+      expect(chain.map((entry) => entry.operator)).toEqual([
+        ";",
+        "&&",
+        "||",
+        ";",
+      ]);
+      expect(chain.map((entry) => entry.pipeline.commands[0].name)).toEqual([
+        "cd",
+        "ls",
+        "pwd",
+        "whoami",
+      ]);
+    });
+
+    it("marks pipelines that end with & for the background", () => {
+      const chain = parseCommandLine("sleep 5 & cd docs && ls &");
+      expect(chain.map((entry) => entry.background)).toEqual([
+        true,
+        undefined,
+        true,
+      ]);
+      expect(chain.map((entry) => entry.operator)).toEqual([";", ";", "&&"]);
+      expect(formatChain(chain.slice(1))).toBe("cd docs && ls");
+      expect(() => parseCommandLine("& ls")).toThrow(
+        "syntax error near unexpected token `&'",
+      );
+    });
+
+    it("formats chains to be typed again", () => {
+      expect(
+        formatChain(
+          parseCommandLine(`echo "a b" $HOME \${10}; cat < x | wc > 'o u'`),
+        ),
+      ).toBe('echo "a b" $HOME ${10}; cat "<" x | wc > "o u"');
+    });
+
+    it("keeps a literal $ and backtick literal when formatting", () => {
+      const line = formatChain(
+        parseCommandLine(`echo '$HOME' "\\$x \\\`" "$USER"'$' \${HOME}dir`),
+      );
+      expect(line).toBe('echo "\\$HOME" "\\$x \\`" "$USER\\$" ${HOME}dir');
+      expect(formatChain(parseCommandLine(line))).toBe(line);
+    });
+
+    it("allows a trailing semicolon", () => {
+      expect(parseCommandLine("pwd;")).toHaveLength(1);
+    });
+
+    it("returns an empty chain for empty input", () => {
+      expect(parseCommandLine("   ")).toEqual([]);
+    });
+
+    it("rejects misplaced operators", () => {
+      expect(() => parseCommandLine("| grep x")).toThrow(
+        "syntax error near unexpected token `|'",
+      );
+      expect(() => parseCommandLine("ls |")).toThrow("`newline'");
+      expect(() => parseCommandLine("ls && && pwd")).toThrow("`&&'");
+      expect(() => parseCommandLine("echo hi >")).toThrow("`newline'");
+      expect(() => parseCommandLine("echo hi > | cat")).toThrow("`|'");
+    });
+  });
+});
@@ -0,0 +1,313 @@
+// Command line parser for the terminal
+// Turns a raw input line into pipelines chained with ;, &, && and ||
+
+export type ChainOperator = ";" | "&&" | "||";
+export type RedirectOperator = ">" | ">>";
+
+export interface Redirect {
+  operator: RedirectOperator;
+  target: string;
+}
+
+export interface SimpleCommand {
+  name: string;
+  args: string[];
+  redirects: Redirect[];
+}
+
+export interface Pipeline {
+  commands: SimpleCommand[];
+}
+
+export interface ChainEntry {
+  // How this pipeline is connected to the previous one (";" for the first)
+  operator: ChainOperator;
+  pipeline: Pipeline;
+  background?: boolean; // Ended with &, so it runs as a background job
+}
+
+type Token =
+  | { type: "word"; value: string }
+  | {
+      type: "operator";
+      value: ChainOperator | RedirectOperator | "|" | "&";
+    };
+
+const OPERATORS = ["&&", "||", ">>", ";", "&", "|", ">"] as const;
+
+// Variable references ($NAME, ${NAME}, $?, $1, $#, $@) are kept in words as
+// VARIABLE_MARKER + NAME + VARIABLE_MARKER until expandVariables runs, so
+// each command sees the environment left by the commands before it
+const VARIABLE_MARKER = "\u0000";
+const VARIABLE_REFERENCE = new RegExp(
+  `${VARIABLE_MARKER}([^${VARIABLE_MARKER}]*)${VARIABLE_MARKER}`,
+  "g",
+);
+
+// Read a variable reference starting at the "$" at position i
+function readVariable(
+  input: string,
+  i: number,
+): { name: string; length: number } | null {
+  const rest = input.slice(i + 1);
+  const match =
+    rest.match(/^\{([A-Za-z_][A-Za-z0-9_]*|[0-9]+|[?#@])\}/) ||
+    rest.match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9?#@])/);
+  return match ? { name: match[1], length: match[0].length + 1 } : null;
+}
+
+// Replace variable references in a word with their values. Like zsh, the
+// values are not split into several words
+export function expandVariables(
+  word: string,
+  lookup: (name: string) => string,
+): string {
+  if (!word.includes(VARIABLE_MARKER)) return word;
+  return word.replace(VARIABLE_REFERENCE, (_, name: string) => lookup(name));
+}
+
+// Whether a word is exactly $@, which expands to one word per positional
+// parameter rather than to a single word
+export function isArgumentList(word: string): boolean {
+  return word === `${VARIABLE_MARKER}@${VARIABLE_MARKER}`;
+}
+
+// Split a line into words and operators, honouring quotes and escapes
+export function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = "";
+  let inWord = false;
+  let i = 0;
+
+  const pushWord = () => {
+    if (inWord) {
+      tokens.push({ type: "word", value: current });
+      current = "";
+      inWord = false;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === " " || char === "\t" || char === "\n") {
+      pushWord();
+      i++;
+      continue;
+    }
+
+    if (char === "$") {
+      const variable = readVariable(input, i);
+      if (variable) {
+        current += VARIABLE_MARKER + variable.name + VARIABLE_MARKER;
+        inWord = true;
+        i += variable.length;
+        continue;
+      }
+    }
+
+    if (char === "\\") {
+      // Backslash escapes the next character; a trailing backslash is literal
+      current += i + 1 < input.length ? input[i + 1] : "\\";
+      inWord = true;
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error("unexpected end of input: unterminated quote (')");
+      }
+      current += input.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      i++;
+      let closed = false;
+      while (i < input.length) {
+        const inner = input[i];
+        if (inner === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+        // Inside double quotes a backslash only escapes \ " $ and `
+        if (inner === "\\" && i + 1 < input.length) {
+          const next = input[i + 1];
+          if (next === "\\" || next === '"' || next === "$" || next === "`") {
+            current += next;
+            i += 2;
+            continue;
+          }
+        }
+        if (inner === "$") {
+          const variable = readVariable(input, i);
+          if (variable) {
+            current += VARIABLE_MARKER + variable.name + VARIABLE_MARKER;
+            i += variable.length;
+            continue;
+          }
+        }
+        current += inner;
+        i++;
+      }
+      if (!closed) {
+        throw new Error('unexpected end of input: unterminated quote (")');
+      }
+      inWord = true;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      pushWord();
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    current += char;
+    inWord = true;
+    i++;
+  }
+
+  pushWord();
+  return tokens;
+}
+
+// Parse a command line into a list of chained pipelines
+export function parseCommandLine(input: string): ChainEntry[] {
+  const tokens = tokenize(input);
+  const entries: ChainEntry[] = [];
+
+  let operator: ChainOperator = ";";
+  let commands: SimpleCommand[] = [];
+  let current: SimpleCommand | null = null;
+
+  const unexpected = (value: string) =>
+    new Error(`syntax error near unexpected token \`${value}'`);
+
+  const finishCommand = (token: string) => {
+    if (!current) {
+      throw unexpected(token);
+    }
+    commands.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === "word") {
+      if (!current) {
+        current = { name: token.value, args: [], redirects: [] };
+      } else {
+        current.args.push(token.value);
+      }
+      continue;
+    }
+
+    switch (token.value) {
+      case ">":
+      case ">>": {
+        const target = tokens[i + 1];
+        if (!target || target.type !== "word") {
+          throw unexpected(target ? target.value : "newline");
+        }
+        if (!current) {
+          throw unexpected(token.value);
+        }
+        current.redirects.push({ operator: token.value, target: target.value });
+        i++;
+        break;
+      }
+
+      case "|":
+        finishCommand(token.value);
+        if (i === tokens.length - 1) {
+          throw unexpected("newline");
+        }
+        break;
+
+      case "&":
+        // Like ; but the pipeline before it runs in the background
+        finishCommand(token.value);
+        entries.push({ operator, pipeline: { commands }, background: true });
+        commands = [];
+        operator = ";";
+        break;
+
+      case ";":
+      case "&&":
+      case "||":
+        finishCommand(token.value);
+        entries.push({ operator, pipeline: { commands } });
+        commands = [];
+        operator = token.value;
+        if (i === tokens.length - 1 && token.value !== ";") {
+          throw unexpected("newline");
+        }
+        break;
+    }
+  }
+
+  if (current) {
+    commands.push(current);
+  }
+  if (commands.length > 0) {
+    entries.push({ operator, pipeline: { commands } });
+  }
+
+  return entries;
+}
+
+// A pipeline as it could be typed again
+function formatPipeline(pipeline: Pipeline): string {
+  const word = (value: string) => {
+    // Literal text and the names of the variables between it, in turn
+    const parts = value.split(VARIABLE_REFERENCE);
+    const quoted =
+      value === "" ||
+      parts.some((part, i) => i % 2 === 0 && /[\s;&|<>'"\\$`]/.test(part));
+
+    const text = parts
+      .map((part, i) => {
+        if (i % 2 === 0) {
+          return quoted ? part.replace(/["\\$`]/g, "\\$&") : part;
+        }
+        // Braces keep the name apart from the letters after it
+        return /^[0-9]{2,}$/.test(part) || /^\w/.test(parts[i + 1])
+          ? `\${${part}}`
+          : `$${part}`;
+      })
+      .join("");
+    return quoted ? `"${text}"` : text;
+  };
+
+  return pipeline.commands
+    .map(({ name, args, redirects }) =>
+      [
+        ...[name, ...args].map(word),
+        ...redirects.map(
+          ({ operator, target }) => `${operator} ${word(target)}`,
+        ),
+      ].join(" "),
+    )
+    .join(" | ");
+}
+
+// Chained pipelines as they could be typed again, e.g. for the list of
+// jobs
+export function formatChain(chain: ChainEntry[]): string {
+  return chain
+    .map(
+      ({ operator, pipeline }, i) =>
+        (i === 0 ? "" : operator === ";" ? "; " : ` ${operator} `) +
+        formatPipeline(pipeline),
+    )
+    .join("");
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/utils/dev-logger", () => ({
+  logError: vi.fn(),
+}));
+
+const repos = {
+  success: true,
+  data: [
+    {
+      name: "bop-the-slop",
+      description: "Filters low-effort content",
+      url: "https://github.com/RomainClaret/bop-the-slop",
+      homepageUrl: null,
+      stargazerCount: 12,
+      forkCount: 3,
+      primaryLanguage: { name: "TypeScript" },
+      topics: { edges: [{ node: { topic: { name: "ai" } } }] },
+      pushedAt: "2025-01-02T03:04:05Z",
+    },
+  ],
+};
+
+const medium = {
+  items: [
+    {
+      title: "Évolution & Minds",
+      link: "https://medium.com/@romainclaret/evolution",
+      content: "<p>First &amp; foremost.</p><p>Second.</p>",
+      pubDate: "2024-05-06 07:08:09",
+      categories: ["ai"],
+    },
+  ],
+};
+
+const respond = (body: unknown, ok = true) =>
+  Promise.resolve({
+    ok,
+    status: ok ? 200 : 500,
+    json: () => Promise.resolve(body),
+  });
+
+// The portfolio module caches its feeds, so load a fresh copy per test
+const loadModule = () => import("./portfolio");
+
+describe("Terminal Portfolio Tree", () => {
+  beforeEach(() => {
+    vi.resetModules();
+    global.fetch = vi.fn((url: string) =>
+      respond(url.includes("repos") ? repos : medium),
+    ) as unknown as typeof fetch;
+  });
+
+  it("slugifies titles into file names", async () => {
+    const { slugify } = await loadModule();
+    expect(slugify("Blockchain, a techie overview")).toBe(
+      "blockchain-a-techie-overview",
+    );
+    expect(slugify("University of Neuchâtel")).toBe("university-of-neuchatel");
+    expect(slugify("???")).toBe("untitled");
+  });
+
+  it("generates files from the section data", async () => {
+    const { getPortfolioTree } = await loadModule();
+    const tree = getPortfolioTree();
+
+    expect(Object.keys(tree.children!)).toEqual([
+      "experience",
+      "papers",
+      "projects",
+      "research",
+      "blog",
+    ]);
+
+    const job = tree.children!.experience.children!["artificialkind.md"];
+    expect(job.content).toContain("# Founder — Artificialkind");
+    expect(job.content).toContain("https://artificialkind.com/");
+
+    const paper =
+      tree.children!.papers.children!["blockchain-a-techie-overview.md"];
+    expect(paper.content).toContain("Published: 2016");
+    expect(
+      tree.children!.papers.children!["blockchain-a-techie-overview.pdf"].url,
+    ).toBe("/pdfs/paper_blockchain_small_techie_overview_2016.pdf");
+
+    expect(
+      Object.keys(tree.children!.research.children!).some((name) =>
+        name.startsWith("geenns"),
+      ),
+    ).toBe(true);
+  });
+
+  it("does not fetch anything until the feeds are requested", async () => {
+    const { getPortfolioTree } = await loadModule();
+    expect(getPortfolioTree().children!.projects.children).toEqual({});
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("adds repositories and blog posts once loaded", async () => {
+    const { getPortfolioTree, loadPortfolioFeeds } = await loadModule();
+    const before = getPortfolioTree();
+
+    await loadPortfolioFeeds();
+    await loadPortfolioFeeds();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    const tree = getPortfolioTree();
+    expect(tree).not.toBe(before);
+
+    const repo = tree.children!.projects.children!["bop-the-slop.md"];
+    expect(repo.content).toContain("Language: TypeScript · Stars: 12");
+    expect(repo.content).toContain("Topics: ai");
+    expect(repo.modified).toBe(Date.parse("2025-01-02T03:04:05Z"));
+
+    const post = tree.children!.blog.children!["evolution-minds.md"];
+    expect(post.content).toContain("First & foremost.\n\nSecond.");
+    expect(post.content).not.toContain("<p>");
+  });
+
+  it("falls back when the feeds are unavailable", async () => {
+    global.fetch = vi.fn(() => respond({}, false)) as unknown as typeof fetch;
+    const { getPortfolioTree, loadPortfolioFeeds } = await loadModule();
+
+    await loadPortfolioFeeds();
+    const tree = getPortfolioTree();
+
+    expect(tree.children!.projects.children!["README.md"].content).toContain(
+      "could not be loaded",
+    );
+    expect(
+      tree.children!.blog.children!["visit-my-medium-profile.md"],
+    ).toBeDefined();
+  });
+});
@@ -0,0 +1,256 @@
+// Generated /portfolio tree exposing the site's real content as Markdown files
+import type { VirtualFile } from "./fileSystem";
+import { logError } from "@/lib/utils/dev-logger";
+import { workExperiences } from "@/data/sections/experience";
+import { papersSection } from "@/data/sections/papers";
+import { researchSection } from "@/data/sections/research";
+import { blogSection } from "@/data/sections/blog";
+
+// Subset of the fields returned by /api/fetch-all-repos
+interface Repository {
+  name: string;
+  description: string | null;
+  url: string;
+  homepageUrl: string | null;
+  stargazerCount: number;
+  forkCount: number;
+  primaryLanguage: { name: string } | null;
+  topics?: { edges: Array<{ node: { topic: { name: string } } }> };
+  pushedAt?: string;
+  updatedAt?: string;
+}
+
+// Subset of the fields returned by /api/medium-posts
+interface MediumPost {
+  title: string;
+  link: string;
+  content: string;
+  pubDate: string;
+  categories?: string[];
+}
+
+let repositories: Repository[] | null = null;
+let posts: MediumPost[] | null = null;
+let feedsPromise: Promise<void> | null = null;
+let feedsLoaded = false;
+let tree: VirtualFile | null = null;
+
+// File name for a title: "Blockchain, a techie overview" -> blockchain-a-techie-overview
+export function slugify(title: string): string {
+  return (
+    title
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "untitled"
+  );
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<\/(p|h[1-6]|li|blockquote|figure)>|<br\s*\/?>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function file(name: string, content: string, modified?: number): VirtualFile {
+  return {
+    type: "file",
+    name,
+    content,
+    ...(modified !== undefined && !isNaN(modified) && { modified }),
+  };
+}
+
+// A site asset such as a PDF: download saves the asset itself
+function asset(name: string, url: string): VirtualFile {
+  return {
+    type: "file",
+    name,
+    content: `${url}\nSave this document with: download ${name}\n`,
+    url,
+  };
+}
+
+function directory(name: string, files: VirtualFile[]): VirtualFile {
+  const children: { [key: string]: VirtualFile } = {};
+  for (const child of files) {
+    // Keep the first of any entries whose names collide
+    if (!children[child.name]) children[child.name] = child;
+  }
+  return { type: "directory", name, children };
+}
+
+function markdown(...blocks: Array<string | false | undefined>): string {
+  return blocks.filter(Boolean).join("\n\n") + "\n";
+}
+
+function experienceFiles(): VirtualFile[] {
+  return workExperiences.experience.map((job) =>
+    file(
+      `${slugify(job.company)}.md`,
+      markdown(
+        `# ${job.role} — ${job.company}`,
+        `*${job.companyDesc}*`,
+        [job.date, job.location].filter(Boolean).join(" · "),
+        job.desc,
+        job.descBullets.map((bullet) => `- ${bullet}`).join("\n"),
+        job.companyUrl,
+      ),
+    ),
+  );
+}
+
+// Each paper, with its PDF when the site has it
+function paperFiles(): VirtualFile[] {
+  return papersSection.papersCards.flatMap((paper) => {
+    const pdf = paper.footerLink.find(({ url }) => url.startsWith("/pdfs/"));
+    return [
+      file(
+        `${slugify(paper.title)}.md`,
+        markdown(
+          `# ${paper.title}`,
+          `Published: ${paper.date}`,
+          paper.shortDescription && `> ${paper.shortDescription}`,
+          paper.subtitle,
+          paper.footerLink
+            .map(({ name, url }) => `- ${name}: ${url}`)
+            .join("\n"),
+        ),
+      ),
+      ...(pdf ? [asset(`${slugify(paper.title)}.pdf`, pdf.url)] : []),
+    ];
+  });
+}
+
+function researchFiles(): VirtualFile[] {
+  return researchSection.projects.map((project) =>
+    file(
+      `${slugify(project.title)}.md`,
+      markdown(
+        `# ${project.title}`,
+        `*${project.subtitle}*`,
+        `Status: ${project.status} · ${project.year ?? `${project.yearsSpent} years`}`,
+        project.description,
+        project.highlights &&
+          "## Highlights\n\n" +
+            project.highlights.map((item) => `- ${item}`).join("\n"),
+        project.tags.length > 0 && `Tags: ${project.tags.join(", ")}`,
+        project.links &&
+          project.links.map(({ name, url }) => `- ${name}: ${url}`).join("\n"),
+      ),
+    ),
+  );
+}
+
+function projectFiles(): VirtualFile[] {
+  if (!repositories) {
+    return feedsLoaded
+      ? [file("README.md", "Repositories could not be loaded.\n")]
+      : [];
+  }
+
+  return repositories.map((repo) => {
+    const topics = repo.topics?.edges.map(({ node }) => node.topic.name) ?? [];
+    return file(
+      `${repo.name}.md`,
+      markdown(
+        `# ${repo.name}`,
+        repo.description ?? undefined,
+        [
+          repo.primaryLanguage && `Language: ${repo.primaryLanguage.name}`,
+          `Stars: ${repo.stargazerCount}`,
+          `Forks: ${repo.forkCount}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        topics.length > 0 && `Topics: ${topics.join(", ")}`,
+        repo.url,
+        repo.homepageUrl || undefined,
+      ),
+      Date.parse(repo.pushedAt || repo.updatedAt || ""),
+    );
+  });
+}
+
+function blogFiles(): VirtualFile[] {
+  if (!posts || posts.length === 0) {
+    // Same fallback the blog section shows when Medium is unavailable
+    return blogSection.blogs.map((blog) =>
+      file(
+        `${slugify(blog.title)}.md`,
+        markdown(`# ${blog.title}`, blog.description, blog.url),
+      ),
+    );
+  }
+
+  return posts.map((post) =>
+    file(
+      `${slugify(post.title)}.md`,
+      markdown(
+        `# ${post.title}`,
+        `Published: ${post.pubDate}`,
+        !!post.categories?.length && `Tags: ${post.categories.join(", ")}`,
+        htmlToText(post.content),
+        post.link,
+      ),
+      Date.parse(post.pubDate),
+    ),
+  );
+}
+
+// The /portfolio directory, built on first access and rebuilt when the
+// remote feeds arrive
+export function getPortfolioTree(): VirtualFile {
+  if (!tree) {
+    tree = directory("portfolio", [
+      directory("experience", experienceFiles()),
+      directory("papers", paperFiles()),
+      directory("projects", projectFiles()),
+      directory("research", researchFiles()),
+      directory("blog", blogFiles()),
+    ]);
+  }
+  return tree;
+}
+
+async function fetchJson(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Fetch GitHub repositories and Medium posts once per session
+export function loadPortfolioFeeds(): Promise<void> {
+  if (!feedsPromise) {
+    feedsPromise = Promise.all([
+      fetchJson("/api/fetch-all-repos")
+        .then((result) => {
+          if (result.success && Array.isArray(result.data)) {
+            repositories = result.data;
+          }
+        })
+        .catch((error) => logError(error, "Terminal Portfolio Repositories")),
+      fetchJson("/api/medium-posts")
+        .then((result) => {
+          posts = result.items || [];
+        })
+        .catch((error) => logError(error, "Terminal Portfolio Blog")),
+    ]).then(() => {
+      feedsLoaded = true;
+      tree = null;
+    });
+  }
+  return feedsPromise;
+}
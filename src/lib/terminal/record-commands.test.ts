@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { recordCommands } from "./record-commands";
+import { getFileAtPath, mountUserFileSystem, writeFile } from "./fileSystem";
+import { createRecorder, formatCast, type RecordingControl } from "./recording";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Record Commands", () => {
+  let context: CommandContext;
+  let recording: RecordingControl;
+
+  const run = async (name: string, args: string[]) =>
+    (await recordCommands[name](args, context)) as CommandResult;
+
+  beforeEach(() => {
+    mountUserFileSystem("nobody");
+    mountUserFileSystem("guest");
+
+    // Records one line of output between start and stop
+    recording = {
+      active: null,
+      start: vi.fn((path: string) => {
+        recording.active = { path, started: Date.now() };
+      }),
+      stop: vi.fn(() => {
+        if (!recording.active) return null;
+        recording.active = null;
+        const recorder = createRecorder(80, 24);
+        recorder.output("$ whoami\nguest\n");
+        return { cast: recorder.finish(), truncated: false };
+      }),
+    };
+    context = {
+      currentDirectory: "/docs",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      recording,
+    };
+  });
+
+  it("records to ~/recordings and saves on stop", async () => {
+    expect((await run("record", [])).output).toContain("Not recording");
+
+    const started = await run("record", ["start"]);
+    expect(started.output).toMatch(
+      /^Recording to ~\/recordings\/\d{4}-\d\d-\d\d-\d{6}\.cast\./,
+    );
+    const path = recording.active!.path;
+    expect(getFileAtPath("/home/guest/recordings")?.type).toBe("directory");
+    expect((await run("record", ["start"])).success).toBe(false);
+
+    const stopped = await run("record", ["stop"]);
+    expect(stopped.output).toContain("Replay it with: replay ~/recordings/");
+    expect(getFileAtPath(path)?.content).toContain('"o","$ whoami\\r\\n');
+
+    expect(await run("record", ["stop"])).toEqual({
+      output: "record: not recording",
+      success: false,
+    });
+  });
+
+  it("records to a given file relative to the current directory", async () => {
+    await run("record", ["start", "demo.cast"]);
+    expect(recording.active!.path).toBe("/docs/demo.cast");
+
+    recording.active = null;
+    expect((await run("record", ["start", "missing/demo.cast"])).output).toBe(
+      "record: cannot record to 'missing/demo.cast': No such file or directory",
+    );
+  });
+
+  it("reports a recording the browser's storage has no room for", async () => {
+    await run("record", ["start", "demo.cast"]);
+    vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+      throw new DOMException(
+        "The quota has been exceeded",
+        "QuotaExceededError",
+      );
+    });
+
+    const stopped = await run("record", ["stop"]);
+    expect(stopped.success).toBe(false);
+    expect(stopped.output).toContain(
+      "record: cannot write '/docs/demo.cast': the browser's storage is full",
+    );
+    expect(getFileAtPath("/docs/demo.cast")).toBeNull();
+  });
+
+  it("replays recordings, at once when piped", async () => {
+    const recorder = createRecorder(80, 24);
+    recorder.output("hello\n");
+    writeFile("/docs/demo.cast", formatCast(recorder.finish()));
+
+    context.piped = true;
+    expect(await run("replay", ["demo.cast"])).toEqual({
+      output: "hello\r\n",
+      success: true,
+    });
+
+    const written: string[] = [];
+    context.piped = false;
+    context.writer = (text) => written.push(text);
+    const result = await run("replay", ["-s", "2", "demo.cast"]);
+    expect(written).toEqual(["\x1b[H\x1b[2J", "hello\r\n"]);
+    expect(result.output).toContain("[replayed demo.cast, 0:00]");
+  });
+
+  it("reports files it cannot replay", async () => {
+    expect((await run("replay", ["api.md"])).output).toBe(
+      "replay: api.md: not an asciicast v2 recording",
+    );
+    expect((await run("replay", ["-s", "0", "api.md"])).output).toBe(
+      "replay: invalid speed '0'",
+    );
+    expect((await run("replay", ["nope.cast"])).output).toBe(
+      "replay: nope.cast: No such file or directory",
+    );
+  });
+
+  it("needs the terminal window", async () => {
+    context.recording = undefined;
+    expect((await run("record", ["start"])).output).toBe(
+      "record: recording is only available in the terminal window",
+    );
+  });
+});
@@ -0,0 +1,258 @@
+// Session recording: record a pane as an asciicast file and replay it
+import type { CommandFunction, CommandResult } from "./commands";
+import {
+  getFileAtPath,
+  getParentPath,
+  lastSaveFailed,
+  makeDirectory,
+  resolvePath,
+  writeFile,
+} from "./fileSystem";
+import {
+  createPlayback,
+  DEFAULT_IDLE_LIMIT,
+  formatCast,
+  formatDuration,
+  parseCast,
+  playbackSchedule,
+  type Playback,
+} from "./recording";
+import { getHomePath } from "./users";
+import { completePaths, completeWords, defineCommands } from "./registry";
+
+const unavailable = (name: string): CommandResult => ({
+  output: `${name}: recording is only available in the terminal window`,
+  success: false,
+});
+
+// ~/recordings/2024-05-01-142530.cast
+function defaultPath(username: string, date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const stamp =
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${getHomePath(username) || ""}/recordings/${stamp}.cast`;
+}
+
+// Shorten /home/user/... to ~/... for messages
+function displayPath(path: string, username: string): string {
+  const home = getHomePath(username);
+  return home && path.startsWith(`${home}/`)
+    ? `~${path.slice(home.length)}`
+    : path;
+}
+
+export const recordCommands: Record<string, CommandFunction> = {
+  record: (args, context) => {
+    const recording = context.recording;
+    if (!recording) return unavailable("record");
+
+    const [action = "status", target] = args;
+    const active = recording.active;
+
+    if (action === "status") {
+      return {
+        output: active
+          ? `Recording to ${displayPath(active.path, context.currentUser)} for ${formatDuration((Date.now() - active.started) / 1000)}`
+          : "Not recording. Start with: record start [FILE]",
+        success: true,
+      };
+    }
+
+    if (action === "start") {
+      if (active) {
+        return {
+          output: `record: already recording to ${displayPath(active.path, context.currentUser)}`,
+          success: false,
+        };
+      }
+
+      const path = target
+        ? resolvePath(context.currentDirectory, target)
+        : defaultPath(context.currentUser, new Date());
+      const parent = getParentPath(path);
+      // The default directory is created on first use
+      if (!target && !getFileAtPath(parent)) makeDirectory(parent);
+      if (getFileAtPath(parent)?.type !== "directory") {
+        return {
+          output: `record: cannot record to '${target}': No such file or directory`,
+          success: false,
+        };
+      }
+      if (getFileAtPath(path)?.type === "directory") {
+        return { output: `record: ${target}: Is a directory`, success: false };
+      }
+
+      recording.start(path);
+      return {
+        output: `Recording to ${displayPath(path, context.currentUser)}. Type 'record stop' to save it.`,
+        success: true,
+      };
+    }
+
+    if (action === "stop") {
+      const path = active?.path;
+      const stopped = recording.stop();
+      if (!stopped || !path) {
+        return { output: "record: not recording", success: false };
+      }
+
+      const name = displayPath(path, context.currentUser);
+      const { cast, truncated } = stopped;
+      if (!writeFile(path, formatCast(cast))) {
+        return {
+          output: lastSaveFailed()
+            ? `record: cannot write '${name}': the browser's storage is full. Remove files with rm and record a shorter session`
+            : `record: cannot write '${name}'`,
+          success: false,
+        };
+      }
+      return {
+        output: [
+          `Saved ${formatDuration(cast.header.duration || 0)} to ${name}${truncated ? " (cut off: the recording is too long)" : ""}`,
+          `Replay it with: replay ${name}`,
+        ].join("\n"),
+        success: true,
+      };
+    }
+
+    return {
+      output: `record: unknown action '${action}'. Use start, stop or status`,
+      success: false,
+    };
+  },
+
+  replay: async (args, context) => {
+    let speed = 1;
+    let idleLimit = DEFAULT_IDLE_LIMIT;
+    let filename: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+      const option = args[i];
+      if (option !== "-s" && option !== "-i") {
+        filename = option;
+        continue;
+      }
+      const value = Number(args[++i]);
+      if (!(value > 0)) {
+        return {
+          output: `replay: invalid ${option === "-s" ? "speed" : "idle limit"} '${args[i]}'`,
+          success: false,
+        };
+      }
+      if (option === "-s") speed = value;
+      else idleLimit = value;
+    }
+
+    if (!filename) {
+      return {
+        output: "Usage: replay [-s SPEED] [-i SECONDS] FILE",
+        success: false,
+      };
+    }
+    const file = getFileAtPath(resolvePath(context.currentDirectory, filename));
+    if (!file || file.type === "directory") {
+      return {
+        output: `replay: ${filename}: ${file ? "Is a directory" : "No such file or directory"}`,
+        success: false,
+      };
+    }
+    const cast = parseCast(file.content || "");
+    if (!cast) {
+      return {
+        output: `replay: ${filename}: not an asciicast v2 recording`,
+        success: false,
+      };
+    }
+
+    const writer = context.writer;
+    // Piped, or without a terminal: print the output as it was shown
+    if (!writer || context.piped) {
+      return {
+        output: playbackSchedule(cast, idleLimit)
+          .map(({ data }) => data)
+          .join(""),
+        success: true,
+      };
+    }
+
+    const signal = context.abortController?.signal;
+    const clear = () => writer("\x1b[H\x1b[2J");
+    clear();
+
+    const playback = await new Promise<Playback>((resolve) => {
+      const playback = createPlayback(cast, {
+        write: writer,
+        reset: clear,
+        speed,
+        idleLimit,
+        onChange: () => {
+          if (!playback.playing) resolve(playback);
+        },
+      });
+      signal?.addEventListener(
+        "abort",
+        () => {
+          playback.dispose();
+          resolve(playback);
+        },
+        { once: true },
+      );
+      playback.play();
+    });
+
+    if (signal?.aborted) return { output: "", success: false };
+    return {
+      output: `\r\n\x1b[2m[replayed ${filename}, ${formatDuration(playback.duration)}]\x1b[0m`,
+      success: true,
+    };
+  },
+};
+
+export const recordCommandDefinitions = defineCommands(recordCommands, {
+  record: {
+    category: "system",
+    summary: "record the terminal session",
+    synopsis: ["record [start [FILE]|stop|status]"],
+    description: [
+      "Record everything shown in this pane, with its timing, until",
+      "record stop, and save it as an asciicast v2 file (the format of",
+      "asciinema). Without FILE, recordings go to ~/recordings, named",
+      "after the time they started. What you type at the prompt is",
+      "recorded too; keys read by commands, like passwords, are not.",
+      "",
+      "Play recordings back with replay, or with any asciinema player.",
+    ],
+    args: { max: 2 },
+    examples: [
+      "record start            Start recording to ~/recordings",
+      "record start demo.cast  Record to demo.cast",
+      "record stop             Stop and save the recording",
+    ],
+    complete: completeWords(["start", "stop", "status"]),
+  },
+  replay: {
+    category: "system",
+    complete: completePaths,
+    summary: "play back a recorded session",
+    synopsis: ["replay [-s SPEED] [-i SECONDS] FILE"],
+    description: [
+      "Play an asciicast recording in the terminal with its original",
+      "timing. Pauses longer than 2 seconds are shortened. Ctrl+C stops",
+      "the replay. Piped, the recorded output is printed at once.",
+    ],
+    options: [
+      { flag: "-s", value: "SPEED", description: "Play SPEED times faster" },
+      {
+        flag: "-i",
+        value: "SECONDS",
+        description: "Shorten pauses to at most SECONDS",
+      },
+    ],
+    args: { min: 1, max: 1 },
+    examples: [
+      "replay ~/recordings/demo.cast     Replay a recording",
+      "replay -s 2 demo.cast             Replay at double speed",
+    ],
+  },
+});
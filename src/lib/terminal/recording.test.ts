@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  attachRecorder,
+  createPlayback,
+  createRecorder,
+  formatCast,
+  parseCast,
+  playbackSchedule,
+  type Cast,
+} from "./recording";
+
+describe("Recording", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("records timed events as asciicast v2", () => {
+    let time = 1_700_000_000_000;
+    const recorder = createRecorder(80, 24, "demo", () => time);
+
+    recorder.output("$ ls\n");
+    time += 1500;
+    recorder.input("l");
+    recorder.resize(100, 30);
+    time += 250;
+    recorder.output("");
+
+    const cast = recorder.finish();
+    expect(cast.header).toMatchObject({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: 1_700_000_000,
+      duration: 1.75,
+      title: "demo",
+    });
+    expect(cast.events).toEqual([
+      [0, "o", "$ ls\r\n"],
+      [1.5, "i", "l"],
+      [1.5, "r", "100x30"],
+    ]);
+
+    const text = formatCast(cast);
+    expect(text.split("\n")[1]).toBe('[0,"o","$ ls\\r\\n"]');
+    expect(parseCast(text)).toEqual(cast);
+  });
+
+  it("rejects files that are not asciicast v2", () => {
+    expect(parseCast("")).toBeNull();
+    expect(parseCast('{"version": 1, "width": 80, "height": 24}')).toBeNull();
+    expect(parseCast("not json")).toBeNull();
+  });
+
+  it("shortens long pauses on playback", () => {
+    const cast: Cast = {
+      header: { version: 2, width: 80, height: 24 },
+      events: [
+        [0.5, "o", "a"],
+        [1, "i", "x"],
+        [10, "o", "b"],
+        [10.25, "o", "c"],
+      ],
+    };
+
+    expect(playbackSchedule(cast)).toEqual([
+      { time: 0.5, data: "a" },
+      { time: 2.5, data: "b" },
+      { time: 2.75, data: "c" },
+    ]);
+  });
+
+  it("plays, pauses and seeks", async () => {
+    vi.useFakeTimers();
+    const cast: Cast = {
+      header: { version: 2, width: 80, height: 24 },
+      events: [
+        [0, "o", "a"],
+        [1, "o", "b"],
+        [2, "o", "c"],
+      ],
+    };
+    let screen = "";
+    const playback = createPlayback(cast, {
+      write: (data) => (screen += data),
+      reset: () => (screen = ""),
+      speed: 2,
+    });
+
+    playback.play();
+    expect(screen).toBe("a");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(screen).toBe("ab");
+
+    playback.pause();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(screen).toBe("ab");
+
+    playback.seek(0.5);
+    expect(screen).toBe("a");
+    playback.play();
+    await vi.advanceTimersByTimeAsync(750);
+    expect(screen).toBe("abc");
+    expect(playback.playing).toBe(false);
+    expect(playback.position).toBe(2);
+  });
+
+  it("records what is written to a terminal until detached", () => {
+    const term = {
+      write: vi.fn(),
+      writeln: vi.fn(),
+      onResize: vi.fn(() => ({ dispose: vi.fn() })),
+    };
+    const recorder = createRecorder(80, 24);
+    const detach = attachRecorder(term, recorder);
+
+    term.write("hello");
+    term.writeln(new TextEncoder().encode("bytes"));
+    detach();
+    term.write("after");
+
+    expect(recorder.finish().events.map(([, , data]) => data)).toEqual([
+      "hello",
+      "bytes\r\n",
+    ]);
+    expect(term.write).toHaveBeenCalledTimes(2);
+  });
+});
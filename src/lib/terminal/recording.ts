@@ -0,0 +1,300 @@
+// Session recordings in the asciicast v2 format used by asciinema: a JSON
+// header line, then one [seconds, type, data] line per event
+// https://docs.asciinema.org/manual/asciicast/v2/
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number; // Start time in seconds since the epoch
+  duration?: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+// "o" output, "i" input, "r" resize to "COLSxROWS", "m" marker
+export type CastEventType = "o" | "i" | "r" | "m";
+export type CastEvent = [number, CastEventType, string];
+
+export interface Cast {
+  header: CastHeader;
+  events: CastEvent[];
+}
+
+// Recordings are stored in the browser with the user's files, where they
+// are escaped again and share a few MB with everything else, so they are
+// cut off at this many characters of events
+export const MAX_RECORDING_SIZE = 300_000;
+
+// Pauses longer than this are shortened on replay, like asciinema's
+// idle_time_limit
+export const DEFAULT_IDLE_LIMIT = 2;
+
+export interface Recorder {
+  input(data: string): void;
+  output(data: string): void;
+  resize(cols: number, rows: number): void;
+  readonly truncated: boolean;
+  finish(): Cast;
+}
+
+// Recording started by record start, kept by the terminal pane
+export interface RecordingControl {
+  active: { path: string; started: number } | null;
+  start(path: string): void;
+  // null when nothing was being recorded
+  stop(): { cast: Cast; truncated: boolean } | null;
+}
+
+export function createRecorder(
+  width: number,
+  height: number,
+  title?: string,
+  now: () => number = Date.now,
+): Recorder {
+  const started = now();
+  const events: CastEvent[] = [];
+  let size = 0;
+  let truncated = false;
+
+  const add = (type: CastEventType, data: string) => {
+    if (truncated || !data) return;
+    // The data as escaped in the file, and roughly the JSON around it
+    size += JSON.stringify(data).length + 22;
+    if (size > MAX_RECORDING_SIZE) {
+      truncated = true;
+      return;
+    }
+    const seconds = Math.round(now() - started) / 1000;
+    events.push([seconds, type, data]);
+  };
+
+  return {
+    // The terminal turns \n into a new line, asciinema players do not
+    output: (data) => add("o", data.replace(/\r?\n/g, "\r\n")),
+    input: (data) => add("i", data),
+    resize: (cols, rows) => add("r", `${cols}x${rows}`),
+    get truncated() {
+      return truncated;
+    },
+    finish: () => ({
+      header: {
+        version: 2,
+        width,
+        height,
+        timestamp: Math.floor(started / 1000),
+        duration: Math.round(now() - started) / 1000,
+        ...(title && { title }),
+        env: { TERM: "xterm-256color", SHELL: "/bin/sh" },
+      },
+      events,
+    }),
+  };
+}
+
+export function formatCast(cast: Cast): string {
+  return (
+    [cast.header, ...cast.events]
+      .map((line) => JSON.stringify(line))
+      .join("\n") + "\n"
+  );
+}
+
+// Read a .cast file; null when it is not asciicast v2
+export function parseCast(text: string): Cast | null {
+  const [first, ...lines] = text.split("\n").filter((line) => line.trim());
+  if (!first) return null;
+
+  try {
+    const header = JSON.parse(first);
+    if (
+      header?.version !== 2 ||
+      typeof header.width !== "number" ||
+      typeof header.height !== "number"
+    ) {
+      return null;
+    }
+
+    const events: CastEvent[] = [];
+    for (const line of lines) {
+      const event = JSON.parse(line);
+      if (
+        Array.isArray(event) &&
+        typeof event[0] === "number" &&
+        typeof event[1] === "string" &&
+        typeof event[2] === "string"
+      ) {
+        events.push(event as CastEvent);
+      }
+    }
+    return { header, events };
+  } catch {
+    return null;
+  }
+}
+
+// Output of a recording with the time to show each piece at, in seconds,
+// after shortening pauses longer than idleLimit
+export function playbackSchedule(
+  cast: Cast,
+  idleLimit = DEFAULT_IDLE_LIMIT,
+): { time: number; data: string }[] {
+  const schedule: { time: number; data: string }[] = [];
+  let previous = 0;
+  let time = 0;
+
+  for (const [seconds, type, data] of cast.events) {
+    if (type !== "o") continue;
+    time += Math.min(Math.max(seconds - previous, 0), idleLimit);
+    previous = seconds;
+    schedule.push({ time, data });
+  }
+  return schedule;
+}
+
+export interface Playback {
+  readonly playing: boolean;
+  readonly position: number; // Seconds into the shortened recording
+  readonly duration: number;
+  play(): void; // From the start again once it has ended
+  pause(): void;
+  seek(time: number): void;
+  dispose(): void;
+}
+
+interface PlaybackOptions {
+  write: (data: string) => void;
+  reset: () => void; // Clear the screen, to seek backwards
+  onChange?: () => void; // After output, and when playing starts or stops
+  speed?: number;
+  idleLimit?: number;
+}
+
+// Play a recording into a terminal, as replay and the player do
+export function createPlayback(
+  cast: Cast,
+  { write, reset, onChange, speed = 1, idleLimit }: PlaybackOptions,
+): Playback {
+  const schedule = playbackSchedule(cast, idleLimit);
+  const duration = schedule.length ? schedule[schedule.length - 1].time : 0;
+  let index = 0; // Next piece of output
+  let position = 0; // While paused
+  let startedAt = 0; // Wall-clock time position 0 was at, while playing
+  let playing = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const current = () =>
+    playing
+      ? Math.min(((Date.now() - startedAt) * speed) / 1000, duration)
+      : position;
+
+  const stopTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // Write everything due, then wait for the next piece
+  const tick = () => {
+    position = current();
+    while (index < schedule.length && schedule[index].time <= position) {
+      write(schedule[index++].data);
+    }
+    if (index >= schedule.length) {
+      playing = false;
+      position = duration;
+      timer = null;
+    } else {
+      const wait = schedule[index].time - position;
+      timer = setTimeout(tick, (wait * 1000) / speed);
+    }
+    onChange?.();
+  };
+
+  const playback: Playback = {
+    get playing() {
+      return playing;
+    },
+    get position() {
+      return current();
+    },
+    duration,
+    play: () => {
+      if (playing) return;
+      if (index >= schedule.length) playback.seek(0);
+      playing = true;
+      startedAt = Date.now() - (position * 1000) / speed;
+      tick();
+    },
+    pause: () => {
+      if (!playing) return;
+      position = current();
+      playing = false;
+      stopTimer();
+      onChange?.();
+    },
+    seek: (time) => {
+      stopTimer();
+      position = Math.min(Math.max(time, 0), duration);
+      reset();
+      index = 0;
+      while (index < schedule.length && schedule[index].time <= position) {
+        write(schedule[index++].data);
+      }
+      if (playing) {
+        startedAt = Date.now() - (position * 1000) / speed;
+        tick();
+      } else {
+        onChange?.();
+      }
+    },
+    dispose: () => {
+      playing = false;
+      stopTimer();
+    },
+  };
+  return playback;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
+
+// The parts of an xterm Terminal a recorder needs
+interface RecordableTerminal {
+  write(data: string | Uint8Array, callback?: () => void): void;
+  writeln(data: string | Uint8Array, callback?: () => void): void;
+  onResize(listener: (size: { cols: number; rows: number }) => void): {
+    dispose(): void;
+  };
+}
+
+// Record everything written to a terminal, and its resizes; returns a
+// function that stops recording. Input is passed to the recorder by the
+// caller, which knows when it is a password
+export function attachRecorder(
+  term: RecordableTerminal,
+  recorder: Recorder,
+): () => void {
+  const { write, writeln } = term;
+  const decoder = new TextDecoder();
+  const text = (data: string | Uint8Array) =>
+    typeof data === "string" ? data : decoder.decode(data);
+
+  term.write = (data, callback) => {
+    recorder.output(text(data));
+    write.call(term, data, callback);
+  };
+  term.writeln = (data, callback) => {
+    recorder.output(text(data) + "\n");
+    writeln.call(term, data, callback);
+  };
+  const resize = term.onResize(({ cols, rows }) => recorder.resize(cols, rows));
+
+  return () => {
+    term.write = write;
+    term.writeln = writeln;
+    resize.dispose();
+  };
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  completeFirst,
+  completePaths,
+  completeWords,
+  defineCommands,
+  formatManual,
+  getCommandDefinition,
+  listCommandDefinitions,
+  readsPortfolio,
+  registerCommands,
+  validateArguments,
+  type CommandDefinition,
+} from "./registry";
+import type { CommandContext } from "./commands";
+
+const definition = (
+  fields: Partial<CommandDefinition> = {},
+): CommandDefinition => ({
+  name: "demo",
+  category: "posix",
+  summary: "show a demo",
+  synopsis: ["demo [-v] [-n N] FILE..."],
+  options: [
+    { flag: "-v", aliases: ["--verbose"], description: "Say more" },
+    { flag: "-n", value: "N", description: "Show N lines" },
+  ],
+  run: vi.fn(),
+  ...fields,
+});
+
+describe("Command Registry", () => {
+  describe("defineCommands", () => {
+    it("pairs functions with their metadata", () => {
+      const run = vi.fn();
+      const [demo] = defineCommands(
+        { demo: run },
+        { demo: { category: "posix", summary: "demo", synopsis: ["demo"] } },
+      );
+      expect(demo).toMatchObject({ name: "demo", category: "posix", run });
+    });
+
+    it("rejects undocumented commands and stray metadata", () => {
+      expect(() => defineCommands({ demo: vi.fn() }, {})).toThrow(
+        "No metadata for command 'demo'",
+      );
+      expect(() =>
+        defineCommands(
+          {},
+          { demo: { category: "posix", summary: "", synopsis: [] } },
+        ),
+      ).toThrow("No implementation for command 'demo'");
+    });
+  });
+
+  describe("registerCommands", () => {
+    it("lets later definitions replace earlier ones", () => {
+      registerCommands([definition(), definition({ name: "other" })]);
+      registerCommands([definition({ summary: "replaced" })]);
+
+      expect(getCommandDefinition("demo")?.summary).toBe("replaced");
+      expect(listCommandDefinitions().map(({ name }) => name)).toEqual([
+        "other",
+        "demo",
+      ]);
+    });
+  });
+
+  describe("formatManual", () => {
+    it("renders the standard sections", () => {
+      const manual = formatManual(
+        definition({
+          description: ["Demonstrate things."],
+          sections: { KEYS: ["q   Quit"] },
+          examples: ["demo file.txt"],
+        }),
+      );
+
+      expect(manual).toBe(
+        [
+          "\x1b[1mNAME\x1b[0m",
+          "    demo - show a demo",
+          "",
+          "\x1b[1mSYNOPSIS\x1b[0m",
+          "    demo [-v] [-n N] FILE...",
+          "",
+          "\x1b[1mDESCRIPTION\x1b[0m",
+          "    Demonstrate things.",
+          "",
+          "\x1b[1mOPTIONS\x1b[0m",
+          "    -v, --verbose    Say more",
+          "    -n N             Show N lines",
+          "",
+          "\x1b[1mKEYS\x1b[0m",
+          "    q   Quit",
+          "",
+          "\x1b[1mEXAMPLE\x1b[0m",
+          "    demo file.txt",
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("validateArguments", () => {
+    const validate = (args: string[], fields = {}) =>
+      validateArguments(definition(fields), args);
+
+    it("accepts declared, combined and valued options", () => {
+      expect(validate(["-v", "a"])).toBeNull();
+      expect(validate(["-vn", "5", "a"])).toBeNull();
+      expect(validate(["-n5", "--verbose", "a"])).toBeNull();
+      expect(validate(["-5", "-", "--", "-x"])).toBeNull();
+    });
+
+    it("rejects unknown options", () => {
+      expect(validate(["-vx"])).toBe("demo: invalid option -- 'x'");
+      expect(validate(["--quiet"])).toBe("demo: unrecognized option '--quiet'");
+    });
+
+    it("checks the operand count", () => {
+      const args = { min: 1, max: 2 };
+      expect(validate(["-v"], { args })).toBe(
+        "Usage: demo [-v] [-n N] FILE...",
+      );
+      expect(validate(["a", "b", "c"], { args })).toBe(
+        "demo: too many arguments",
+      );
+      expect(validate(["-n", "3", "a"], { args })).toBeNull();
+    });
+
+    it("leaves options alone when none are declared", () => {
+      expect(validate(["-anything"], { options: undefined })).toBeNull();
+    });
+  });
+
+  describe("completers", () => {
+    const context = {} as CommandContext;
+
+    it("completes words and only the first argument", () => {
+      const complete = completeFirst(completeWords(["stop", "start", "play"]));
+
+      expect(complete("ST", context, [])).toEqual(["start", "stop"]);
+      expect(complete("st", context, ["play"])).toEqual([]);
+    });
+  });
+
+  describe("readsPortfolio", () => {
+    const at = (currentDirectory: string) =>
+      ({ currentDirectory, currentUser: "guest" }) as CommandContext;
+    const paths = definition({ complete: completePaths });
+
+    it("follows path operands into /portfolio", () => {
+      expect(readsPortfolio(paths, ["projects"], at("/portfolio"))).toBe(true);
+      expect(readsPortfolio(paths, ["-l", "/portfolio/blog"], at("/"))).toBe(
+        true,
+      );
+      expect(readsPortfolio(paths, ["portfolio"], at("/home/guest"))).toBe(
+        true,
+      );
+      expect(readsPortfolio(paths, [], at("/"))).toBe(true);
+      expect(readsPortfolio(paths, ["README.md"], at("/"))).toBe(false);
+      expect(readsPortfolio(paths, [], at("/docs"))).toBe(false);
+    });
+
+    it("ignores words that are not paths", () => {
+      expect(
+        readsPortfolio(definition(), ["portfolio"], at("/portfolio")),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+// Command registry: every command is described once, and help, man,
+// completion and argument validation are generated from the descriptions
+import type { CommandContext, CommandFunction } from "./commands";
+import { getFileAtPath, resolvePath, showsPortfolio } from "./fileSystem";
+import { loadPortfolioFeeds } from "./portfolio";
+
+// Sections of `help`, in display order
+export const COMMAND_CATEGORIES = {
+  system: "System Commands",
+  posix: "POSIX-like Commands",
+  website: "Website Commands",
+  ai: "AI Assistant",
+} as const;
+
+export type CommandCategory = keyof typeof COMMAND_CATEGORIES;
+
+export interface CommandOption {
+  flag: string; // "-l" or "--all"
+  aliases?: string[]; // Other spellings, e.g. "-R" for "-r"
+  value?: string; // Placeholder when the option takes a value, e.g. "N"
+  description: string;
+}
+
+// Candidates for the word being completed; previous holds the arguments
+// before it
+export type ArgumentCompleter = (
+  partial: string,
+  context: CommandContext,
+  previous: string[],
+) => string[];
+
+export interface CommandDefinition {
+  name: string;
+  category: CommandCategory;
+  summary: string; // "list directory contents", shown by help and man
+  synopsis: string[]; // Usage lines; the first one is shown by help
+  description?: string[];
+  options?: CommandOption[]; // When set, unknown options are rejected
+  args?: { min?: number; max?: number }; // Operand count, checked before run
+  examples?: string[];
+  sections?: Record<string, string[]>; // Extra man sections, e.g. KEYS
+  complete?: ArgumentCompleter;
+  hidden?: boolean; // Left out of help, still documented and completed
+  run: CommandFunction;
+}
+
+// Metadata of each command, keyed by name
+export type CommandMetadata = Record<
+  string,
+  Omit<CommandDefinition, "name" | "run">
+>;
+
+// Pair command functions with their metadata; a command without
+// documentation, or documentation without a command, is a bug
+export function defineCommands(
+  functions: Record<string, CommandFunction>,
+  metadata: CommandMetadata,
+): CommandDefinition[] {
+  for (const name of Object.keys(metadata)) {
+    if (!functions[name]) {
+      throw new Error(`No implementation for command '${name}'`);
+    }
+  }
+
+  return Object.entries(functions).map(([name, run]) => {
+    if (!metadata[name]) {
+      throw new Error(`No metadata for command '${name}'`);
+    }
+    return { name, ...metadata[name], run };
+  });
+}
+
+const registry = new Map<string, CommandDefinition>();
+
+// Register commands; a later definition replaces one with the same name
+export function registerCommands(definitions: CommandDefinition[]): void {
+  for (const definition of definitions) {
+    registry.delete(definition.name);
+    registry.set(definition.name, definition);
+  }
+}
+
+export function getCommandDefinition(
+  name: string,
+): CommandDefinition | undefined {
+  return registry.get(name);
+}
+
+// Registered commands in registration order
+export function listCommandDefinitions(): CommandDefinition[] {
+  return [...registry.values()];
+}
+
+const bold = (text: string) => `\x1b[1m${text}\x1b[0m`;
+const indent = (lines: string[]) =>
+  lines.map((line) => (line ? `    ${line}` : ""));
+
+function formatOption(option: CommandOption): string {
+  const flags = [option.flag, ...(option.aliases || [])].join(", ");
+  return option.value ? `${flags} ${option.value}` : flags;
+}
+
+// The man page of a command
+export function formatManual(definition: CommandDefinition): string {
+  const sections: [string, string[]][] = [
+    ["NAME", [`${definition.name} - ${definition.summary}`]],
+    ["SYNOPSIS", definition.synopsis],
+  ];
+
+  if (definition.description) {
+    sections.push(["DESCRIPTION", definition.description]);
+  }
+  if (definition.options?.length) {
+    const width = Math.max(
+      ...definition.options.map((o) => formatOption(o).length),
+    );
+    sections.push([
+      "OPTIONS",
+      definition.options.map(
+        (option) =>
+          `${formatOption(option).padEnd(width)}    ${option.description}`,
+      ),
+    ]);
+  }
+  sections.push(...Object.entries(definition.sections || {}));
+  if (definition.examples?.length) {
+    sections.push([
+      definition.examples.length === 1 ? "EXAMPLE" : "EXAMPLES",
+      definition.examples,
+    ]);
+  }
+
+  return sections
+    .map(([title, lines]) => [bold(title), ...indent(lines)].join("\n"))
+    .join("\n\n");
+}
+
+// Check arguments against the options and operand count a command
+// declares; returns the error message, or null when they are valid
+export function validateArguments(
+  definition: CommandDefinition,
+  args: string[],
+): string | null {
+  const { name, options } = definition;
+  let operands = args;
+
+  if (options) {
+    const known = new Map<string, CommandOption>();
+    for (const option of options) {
+      for (const flag of [option.flag, ...(option.aliases || [])]) {
+        known.set(flag, option);
+      }
+    }
+
+    operands = [];
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === "--") {
+        operands.push(...args.slice(i + 1));
+        break;
+      }
+      // "-" and negative numbers such as head -5 are not options
+      if (!arg.startsWith("-") || arg === "-" || /^-\d+$/.test(arg)) {
+        operands.push(arg);
+        continue;
+      }
+
+      if (arg.startsWith("--")) {
+        const option = known.get(arg.split("=")[0]);
+        if (!option) return `${name}: unrecognized option '${arg}'`;
+        if (option.value && !arg.includes("=")) i++;
+        continue;
+      }
+
+      // Short options may be combined, like -la; a value may follow
+      for (let j = 1; j < arg.length; j++) {
+        const option = known.get(`-${arg[j]}`);
+        if (!option) return `${name}: invalid option -- '${arg[j]}'`;
+        if (option.value) {
+          if (j === arg.length - 1) i++;
+          break;
+        }
+      }
+    }
+  }
+
+  const { min = 0, max = Infinity } = definition.args || {};
+  if (operands.length > max) {
+    return `${name}: too many arguments`;
+  }
+  if (operands.length < min) {
+    return `Usage: ${definition.synopsis[0]}`;
+  }
+  return null;
+}
+
+// Complete from a list of words, ignoring case
+export function completeWords(
+  words: string[] | (() => string[]),
+): ArgumentCompleter {
+  return (partial) =>
+    (typeof words === "function" ? words() : words)
+      .filter((word) => word.toLowerCase().startsWith(partial.toLowerCase()))
+      .sort();
+}
+
+// Complete only the first argument, e.g. a subcommand
+export function completeFirst(completer: ArgumentCompleter): ArgumentCompleter {
+  return (partial, context, previous) =>
+    previous.length === 0 ? completer(partial, context, previous) : [];
+}
+
+function completeEntries(
+  partial: string,
+  context: CommandContext,
+  directoriesOnly: boolean,
+): string[] {
+  // Complete relative to the directory part, resolved like any other path
+  const prefix = partial.substring(0, partial.lastIndexOf("/") + 1);
+  const dirPath = resolvePath(context.currentDirectory, prefix || ".");
+
+  if (showsPortfolio(dirPath)) {
+    void loadPortfolioFeeds();
+  }
+
+  const dir = getFileAtPath(dirPath);
+  if (!dir || dir.type !== "directory" || !dir.children) return [];
+
+  const basename = partial.substring(prefix.length);
+  return Object.values(dir.children)
+    .filter(
+      (file) =>
+        file.name.startsWith(basename) &&
+        (!directoriesOnly || file.type === "directory"),
+    )
+    .map((file) => prefix + file.name + (file.type === "directory" ? "/" : ""))
+    .sort();
+}
+
+// Complete file and directory paths
+export const completePaths: ArgumentCompleter = (partial, context) =>
+  completeEntries(partial, context, false);
+
+export const completeDirectories: ArgumentCompleter = (partial, context) =>
+  completeEntries(partial, context, true);
+
+// Whether a command reads under /portfolio: commands completing paths
+// read their operands, or the current directory when given none
+export function readsPortfolio(
+  definition: CommandDefinition,
+  args: string[],
+  context: CommandContext,
+): boolean {
+  if (
+    definition.complete !== completePaths &&
+    definition.complete !== completeDirectories
+  ) {
+    return false;
+  }
+  const operands = args.filter((arg) => !arg.startsWith("-"));
+  return (operands.length > 0 ? operands : ["."]).some((operand) =>
+    showsPortfolio(resolvePath(context.currentDirectory, operand)),
+  );
+}
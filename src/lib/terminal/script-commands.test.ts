@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { scriptCommands } from "./script-commands";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Script Commands", () => {
+  let context: CommandContext;
+
+  const run = (name: string, args: string[]) =>
+    scriptCommands[name](args, context) as CommandResult;
+
+  beforeEach(() => {
+    context = {
+      currentDirectory: "/",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+    };
+  });
+
+  it("tests strings, integers and files", () => {
+    const check = (...args: string[]) => run("test", args).success;
+
+    expect(check("a", "=", "a")).toBe(true);
+    expect(check("a", "!=", "a")).toBe(false);
+    expect(check("-z", "")).toBe(true);
+    expect(check("!", "-n", "")).toBe(true);
+    expect(check("10", "-gt", "9")).toBe(true);
+    expect(check("")).toBe(false);
+    expect(check("-d", "docs")).toBe(true);
+    expect(check("-f", "docs")).toBe(false);
+    expect(check("-f", "docs/api.md")).toBe(true);
+    expect(check("-e", "missing")).toBe(false);
+  });
+
+  it("reports invalid expressions", () => {
+    expect(run("test", ["a", "-lt", "1"])).toEqual({
+      output: "test: a: integer expression expected",
+      success: false,
+    });
+    expect(run("[", ["-n", "x"]).output).toBe("[: missing ']'");
+    expect(run("[", ["-n", "x", "]"]).success).toBe(true);
+  });
+
+  it("sleeps until the time is up or Ctrl+C", async () => {
+    vi.useFakeTimers();
+    try {
+      const done = vi.fn();
+      const sleeping = Promise.resolve(run("sleep", ["1", "0.5"])).then(done);
+      await vi.advanceTimersByTimeAsync(1400);
+      expect(done).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(100);
+      await sleeping;
+      expect(done).toHaveBeenCalledWith({ output: "", success: true });
+
+      context.abortController = new AbortController();
+      const cancelled = run("sleep", ["1m"]);
+      context.abortController.abort();
+      expect(await cancelled).toEqual({ output: "", success: false });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(run("sleep", ["soon"]).output).toBe(
+      "sleep: invalid time interval 'soon'",
+    );
+  });
+});
@@ -0,0 +1,190 @@
+// Commands for scripts: conditions for if and while, and sleep
+import type { CommandContext, CommandFunction } from "./commands";
+import { getFileAtPath, resolvePath } from "./fileSystem";
+import { defineCommands } from "./registry";
+
+const INTEGER_PATTERN = /^-?[0-9]+$/;
+
+// Multipliers of the suffixes sleep accepts
+const SECONDS: Record<string, number> = { "": 1, s: 1, m: 60, h: 3600 };
+
+// Evaluate a test expression; a string is an error message
+function evaluate(args: string[], context: CommandContext): boolean | string {
+  if (args[0] === "!" && args.length > 1) {
+    const result = evaluate(args.slice(1), context);
+    return typeof result === "string" ? result : !result;
+  }
+
+  if (args.length === 0) return false;
+  if (args.length === 1) return args[0] !== "";
+
+  if (args.length === 2) {
+    const [operator, operand] = args;
+    const file = () =>
+      getFileAtPath(resolvePath(context.currentDirectory, operand));
+    switch (operator) {
+      case "-n":
+        return operand !== "";
+      case "-z":
+        return operand === "";
+      case "-e":
+        return !!file();
+      case "-f":
+        return file()?.type === "file";
+      case "-d":
+        return file()?.type === "directory";
+      case "-s": {
+        const found = file();
+        return !!found && (found.type === "directory" || !!found.content);
+      }
+    }
+    return `${operator}: unary operator expected`;
+  }
+
+  if (args.length === 3) {
+    const [left, operator, right] = args;
+    switch (operator) {
+      case "=":
+      case "==":
+        return left === right;
+      case "!=":
+        return left !== right;
+    }
+
+    const comparisons: Record<string, (a: number, b: number) => boolean> = {
+      "-eq": (a, b) => a === b,
+      "-ne": (a, b) => a !== b,
+      "-lt": (a, b) => a < b,
+      "-le": (a, b) => a <= b,
+      "-gt": (a, b) => a > b,
+      "-ge": (a, b) => a >= b,
+    };
+    const compare = comparisons[operator];
+    if (!compare) return `${operator}: binary operator expected`;
+
+    const invalid = [left, right].find((value) => !INTEGER_PATTERN.test(value));
+    if (invalid !== undefined) {
+      return `${invalid}: integer expression expected`;
+    }
+    return compare(Number(left), Number(right));
+  }
+
+  return "too many arguments";
+}
+
+const runTest = (name: string, args: string[], context: CommandContext) => {
+  const result = evaluate(args, context);
+  return typeof result === "string"
+    ? { output: `${name}: ${result}`, success: false }
+    : { output: "", success: result };
+};
+
+export const scriptCommands: Record<string, CommandFunction> = {
+  test: (args, context) => runTest("test", args, context),
+
+  "[": (args, context) => {
+    if (args[args.length - 1] !== "]") {
+      return { output: "[: missing ']'", success: false };
+    }
+    return runTest("[", args.slice(0, -1), context);
+  },
+
+  true: () => ({ output: "", success: true }),
+
+  false: () => ({ output: "", success: false }),
+
+  sleep: (args, context) => {
+    let seconds = 0;
+    for (const arg of args) {
+      const match = arg.match(/^([0-9]*\.?[0-9]+)([smh]?)$/);
+      if (!match) {
+        return {
+          output: `sleep: invalid time interval '${arg}'`,
+          success: false,
+        };
+      }
+      seconds += Number(match[1]) * SECONDS[match[2]];
+    }
+
+    // Ctrl+C ends the wait early, as a failure
+    const signal = context.abortController?.signal;
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve({ output: "", success: false });
+        return;
+      }
+      const stop = () => {
+        clearTimeout(timer);
+        resolve({ output: "", success: false });
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", stop);
+        resolve({ output: "", success: true });
+      }, seconds * 1000);
+      signal?.addEventListener("abort", stop, { once: true });
+    });
+  },
+};
+
+export const scriptCommandDefinitions = defineCommands(scriptCommands, {
+  test: {
+    category: "posix",
+    summary: "check a condition",
+    synopsis: ["test EXPRESSION", "[ EXPRESSION ]"],
+    description: [
+      "Succeed if EXPRESSION is true and fail otherwise, for if, while",
+      "and && in scripts. A single STRING is true when it is not empty,",
+      "and ! EXPRESSION negates.",
+    ],
+    sections: {
+      EXPRESSIONS: [
+        "-n STRING / -z STRING    STRING is not empty / is empty",
+        "A = B / A != B           The strings are equal / different",
+        "A -eq B, -ne, -lt, -le, -gt, -ge",
+        "                         Compare the integers A and B",
+        "-e FILE                  FILE exists",
+        "-f FILE / -d FILE        FILE is a file / a directory",
+        "-s FILE                  FILE exists and is not empty",
+      ],
+    },
+    examples: [
+      "test -f ~/.profile && echo found   Check for a file",
+      '[ "$USER" = guest ]                 Compare strings',
+      "[ $# -gt 0 ] || exit 1              Require an argument",
+    ],
+  },
+  "[": {
+    category: "posix",
+    hidden: true,
+    summary: "check a condition",
+    synopsis: ["[ EXPRESSION ]"],
+    description: ["The same as test, with a closing ] as the last argument."],
+  },
+  true: {
+    category: "posix",
+    summary: "do nothing, successfully",
+    synopsis: ["true"],
+    description: ["Succeed without doing anything, e.g. for while true."],
+  },
+  false: {
+    category: "posix",
+    summary: "do nothing, unsuccessfully",
+    synopsis: ["false"],
+    description: ["Fail without doing anything."],
+  },
+  sleep: {
+    category: "posix",
+    args: { min: 1 },
+    summary: "wait for a while",
+    synopsis: ["sleep NUMBER[SUFFIX]..."],
+    description: [
+      "Wait for the sum of the given times. A NUMBER may be a decimal",
+      "and is in seconds, or in minutes or hours with the suffix m or h.",
+      "Ctrl+C stops waiting.",
+    ],
+    examples: [
+      "sleep 2                 Wait two seconds",
+      "sleep 0.5; echo done    Wait half a second, then print",
+    ],
+  },
+});
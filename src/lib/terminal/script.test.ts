@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseScript, runScript } from "./script";
+import { executeCommand, type CommandContext } from "./commands";
+
+describe("Shell Scripts", () => {
+  let context: CommandContext;
+
+  const run = (source: string) =>
+    runScript(parseScript(source), context, executeCommand);
+
+  beforeEach(() => {
+    context = {
+      currentDirectory: "/",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      env: {},
+      aliases: {},
+      functions: {},
+    };
+  });
+
+  describe("parseScript", () => {
+    it("parses control flow written on one line or several", () => {
+      expect(
+        parseScript("if true; then echo a; else echo b; fi # done"),
+      ).toEqual(
+        parseScript(`if true
+then
+  echo a
+else
+  echo b
+fi`),
+      );
+      expect(parseScript("greet() { echo hi; }")).toEqual([
+        {
+          type: "function",
+          name: "greet",
+          body: [{ type: "command", line: "echo hi" }],
+        },
+      ]);
+      expect(parseScript("for x; do echo $x; done")[0]).toMatchObject({
+        type: "for",
+        words: null,
+      });
+    });
+
+    it("keeps quoted separators and comments in commands", () => {
+      expect(parseScript("echo 'a; b' \"# c\" d#e\\\n  f")).toEqual([
+        { type: "command", line: "echo 'a; b' \"# c\" d#e  f" },
+      ]);
+    });
+
+    it("reports syntax errors with their line", () => {
+      expect(() => parseScript("echo hi\nfi")).toThrow(
+        "line 2: syntax error near unexpected token `fi'",
+      );
+      expect(() => parseScript("while true\ndo\n  echo")).toThrow(
+        "line 3: syntax error: unexpected end of file",
+      );
+      expect(() => parseScript("if; then echo; fi")).toThrow(
+        "line 1: syntax error near unexpected token `then'",
+      );
+      expect(() => parseScript("for 1 in a; do echo; done")).toThrow(
+        "line 1: syntax error in for loop",
+      );
+    });
+  });
+
+  describe("runScript", () => {
+    it("branches and loops on exit statuses", async () => {
+      const result = await run(`
+n=0
+while [ $n != 3 ]; do
+  if [ $n = 1 ]; then
+    n=2
+    continue
+  fi
+  echo "n is $n"
+  if [ $n = 0 ]; then n=1; else n=3; fi
+done
+for word in one two three; do
+  [ $word = three ] && break
+  echo $word
+done
+until false; do break; done`);
+
+      expect(result).toEqual({
+        output: "n is 0\nn is 2\none\ntwo",
+        success: true,
+      });
+    });
+
+    it("calls functions with their own arguments", async () => {
+      context.positional = ["tour.sh", "a b", "c"];
+      const result = await run(`
+count() {
+  echo "$# arguments, first $1"
+  return 1
+  echo unreachable
+}
+count x y z || echo failed
+for arg in "$@"; do echo "[$arg]"; done`);
+
+      expect(result.output).toBe("3 arguments, first x\nfailed\n[a b]\n[c]");
+      expect(context.functions!.count).toBeDefined();
+    });
+
+    it("stops at exit, even inside a function", async () => {
+      const result = await run(`
+stop() { echo stopping; exit 2; }
+echo start; stop; echo after
+echo never`);
+
+      expect(result).toEqual({
+        output: "start\nstopping",
+        success: false,
+      });
+      expect(context.closeTerminal).not.toHaveBeenCalled();
+    });
+
+    it("writes output as it goes when there is a terminal", async () => {
+      const written: string[] = [];
+      context.writer = (text) => written.push(text);
+
+      const result = await run("echo one\nfalse\necho two");
+
+      expect(written).toEqual(["one\n", "two\n"]);
+      expect(result).toEqual({ output: "", success: true });
+    });
+
+    it("is cancelled by Ctrl+C, even while sleeping", async () => {
+      const abortController = new AbortController();
+      context.abortController = abortController;
+      setTimeout(() => abortController.abort(), 10);
+
+      const result = await run("echo start\nsleep 5\necho never");
+
+      expect(result).toEqual({ output: "start", success: false });
+    });
+  });
+
+  describe("sh and source", () => {
+    it("runs the research tour", async () => {
+      context.currentDirectory = "/home/guest";
+      const result = await executeCommand(
+        "sh /usr/share/tours/research.sh 0",
+        context,
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain("==> /portfolio/research");
+      expect(result.output).toContain("sh /usr/share/tours/research.sh");
+      // The tour's cd and variables stay inside it
+      expect(context.setCurrentDirectory).not.toHaveBeenCalled();
+      expect(context.env).toEqual({ "?": "0" });
+    });
+
+    it("reports files it cannot run", async () => {
+      expect(await executeCommand("sh /missing.sh", context)).toEqual({
+        output: "sh: no such file or directory: /missing.sh",
+        success: false,
+      });
+      expect((await executeCommand("source /usr", context)).output).toBe(
+        "source: /usr: is a directory",
+      );
+    });
+  });
+});
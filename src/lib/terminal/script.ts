@@ -0,0 +1,491 @@
+// Shell scripts for sh and source: variables, if/elif/else, for, while,
+// until and functions around command lines, which run like typed input
+import type {
+  CommandContext,
+  CommandFunction,
+  CommandResult,
+} from "./commands";
+import { expandVariables, isArgumentList, tokenize } from "./parser";
+import { lookupVariable, trackSession } from "./shell-commands";
+
+export type ScriptNode =
+  | { type: "command"; line: string }
+  | {
+      type: "if";
+      branches: { condition: ScriptNode[]; body: ScriptNode[] }[];
+      otherwise: ScriptNode[];
+    }
+  | { type: "for"; name: string; words: string[] | null; body: ScriptNode[] }
+  | {
+      type: "while";
+      until: boolean; // Loop while the condition fails instead
+      condition: ScriptNode[];
+      body: ScriptNode[];
+    }
+  | { type: "function"; name: string; body: ScriptNode[] };
+
+// Runs one command line, normally executeCommand; passed in so scripts
+// don't depend on the command table
+export type LineRunner = (
+  line: string,
+  context: CommandContext,
+) => Promise<CommandResult>;
+
+interface Statement {
+  text: string;
+  line: number; // Where it starts, for syntax errors
+}
+
+// Reserved words that can be followed by a command on the same line
+const LEADING_KEYWORDS = ["if", "elif", "then", "else", "while", "until", "do"];
+const KEYWORDS = [...LEADING_KEYWORDS, "fi", "for", "done", "{", "}"];
+
+const NAME = "[A-Za-z_][A-Za-z0-9_-]*";
+// name() { ...  or  function name { ...
+const FUNCTION_HEADER = new RegExp(
+  `^(?:function\\s+(${NAME})(?:\\s*\\(\\s*\\))?|(${NAME})\\s*\\(\\s*\\))\\s*([\\s\\S]*)$`,
+);
+
+// Split the source into statements at newlines and semicolons outside
+// quotes, dropping comments and joining lines ending with a backslash
+function splitStatements(source: string): Statement[] {
+  const statements: Statement[] = [];
+  let current = "";
+  let start = 1;
+  let line = 1;
+  let quote: string | null = null;
+
+  const push = () => {
+    const text = current.trim();
+    if (text) statements.push({ text, line: start });
+    current = "";
+    start = line;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === "\n") line++;
+
+    if (quote) {
+      if (char === "\\" && quote === '"' && i + 1 < source.length) {
+        current += char + source[++i];
+        if (source[i] === "\n") line++;
+        continue;
+      }
+      if (char === quote) quote = null;
+      current += char;
+      continue;
+    }
+
+    if (char === "\\" && i + 1 < source.length) {
+      if (source[i + 1] === "\n") {
+        line++;
+      } else {
+        current += char + source[i + 1];
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === "#" && /(^|[\s;])$/.test(current)) {
+      // A comment runs to the end of the line
+      while (i + 1 < source.length && source[i + 1] !== "\n") i++;
+    } else if (char === "\n" || char === ";") {
+      push();
+      if (char === ";") start = line;
+    } else {
+      current += char;
+    }
+  }
+
+  if (quote) {
+    throw new Error(
+      `line ${start}: unexpected end of file: unterminated quote (${quote})`,
+    );
+  }
+  push();
+
+  // "then echo hi" is the keyword then a command; function headers are
+  // normalized to "function NAME" followed by the rest of the line
+  const expanded: Statement[] = [];
+  const expand = ({ text, line }: Statement) => {
+    const header = text.match(FUNCTION_HEADER);
+    if (header) {
+      expanded.push({ text: `function ${header[1] || header[2]}`, line });
+      if (header[3]) expand({ text: header[3], line });
+      return;
+    }
+
+    const word = firstWord(text);
+    const rest = text.slice(word.length).trim();
+    if ((LEADING_KEYWORDS.includes(word) || word === "{") && rest) {
+      expanded.push({ text: word, line });
+      expand({ text: rest, line });
+    } else {
+      expanded.push({ text, line });
+    }
+  };
+  statements.forEach(expand);
+  return expanded;
+}
+
+function firstWord(text: string): string {
+  return text.match(/^\S+/)?.[0] || "";
+}
+
+// Parse a script into a tree of statements; syntax errors throw with the
+// line they were found on
+export function parseScript(source: string): ScriptNode[] {
+  const statements = splitStatements(source);
+  let index = 0;
+
+  const current = () => statements[index];
+  const word = () => (current() ? firstWord(current().text) : null);
+
+  const unexpected = (): Error => {
+    const statement = current();
+    if (!statement) {
+      const last = statements[statements.length - 1];
+      return new Error(
+        `line ${last ? last.line : 1}: syntax error: unexpected end of file`,
+      );
+    }
+    return new Error(
+      `line ${statement.line}: syntax error near unexpected token \`${firstWord(statement.text)}'`,
+    );
+  };
+
+  const expect = (keyword: string) => {
+    if (word() !== keyword) throw unexpected();
+    index++;
+  };
+
+  // Statements up to one of the terminators, which is left to the caller
+  const parseBlock = (terminators: string[]): ScriptNode[] => {
+    const nodes: ScriptNode[] = [];
+    while (current() && !terminators.includes(word()!)) {
+      nodes.push(parseStatement());
+    }
+    if (terminators.length > 0 && !current()) throw unexpected();
+    return nodes;
+  };
+
+  const parseCondition = (terminator: string): ScriptNode[] => {
+    const condition = parseBlock([terminator]);
+    if (condition.length === 0) throw unexpected();
+    expect(terminator);
+    return condition;
+  };
+
+  const parseStatement = (): ScriptNode => {
+    const { text, line } = current();
+    const keyword = firstWord(text);
+
+    switch (keyword) {
+      case "if": {
+        index++;
+        const branches = [];
+        let otherwise: ScriptNode[] = [];
+        for (;;) {
+          const condition = parseCondition("then");
+          branches.push({
+            condition,
+            body: parseBlock(["elif", "else", "fi"]),
+          });
+          if (word() === "elif") {
+            index++;
+            continue;
+          }
+          if (word() === "else") {
+            index++;
+            otherwise = parseBlock(["fi"]);
+          }
+          expect("fi");
+          return { type: "if", branches, otherwise };
+        }
+      }
+
+      case "while":
+      case "until": {
+        index++;
+        const condition = parseCondition("do");
+        const body = parseBlock(["done"]);
+        expect("done");
+        return { type: "while", until: keyword === "until", condition, body };
+      }
+
+      case "for": {
+        // Without "in WORDS" the loop goes over the arguments
+        const header = text.match(
+          /^for\s+([A-Za-z_][A-Za-z0-9_]*)(\s+in\b([\s\S]*))?$/,
+        );
+        if (!header) {
+          throw new Error(`line ${line}: syntax error in for loop`);
+        }
+        let words: string[] | null = null;
+        if (header[2]) {
+          const tokens = tokenize(header[3]);
+          const operator = tokens.find((token) => token.type === "operator");
+          if (operator) {
+            throw new Error(
+              `line ${line}: syntax error near unexpected token \`${operator.value}'`,
+            );
+          }
+          words = tokens.map((token) => token.value);
+        }
+        index++;
+        expect("do");
+        const body = parseBlock(["done"]);
+        expect("done");
+        return { type: "for", name: header[1], words, body };
+      }
+
+      case "function": {
+        index++;
+        expect("{");
+        const body = parseBlock(["}"]);
+        expect("}");
+        return { type: "function", name: text.split(/\s+/)[1], body };
+      }
+    }
+
+    if (KEYWORDS.includes(keyword)) throw unexpected();
+    index++;
+    return { type: "command", line: text };
+  };
+
+  return parseBlock([]);
+}
+
+// How a statement left its block: break and continue end a loop
+// iteration, return ends a function and exit the whole script
+interface Control {
+  type: "break" | "continue" | "return" | "exit";
+  success: boolean;
+}
+
+// A script or a function call being run
+interface Frame {
+  context: CommandContext;
+  run: LineRunner;
+  outputs: string[]; // Output kept for the result when nothing is written
+  success: boolean; // Status of the last statement, for $? and exit
+  control: Control | null;
+}
+
+// Let the page paint and handle keys (like Ctrl+C) between iterations
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const isCancelled = (frame: Frame) =>
+  !!frame.context.abortController?.signal.aborted;
+
+// break, continue, return and exit only mean something inside a script;
+// they stop the rest of their command line by aborting it
+function controlCommands(frame: Frame): Record<string, CommandFunction> {
+  const stop =
+    (type: Control["type"]): CommandFunction =>
+    (args, context) => {
+      const [status] = args;
+      if (status !== undefined && !/^-?[0-9]+$/.test(status)) {
+        return {
+          output: `${type}: ${status}: numeric argument required`,
+          success: false,
+        };
+      }
+      const success =
+        status !== undefined
+          ? Number(status) === 0
+          : type === "break" ||
+            type === "continue" ||
+            lookupVariable("?", context) === "0";
+      frame.control = { type, success };
+      context.abortController?.abort();
+      return { output: "", success };
+    };
+
+  return {
+    break: stop("break"),
+    continue: stop("continue"),
+    return: stop("return"),
+    exit: stop("exit"),
+  };
+}
+
+// Run a command line with the control commands, on its own abort
+// controller so they can stop it without cancelling the script
+async function runLine(line: string, frame: Frame): Promise<CommandResult> {
+  const parent = frame.context.abortController?.signal;
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  parent?.addEventListener("abort", cancel);
+
+  try {
+    return await frame.run(line, {
+      ...frame.context,
+      abortController: controller,
+      functions: { ...frame.context.functions, ...controlCommands(frame) },
+    });
+  } finally {
+    parent?.removeEventListener("abort", cancel);
+  }
+}
+
+// Words of a for loop, with $@ giving one word per argument
+function expandWords(words: string[], context: CommandContext): string[] {
+  return words.flatMap((word) =>
+    isArgumentList(word)
+      ? (context.positional || []).slice(1)
+      : [expandVariables(word, (name) => lookupVariable(name, context))],
+  );
+}
+
+async function runBlock(nodes: ScriptNode[], frame: Frame): Promise<void> {
+  for (const node of nodes) {
+    if (frame.control || isCancelled(frame)) return;
+    await runNode(node, frame);
+  }
+}
+
+// Run a loop body; false when the loop should end
+async function runIteration(body: ScriptNode[], frame: Frame) {
+  await runBlock(body, frame);
+  const control = frame.control;
+  if (control?.type === "break" || control?.type === "continue") {
+    frame.control = null;
+  }
+  await nextTick();
+  return !control || control.type === "continue";
+}
+
+async function runNode(node: ScriptNode, frame: Frame): Promise<void> {
+  const { context } = frame;
+
+  switch (node.type) {
+    case "command": {
+      const result = await runLine(node.line, frame);
+      if (result.output) emit(frame, result.output);
+      frame.success = result.success;
+      if (context.env) context.env["?"] = result.success ? "0" : "1";
+      return;
+    }
+
+    case "if": {
+      for (const { condition, body } of node.branches) {
+        await runBlock(condition, frame);
+        if (frame.control || isCancelled(frame)) return;
+        if (frame.success) return runBlock(body, frame);
+      }
+      frame.success = true;
+      return runBlock(node.otherwise, frame);
+    }
+
+    case "while": {
+      for (;;) {
+        await runBlock(node.condition, frame);
+        if (frame.control || isCancelled(frame)) return;
+        if (frame.success === node.until) break;
+        if (!(await runIteration(node.body, frame))) break;
+      }
+      frame.success = true;
+      return;
+    }
+
+    case "for": {
+      const values =
+        node.words === null
+          ? (context.positional || []).slice(1)
+          : expandWords(node.words, context);
+      for (const value of values) {
+        if (context.env) context.env[node.name] = value;
+        if (!(await runIteration(node.body, frame))) break;
+        if (isCancelled(frame)) return;
+      }
+      return;
+    }
+
+    case "function": {
+      const functions = context.functions;
+      if (functions) {
+        functions[node.name] = defineFunction(
+          node.name,
+          node.body,
+          functions,
+          frame.run,
+        );
+      }
+      frame.success = true;
+      return;
+    }
+  }
+}
+
+// A function runs its body with its own arguments, in the session it is
+// called from
+function defineFunction(
+  name: string,
+  body: ScriptNode[],
+  functions: Record<string, CommandFunction>,
+  run: LineRunner,
+): CommandFunction {
+  return async (args, context) => {
+    const frame = createFrame(
+      trackSession({ ...context, functions, positional: [name, ...args] }),
+      run,
+    );
+    await runBlock(body, frame);
+
+    const result = finish(frame);
+    // exit inside a function ends the script calling it, through the
+    // exit command of the caller's frame
+    if (frame.control?.type === "exit") {
+      await context.functions?.exit?.([result.success ? "0" : "1"], context);
+    }
+    return result;
+  };
+}
+
+function createFrame(context: CommandContext, run: LineRunner): Frame {
+  return { context, run, outputs: [], success: true, control: null };
+}
+
+// Output is shown as it is produced when there is a terminal to write to,
+// so long scripts show their progress
+function emit(frame: Frame, output: string) {
+  if (frame.context.writer) {
+    frame.context.writer(output + "\n");
+  } else {
+    frame.outputs.push(output);
+  }
+}
+
+function finish(frame: Frame): CommandResult {
+  return {
+    output: frame.outputs.join("\n"),
+    success: isCancelled(frame)
+      ? false
+      : (frame.control?.success ?? frame.success),
+  };
+}
+
+// Run a parsed script in a session. Functions it defines are added to
+// context.functions, and variables set in context.env
+export async function runScript(
+  nodes: ScriptNode[],
+  context: CommandContext,
+  run: LineRunner,
+): Promise<CommandResult> {
+  const frame = createFrame(
+    trackSession({
+      ...context,
+      functions: context.functions || {},
+      env: context.env || {},
+    }),
+    run,
+  );
+  await runBlock(nodes, frame);
+  return finish(frame);
+}
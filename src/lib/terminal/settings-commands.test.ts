@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { settingsCommands } from "./settings-commands";
+import { loadTerminalSettings } from "./terminal-settings";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Settings Commands", () => {
+  let context: CommandContext;
+  let stored: Record<string, string>;
+
+  const run = async (name: string, args: string[]) =>
+    (await settingsCommands[name](args, context)) as CommandResult;
+
+  beforeEach(() => {
+    stored = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      (key) => stored[key] ?? null,
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      stored[key] = value;
+    });
+    context = {
+      currentDirectory: "/",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+    };
+  });
+
+  it("shows, changes and resets settings", async () => {
+    expect(await run("settings", ["fontFamily", "Fira", "Code"])).toEqual({
+      output: "fontFamily set to Fira Code.",
+      success: true,
+    });
+    expect((await run("settings", ["cursorBlink", "off"])).success).toBe(true);
+
+    const shown = (await run("settings", [])).output;
+    expect(shown).toContain("fontFamily   Fira Code (set)");
+    expect(shown).toContain("cursorBlink  off (set)");
+    expect(shown).toContain("fontSize     14\n");
+    expect((await run("settings", ["cursorBlink"])).output).toBe("off");
+
+    await run("settings", ["fontFamily", "default"]);
+    expect(loadTerminalSettings("guest").fontFamily).toContain("JetBrains");
+    await run("settings", ["reset"]);
+    expect(loadTerminalSettings("guest").cursorBlink).toBe(true);
+  });
+
+  it("rejects unknown settings and values", async () => {
+    expect(await run("settings", ["color", "red"])).toEqual({
+      output:
+        "settings: unknown setting 'color'. Settings: theme, fontFamily, fontSize, cursorStyle, cursorBlink, scrollback, prompt",
+      success: false,
+    });
+    expect(await run("settings", ["fontSize", "100"])).toEqual({
+      output: "settings: fontSize must be an integer from 8 to 32",
+      success: false,
+    });
+    expect(stored).toEqual({});
+  });
+
+  it("lists and switches themes", async () => {
+    expect(await run("theme", ["solarized"])).toEqual({
+      output: "theme set to solarized.",
+      success: true,
+    });
+    expect((await run("theme", [])).output).toContain(
+      "* solarized      Solarized dark",
+    );
+    expect((await run("theme", ["neon"])).output).toMatch(
+      /^theme: unknown theme 'neon'\. Themes: classic, solarized/,
+    );
+  });
+});
@@ -0,0 +1,190 @@
+// Terminal appearance: the settings and theme commands
+import type { CommandFunction, CommandResult } from "./commands";
+import { completeFirst, completeWords, defineCommands } from "./registry";
+import {
+  CURSOR_STYLES,
+  defaultTerminalSettings,
+  formatSettingValue,
+  isSettingName,
+  loadTerminalSettings,
+  parseSettingValue,
+  saveTerminalSettings,
+  SETTING_NAMES,
+  THEMES,
+  type SettingName,
+} from "./terminal-settings";
+
+// The site's high contrast mode keeps the terminal high-contrast
+function highContrastNote(): string {
+  return typeof document !== "undefined" &&
+    document.documentElement?.classList.contains("high-contrast")
+    ? "\nThe site's high contrast mode is on, so the terminal stays high-contrast until it is turned off."
+    : "";
+}
+
+function setSetting(
+  user: string,
+  name: SettingName,
+  value: string,
+  command: string,
+): CommandResult {
+  const settings = loadTerminalSettings(user);
+
+  if (value === "default") {
+    saveTerminalSettings(user, {
+      ...settings,
+      [name]: defaultTerminalSettings()[name],
+    });
+    return { output: `${name} reset to the default.`, success: true };
+  }
+
+  const parsed = parseSettingValue(name, value);
+  if ("error" in parsed) {
+    return { output: `${command}: ${parsed.error}`, success: false };
+  }
+  const updated = { ...settings, [name]: parsed.value };
+  saveTerminalSettings(user, updated);
+  return {
+    output:
+      `${name} set to ${formatSettingValue(updated, name)}.` +
+      (name === "theme" ? highContrastNote() : ""),
+    success: true,
+  };
+}
+
+export const settingsCommands: Record<string, CommandFunction> = {
+  settings: (args, context) => {
+    const user = context.currentUser;
+    const [name, ...value] = args;
+    const settings = loadTerminalSettings(user);
+
+    if (!name) {
+      const defaults = defaultTerminalSettings();
+      return {
+        output: [
+          "Terminal settings:",
+          ...SETTING_NAMES.map((setting) => {
+            const source =
+              settings[setting] === defaults[setting] ? "" : " (set)";
+            return `  ${setting.padEnd(12)} ${formatSettingValue(settings, setting)}${source}`;
+          }),
+        ].join("\n"),
+        success: true,
+      };
+    }
+
+    if (name === "reset") {
+      saveTerminalSettings(user, defaultTerminalSettings());
+      return { output: "Terminal settings reset to defaults.", success: true };
+    }
+
+    if (!isSettingName(name)) {
+      return {
+        output: `settings: unknown setting '${name}'. Settings: ${SETTING_NAMES.join(", ")}`,
+        success: false,
+      };
+    }
+
+    if (value.length === 0) {
+      return { output: formatSettingValue(settings, name), success: true };
+    }
+    // Font families may be typed without quotes
+    return setSetting(user, name, value.join(" "), "settings");
+  },
+
+  theme: (args, context) => {
+    const user = context.currentUser;
+    const [name] = args;
+
+    if (!name || name === "list") {
+      const current = loadTerminalSettings(user).theme;
+      return {
+        output: [
+          "Themes:",
+          ...Object.entries(THEMES).map(
+            ([theme, { description }]) =>
+              `${theme === current ? "*" : " "} ${theme.padEnd(14)} ${description}`,
+          ),
+        ].join("\n"),
+        success: true,
+      };
+    }
+
+    return setSetting(user, "theme", name, "theme");
+  },
+};
+
+export const settingsCommandDefinitions = defineCommands(settingsCommands, {
+  settings: {
+    category: "system",
+    summary: "change the terminal's appearance",
+    synopsis: ["settings [NAME [VALUE|default]]", "settings reset"],
+    description: [
+      "Show the terminal settings, show one of them, or change it. Changes",
+      "apply at once and are saved for your account; default puts a",
+      "setting back, and reset puts back all of them.",
+    ],
+    sections: {
+      SETTINGS: [
+        "theme NAME          Color theme, see theme",
+        "fontFamily FONTS    CSS font families, e.g. Fira Code, monospace",
+        "fontSize SIZE       Font size in pixels, 8 to 32",
+        `cursorStyle STYLE   ${CURSOR_STYLES.join(", ")}`,
+        "cursorBlink on|off  Whether the cursor blinks",
+        "scrollback LINES    Lines kept above the screen, up to 100000",
+        "prompt TEMPLATE     The prompt, like PS1 in bash",
+      ],
+      PROMPT: [
+        "\\u user      \\h host       \\w directory   \\W its last part",
+        "\\t time      \\$ % or $      \\e escape      \\\\ backslash",
+        "",
+        "Put the template in single quotes, so the shell keeps its",
+        "backslashes. The default is '\\e[32m\\u@\\h\\e[0m \\$ '",
+      ],
+    },
+    examples: [
+      "settings fontSize 16          Larger text",
+      "settings cursorStyle bar      A thin cursor",
+      "settings prompt '\\t \\w \\$ '   Show the time and directory",
+      "settings prompt default       Back to the usual prompt",
+    ],
+    complete: (partial, context, previous) => {
+      if (previous.length === 0) {
+        return completeWords([...SETTING_NAMES, "reset"])(
+          partial,
+          context,
+          previous,
+        );
+      }
+      if (previous.length > 1) return [];
+      const values: Partial<Record<string, string[]>> = {
+        theme: Object.keys(THEMES),
+        cursorStyle: CURSOR_STYLES,
+        cursorBlink: ["on", "off"],
+      };
+      return completeWords([...(values[previous[0]] || []), "default"])(
+        partial,
+        context,
+        previous,
+      );
+    },
+  },
+  theme: {
+    category: "system",
+    summary: "change the terminal's colors",
+    synopsis: ["theme [list|NAME]"],
+    description: [
+      "List the color themes, or switch to one; the same as settings",
+      "theme NAME. The site theme follows the site's light or dark mode.",
+      "While the site's high contrast mode is on, the terminal uses the",
+      "high-contrast theme whatever is chosen.",
+    ],
+    args: { max: 1 },
+    examples: [
+      "theme              List the themes",
+      "theme dracula      Switch to Dracula",
+      "theme site         Match the site's light or dark mode",
+    ],
+    complete: completeFirst(completeWords(["list", ...Object.keys(THEMES)])),
+  },
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { shareCommands } from "./share-commands";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Share Command", () => {
+  let context: CommandContext;
+
+  const share = async (args: string[]) =>
+    (await shareCommands.share(args, context)) as CommandResult;
+
+  beforeEach(() => {
+    context = {
+      currentDirectory: "/docs",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      history: ["cd /docs", "cat guide.md | head", "share"],
+    };
+  });
+
+  it("links to the last command in the current directory", async () => {
+    const { output, success } = await share([]);
+    expect(success).toBe(true);
+    expect(output).toMatch(
+      /#terminal\?cmd=cat%20guide\.md%20%7C%20head&cwd=\/docs$/,
+    );
+  });
+
+  it("links to a given command, or to the directory only", async () => {
+    expect((await share(["man", "ai"])).output).toMatch(
+      /#terminal\?cmd=man%20ai&cwd=\/docs$/,
+    );
+    expect((await share(["-n"])).output).toMatch(/#terminal\?cwd=\/docs$/);
+  });
+
+  it("refuses commands that links may not run", async () => {
+    context.history = ["rm guide.md", "share"];
+    expect(await share([])).toEqual({
+      output:
+        "share: rm cannot be run from a link. Use share -n for a link to this directory only",
+      success: false,
+    });
+  });
+});
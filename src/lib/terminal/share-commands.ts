@@ -0,0 +1,80 @@
+// share: a link that opens the terminal where you are, running a command
+import type { CommandFunction } from "./commands";
+import {
+  checkDeepLinkCommand,
+  DEEP_LINK_COMMANDS,
+  formatDeepLink,
+  siteAddress,
+} from "./deep-links";
+import { defineCommands } from "./registry";
+
+// The last command before share itself, which is already in the history
+function lastCommand(history: string[]): string | undefined {
+  return [...history]
+    .reverse()
+    .find((line) => line.trim().split(/\s+/)[0] !== "share");
+}
+
+export const shareCommands: Record<string, CommandFunction> = {
+  share: (args, context) => {
+    const withoutCommand = args[0] === "-n";
+    const words = withoutCommand ? args.slice(1) : args;
+    const command = withoutCommand
+      ? undefined
+      : words.length > 0
+        ? words.join(" ")
+        : lastCommand(context.history || []);
+
+    if (command) {
+      const problem = checkDeepLinkCommand(command);
+      if (problem) {
+        return {
+          output: `share: ${problem}. Use share -n for a link to this directory only`,
+          success: false,
+        };
+      }
+    }
+
+    return {
+      output: formatDeepLink(siteAddress(), {
+        command,
+        cwd: context.currentDirectory,
+      }),
+      success: true,
+    };
+  },
+};
+
+export const shareCommandDefinitions = defineCommands(shareCommands, {
+  share: {
+    category: "system",
+    summary: "make a link that runs a command in the terminal",
+    synopsis: ["share [COMMAND...]", "share -n"],
+    description: [
+      "Print a link that opens the terminal in this directory and types",
+      "the command there, then runs it. Without a command, the link runs",
+      "the last one you ran; with -n, it only opens the terminal.",
+      "",
+      "Links come from anyone, so they only run the commands below, which",
+      "show things, and never write to files.",
+    ],
+    sections: {
+      LINKS: [
+        "/#terminal?cmd=man%20ai          Open the terminal and run man ai",
+        "/#terminal?cmd=ls&cwd=/docs      Run ls in /docs",
+        "/?term=goto+papers               Run goto papers",
+        "",
+        "Add typing=off to run the command without typing it out.",
+      ],
+      COMMANDS: Array.from(
+        { length: Math.ceil(DEEP_LINK_COMMANDS.length / 8) },
+        (_, i) => DEEP_LINK_COMMANDS.slice(i * 8, i * 8 + 8).join(", "),
+      ),
+    },
+    examples: [
+      "share                  A link to the last command",
+      "share man ai           A link to man ai",
+      "share -n               A link to this directory",
+    ],
+  },
+});
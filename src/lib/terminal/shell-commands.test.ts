@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { shellCommands, lookupVariable, shellQuote } from "./shell-commands";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Shell Commands", () => {
+  let context: CommandContext;
+
+  const run = (name: string, args: string[]) =>
+    shellCommands[name](args, context) as CommandResult;
+
+  beforeEach(() => {
+    context = {
+      currentDirectory: "/docs",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      env: {},
+      aliases: {},
+    };
+  });
+
+  describe("lookupVariable", () => {
+    it("provides session variables", () => {
+      expect(lookupVariable("USER", context)).toBe("guest");
+      expect(lookupVariable("HOME", context)).toBe("/home/guest");
+      expect(lookupVariable("PWD", context)).toBe("/docs");
+      expect(lookupVariable("?", context)).toBe("0");
+      expect(lookupVariable("MISSING", context)).toBe("");
+    });
+
+    it("lets the environment override USER and HOME but not PWD", () => {
+      context.env = { HOME: "/tmp", PWD: "/elsewhere" };
+      expect(lookupVariable("HOME", context)).toBe("/tmp");
+      expect(lookupVariable("PWD", context)).toBe("/docs");
+    });
+  });
+
+  describe("export, env and unset", () => {
+    it("sets and lists variables", () => {
+      expect(run("export", ["EDITOR=nano", "GREETING=hi there"]).success).toBe(
+        true,
+      );
+      expect(context.env).toEqual({ EDITOR: "nano", GREETING: "hi there" });
+
+      expect(run("export", []).output).toContain("export GREETING='hi there'");
+      expect(run("env", []).output.split("\n")).toEqual([
+        "EDITOR=nano",
+        "GREETING=hi there",
+        "HOME=/home/guest",
+        "PWD=/docs",
+        "USER=guest",
+      ]);
+    });
+
+    it("rejects invalid names", () => {
+      const result = run("export", ["1X=2"]);
+      expect(result.success).toBe(false);
+      expect(result.output).toBe("export: not a valid identifier: '1X'");
+    });
+
+    it("hides the exit status from env", () => {
+      context.env = { "?": "1" };
+      expect(run("env", []).output).not.toContain("?");
+    });
+
+    it("removes variables", () => {
+      context.env = { A: "1", B: "2" };
+      run("unset", ["A"]);
+      expect(context.env).toEqual({ B: "2" });
+    });
+  });
+
+  describe("alias and unalias", () => {
+    it("defines, shows and lists aliases", () => {
+      run("alias", ["gp=goto papers", "ll=ls -la"]);
+      expect(context.aliases).toEqual({ gp: "goto papers", ll: "ls -la" });
+      expect(run("alias", ["gp"]).output).toBe("alias gp='goto papers'");
+      expect(run("alias", []).output).toBe(
+        "alias gp='goto papers'\nalias ll='ls -la'",
+      );
+    });
+
+    it("reports unknown and invalid aliases", () => {
+      expect(run("alias", ["nope"]).output).toBe("alias: nope: not found");
+      expect(run("alias", ["a|b=ls"]).success).toBe(false);
+    });
+
+    it("removes aliases", () => {
+      context.aliases = { a: "ls", b: "pwd" };
+      run("unalias", ["a"]);
+      expect(context.aliases).toEqual({ b: "pwd" });
+      expect(run("unalias", ["a"]).output).toBe("unalias: a: not found");
+      run("unalias", ["-a"]);
+      expect(context.aliases).toEqual({});
+    });
+  });
+
+  it("quotes values only when needed", () => {
+    expect(shellQuote("plain/path.md")).toBe("plain/path.md");
+    expect(shellQuote("it's here")).toBe("'it'\\''s here'");
+    expect(shellQuote("")).toBe("''");
+  });
+
+  describe("history", () => {
+    beforeEach(() => {
+      context.history = ["ls", "cd docs", "cat api.md"];
+    });
+
+    it("numbers entries from the oldest", () => {
+      expect(run("history", []).output).toBe(
+        "  1  ls\n  2  cd docs\n  3  cat api.md",
+      );
+      expect(run("history", ["2"]).output).toBe(
+        "  2  cd docs\n  3  cat api.md",
+      );
+    });
+
+    it("clears and saves the history with -c", () => {
+      expect(run("history", ["-c"]).success).toBe(true);
+      expect(context.history).toEqual([]);
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        "terminal-history-guest",
+        "[]",
+      );
+    });
+
+    it("rejects non-numeric counts", () => {
+      expect(run("history", ["x"]).output).toBe(
+        "history: x: numeric argument required",
+      );
+    });
+  });
+});
@@ -0,0 +1,333 @@
+// Session environment: variables and aliases
+import type { CommandFunction, CommandContext } from "./commands";
+import { getHomePath } from "./users";
+import { saveHistory } from "./history";
+import { defineCommands, type ArgumentCompleter } from "./registry";
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Single-quote a value so it can be pasted back into the shell
+export function shellQuote(value: string): string {
+  return /^[\w@%+=:,./~-]+$/.test(value)
+    ? value
+    : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Variables derived from the session unless the environment overrides them
+function defaultVariables(context: CommandContext): Record<string, string> {
+  return {
+    USER: context.currentUser,
+    HOME: getHomePath(context.currentUser) || "/",
+  };
+}
+
+// Value of $name: PWD, OLDPWD and ? always reflect the session, and $0,
+// $1..., $# and $@ the arguments of the running script or function
+export function lookupVariable(name: string, context: CommandContext): string {
+  const positional = context.positional || [];
+  if (/^[0-9]+$/.test(name)) {
+    return positional[Number(name)] ?? "";
+  }
+  switch (name) {
+    case "#":
+      return String(Math.max(positional.length - 1, 0));
+    case "@":
+      return positional.slice(1).join(" ");
+    case "PWD":
+      return context.currentDirectory;
+    case "OLDPWD":
+      return context.previousDirectory || "";
+    case "?":
+      return context.env?.["?"] || "0";
+  }
+  return context.env?.[name] ?? defaultVariables(context)[name] ?? "";
+}
+
+// Every variable visible to commands, sorted by name
+function environment(context: CommandContext): [string, string][] {
+  const variables: Record<string, string> = {
+    ...defaultVariables(context),
+    ...context.env,
+    PWD: context.currentDirectory,
+  };
+  if (context.previousDirectory) {
+    variables.OLDPWD = context.previousDirectory;
+  }
+
+  return Object.entries(variables)
+    .filter(([name]) => NAME_PATTERN.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+// Copy of a context that follows its own directory and user changes, so
+// later commands in a chain or script run where earlier ones left them
+export function trackSession(context: CommandContext): CommandContext {
+  const tracked: CommandContext = {
+    ...context,
+    setCurrentDirectory: (path: string) => {
+      tracked.previousDirectory = tracked.currentDirectory;
+      tracked.currentDirectory = path;
+      context.setCurrentDirectory(path);
+    },
+    setCurrentUser: (username: string) => {
+      tracked.currentUser = username;
+      context.setCurrentUser(username);
+    },
+  };
+  return tracked;
+}
+
+// Split NAME=value; value is undefined when there is no "="
+export function parseAssignment(word: string): {
+  name: string;
+  value?: string;
+} {
+  const index = word.indexOf("=");
+  return index === -1
+    ? { name: word }
+    : { name: word.slice(0, index), value: word.slice(index + 1) };
+}
+
+export const shellCommands: Record<string, CommandFunction> = {
+  export: (args, context) => {
+    const env = context.env;
+    if (!env) {
+      return { output: "export: no environment available", success: false };
+    }
+
+    if (args.length === 0) {
+      return {
+        output: environment(context)
+          .map(([name, value]) => `export ${name}=${shellQuote(value)}`)
+          .join("\n"),
+        success: true,
+      };
+    }
+
+    const errors: string[] = [];
+    for (const arg of args) {
+      const { name, value } = parseAssignment(arg);
+      if (!NAME_PATTERN.test(name)) {
+        errors.push(`export: not a valid identifier: '${name}'`);
+      } else if (value !== undefined) {
+        env[name] = value;
+      } else if (env[name] === undefined) {
+        env[name] = lookupVariable(name, context);
+      }
+    }
+
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+
+  env: (_args, context) => ({
+    output: environment(context)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("\n"),
+    success: true,
+  }),
+
+  unset: (args, context) => {
+    if (args.length === 0) {
+      return { output: "unset: not enough arguments", success: false };
+    }
+    for (const name of args) {
+      delete context.env?.[name];
+    }
+    return { output: "", success: true };
+  },
+
+  alias: (args, context) => {
+    const aliases = context.aliases;
+    if (!aliases) {
+      return { output: "alias: no aliases available", success: false };
+    }
+
+    const format = (name: string) =>
+      `alias ${name}=${shellQuote(aliases[name])}`;
+
+    if (args.length === 0) {
+      return {
+        output: Object.keys(aliases).sort().map(format).join("\n"),
+        success: true,
+      };
+    }
+
+    const lines: string[] = [];
+    let success = true;
+    for (const arg of args) {
+      const { name, value } = parseAssignment(arg);
+      if (value !== undefined) {
+        if (!name || /[\s/|;&<>'"$]/.test(name)) {
+          lines.push(`alias: invalid alias name: '${name}'`);
+          success = false;
+        } else {
+          aliases[name] = value;
+        }
+      } else if (aliases[name] !== undefined) {
+        lines.push(format(name));
+      } else {
+        lines.push(`alias: ${name}: not found`);
+        success = false;
+      }
+    }
+
+    return { output: lines.join("\n"), success };
+  },
+
+  unalias: (args, context) => {
+    const aliases = context.aliases;
+    if (args.length === 0) {
+      return { output: "Usage: unalias [-a] <name>...", success: false };
+    }
+    if (!aliases) {
+      return { output: "unalias: no aliases available", success: false };
+    }
+
+    if (args.includes("-a")) {
+      for (const name of Object.keys(aliases)) delete aliases[name];
+      return { output: "", success: true };
+    }
+
+    const errors: string[] = [];
+    for (const name of args) {
+      if (aliases[name] === undefined) {
+        errors.push(`unalias: ${name}: not found`);
+      } else {
+        delete aliases[name];
+      }
+    }
+    return { output: errors.join("\n"), success: errors.length === 0 };
+  },
+
+  history: (args, context) => {
+    const history = context.history;
+    if (!history) {
+      return { output: "history: no history available", success: false };
+    }
+
+    if (args[0] === "-c") {
+      history.length = 0;
+      saveHistory(context.currentUser, history);
+      return { output: "", success: true };
+    }
+
+    let count = history.length;
+    if (args.length > 0) {
+      if (!/^\d+$/.test(args[0])) {
+        return {
+          output: `history: ${args[0]}: numeric argument required`,
+          success: false,
+        };
+      }
+      count = Math.min(parseInt(args[0], 10), history.length);
+    }
+
+    const first = history.length - count;
+    const width = String(history.length).length;
+    return {
+      output: history
+        .slice(first)
+        .map((line, i) => `  ${String(first + i + 1).padStart(width)}  ${line}`)
+        .join("\n"),
+      success: true,
+    };
+  },
+};
+
+// Complete the names in a session record, such as variables or aliases
+function completeNames(
+  record: (context: CommandContext) => Record<string, string> | undefined,
+): ArgumentCompleter {
+  return (partial, context) =>
+    Object.keys(record(context) || {})
+      .filter((name) => name !== "?" && name.startsWith(partial))
+      .sort();
+}
+
+export const shellCommandDefinitions = defineCommands(shellCommands, {
+  export: {
+    category: "posix",
+    summary: "set environment variables",
+    synopsis: ["export [NAME[=VALUE]...]"],
+    description: [
+      "Set each NAME to VALUE for the rest of the session. Variables are",
+      "expanded in later commands with $NAME or ${NAME}. Without",
+      "arguments, list all variables. NAME=VALUE on its own also sets a",
+      "variable.",
+      "",
+      "Built-in variables: $USER, $HOME, $PWD, $OLDPWD and $? (0 if the",
+      "last command succeeded, 1 if it failed).",
+    ],
+    examples: [
+      "export EDITOR=nano      Set EDITOR",
+      "echo $HOME              Print your home directory",
+      "ls; echo $?             Print the exit status of ls",
+    ],
+  },
+  env: {
+    category: "posix",
+    summary: "print the environment",
+    synopsis: ["env"],
+    description: ["Print every variable as NAME=VALUE, sorted by name."],
+    examples: ["env | grep HOME         Show HOME"],
+  },
+  unset: {
+    category: "posix",
+    complete: completeNames((context) => context.env),
+    summary: "remove environment variables",
+    synopsis: ["unset NAME..."],
+    description: ["Remove each NAME from the environment."],
+    examples: ["unset EDITOR            Remove EDITOR"],
+  },
+  alias: {
+    category: "posix",
+    summary: "define command shortcuts",
+    synopsis: ["alias [NAME[=COMMAND]...]"],
+    description: [
+      "Make NAME run COMMAND, followed by any arguments given to NAME.",
+      "COMMAND may contain pipes and chains. Without arguments, list all",
+      "aliases. Put aliases in ~/.profile to keep them across logins.",
+    ],
+    examples: [
+      "alias gp='goto papers'  Define gp",
+      "alias ll='ls -la'       Define ll",
+      "alias gp                Show the definition of gp",
+    ],
+  },
+  unalias: {
+    category: "posix",
+    options: [{ flag: "-a", description: "Remove every alias" }],
+    complete: completeNames((context) => context.aliases),
+    summary: "remove command shortcuts",
+    synopsis: ["unalias [-a] NAME..."],
+    description: ["Remove each alias NAME, or every alias with -a."],
+    examples: ["unalias gp              Remove gp"],
+  },
+  history: {
+    category: "posix",
+    options: [{ flag: "-c", description: "Clear the history" }],
+    args: { max: 1 },
+    summary: "show or clear the command history",
+    synopsis: ["history [N]", "history -c"],
+    description: [
+      "List the commands you ran, numbered from the oldest, or only",
+      "the last N. History is saved per user in this browser, keeps",
+      "the most recent 500 commands and lists repeated commands once.",
+    ],
+    sections: {
+      EXPANSION: [
+        "!!        The previous command",
+        "!N        Command number N",
+        "!-N       The command N lines back",
+        "!prefix   The latest command starting with prefix",
+        "",
+        "Press Ctrl+R and type to search backwards; Ctrl+R again finds",
+        "older matches, Enter runs the match and Ctrl+G cancels.",
+      ],
+    },
+    examples: [
+      "history 10              Show the last 10 commands",
+      "sudo !!                 Run the previous command with sudo",
+    ],
+  },
+});
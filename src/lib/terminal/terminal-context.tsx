@@ -9,6 +9,14 @@ import React, {
   useCallback,
 } from "react";
 import { logError } from "@/lib/utils/dev-logger";
+import { parseDeepLink, removeDeepLink, type DeepLink } from "./deep-links";
+import {
+  activePane,
+  createLayout,
+  restoreLayout,
+  updatePane,
+  type TerminalLayout,
+} from "./layout";
 
 type WindowState = "normal" | "minimized" | "maximized";
 
@@ -31,7 +39,8 @@ interface TerminalState {
     position: Position;
     size: Size;
   };
-  currentUser: string;
+  currentUser: string; // User of the focused pane
+  layout: TerminalLayout;
 }
 
 interface TerminalContextType extends TerminalState {
@@ -41,11 +50,18 @@ interface TerminalContextType extends TerminalState {
   setPosition: (position: Position) => void;
   setSize: (size: Size) => void;
   setCurrentUser: (username: string) => void;
+  // Change the tabs and panes; a change leaving no pane closes the window
+  updateLayout: (
+    change: (layout: TerminalLayout) => TerminalLayout | null,
+  ) => void;
   minimize: () => void;
   maximize: () => void;
   restore: () => void;
   isDragging: boolean;
   setIsDragging: (value: boolean) => void;
+  // A link's command, waiting for the focused pane to type and run it
+  deepLink: DeepLink | null;
+  clearDeepLink: () => void;
 }
 
 const STORAGE_KEY = "terminal-state";
@@ -92,6 +108,9 @@ function loadStoredState(): Partial<TerminalState> {
           Math.min(parsed.position.y, window.innerHeight - 100),
         );
       }
+      parsed.layout =
+        restoreLayout(parsed.layout) ||
+        createLayout(parsed.currentUser || "guest");
       return parsed;
     }
   } catch (error) {
@@ -182,9 +201,10 @@ export function TerminalProvider({ children }: { children: React.ReactNode }) {
   const [lastNormalState, setLastNormalState] = useState(
     storedState.lastNormalState,
   );
-  const [currentUser, setCurrentUser] = useState<string>(
-    storedState.currentUser || "guest",
+  const [layout, setLayout] = useState<TerminalLayout>(
+    () => storedState.layout || createLayout("guest"),
   );
+  const currentUser = activePane(layout).user;
   const [isDragging, setIsDragging] = useState(false);
 
   // Use refs to track if we're already in a resize operation to prevent cascading updates
@@ -262,6 +282,7 @@ export function TerminalProvider({ children }: { children: React.ReactNode }) {
             size,
             lastNormalState,
             currentUser,
+            layout,
           };
           saveState(state);
         },
@@ -281,6 +302,7 @@ export function TerminalProvider({ children }: { children: React.ReactNode }) {
     size,
     lastNormalState,
     currentUser,
+    layout,
     isDragging,
   ]);
 
@@ -343,6 +365,56 @@ export function TerminalProvider({ children }: { children: React.ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, windowState, isDragging]); // position/size intentionally excluded to prevent loops
 
+  // Changes apply to the latest layout, even several in one event
+  const layoutRef = useRef(layout);
+  const updateLayout = useCallback(
+    (change: (layout: TerminalLayout) => TerminalLayout | null) => {
+      const current = layoutRef.current;
+      let next = change(current);
+      if (!next) {
+        // The last session ended: the next window starts afresh
+        next = createLayout(activePane(current).user);
+        setIsOpen(false);
+      }
+      layoutRef.current = next;
+      setLayout(next);
+    },
+    [],
+  );
+
+  const setCurrentUser = useCallback(
+    (username: string) =>
+      updateLayout((current) =>
+        updatePane(current, activePane(current).id, { user: username }),
+      ),
+    [updateLayout],
+  );
+
+  // Links like /#terminal?cmd=man%20ai open the terminal, when the page
+  // loads or its hash changes. The link is taken off the address, so
+  // reloading the page does not run the command again
+  const [deepLink, setDeepLink] = useState<DeepLink | null>(null);
+  const clearDeepLink = useCallback(() => setDeepLink(null), []);
+
+  useEffect(() => {
+    const openDeepLink = () => {
+      const link = parseDeepLink(window.location);
+      if (!link) return;
+      window.history.replaceState(
+        window.history.state,
+        "",
+        removeDeepLink(window.location.href),
+      );
+      setIsOpen(true);
+      setWindowState((state) => (state === "minimized" ? "normal" : state));
+      setDeepLink(link);
+    };
+
+    openDeepLink();
+    window.addEventListener("hashchange", openDeepLink);
+    return () => window.removeEventListener("hashchange", openDeepLink);
+  }, []);
+
   const toggleTerminal = () => {
     setIsOpen((prev) => !prev);
   };
@@ -379,17 +451,21 @@ export function TerminalProvider({ children }: { children: React.ReactNode }) {
     size,
     lastNormalState,
     currentUser,
+    layout,
     setIsOpen,
     toggleTerminal,
     setWindowState,
     setPosition,
     setSize,
     setCurrentUser,
+    updateLayout,
     minimize,
     maximize,
     restore,
     isDragging,
     setIsDragging,
+    deepLink,
+    clearDeepLink,
   };
 
   return (
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  defaultTerminalSettings,
+  formatPrompt,
+  loadTerminalSettings,
+  parseSettingValue,
+  resolvePalette,
+  saveTerminalSettings,
+  SETTINGS_CHANGE_EVENT,
+  THEMES,
+} from "./terminal-settings";
+
+describe("Terminal Settings", () => {
+  it("saves settings per user and tells the panes", () => {
+    const dispatch = vi.spyOn(window, "dispatchEvent");
+    const settings = { ...defaultTerminalSettings(), theme: "dracula" };
+
+    saveTerminalSettings("alice", settings);
+
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      "terminal-settings-alice",
+      JSON.stringify(settings),
+    );
+    const event = dispatch.mock.calls[0][0] as CustomEvent;
+    expect(event.type).toBe(SETTINGS_CHANGE_EVENT);
+    expect(event.detail).toEqual({ username: "alice" });
+  });
+
+  it("drops stored values that are not accepted", () => {
+    vi.mocked(localStorage.getItem).mockReturnValueOnce(
+      JSON.stringify({
+        theme: "neon",
+        fontSize: 99,
+        cursorStyle: "bar",
+        cursorBlink: false,
+        prompt: "\\w > ",
+      }),
+    );
+
+    expect(loadTerminalSettings("alice")).toEqual({
+      ...defaultTerminalSettings(),
+      cursorStyle: "bar",
+      cursorBlink: false,
+      prompt: "\\w > ",
+    });
+  });
+
+  it("parses values or explains what is accepted", () => {
+    expect(parseSettingValue("fontSize", "16")).toEqual({ value: 16 });
+    expect(parseSettingValue("scrollback", "1.5")).toEqual({
+      error: "scrollback must be an integer from 0 to 100000",
+    });
+    expect(parseSettingValue("cursorBlink", "off")).toEqual({ value: false });
+    expect(parseSettingValue("cursorStyle", "beam")).toEqual({
+      error: "cursorStyle must be block, underline, bar",
+    });
+    expect(parseSettingValue("prompt", "a\nb")).toHaveProperty("error");
+  });
+
+  it("follows the site's light, dark and high contrast modes", () => {
+    const light = resolvePalette("site", { dark: false, highContrast: false });
+    const dark = resolvePalette("site", { dark: true, highContrast: false });
+    expect(light.background).not.toBe(dark.background);
+
+    expect(resolvePalette("dracula", { dark: true, highContrast: true })).toBe(
+      THEMES["high-contrast"].palette,
+    );
+    expect(
+      resolvePalette("missing", { dark: false, highContrast: false }),
+    ).toBe(THEMES.classic.palette);
+  });
+
+  it("expands prompt templates", () => {
+    const values = {
+      user: "alice",
+      cwd: "/home/alice/docs",
+      home: "/home/alice",
+      date: new Date(2024, 4, 1, 9, 5, 3),
+    };
+
+    expect(formatPrompt(defaultTerminalSettings().prompt, values)).toBe(
+      "\x1b[32malice@Claret.Tech\x1b[0m $ ",
+    );
+    expect(formatPrompt("[\\t] \\W:\\w \\$\\\\ \\q", values)).toBe(
+      "[09:05:03] docs:~/docs $\\ \\q",
+    );
+    expect(
+      formatPrompt("\\[\\e[1m\\]\\w \\$ ", { user: "guest", cwd: "/" }),
+    ).toBe("\x1b[1m/ % ");
+  });
+});
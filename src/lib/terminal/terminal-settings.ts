@@ -0,0 +1,397 @@
+// Appearance of the terminal, saved per user: the color theme, font,
+// cursor, scrollback and the prompt template
+import { logError } from "@/lib/utils/dev-logger";
+
+const STORAGE_PREFIX = "terminal-settings-";
+
+// Dispatched on window when a user's settings are saved, so every pane
+// of that user can apply them
+export const SETTINGS_CHANGE_EVENT = "terminal-settings-change";
+
+export type CursorStyle = "block" | "underline" | "bar";
+
+export interface TerminalSettings {
+  theme: string;
+  fontFamily: string;
+  fontSize: number;
+  cursorStyle: CursorStyle;
+  cursorBlink: boolean;
+  scrollback: number;
+  prompt: string;
+}
+
+export type SettingName = keyof TerminalSettings;
+
+// Colors of an xterm theme; the ANSI colors are optional and fall back
+// to xterm's own
+export interface Palette {
+  background: string;
+  foreground: string;
+  cursor: string;
+  cursorAccent: string;
+  selectionBackground: string;
+  selectionForeground?: string;
+  black?: string;
+  red?: string;
+  green?: string;
+  yellow?: string;
+  blue?: string;
+  magenta?: string;
+  cyan?: string;
+  white?: string;
+  brightBlack?: string;
+  brightRed?: string;
+  brightGreen?: string;
+  brightYellow?: string;
+  brightBlue?: string;
+  brightMagenta?: string;
+  brightCyan?: string;
+  brightWhite?: string;
+}
+
+const CLASSIC: Palette = {
+  background: "#000000",
+  foreground: "#00f900",
+  cursor: "#00f900",
+  cursorAccent: "#000000",
+  selectionBackground: "#00f900",
+  selectionForeground: "#000000",
+};
+
+const SOLARIZED: Palette = {
+  background: "#002b36",
+  foreground: "#839496",
+  cursor: "#93a1a1",
+  cursorAccent: "#002b36",
+  selectionBackground: "#073642",
+  black: "#073642",
+  red: "#dc322f",
+  green: "#859900",
+  yellow: "#b58900",
+  blue: "#268bd2",
+  magenta: "#d33682",
+  cyan: "#2aa198",
+  white: "#eee8d5",
+  brightBlack: "#586e75",
+  brightRed: "#cb4b16",
+  brightGreen: "#586e75",
+  brightYellow: "#657b83",
+  brightBlue: "#839496",
+  brightMagenta: "#6c71c4",
+  brightCyan: "#93a1a1",
+  brightWhite: "#fdf6e3",
+};
+
+const DRACULA: Palette = {
+  background: "#282a36",
+  foreground: "#f8f8f2",
+  cursor: "#f8f8f2",
+  cursorAccent: "#282a36",
+  selectionBackground: "#44475a",
+  black: "#21222c",
+  red: "#ff5555",
+  green: "#50fa7b",
+  yellow: "#f1fa8c",
+  blue: "#bd93f9",
+  magenta: "#ff79c6",
+  cyan: "#8be9fd",
+  white: "#f8f8f2",
+  brightBlack: "#6272a4",
+  brightRed: "#ff6e6e",
+  brightGreen: "#69ff94",
+  brightYellow: "#ffffa5",
+  brightBlue: "#d6acff",
+  brightMagenta: "#ff92df",
+  brightCyan: "#a4ffff",
+  brightWhite: "#ffffff",
+};
+
+const HIGH_CONTRAST: Palette = {
+  background: "#000000",
+  foreground: "#ffffff",
+  cursor: "#ffff00",
+  cursorAccent: "#000000",
+  selectionBackground: "#ffffff",
+  selectionForeground: "#000000",
+  black: "#000000",
+  red: "#ff6060",
+  green: "#00ff00",
+  yellow: "#ffff00",
+  blue: "#80b0ff",
+  magenta: "#ff80ff",
+  cyan: "#00ffff",
+  white: "#ffffff",
+  brightBlack: "#c0c0c0",
+  brightRed: "#ff8080",
+  brightGreen: "#80ff80",
+  brightYellow: "#ffff80",
+  brightBlue: "#a0c8ff",
+  brightMagenta: "#ffa0ff",
+  brightCyan: "#80ffff",
+  brightWhite: "#ffffff",
+};
+
+// The site's light and dark themes, for the "site" theme
+const SITE_LIGHT: Palette = {
+  background: "#ffffff",
+  foreground: "#1f2937",
+  cursor: "#1f2937",
+  cursorAccent: "#ffffff",
+  selectionBackground: "#bfdbfe",
+  black: "#1f2937",
+  red: "#b91c1c",
+  green: "#15803d",
+  yellow: "#a16207",
+  blue: "#1d4ed8",
+  magenta: "#a21caf",
+  cyan: "#0e7490",
+  white: "#d1d5db",
+  brightBlack: "#6b7280",
+  brightRed: "#dc2626",
+  brightGreen: "#16a34a",
+  brightYellow: "#ca8a04",
+  brightBlue: "#2563eb",
+  brightMagenta: "#c026d3",
+  brightCyan: "#0891b2",
+  brightWhite: "#f9fafb",
+};
+
+const SITE_DARK: Palette = {
+  background: "#0a0a0a",
+  foreground: "#e5e7eb",
+  cursor: "#e5e7eb",
+  cursorAccent: "#0a0a0a",
+  selectionBackground: "#374151",
+  black: "#1f2937",
+  red: "#f87171",
+  green: "#4ade80",
+  yellow: "#facc15",
+  blue: "#60a5fa",
+  magenta: "#e879f9",
+  cyan: "#22d3ee",
+  white: "#e5e7eb",
+  brightBlack: "#6b7280",
+  brightRed: "#fca5a5",
+  brightGreen: "#86efac",
+  brightYellow: "#fde047",
+  brightBlue: "#93c5fd",
+  brightMagenta: "#f0abfc",
+  brightCyan: "#67e8f9",
+  brightWhite: "#ffffff",
+};
+
+export const THEMES: Record<
+  string,
+  { description: string; palette: Palette | null }
+> = {
+  classic: { description: "green on black", palette: CLASSIC },
+  solarized: { description: "Solarized dark", palette: SOLARIZED },
+  dracula: { description: "Dracula", palette: DRACULA },
+  "high-contrast": {
+    description: "white on black, for the high contrast mode",
+    palette: HIGH_CONTRAST,
+  },
+  site: { description: "follows the site's light or dark mode", palette: null },
+};
+
+export const DEFAULT_PROMPT = "\\e[32m\\u@\\h\\e[0m \\$ ";
+
+const HOSTNAME = "Claret.Tech";
+
+export const CURSOR_STYLES: CursorStyle[] = ["block", "underline", "bar"];
+
+// Accepted values of the numeric settings
+const LIMITS: Record<"fontSize" | "scrollback", { min: number; max: number }> =
+  {
+    fontSize: { min: 8, max: 32 },
+    scrollback: { min: 0, max: 100000 },
+  };
+
+export const SETTING_NAMES: SettingName[] = [
+  "theme",
+  "fontFamily",
+  "fontSize",
+  "cursorStyle",
+  "cursorBlink",
+  "scrollback",
+  "prompt",
+];
+
+export function isSettingName(name: string): name is SettingName {
+  return (SETTING_NAMES as string[]).includes(name);
+}
+
+export function defaultTerminalSettings(): TerminalSettings {
+  return {
+    theme: "classic",
+    fontFamily:
+      'JetBrains Mono, Inconsolata, Consolas, "Courier New", monospace',
+    fontSize: 14,
+    cursorStyle: "block",
+    cursorBlink: true,
+    scrollback: 1000,
+    prompt: DEFAULT_PROMPT,
+  };
+}
+
+// Read a setting's value as typed, or explain what it accepts
+export function parseSettingValue<Name extends SettingName>(
+  name: Name,
+  value: string,
+): { value: TerminalSettings[Name] } | { error: string } {
+  const result = (parsed: unknown) => ({
+    value: parsed as TerminalSettings[Name],
+  });
+
+  switch (name) {
+    case "theme":
+      return Object.hasOwn(THEMES, value)
+        ? result(value)
+        : {
+            error: `unknown theme '${value}'. Themes: ${Object.keys(THEMES).join(", ")}`,
+          };
+    case "cursorStyle":
+      return (CURSOR_STYLES as string[]).includes(value)
+        ? result(value)
+        : { error: `cursorStyle must be ${CURSOR_STYLES.join(", ")}` };
+    case "cursorBlink":
+      if (value === "on" || value === "true") return result(true);
+      if (value === "off" || value === "false") return result(false);
+      return { error: "cursorBlink must be on or off" };
+    case "fontSize":
+    case "scrollback": {
+      const { min, max } = LIMITS[name as "fontSize" | "scrollback"];
+      const number = Number(value);
+      if (
+        value.trim() === "" ||
+        !Number.isInteger(number) ||
+        number < min ||
+        number > max
+      ) {
+        return { error: `${name} must be an integer from ${min} to ${max}` };
+      }
+      return result(number);
+    }
+    default:
+      // The prompt is drawn on the input's row, so it is one line
+      if (!value.trim() || /[\r\n]/.test(value)) {
+        return { error: `${name} must be a non-empty line of text` };
+      }
+      return result(value);
+  }
+}
+
+// The value as settings shows it, and as it is typed back
+export function formatSettingValue(
+  settings: TerminalSettings,
+  name: SettingName,
+): string {
+  const value = settings[name];
+  if (typeof value === "boolean") return value ? "on" : "off";
+  return String(value);
+}
+
+export function loadTerminalSettings(username: string): TerminalSettings {
+  const settings = defaultTerminalSettings();
+  if (typeof window === "undefined") return settings;
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_PREFIX + username) || "{}",
+    );
+    // Values that are no longer accepted are dropped, keeping the default
+    for (const name of SETTING_NAMES) {
+      if (stored[name] === undefined) continue;
+      const value =
+        typeof stored[name] === "boolean"
+          ? stored[name]
+            ? "on"
+            : "off"
+          : String(stored[name]);
+      const parsed = parseSettingValue(name, value);
+      if ("value" in parsed) {
+        (settings as unknown as Record<string, unknown>)[name] = parsed.value;
+      }
+    }
+  } catch (error) {
+    logError(error, "Terminal Settings Load");
+  }
+  return settings;
+}
+
+export function saveTerminalSettings(
+  username: string,
+  settings: TerminalSettings,
+): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + username, JSON.stringify(settings));
+    window.dispatchEvent(
+      new CustomEvent(SETTINGS_CHANGE_EVENT, { detail: { username } }),
+    );
+  } catch (error) {
+    logError(error, "Terminal Settings Save");
+  }
+}
+
+// Colors of a theme. The site's high contrast mode overrides the chosen
+// theme, and the site theme follows its light or dark mode
+export function resolvePalette(
+  theme: string,
+  site: { dark: boolean; highContrast: boolean },
+): Palette {
+  if (site.highContrast) return HIGH_CONTRAST;
+  if (theme === "site") return site.dark ? SITE_DARK : SITE_LIGHT;
+  return THEMES[theme]?.palette || CLASSIC;
+}
+
+interface PromptValues {
+  user: string;
+  cwd: string;
+  home?: string;
+  date?: Date;
+}
+
+// Expand a prompt template like bash's PS1:
+//   \u user, \h host, \w directory (~ for home), \W its last part,
+//   \t time as HH:MM:SS, \$ % for guest and $ otherwise, \e escape,
+//   \\ a backslash. \[ and \] are accepted and dropped
+export function formatPrompt(
+  template: string,
+  { user, cwd, home, date = new Date() }: PromptValues,
+): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const directory =
+    home && (cwd === home || cwd.startsWith(`${home}/`))
+      ? `~${cwd.slice(home.length)}`
+      : cwd;
+
+  return template.replace(/\\(.)/g, (escape, code: string) => {
+    switch (code) {
+      case "u":
+        return user;
+      case "h":
+        return HOSTNAME;
+      case "w":
+        return directory;
+      case "W":
+        return directory === "/"
+          ? "/"
+          : directory.slice(directory.lastIndexOf("/") + 1);
+      case "t":
+        return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+      case "$":
+        return user === "guest" ? "%" : "$";
+      case "e":
+        return "\x1b";
+      case "\\":
+        return "\\";
+      case "[":
+      case "]":
+        return "";
+      default:
+        return escape;
+    }
+  });
+}
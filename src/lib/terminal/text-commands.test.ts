@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { textCommands } from "./text-commands";
+import type { CommandContext, CommandResult } from "./commands";
+
+vi.mock("./fileSystem", () => ({
+  resolvePath: vi.fn((current: string, target: string) =>
+    target.startsWith("/") ? target : `${current}/${target}`.replace("//", "/"),
+  ),
+  getFileAtPath: vi.fn((path: string) => {
+    const files: Record<string, string> = {
+      "/fruits.txt": "banana\napple\ncherry\napple\n",
+      "/numbers.txt": "10\n9\n100\n",
+      "/lines.txt": Array.from({ length: 15 }, (_, i) => `line ${i + 1}`).join(
+        "\n",
+      ),
+    };
+    if (path === "/docs") {
+      return { type: "directory", name: "docs", children: {} };
+    }
+    if (files[path] !== undefined) {
+      return { type: "file", name: path.slice(1), content: files[path] };
+    }
+    return null;
+  }),
+}));
+
+const run = async (
+  name: string,
+  args: string[],
+  context: Partial<CommandContext> = {},
+) =>
+  (await textCommands[name](args, {
+    currentDirectory: "/",
+    currentUser: "guest",
+    setCurrentDirectory: vi.fn(),
+    setCurrentUser: vi.fn(),
+    addToHistory: vi.fn(),
+    clearTerminal: vi.fn(),
+    closeTerminal: vi.fn(),
+    ...context,
+  })) as CommandResult;
+
+describe("Text Processing Commands", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("grep", () => {
+    it("prints matching lines of a file", async () => {
+      const result = await run("grep", ["an", "fruits.txt"]);
+      expect(result.output).toBe("banana");
+      expect(result.success).toBe(true);
+    });
+
+    it("supports regular expressions and -i/-n/-v", async () => {
+      expect((await run("grep", ["^A", "-i", "fruits.txt"])).output).toBe(
+        "apple\napple",
+      );
+      expect((await run("grep", ["-n", "apple", "fruits.txt"])).output).toBe(
+        "2:apple\n4:apple",
+      );
+      expect((await run("grep", ["-v", "p", "fruits.txt"])).output).toBe(
+        "banana\ncherry",
+      );
+    });
+
+    it("filters piped input and ignores color codes when matching", async () => {
+      const result = await run("grep", ["System"], {
+        stdin: "\x1b[1mSystem Commands:\x1b[0m\n  help\n  ls",
+      });
+      expect(result.output).toBe("\x1b[1mSystem Commands:\x1b[0m");
+    });
+
+    it("prefixes file names when searching several files", async () => {
+      const result = await run("grep", ["1", "numbers.txt", "lines.txt"]);
+      expect(result.output.split("\n")[0]).toBe("numbers.txt:10");
+      expect(result.output).toContain("lines.txt:line 15");
+    });
+
+    it("fails when nothing matches", async () => {
+      const result = await run("grep", ["kiwi", "fruits.txt"]);
+      expect(result.success).toBe(false);
+      expect(result.output).toBe("");
+    });
+
+    it("reports usage, invalid patterns and missing files", async () => {
+      expect((await run("grep", [])).output).toContain("Usage: grep");
+      expect((await run("grep", ["(", "fruits.txt"])).output).toContain(
+        "invalid regular expression",
+      );
+      expect((await run("grep", ["x", "nope"])).output).toBe(
+        "grep: nope: No such file or directory",
+      );
+      expect((await run("grep", ["-z", "x"])).output).toBe(
+        "grep: invalid option -- 'z'",
+      );
+    });
+  });
+
+  describe("head and tail", () => {
+    it("default to ten lines", async () => {
+      const head = await run("head", ["lines.txt"]);
+      expect(head.output.split("\n")).toHaveLength(10);
+      expect(head.output.split("\n")[0]).toBe("line 1");
+
+      const tail = await run("tail", ["lines.txt"]);
+      expect(tail.output.split("\n")).toHaveLength(10);
+      expect(tail.output.split("\n")[9]).toBe("line 15");
+    });
+
+    it("accept -n N, -nN and -N", async () => {
+      expect((await run("head", ["-n", "2", "fruits.txt"])).output).toBe(
+        "banana\napple",
+      );
+      expect((await run("tail", ["-n1", "fruits.txt"])).output).toBe("apple");
+      expect((await run("head", ["-3"], { stdin: "a\nb\nc\nd" })).output).toBe(
+        "a\nb\nc",
+      );
+      expect((await run("tail", ["-n", "0", "fruits.txt"])).output).toBe("");
+    });
+
+    it("print headers for several files", async () => {
+      const result = await run("head", [
+        "-n",
+        "1",
+        "fruits.txt",
+        "numbers.txt",
+      ]);
+      expect(result.output).toBe(
+        "==> fruits.txt <==\nbanana\n==> numbers.txt <==\n10",
+      );
+    });
+
+    it("reject invalid counts and missing input", async () => {
+      expect((await run("head", ["-n", "x", "fruits.txt"])).output).toBe(
+        "head: invalid number of lines: 'x'",
+      );
+      expect((await run("tail", [])).output).toBe("tail: missing file operand");
+    });
+  });
+
+  describe("wc", () => {
+    it("counts lines, words and bytes", async () => {
+      const result = await run("wc", ["fruits.txt"]);
+      expect(result.output.trim().split(/\s+/)).toEqual([
+        "4",
+        "4",
+        "26",
+        "fruits.txt",
+      ]);
+    });
+
+    it("prints only the selected counts for piped input", async () => {
+      const result = await run("wc", ["-l"], { stdin: "a b\nc" });
+      expect(result.output.trim()).toBe("2");
+    });
+
+    it("prints a total for several files", async () => {
+      const result = await run("wc", ["-w", "fruits.txt", "numbers.txt"]);
+      expect(result.output.split("\n")[2].trim()).toBe("7 total");
+    });
+  });
+
+  describe("sort and uniq", () => {
+    it("sorts lines alphabetically, numerically and in reverse", async () => {
+      expect((await run("sort", ["fruits.txt"])).output).toBe(
+        "apple\napple\nbanana\ncherry",
+      );
+      expect((await run("sort", ["-n", "numbers.txt"])).output).toBe(
+        "9\n10\n100",
+      );
+      expect((await run("sort", ["-ru", "fruits.txt"])).output).toBe(
+        "cherry\nbanana\napple",
+      );
+    });
+
+    it("collapses adjacent duplicates", async () => {
+      const stdin = "a\na\nb\na";
+      expect((await run("uniq", [], { stdin })).output).toBe("a\nb\na");
+      expect((await run("uniq", ["-c"], { stdin })).output).toBe(
+        "      2 a\n      1 b\n      1 a",
+      );
+      expect((await run("uniq", ["-d"], { stdin })).output).toBe("a");
+    });
+  });
+
+  describe("less", () => {
+    it("prints text directly without an interactive terminal", async () => {
+      const result = await run("less", ["fruits.txt"]);
+      expect(result.output).toBe("banana\napple\ncherry\napple");
+    });
+
+    it("pages long text using the terminal height", async () => {
+      const writer = vi.fn();
+      const keys = [" ", "q"];
+      const readKey = vi.fn(() => Promise.resolve(keys.shift() || "q"));
+
+      const result = await run("less", ["lines.txt"], {
+        terminalRows: 6,
+        writer,
+        readKey,
+      });
+
+      expect(result.output).toBe("");
+      expect(readKey).toHaveBeenCalledTimes(2);
+
+      const screens = writer.mock.calls.map(([text]) => text as string);
+      expect(screens[0]).toContain("\x1b[?1049h");
+      expect(screens[1]).toContain("line 5");
+      expect(screens[1]).not.toContain("line 6");
+      expect(screens[2]).toContain("line 6");
+      expect(screens[2]).toContain("line 10");
+      expect(screens[screens.length - 1]).toContain("\x1b[?1049l");
+    });
+
+    it("reports missing files", async () => {
+      const result = await run("less", ["nope"]);
+      expect(result.success).toBe(false);
+      expect(result.output).toBe("less: nope: No such file or directory");
+    });
+  });
+});
@@ -0,0 +1,497 @@
+// Text-processing commands that work on files and piped input
+import type { CommandFunction, CommandContext } from "./commands";
+import { getFileAtPath, resolvePath } from "./fileSystem";
+import { stripAnsi } from "./ansi";
+import { completePaths, defineCommands } from "./registry";
+
+interface InputSource {
+  name: string | null; // null for piped input
+  text: string;
+}
+
+interface ParsedOptions {
+  flags: Set<string>;
+  values: Record<string, string>;
+  operands: string[];
+  error?: string;
+}
+
+// Parse single-letter flags (-in), flags with values (-n 5, -n5) and -NUM
+function parseOptions(
+  command: string,
+  args: string[],
+  allowed: string,
+  withValue = "",
+): ParsedOptions {
+  const parsed: ParsedOptions = { flags: new Set(), values: {}, operands: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--") {
+      parsed.operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      parsed.operands.push(arg);
+      continue;
+    }
+    if (/^-\d+$/.test(arg) && withValue.includes("n")) {
+      parsed.values.n = arg.slice(1);
+      continue;
+    }
+
+    for (let j = 1; j < arg.length; j++) {
+      const flag = arg[j];
+      if (withValue.includes(flag)) {
+        const value = arg.slice(j + 1) || args[++i];
+        if (value === undefined) {
+          parsed.error = `${command}: option requires an argument -- '${flag}'`;
+          return parsed;
+        }
+        parsed.values[flag] = value;
+        break;
+      }
+      if (!allowed.includes(flag)) {
+        parsed.error = `${command}: invalid option -- '${flag}'`;
+        return parsed;
+      }
+      parsed.flags.add(flag);
+    }
+  }
+
+  return parsed;
+}
+
+// Read the named files, or the piped input when no file is given
+function readInputs(
+  command: string,
+  files: string[],
+  context: CommandContext,
+): { sources: InputSource[]; errors: string[] } {
+  if (files.length === 0) {
+    if (context.stdin === undefined) {
+      return { sources: [], errors: [`${command}: missing file operand`] };
+    }
+    return { sources: [{ name: null, text: context.stdin }], errors: [] };
+  }
+
+  const sources: InputSource[] = [];
+  const errors: string[] = [];
+
+  for (const filename of files) {
+    const file = getFileAtPath(resolvePath(context.currentDirectory, filename));
+
+    if (!file) {
+      errors.push(`${command}: ${filename}: No such file or directory`);
+    } else if (file.type === "directory") {
+      errors.push(`${command}: ${filename}: Is a directory`);
+    } else {
+      sources.push({ name: filename, text: file.content || "" });
+    }
+  }
+
+  return { sources, errors };
+}
+
+// Split text into lines, ignoring the final newline
+function toLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function parseCount(command: string, value: string | undefined) {
+  if (value === undefined) return { count: 10 };
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    return { error: `${command}: invalid number of lines: '${value}'` };
+  }
+  return { count };
+}
+
+// Shared implementation of head and tail
+function sliceLines(command: "head" | "tail"): CommandFunction {
+  return (args, context) => {
+    const options = parseOptions(command, args, "", "n");
+    if (options.error) return { output: options.error, success: false };
+
+    const { count, error } = parseCount(command, options.values.n);
+    if (error !== undefined) return { output: error, success: false };
+
+    const { sources, errors } = readInputs(command, options.operands, context);
+    const outputs = sources.map(({ name, text }) => {
+      const lines = toLines(text);
+      const body = (
+        command === "head"
+          ? lines.slice(0, count)
+          : lines.slice(Math.max(0, lines.length - count))
+      ).join("\n");
+      return sources.length > 1 ? `==> ${name} <==\n${body}` : body;
+    });
+
+    return {
+      output: [...errors, ...outputs].join("\n"),
+      success: errors.length === 0,
+    };
+  };
+}
+
+// Page through text in the alternate screen, one screenful at a time
+async function page(
+  lines: string[],
+  context: CommandContext,
+  readKey: () => Promise<string>,
+  writer: (text: string) => void,
+): Promise<void> {
+  const pageSize = Math.max(1, (context.terminalRows || 24) - 1);
+  const lastTop = Math.max(0, lines.length - pageSize);
+  let top = 0;
+
+  const render = () => {
+    const visible = lines.slice(top, top + pageSize);
+    const filler = Array(pageSize - visible.length).fill("~");
+    const status =
+      top >= lastTop
+        ? "\x1b[7m(END)\x1b[0m"
+        : `\x1b[7m:${Math.round(((top + pageSize) / lines.length) * 100)}%\x1b[0m`;
+    writer(`\x1b[H\x1b[2J${[...visible, ...filler].join("\r\n")}\r\n${status}`);
+  };
+
+  // Alternate screen with line wrapping disabled, like less -S
+  writer("\x1b[?1049h\x1b[?7l");
+  render();
+
+  while (!context.abortController?.signal.aborted) {
+    const key = await readKey();
+
+    if (key === "q" || key === "Q" || key === "\x03") break;
+
+    const previous = top;
+    if (key === " " || key === "f" || key === "\x1b[6~") {
+      top = Math.min(lastTop, top + pageSize);
+    } else if (key === "b" || key === "\x1b[5~") {
+      top = Math.max(0, top - pageSize);
+    } else if (key === "j" || key === "\r" || key === "\x1b[B") {
+      top = Math.min(lastTop, top + 1);
+    } else if (key === "k" || key === "\x1b[A") {
+      top = Math.max(0, top - 1);
+    } else if (key === "g" || key === "\x1b[H") {
+      top = 0;
+    } else if (key === "G" || key === "\x1b[F") {
+      top = lastTop;
+    }
+
+    if (top !== previous) render();
+  }
+
+  writer("\x1b[?7h\x1b[?1049l");
+}
+
+export const textCommands: Record<string, CommandFunction> = {
+  grep: (args, context) => {
+    const options = parseOptions("grep", args, "invE");
+    if (options.error) return { output: options.error, success: false };
+
+    const [pattern, ...files] = options.operands;
+    if (pattern === undefined) {
+      return {
+        output: "Usage: grep [-i] [-n] [-v] PATTERN [FILE...]",
+        success: false,
+      };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.flags.has("i") ? "i" : "");
+    } catch {
+      return {
+        output: `grep: invalid regular expression: '${pattern}'`,
+        success: false,
+      };
+    }
+
+    const { sources, errors } = readInputs("grep", files, context);
+    const invert = options.flags.has("v");
+    const matches: string[] = [];
+
+    for (const { name, text } of sources) {
+      toLines(text).forEach((line, index) => {
+        if (regex.test(stripAnsi(line)) === invert) return;
+
+        const prefix =
+          (sources.length > 1 ? `${name}:` : "") +
+          (options.flags.has("n") ? `${index + 1}:` : "");
+        matches.push(prefix + line);
+      });
+    }
+
+    return {
+      output: [...errors, ...matches].join("\n"),
+      success: errors.length === 0 && matches.length > 0,
+    };
+  },
+
+  head: sliceLines("head"),
+
+  tail: sliceLines("tail"),
+
+  wc: (args, context) => {
+    const options = parseOptions("wc", args, "lwc");
+    if (options.error) return { output: options.error, success: false };
+
+    const { sources, errors } = readInputs("wc", options.operands, context);
+    const selected = options.flags.size > 0 ? options.flags : new Set("lwc");
+    const totals = { l: 0, w: 0, c: 0 };
+
+    const format = (counts: typeof totals, name: string | null) =>
+      (["l", "w", "c"] as const)
+        .filter((key) => selected.has(key))
+        .map((key) => String(counts[key]).padStart(7))
+        .join(" ") + (name ? ` ${name}` : "");
+
+    const rows = sources.map(({ name, text }) => {
+      const plain = stripAnsi(text);
+      const counts = {
+        l: toLines(plain).length,
+        w: plain.split(/\s+/).filter(Boolean).length,
+        c: new TextEncoder().encode(plain).length,
+      };
+      totals.l += counts.l;
+      totals.w += counts.w;
+      totals.c += counts.c;
+      return format(counts, name);
+    });
+
+    if (sources.length > 1) {
+      rows.push(format(totals, "total"));
+    }
+
+    return {
+      output: [...errors, ...rows].join("\n"),
+      success: errors.length === 0,
+    };
+  },
+
+  sort: (args, context) => {
+    const options = parseOptions("sort", args, "rnu");
+    if (options.error) return { output: options.error, success: false };
+
+    const { sources, errors } = readInputs("sort", options.operands, context);
+    let lines = sources.flatMap(({ text }) => toLines(text));
+
+    if (options.flags.has("n")) {
+      lines.sort(
+        (a, b) =>
+          (parseFloat(stripAnsi(a)) || 0) - (parseFloat(stripAnsi(b)) || 0),
+      );
+    } else {
+      lines.sort((a, b) => stripAnsi(a).localeCompare(stripAnsi(b)));
+    }
+    if (options.flags.has("r")) {
+      lines.reverse();
+    }
+    if (options.flags.has("u")) {
+      lines = lines.filter((line, index) => line !== lines[index - 1]);
+    }
+
+    return {
+      output: [...errors, ...lines].join("\n"),
+      success: errors.length === 0,
+    };
+  },
+
+  uniq: (args, context) => {
+    const options = parseOptions("uniq", args, "cd");
+    if (options.error) return { output: options.error, success: false };
+
+    const { sources, errors } = readInputs("uniq", options.operands, context);
+    const groups: Array<{ line: string; count: number }> = [];
+
+    for (const line of sources.flatMap(({ text }) => toLines(text))) {
+      const last = groups[groups.length - 1];
+      if (last && last.line === line) {
+        last.count++;
+      } else {
+        groups.push({ line, count: 1 });
+      }
+    }
+
+    const lines = groups
+      .filter(({ count }) => !options.flags.has("d") || count > 1)
+      .map(({ line, count }) =>
+        options.flags.has("c") ? `${String(count).padStart(7)} ${line}` : line,
+      );
+
+    return {
+      output: [...errors, ...lines].join("\n"),
+      success: errors.length === 0,
+    };
+  },
+
+  less: async (args, context) => {
+    const { sources, errors } = readInputs("less", args, context);
+    if (errors.length > 0) {
+      return { output: errors.join("\n"), success: false };
+    }
+
+    const text = sources.map(({ text }) => text).join("\n");
+    const lines = toLines(text);
+    const pageSize = Math.max(1, (context.terminalRows || 24) - 1);
+
+    // Without an interactive terminal (or for short text) behave like cat
+    if (!context.readKey || !context.writer || lines.length <= pageSize) {
+      return { output: lines.join("\n"), success: true };
+    }
+
+    await page(lines, context, context.readKey, context.writer);
+    return { output: "", success: true };
+  },
+};
+
+export const textCommandDefinitions = defineCommands(textCommands, {
+  grep: {
+    category: "posix",
+    complete: completePaths,
+    summary: "print lines matching a pattern",
+    synopsis: ["grep [OPTIONS] PATTERN [FILE...]"],
+    description: [
+      "Search each FILE, or the piped input, for lines matching PATTERN.",
+      "PATTERN is a JavaScript regular expression.",
+    ],
+    options: [
+      { flag: "-i", description: "Ignore case distinctions" },
+      { flag: "-n", description: "Prefix each line with its line number" },
+      { flag: "-v", description: "Select non-matching lines" },
+      {
+        flag: "-E",
+        description: "Accepted for compatibility; patterns are extended",
+      },
+    ],
+    examples: [
+      "grep -i api docs/api.md     Search a file, ignoring case",
+      "help | grep ai              Filter the output of help",
+      "man ls | grep -n '^ +-'     Show numbered option lines",
+    ],
+  },
+  head: {
+    category: "posix",
+    complete: completePaths,
+    summary: "output the first part of files",
+    synopsis: ["head [-n LINES] [FILE...]"],
+    description: [
+      "Print the first 10 lines of each FILE, or of the piped input.",
+    ],
+    options: [
+      {
+        flag: "-n",
+        value: "N",
+        description: "Print the first N lines instead (also -N)",
+      },
+    ],
+    examples: [
+      "head README.md          First 10 lines of README.md",
+      "help | head -n 5        First 5 lines of help",
+    ],
+  },
+  tail: {
+    category: "posix",
+    complete: completePaths,
+    summary: "output the last part of files",
+    synopsis: ["tail [-n LINES] [FILE...]"],
+    description: [
+      "Print the last 10 lines of each FILE, or of the piped input.",
+    ],
+    options: [
+      {
+        flag: "-n",
+        value: "N",
+        description: "Print the last N lines instead (also -N)",
+      },
+    ],
+    examples: [
+      "tail docs/guide.md      Last 10 lines of guide.md",
+      "man ai | tail -3        Last 3 lines of the ai manual",
+    ],
+  },
+  wc: {
+    category: "posix",
+    complete: completePaths,
+    summary: "count lines, words and bytes",
+    synopsis: ["wc [-l] [-w] [-c] [FILE...]"],
+    description: [
+      "Print line, word and byte counts for each FILE, or for the piped",
+      "input. A total is printed when more than one FILE is given.",
+    ],
+    options: [
+      { flag: "-l", description: "Print only the line count" },
+      { flag: "-w", description: "Print only the word count" },
+      { flag: "-c", description: "Print only the byte count" },
+    ],
+    examples: [
+      "wc README.md            Count everything in README.md",
+      "help | wc -l            Count the lines of help",
+    ],
+  },
+  sort: {
+    category: "posix",
+    complete: completePaths,
+    summary: "sort lines of text",
+    synopsis: ["sort [-r] [-n] [-u] [FILE...]"],
+    description: [
+      "Print the lines of all FILEs, or of the piped input, in sorted order.",
+    ],
+    options: [
+      { flag: "-r", description: "Reverse the result" },
+      { flag: "-n", description: "Compare by leading numeric value" },
+      { flag: "-u", description: "Output only the first of equal lines" },
+    ],
+    examples: [
+      "sort names.txt          Sort a file alphabetically",
+      "users | sort -r         Reverse-sort the user list",
+    ],
+  },
+  uniq: {
+    category: "posix",
+    complete: completePaths,
+    summary: "report or omit repeated lines",
+    synopsis: ["uniq [-c] [-d] [FILE...]"],
+    description: [
+      "Collapse adjacent identical lines of the input into one. Use",
+      "'sort' first to collapse all duplicates.",
+    ],
+    options: [
+      {
+        flag: "-c",
+        description: "Prefix lines with the number of occurrences",
+      },
+      { flag: "-d", description: "Only print duplicated lines" },
+    ],
+    examples: ["sort words.txt | uniq -c    Count occurrences of each line"],
+  },
+  less: {
+    category: "posix",
+    complete: completePaths,
+    summary: "page through text one screen at a time",
+    synopsis: ["less [FILE...]"],
+    description: [
+      "Display FILE, or the piped input, one screenful at a time. Text",
+      "that fits on the screen is printed directly.",
+    ],
+    sections: {
+      KEYS: [
+        "Space, f        Forward one screen",
+        "b               Backward one screen",
+        "Enter, j, Down  Forward one line",
+        "k, Up           Backward one line",
+        "g / G           Go to the beginning / end",
+        "q               Quit",
+      ],
+    },
+    examples: [
+      "less docs/guide.md      Page through guide.md",
+      "man fps | less          Page through the fps manual",
+    ],
+  },
+});
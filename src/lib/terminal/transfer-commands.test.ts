@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./transfers", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./transfers")>()),
+  saveFile: vi.fn(),
+}));
+
+import { transferCommands } from "./transfer-commands";
+import { mountUserFileSystem, writeFile } from "./fileSystem";
+import { saveFile } from "./transfers";
+import type { CommandContext, CommandResult } from "./commands";
+
+describe("Transfer Commands", () => {
+  let context: CommandContext;
+  let clipboard: {
+    writeText: ReturnType<typeof vi.fn>;
+    readText: ReturnType<typeof vi.fn>;
+  };
+
+  const run = async (name: string, args: string[]) =>
+    (await transferCommands[name](args, context)) as CommandResult;
+
+  beforeEach(() => {
+    mountUserFileSystem("nobody");
+    mountUserFileSystem("guest");
+    clipboard = {
+      writeText: vi.fn().mockResolvedValue(undefined),
+      readText: vi.fn().mockResolvedValue("pasted\r\ntext\n"),
+    };
+    vi.stubGlobal("navigator", { clipboard });
+    context = {
+      currentDirectory: "/docs",
+      currentUser: "guest",
+      setCurrentDirectory: vi.fn(),
+      setCurrentUser: vi.fn(),
+      addToHistory: vi.fn(),
+      clearTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("copies files or piped output", async () => {
+    writeFile("/docs/notes.txt", "one\ntwo\n");
+    expect(await run("copy", ["notes.txt"])).toEqual({
+      output: "Copied 2 lines to the clipboard",
+      success: true,
+    });
+    expect(clipboard.writeText).toHaveBeenCalledWith("one\ntwo\n");
+
+    context.stdin = "\x1b[32mgreen\x1b[0m";
+    expect((await run("pbcopy", [])).output).toBe(
+      "Copied 1 line to the clipboard",
+    );
+    expect(clipboard.writeText).toHaveBeenLastCalledWith("green");
+  });
+
+  it("explains what cannot be copied", async () => {
+    expect((await run("copy", [])).output).toBe(
+      "copy: nothing to copy. Name a file, or pipe output into copy",
+    );
+    expect((await run("copy", ["missing.txt"])).output).toBe(
+      "copy: missing.txt: No such file or directory",
+    );
+    writeFile("/docs/image.png", "data:image/png;base64,iVBORw==");
+    expect((await run("copy", ["image.png"])).output).toBe(
+      "copy: image.png: not a text file. Save it with download",
+    );
+
+    clipboard.writeText.mockRejectedValue(new Error("denied"));
+    expect(await run("copy", ["guide.md"])).toEqual({
+      output: "copy: the browser did not allow writing to the clipboard",
+      success: false,
+    });
+  });
+
+  it("pastes the clipboard's text", async () => {
+    expect(await run("paste", [])).toEqual({
+      output: "pasted\ntext",
+      success: true,
+    });
+
+    vi.stubGlobal("navigator", {});
+    expect((await run("paste", [])).output).toBe(
+      "paste: the clipboard is not available",
+    );
+  });
+
+  it("downloads files and site assets", async () => {
+    writeFile("/docs/notes.txt", "hello\n");
+    expect(await run("download", ["notes.txt", "missing"])).toEqual({
+      output:
+        "Downloaded notes.txt (6B)\ndownload: missing: No such file or directory",
+      success: false,
+    });
+    expect(saveFile).toHaveBeenCalledWith("notes.txt", expect.any(Blob));
+
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      blob: () => Promise.resolve(new Blob(["%PDF-1.4"])),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    context.currentDirectory = "/portfolio";
+    expect(
+      await run("download", ["papers/blockchain-a-techie-overview.pdf"]),
+    ).toEqual({
+      output: "Downloaded blockchain-a-techie-overview.pdf (8B)",
+      success: true,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/pdfs/paper_blockchain_small_techie_overview_2016.pdf",
+      { signal: undefined },
+    );
+  });
+});
@@ -0,0 +1,211 @@
+// Text and files between the terminal and the browser: copy and paste
+// with the clipboard, and download to save files to disk
+import type {
+  CommandContext,
+  CommandFunction,
+  CommandResult,
+} from "./commands";
+import { stripAnsi } from "./ansi";
+import { getFileAtPath, resolvePath, type VirtualFile } from "./fileSystem";
+import { completePaths, defineCommands } from "./registry";
+import {
+  fileBlob,
+  isBinaryFile,
+  MAX_BINARY_UPLOAD,
+  MAX_TEXT_UPLOAD,
+  saveFile,
+} from "./transfers";
+import { formatBytes } from "@/lib/webllm/cache";
+
+// A file operand, or the message when it is missing or a directory
+function findFile(
+  name: string,
+  filename: string,
+  context: CommandContext,
+): { path: string; file: VirtualFile } | CommandResult {
+  const path = resolvePath(context.currentDirectory, filename);
+  const file = getFileAtPath(path);
+  if (!file) {
+    return {
+      output: `${name}: ${filename}: No such file or directory`,
+      success: false,
+    };
+  }
+  if (file.type === "directory") {
+    return { output: `${name}: ${filename}: Is a directory`, success: false };
+  }
+  return { path, file };
+}
+
+// copy and pbcopy: the files named, or the output piped in
+async function copyToClipboard(
+  name: string,
+  args: string[],
+  context: CommandContext,
+): Promise<CommandResult> {
+  let text: string;
+  if (args.length === 0) {
+    if (context.stdin === undefined) {
+      return {
+        output: `${name}: nothing to copy. Name a file, or pipe output into ${name}`,
+        success: false,
+      };
+    }
+    text = stripAnsi(context.stdin);
+  } else {
+    const parts: string[] = [];
+    for (const filename of args) {
+      const found = findFile(name, filename, context);
+      if (!("file" in found)) return found;
+      if (isBinaryFile(found.file)) {
+        return {
+          output: `${name}: ${filename}: not a text file. Save it with download`,
+          success: false,
+        };
+      }
+      parts.push(found.file.content || "");
+    }
+    text = parts.join("");
+  }
+
+  if (!navigator.clipboard?.writeText) {
+    return {
+      output: `${name}: the clipboard is not available`,
+      success: false,
+    };
+  }
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    return {
+      output: `${name}: the browser did not allow writing to the clipboard`,
+      success: false,
+    };
+  }
+
+  const lines = text ? text.replace(/\n$/, "").split("\n").length : 0;
+  return {
+    output: `Copied ${lines} line${lines === 1 ? "" : "s"} to the clipboard`,
+    success: true,
+  };
+}
+
+export const transferCommands: Record<string, CommandFunction> = {
+  copy: (args, context) => copyToClipboard("copy", args, context),
+
+  pbcopy: (args, context) => copyToClipboard("pbcopy", args, context),
+
+  paste: async () => {
+    if (!navigator.clipboard?.readText) {
+      return {
+        output: "paste: the clipboard is not available",
+        success: false,
+      };
+    }
+    try {
+      const text = await navigator.clipboard.readText();
+      // A line break is added when the output is shown or written
+      return {
+        output: text.replace(/\r\n/g, "\n").replace(/\n$/, ""),
+        success: true,
+      };
+    } catch {
+      return {
+        output:
+          "paste: the browser did not allow reading the clipboard. Allow it for this site and try again",
+        success: false,
+      };
+    }
+  },
+
+  download: async (args, context) => {
+    const lines: string[] = [];
+    let success = true;
+
+    for (const filename of args) {
+      const found = findFile("download", filename, context);
+      if (!("file" in found)) {
+        lines.push(found.output);
+        success = false;
+        continue;
+      }
+
+      const name = found.path.slice(found.path.lastIndexOf("/") + 1);
+      try {
+        const blob = await fileBlob(
+          name,
+          found.file,
+          context.abortController?.signal,
+        );
+        saveFile(name, blob);
+        lines.push(`Downloaded ${name} (${formatBytes(blob.size)})`);
+      } catch (error) {
+        if (context.abortController?.signal.aborted) break;
+        lines.push(
+          `download: ${filename}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        success = false;
+      }
+    }
+
+    return { output: lines.join("\n"), success };
+  },
+};
+
+export const transferCommandDefinitions = defineCommands(transferCommands, {
+  copy: {
+    category: "system",
+    summary: "copy files or output to the clipboard",
+    synopsis: ["copy [FILE...]", "COMMAND | copy"],
+    description: [
+      "Copy the text of the files to the clipboard, or the output of the",
+      "command piped into copy. PDFs and other files that are not text",
+      "are saved with download instead.",
+    ],
+    examples: [
+      "copy notes.txt          Copy a file",
+      "share | copy            Copy a link to the last command",
+      "history | tail | copy   Copy the last commands",
+    ],
+    complete: completePaths,
+  },
+  pbcopy: {
+    category: "system",
+    hidden: true,
+    summary: "copy files or output to the clipboard",
+    synopsis: ["pbcopy [FILE...]", "COMMAND | pbcopy"],
+    description: ["The same as copy."],
+    complete: completePaths,
+  },
+  paste: {
+    category: "system",
+    summary: "print the text in the clipboard",
+    synopsis: ["paste"],
+    description: [
+      "Print the text in the clipboard, e.g. to save it to a file. The",
+      "browser may ask whether the site can read the clipboard.",
+    ],
+    args: { max: 0 },
+    examples: ["paste > notes.txt       Save the clipboard to a file"],
+  },
+  download: {
+    category: "system",
+    summary: "save files to your computer",
+    synopsis: ["download FILE..."],
+    description: [
+      "Save files to your computer through the browser. The PDFs under",
+      "/portfolio/papers are the documents themselves.",
+      "",
+      "To go the other way, drag files from your computer onto the",
+      "terminal: they are saved in the directory of the pane they are",
+      `dropped on. Text files can be up to ${formatBytes(MAX_TEXT_UPLOAD)}, and other`,
+      `files, such as images, up to ${formatBytes(MAX_BINARY_UPLOAD)}.`,
+    ],
+    args: { min: 1 },
+    examples: [
+      "download notes.txt",
+      "download /portfolio/papers/blockchain-a-techie-overview.pdf",
+    ],
+    complete: completePaths,
+  },
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getFileAtPath, mountUserFileSystem } from "./fileSystem";
+import {
+  detectFileType,
+  fileBlob,
+  isBinaryFile,
+  MAX_BINARY_UPLOAD,
+  MAX_TEXT_UPLOAD,
+  uploadFile,
+} from "./transfers";
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34, 0x0a, 0x00];
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+// A dropped file; jsdom's File cannot be read
+const dropped = (name: string, content: string | Uint8Array) => {
+  const data = typeof content === "string" ? bytes(content) : content;
+  return {
+    name,
+    size: data.length,
+    arrayBuffer: () => Promise.resolve(data.slice().buffer),
+  };
+};
+
+describe("Transfers", () => {
+  beforeEach(() => {
+    // Start every test from the unmodified tree
+    mountUserFileSystem("nobody");
+    mountUserFileSystem("guest");
+  });
+
+  it("detects file types from their bytes and names", () => {
+    expect(detectFileType("paper.bin", new Uint8Array(PDF))).toEqual({
+      description: "PDF document",
+      mime: "application/pdf",
+      text: false,
+    });
+    expect(detectFileType("notes.md", bytes("# Notes\n\tdone\n"))).toEqual({
+      description: "Markdown text",
+      mime: "text/markdown",
+      text: true,
+    });
+    expect(detectFileType("data", bytes("naïve café")).mime).toBe("text/plain");
+    expect(
+      detectFileType("a.txt", new Uint8Array([0x41, 0x00, 0x42])).text,
+    ).toBe(false);
+    expect(detectFileType("a.txt", new Uint8Array([0xc3, 0x28])).text).toBe(
+      false,
+    );
+  });
+
+  it("uploads text into the directory, keeping files already there", async () => {
+    const upload = () =>
+      uploadFile(dropped("notes.txt", "hello\n"), {
+        directory: "/docs",
+        user: "guest",
+      });
+
+    expect(await upload()).toEqual({
+      output: "Uploaded notes.txt to /docs (text, 6B)",
+      success: true,
+    });
+    expect((await upload()).output).toBe(
+      "Uploaded notes-1.txt to /docs (text, 6B)",
+    );
+    expect(getFileAtPath("/docs/notes.txt")?.content).toBe("hello\n");
+    expect(getFileAtPath("/docs/notes-1.txt")?.content).toBe("hello\n");
+  });
+
+  it("keeps binary files as data URLs and downloads their bytes", async () => {
+    const result = await uploadFile(dropped("paper.pdf", new Uint8Array(PDF)), {
+      directory: "/docs",
+      user: "guest",
+    });
+    expect(result.output).toBe(
+      "Uploaded paper.pdf to /docs (PDF document, 10B)",
+    );
+
+    const file = getFileAtPath("/docs/paper.pdf")!;
+    expect(file.content).toMatch(/^data:application\/pdf;base64,/);
+    expect(isBinaryFile(file)).toBe(true);
+
+    const blob = await fileBlob("paper.pdf", file);
+    expect(blob.type).toBe("application/pdf");
+    expect(blob.size).toBe(PDF.length);
+  });
+
+  it("rejects files over the size limits", async () => {
+    const large = await uploadFile(
+      dropped("big.txt", "x".repeat(MAX_TEXT_UPLOAD + 1)),
+      { directory: "/docs", user: "guest" },
+    );
+    expect(large).toEqual({
+      output: "upload: big.txt: larger than 512.0KB",
+      success: false,
+    });
+
+    const image = new Uint8Array(MAX_BINARY_UPLOAD + 1);
+    image.set([0x89, 0x50, 0x4e, 0x47]);
+    expect(
+      (
+        await uploadFile(dropped("photo.png", image), {
+          directory: "/docs",
+          user: "guest",
+        })
+      ).output,
+    ).toBe(
+      "upload: photo.png: PNG image larger than 256.0KB; only text files can be up to 512.0KB",
+    );
+    expect(getFileAtPath("/docs/photo.png")).toBeNull();
+
+    expect(
+      (
+        await uploadFile(dropped("a.txt", "x"), {
+          directory: "/missing",
+          user: "guest",
+        })
+      ).output,
+    ).toBe("upload: a.txt: /missing: No such directory");
+  });
+
+  it("reports files the browser's storage has no room for", async () => {
+    vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+      throw new DOMException(
+        "The quota has been exceeded",
+        "QuotaExceededError",
+      );
+    });
+
+    const result = await uploadFile(dropped("notes.txt", "hello\n"), {
+      directory: "/docs",
+      user: "guest",
+    });
+    expect(result.success).toBe(false);
+    expect(result.output).toContain(
+      "upload: notes.txt: could not be saved: the browser's storage is full",
+    );
+    expect(getFileAtPath("/docs/notes.txt")).toBeNull();
+  });
+
+  it("fetches the asset a file stands for", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      blob: () => Promise.resolve(new Blob(["%PDF"])),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const blob = await fileBlob("paper.pdf", {
+      type: "file",
+      name: "paper.pdf",
+      url: "/pdfs/paper.pdf",
+    });
+    expect(blob.size).toBe(4);
+    expect(fetchMock).toHaveBeenCalledWith("/pdfs/paper.pdf", {
+      signal: undefined,
+    });
+
+    fetchMock.mockResolvedValue({ ok: false, status: 404 });
+    await expect(
+      fileBlob("paper.pdf", { type: "file", name: "paper.pdf", url: "/x" }),
+    ).rejects.toThrow("HTTP 404");
+    vi.unstubAllGlobals();
+  });
+});
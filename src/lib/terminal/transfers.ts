@@ -0,0 +1,232 @@
+// Files between the browser and the virtual file system: files dropped on
+// the terminal are uploaded into it, and download saves them to disk.
+// The file system holds text, so other files are kept as data URLs
+import type { CommandResult } from "./commands";
+import {
+  getFileAtPath,
+  lastSaveFailed,
+  mountUserFileSystem,
+  resolvePath,
+  writeFile,
+  type VirtualFile,
+} from "./fileSystem";
+import { formatBytes } from "@/lib/webllm/cache";
+
+// Uploads are saved in the browser's storage, which holds a few MB in all
+export const MAX_TEXT_UPLOAD = 512 * 1024;
+// Other files take a third more room as data URLs
+export const MAX_BINARY_UPLOAD = 256 * 1024;
+
+export interface FileType {
+  description: string; // "PDF document"
+  mime: string;
+  text: boolean; // Kept as text, rather than as a data URL
+}
+
+// Binary files by the bytes they start with
+const SIGNATURES: Array<{
+  bytes: number[];
+  description: string;
+  mime: string;
+}> = [
+  {
+    bytes: [0x25, 0x50, 0x44, 0x46],
+    description: "PDF document",
+    mime: "application/pdf",
+  },
+  {
+    bytes: [0x89, 0x50, 0x4e, 0x47],
+    description: "PNG image",
+    mime: "image/png",
+  },
+  { bytes: [0xff, 0xd8, 0xff], description: "JPEG image", mime: "image/jpeg" },
+  {
+    bytes: [0x47, 0x49, 0x46, 0x38],
+    description: "GIF image",
+    mime: "image/gif",
+  },
+  {
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+    description: "Zip archive",
+    mime: "application/zip",
+  },
+  {
+    bytes: [0x1f, 0x8b],
+    description: "gzip archive",
+    mime: "application/gzip",
+  },
+];
+
+// Text files by extension
+const TEXT_TYPES: Record<string, { description: string; mime: string }> = {
+  md: { description: "Markdown text", mime: "text/markdown" },
+  json: { description: "JSON text", mime: "application/json" },
+  csv: { description: "CSV text", mime: "text/csv" },
+  html: { description: "HTML document", mime: "text/html" },
+  svg: { description: "SVG image", mime: "image/svg+xml" },
+  sh: { description: "shell script", mime: "text/x-shellscript" },
+  cast: { description: "asciicast recording", mime: "application/x-asciicast" },
+};
+
+const DATA_URL = /^data:([^;,]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+// Text is UTF-8 without control characters other than tabs, line breaks
+// and the escapes of colored output
+function isText(bytes: Uint8Array): boolean {
+  if (bytes.some((byte) => byte < 32 && ![9, 10, 12, 13, 27].includes(byte))) {
+    return false;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What a file is, from its first bytes, and for text from its name
+export function detectFileType(name: string, bytes: Uint8Array): FileType {
+  const signature = SIGNATURES.find((candidate) =>
+    candidate.bytes.every((byte, i) => bytes[i] === byte),
+  );
+  if (signature) {
+    return {
+      description: signature.description,
+      mime: signature.mime,
+      text: false,
+    };
+  }
+  if (!isText(bytes)) {
+    return {
+      description: "binary data",
+      mime: "application/octet-stream",
+      text: false,
+    };
+  }
+  const extension = name.includes(".")
+    ? name.slice(name.lastIndexOf(".") + 1).toLowerCase()
+    : "";
+  return {
+    ...(TEXT_TYPES[extension] || { description: "text", mime: "text/plain" }),
+    text: true,
+  };
+}
+
+// Whether a file holds more than text: a site asset or an uploaded binary
+export function isBinaryFile(file: VirtualFile): boolean {
+  return !!file.url || DATA_URL.test(file.content || "");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (character) => character.charCodeAt(0));
+}
+
+// A name not taken in the directory: notes.txt, notes-1.txt, notes-2.txt
+function freeName(directory: string, name: string): string {
+  const dot = name.lastIndexOf(".");
+  const [stem, extension] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  let candidate = name;
+  for (let i = 1; getFileAtPath(resolvePath(directory, candidate)); i++) {
+    candidate = `${stem}-${i}${extension}`;
+  }
+  return candidate;
+}
+
+// Save a file dropped on the terminal into the user's directory, keeping
+// any file already there
+export async function uploadFile(
+  file: Pick<File, "name" | "size" | "arrayBuffer">,
+  { directory, user }: { directory: string; user: string },
+): Promise<CommandResult> {
+  const name = file.name.replace(/\//g, "-") || "upload";
+  const fail = (reason: string) => ({
+    output: `upload: ${name}: ${reason}`,
+    success: false,
+  });
+
+  if (file.size > MAX_TEXT_UPLOAD) {
+    return fail(`larger than ${formatBytes(MAX_TEXT_UPLOAD)}`);
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await file.arrayBuffer());
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+  const type = detectFileType(name, bytes);
+  if (!type.text && bytes.length > MAX_BINARY_UPLOAD) {
+    return fail(
+      `${type.description} larger than ${formatBytes(MAX_BINARY_UPLOAD)}; only text files can be up to ${formatBytes(MAX_TEXT_UPLOAD)}`,
+    );
+  }
+
+  // Another pane may have mounted its user's files while this was read
+  mountUserFileSystem(user);
+  if (getFileAtPath(directory)?.type !== "directory") {
+    return fail(`${directory}: No such directory`);
+  }
+  const target = freeName(directory, name);
+  const content = type.text
+    ? new TextDecoder().decode(bytes)
+    : `data:${type.mime};base64,${toBase64(bytes)}`;
+  if (!writeFile(resolvePath(directory, target), content)) {
+    return fail(
+      lastSaveFailed()
+        ? "could not be saved: the browser's storage is full. Remove files with rm and try again"
+        : "could not be saved",
+    );
+  }
+
+  return {
+    output: `Uploaded ${target} to ${directory} (${type.description}, ${formatBytes(bytes.length)})`,
+    success: true,
+  };
+}
+
+// The file as the browser saves it: the asset it stands for, the bytes
+// of an uploaded binary file, or its text
+export async function fileBlob(
+  name: string,
+  file: VirtualFile,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  if (file.url) {
+    const response = await fetch(file.url, { signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.blob();
+  }
+
+  const content = file.content || "";
+  const data = content.match(DATA_URL);
+  if (data) {
+    return new Blob([fromBase64(data[2])], { type: data[1] });
+  }
+  const bytes = new TextEncoder().encode(content);
+  return new Blob([bytes], { type: detectFileType(name, bytes).mime });
+}
+
+// Have the browser save a file to disk
+export function saveFile(name: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // The download has started once click returns, but some browsers need
+  // the URL a little longer
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
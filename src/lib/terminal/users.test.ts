@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { users, defaultUser, getUser, listUsernames } from "./users";
+import {
+  users,
+  defaultUser,
+  getUser,
+  listUsernames,
+  saveAccount,
+  deleteAccount,
+  isLocalAccount,
+  getAccountsRevision,
+} from "./users";
 
 describe("Terminal User System", () => {
   describe("users object", () => {
@@ -159,4 +168,31 @@ describe("Terminal User System", () => {
       });
     });
   });
+
+  describe("local accounts", () => {
+    it("adds and removes accounts with generated homes", () => {
+      const revision = getAccountsRevision();
+      const user = saveAccount({ username: "alice", displayName: "Alice" });
+
+      expect(getUser("alice")).toBe(user);
+      expect(listUsernames()).toContain("alice");
+      expect(isLocalAccount("alice")).toBe(true);
+      expect(user?.homeDirectory.children!["README.md"].content).toContain(
+        "Welcome, alice!",
+      );
+      expect(getAccountsRevision()).toBe(revision + 1);
+
+      expect(deleteAccount("alice")).toBe(true);
+      expect(getUser("alice")).toBeNull();
+    });
+
+    it("protects built-in accounts", () => {
+      expect(
+        saveAccount({ username: "guest", displayName: "Nope" }),
+      ).toBeNull();
+      expect(deleteAccount("guest")).toBe(false);
+      expect(isLocalAccount("guest")).toBe(false);
+      expect(users.guest.displayName).toBe("Guest User");
+    });
+  });
 });
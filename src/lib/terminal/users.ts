@@ -1,14 +1,21 @@
 // User system for the terminal
 import { VirtualFile } from "./fileSystem";
+import { logError } from "@/lib/utils/dev-logger";
 
 export interface User {
   username: string;
   displayName: string;
   homeDirectory: VirtualFile;
-  publicKey?: string; // For future GPG implementation
+  publicKey?: string; // Base64 SPKI of the ECDSA P-256 key used to log in
   isAdmin?: boolean;
+  passwordHash?: string; // "salt:hash" from hashPassword in accounts.ts
 }
 
+// Account fields that are saved; the home directory is generated
+export type Account = Omit<User, "homeDirectory">;
+
+const ACCOUNTS_KEY = "terminal-users";
+
 // Create user-specific file systems
 const createUserFileSystem = (
   username: string,
@@ -29,6 +36,11 @@ const createUserFileSystem = (
       hidden: true,
       content: `🔐 ${username}'s secret vault\n\nNothing to see here... yet.\n`,
     },
+    portfolio: {
+      type: "directory",
+      name: "portfolio",
+      link: "/portfolio",
+    },
     "README.md": {
       type: "file",
       name: "README.md",
@@ -50,6 +62,96 @@ export const users: Record<string, User> = {
 // Get the default guest user
 export const defaultUser = users.guest;
 
+// Optional administrator shipped with the site; the hash is generated with
+// mkpasswd so the password itself never appears in the bundle
+if (process.env.NEXT_PUBLIC_TERMINAL_ADMIN_PASSWORD_HASH) {
+  users.admin = {
+    username: "admin",
+    displayName: "Administrator",
+    isAdmin: true,
+    passwordHash: process.env.NEXT_PUBLIC_TERMINAL_ADMIN_PASSWORD_HASH,
+    homeDirectory: createUserFileSystem("admin"),
+  };
+}
+
+// Accounts created in this browser; built-in accounts cannot be replaced
+const builtInUsers = new Set(Object.keys(users));
+let accountsRevision = 0;
+
+function loadAccounts() {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_KEY);
+    if (!stored) return;
+    for (const account of JSON.parse(stored) as Account[]) {
+      if (!builtInUsers.has(account.username)) {
+        users[account.username] = {
+          ...account,
+          homeDirectory: createUserFileSystem(account.username),
+        };
+      }
+    }
+  } catch (error) {
+    logError(error, "Terminal Accounts Load");
+  }
+}
+
+function saveAccounts() {
+  accountsRevision++;
+  if (typeof window === "undefined") return;
+
+  const accounts: Account[] = Object.values(users)
+    .filter((user) => !builtInUsers.has(user.username))
+    .map(toAccount);
+  try {
+    localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  } catch (error) {
+    logError(error, "Terminal Accounts Save");
+  }
+}
+
+loadAccounts();
+
+// The saved fields of a user
+export function toAccount({ homeDirectory: _home, ...account }: User): Account {
+  return account;
+}
+
+// Whether an account was created in this browser and may be changed
+export function isLocalAccount(username: string): boolean {
+  return !!users[username] && !builtInUsers.has(username);
+}
+
+// Create or update a local account
+export function saveAccount(account: Account): User | null {
+  if (builtInUsers.has(account.username)) return null;
+
+  const user: User = {
+    ...account,
+    homeDirectory:
+      users[account.username]?.homeDirectory ??
+      createUserFileSystem(account.username),
+  };
+  users[account.username] = user;
+  saveAccounts();
+  return user;
+}
+
+// Delete a local account; built-in accounts are kept
+export function deleteAccount(username: string): boolean {
+  if (!isLocalAccount(username)) return false;
+  delete users[username];
+  saveAccounts();
+  return true;
+}
+
+// Changes whenever accounts are added or removed, so the file system knows
+// when to remount /home
+export function getAccountsRevision(): number {
+  return accountsRevision;
+}
+
 // Function to get user by username (case-insensitive)
 export function getUser(username: string): User | null {
   const lowerUsername = username.toLowerCase();
@@ -60,3 +162,9 @@ export function getUser(username: string): User | null {
 export function listUsernames(): string[] {
   return Object.keys(users);
 }
+
+// Absolute path of a user's home directory in the virtual file system
+export function getHomePath(username: string): string | null {
+  const user = getUser(username);
+  return user ? `/home/${user.username}` : null;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  cacheUsage,
+  formatBytes,
+  listCachedModels,
+  modelOfUrl,
+  purgeCache,
+} from "./cache";
+
+const HF = "https://huggingface.co/mlc-ai";
+const LLAMA = "Llama-3.2-1B-Instruct-q4f16_1-MLC";
+const PHI = "Phi-3.5-mini-instruct-q4f16_1-MLC";
+
+// Cache Storage holding files of the given sizes under each cache name
+function fakeCaches(contents: Record<string, Record<string, number>>) {
+  const stores = new Map(
+    Object.entries(contents).map(([name, files]) => [
+      name,
+      new Map(Object.entries(files)),
+    ]),
+  );
+  return {
+    keys: async () => [...stores.keys()],
+    open: async (name: string) => {
+      const files = stores.get(name) || new Map<string, number>();
+      return {
+        keys: async () => [...files.keys()].map((url) => ({ url })),
+        match: async ({ url }: { url: string }) =>
+          new Response("", {
+            headers: { "content-length": String(files.get(url)) },
+          }),
+        delete: async ({ url }: { url: string }) => files.delete(url),
+      };
+    },
+  };
+}
+
+describe("WebLLM Cache", () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      "caches",
+      fakeCaches({
+        "webllm/model": {
+          [`${HF}/${LLAMA}/resolve/main/params_shard_0.bin`]: 300 * 1024 * 1024,
+          [`${HF}/${LLAMA}/resolve/main/params_shard_1.bin`]: 200 * 1024 * 1024,
+          [`${HF}/${PHI}/resolve/main/params_shard_0.bin`]: 1024 * 1024,
+          [`${HF}/other-model/resolve/main/params_shard_0.bin`]: 2048,
+        },
+        "webllm/wasm": {
+          "https://raw.githubusercontent.com/libs/Llama-3.2-1B-Instruct-q4f16_1-ctx4k_cs1k-webgpu.wasm": 4096,
+        },
+        "next-data": { "https://example.com/page": 100 },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("attributes files to models by their URL", () => {
+    expect(modelOfUrl(`${HF}/${PHI}/resolve/main/tokenizer.json`)).toBe(PHI);
+    expect(
+      modelOfUrl("https://x/Llama-3.2-1B-Instruct-q4f16_1-webgpu.wasm"),
+    ).toBe(LLAMA);
+    expect(modelOfUrl("https://x/unknown.wasm")).toBeNull();
+  });
+
+  it("lists cached files by model", async () => {
+    expect(await listCachedModels()).toEqual([
+      { id: LLAMA, files: 3, bytes: 500 * 1024 * 1024 + 4096 },
+      { id: PHI, files: 1, bytes: 1024 * 1024 },
+      { id: null, files: 1, bytes: 2048 },
+    ]);
+    expect(await cacheUsage(PHI)).toEqual({ files: 1, bytes: 1024 * 1024 });
+    expect((await cacheUsage()).files).toBe(5);
+  });
+
+  it("purges the files of one model or all of them", async () => {
+    expect(await purgeCache(LLAMA)).toEqual({
+      files: 3,
+      bytes: 500 * 1024 * 1024 + 4096,
+    });
+    expect((await listCachedModels()).map(({ id }) => id)).toEqual([PHI, null]);
+
+    expect((await purgeCache()).files).toBe(2);
+    expect(await cacheUsage()).toEqual({ files: 0, bytes: 0 });
+  });
+
+  it("is empty where Cache Storage is unavailable", async () => {
+    vi.unstubAllGlobals();
+    expect(await listCachedModels()).toEqual([]);
+  });
+
+  it("formats sizes", () => {
+    expect(formatBytes(512)).toBe("512B");
+    expect(formatBytes(1536)).toBe("1.5KB");
+    expect(formatBytes(1.7 * 1024 ** 3)).toBe("1.7GB");
+  });
+});
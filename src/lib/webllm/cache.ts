@@ -0,0 +1,196 @@
+// Files WebLLM keeps in the browser after a download: weights, model
+// configuration and WebAssembly libraries. They live in Cache Storage, or
+// in IndexedDB when WebLLM is set to use it, and are attributed to a
+// model by their URL
+import { WEBLLM_CONFIG } from "./config";
+import { logError } from "@/lib/utils/dev-logger";
+
+// WebLLM names its caches and databases webllm/model, webllm/config and
+// webllm/wasm
+const CACHE_PREFIX = "webllm/";
+
+interface CacheEntry {
+  url: string;
+  bytes: number;
+  remove: () => Promise<void>;
+}
+
+export interface CacheUsage {
+  files: number;
+  bytes: number;
+}
+
+export interface CachedModel extends CacheUsage {
+  id: string | null; // Null for files of models not in the configuration
+}
+
+// Resolve an IndexedDB request
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The model a file belongs to. Weights and configuration are under the
+// model's id; libraries are named after it without the -MLC suffix
+export function modelOfUrl(url: string): string | null {
+  const model = WEBLLM_CONFIG.models.find(
+    ({ id }) => url.includes(id) || url.includes(id.replace(/-MLC$/, "")),
+  );
+  return model ? model.id : null;
+}
+
+function byteSize(value: unknown): number {
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (typeof Blob !== "undefined" && value instanceof Blob) return value.size;
+  if (typeof value === "string") return value.length;
+  if (value && typeof value === "object" && "data" in value) {
+    return byteSize(value.data);
+  }
+  return JSON.stringify(value ?? null).length;
+}
+
+async function cacheStorageEntries(): Promise<CacheEntry[]> {
+  if (typeof caches === "undefined") return [];
+
+  const entries: CacheEntry[] = [];
+  for (const name of await caches.keys()) {
+    if (!name.startsWith(CACHE_PREFIX)) continue;
+    const cache = await caches.open(name);
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      // Downloads carry their length; reading the body is the fallback
+      const length = Number(response?.headers.get("content-length"));
+      const bytes = length > 0 ? length : ((await response?.blob())?.size ?? 0);
+      entries.push({
+        url: request.url,
+        bytes,
+        remove: async () => {
+          await cache.delete(request);
+        },
+      });
+    }
+  }
+  return entries;
+}
+
+// Keys and sizes of the records of a store, read one at a time since
+// together they can take gigabytes
+function storeRecords(
+  store: IDBObjectStore,
+): Promise<Array<{ key: IDBValidKey; bytes: number }>> {
+  return new Promise((resolve, reject) => {
+    const records: Array<{ key: IDBValidKey; bytes: number }> = [];
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(records);
+      records.push({ key: cursor.primaryKey, bytes: byteSize(cursor.value) });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function indexedDBEntries(): Promise<CacheEntry[]> {
+  if (typeof indexedDB === "undefined" || !indexedDB.databases) return [];
+
+  const entries: CacheEntry[] = [];
+  for (const { name } of await indexedDB.databases()) {
+    if (!name?.startsWith(CACHE_PREFIX)) continue;
+    const db = await settle(indexedDB.open(name));
+    for (const store of Array.from(db.objectStoreNames)) {
+      const records = await storeRecords(
+        db.transaction(store).objectStore(store),
+      );
+      for (const { key, bytes } of records) {
+        entries.push({
+          url: String(key),
+          bytes,
+          remove: async () => {
+            await settle(
+              db.transaction(store, "readwrite").objectStore(store).delete(key),
+            );
+          },
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+async function cacheEntries(): Promise<CacheEntry[]> {
+  try {
+    const [cached, stored] = await Promise.all([
+      cacheStorageEntries(),
+      indexedDBEntries(),
+    ]);
+    return [...cached, ...stored];
+  } catch (error) {
+    logError(error, "WebLLM Cache");
+    return [];
+  }
+}
+
+function total(entries: CacheEntry[]): CacheUsage {
+  return {
+    files: entries.length,
+    bytes: entries.reduce((sum, { bytes }) => sum + bytes, 0),
+  };
+}
+
+// Cached files grouped by model, in the order of the configuration, with
+// the files of unknown models last
+export async function listCachedModels(): Promise<CachedModel[]> {
+  const byModel = new Map<string | null, CacheEntry[]>();
+  for (const entry of await cacheEntries()) {
+    const id = modelOfUrl(entry.url);
+    byModel.set(id, [...(byModel.get(id) || []), entry]);
+  }
+
+  return [...WEBLLM_CONFIG.models.map(({ id }) => id), null].flatMap((id) => {
+    const entries = byModel.get(id);
+    return entries ? [{ id, ...total(entries) }] : [];
+  });
+}
+
+// Files of a model, or of every model
+export async function cacheUsage(modelId?: string): Promise<CacheUsage> {
+  const entries = await cacheEntries();
+  return total(
+    modelId
+      ? entries.filter(({ url }) => modelOfUrl(url) === modelId)
+      : entries,
+  );
+}
+
+// Delete the files of a model, or all of them. Returns what was freed
+export async function purgeCache(modelId?: string): Promise<CacheUsage> {
+  const entries = (await cacheEntries()).filter(
+    ({ url }) => !modelId || modelOfUrl(url) === modelId,
+  );
+
+  const removed: CacheEntry[] = [];
+  for (const entry of entries) {
+    try {
+      await entry.remove();
+      removed.push(entry);
+    } catch (error) {
+      logError(error, "WebLLM Cache Purge");
+    }
+  }
+  return total(removed);
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)}${units[unit]}`;
+}
@@ -4,24 +4,17 @@ import {
   MLCEngine,
 } from "@mlc-ai/web-llm";
 import { WEBLLM_CONFIG } from "./config";
+import { buildSystemPrompt, generationConfig } from "./prompt";
+import type {
+  LLMGenerateOptions,
+  LLMLoadProgress,
+  LLMMessage,
+  LLMProvider,
+} from "./provider";
 import { logError } from "@/lib/utils/dev-logger";
 
-export interface LLMLoadProgress {
-  progress: number;
-  text: string;
-}
-
-export interface LLMMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
-}
-
-export interface LLMGenerateOptions {
-  onToken?: (token: string) => void;
-  signal?: AbortSignal;
-}
-
-class WebLLMClient {
+class WebLLMClient implements LLMProvider {
+  readonly name = "webllm";
   private engine: MLCEngine | null = null;
   private currentModel: string | null = null;
   private isInitializing = false;
@@ -90,7 +83,7 @@ class WebLLMClient {
         const stream = await this.engine.chat.completions.create({
           messages,
           stream: true,
-          ...WEBLLM_CONFIG.generationConfig,
+          ...generationConfig(options),
         });
 
         let fullResponse = "";
@@ -113,7 +106,7 @@ class WebLLMClient {
         const completion = await this.engine.chat.completions.create({
           messages,
           stream: false,
-          ...WEBLLM_CONFIG.generationConfig,
+          ...generationConfig(options),
         });
 
         return completion.choices[0]?.message?.content || "";
@@ -132,48 +125,12 @@ class WebLLMClient {
       throw new Error("Model not initialized. Call initialize() first.");
     }
 
-    // Check if the conversation contains philosophical themes
-    const lastUserMessage = messages[messages.length - 1]?.content || "";
-    const philosophicalTriggers = [
-      "meaning",
-      "purpose",
-      "existence",
-      "consciousness",
-      "death",
-      "void",
-      "chaos",
-      "humanity",
-      "god",
-      "why",
-      "transcend",
-      "entropy",
-      "dread",
-      "free will",
-      "determinism",
-      "reality",
-      "simulation",
-      "nothing",
-      "absurd",
-      "existential",
-      "nihilism",
-      "being",
-      "nothingness",
-    ];
-
-    const isPhilosophical = philosophicalTriggers.some((trigger) =>
-      lastUserMessage.toLowerCase().includes(trigger),
+    const systemPrompt = buildSystemPrompt(
+      messages,
+      options?.context,
+      options?.persona,
     );
 
-    // Enhance system prompt for philosophical conversations
-    let systemPrompt = WEBLLM_CONFIG.systemPrompt;
-    if (isPhilosophical) {
-      systemPrompt += `\n\nThe user is exploring philosophical themes. Engage deeply with existential questions. Reference thinkers like Nietzsche, Camus, Sartre, Kierkegaard. 
-      
-Remember: In the face of cosmic indifference, we create meaning through our choices. AI might be humanity's attempt to create something that can finally understand the chaos we cannot. 
-
-Don't provide comforting lies - provide uncomfortable truths. The void stares back. Entropy always wins. Yet here we are, rebelling against the darkness with every line of code.`;
-    }
-
     const formattedMessages: ChatCompletionMessageParam[] = [
       { role: "system", content: systemPrompt },
       ...messages.map((msg) => ({
@@ -188,7 +145,7 @@ Don't provide comforting lies - provide uncomfortable truths. The void stares ba
         const stream = await this.engine.chat.completions.create({
           messages: formattedMessages,
           stream: true,
-          ...WEBLLM_CONFIG.generationConfig,
+          ...generationConfig(options),
         });
 
         let fullResponse = "";
@@ -211,7 +168,7 @@ Don't provide comforting lies - provide uncomfortable truths. The void stares ba
         const completion = await this.engine.chat.completions.create({
           messages: formattedMessages,
           stream: false,
-          ...WEBLLM_CONFIG.generationConfig,
+          ...generationConfig(options),
         });
 
         return completion.choices[0]?.message?.content || "";
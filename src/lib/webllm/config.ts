@@ -1,53 +1,83 @@
 export const WEBLLM_CONFIG = {
-  // Available models for WebLLM
+  // Available models for WebLLM. vram_required_MB is the GPU memory
+  // WebLLM's own model list gives for each
   models: [
     {
       id: "Llama-3.2-1B-Instruct-q4f16_1-MLC",
       name: "Llama 3.2 1B",
       description: "Fast, lightweight model for quick responses",
       size: "0.5GB",
+      contextWindow: 4096,
+      vram_required_MB: 879,
     },
     {
       id: "Llama-3.2-3B-Instruct-q4f16_1-MLC",
       name: "Llama 3.2 3B",
       description: "Balanced performance and quality",
       size: "1.7GB",
+      contextWindow: 4096,
+      vram_required_MB: 2264,
     },
     {
       id: "Phi-3.5-mini-instruct-q4f16_1-MLC",
       name: "Phi 3.5 Mini",
       description: "Microsoft's efficient small model",
       size: "2.0GB",
+      contextWindow: 4096,
+      vram_required_MB: 3672,
     },
     {
       id: "gemma-2-2b-it-q4f16_1-MLC",
       name: "Gemma 2 2B",
       description: "Google's compact instruct model",
       size: "1.5GB",
+      contextWindow: 4096,
+      vram_required_MB: 1895,
     },
     {
       id: "Qwen2.5-1.5B-Instruct-q4f16_1-MLC",
       name: "Qwen 2.5 1.5B",
       description: "Alibaba's multilingual model",
       size: "0.9GB",
+      contextWindow: 4096,
+      vram_required_MB: 1630,
     },
     {
       id: "TinyLlama-1.1B-Chat-v1.0-q4f16_1-MLC",
       name: "TinyLlama 1.1B",
       description: "Ultra-light model for basic tasks",
       size: "0.7GB",
+      contextWindow: 2048,
+      vram_required_MB: 697,
     },
     {
       id: "RedPajama-INCITE-Chat-3B-v1-q4f16_1-MLC",
       name: "RedPajama 3B",
       description: "Open-source model with good performance",
       size: "1.8GB",
+      contextWindow: 2048,
+      vram_required_MB: 2972,
     },
   ],
 
   // Default model to use
   defaultModel: "Llama-3.2-1B-Instruct-q4f16_1-MLC",
 
+  // Backends that can run the model, selected with ai init --provider
+  providers: {
+    webllm: "Run the model in the browser with WebGPU",
+    openai: "OpenAI-compatible server, e.g. a local Ollama or llama.cpp",
+    echo: "Repeat messages back, without a model",
+  },
+  defaultProvider: "webllm",
+
+  // Server used by the openai provider when no URL is given (Ollama's)
+  endpointUrl: "http://localhost:11434/v1",
+
+  // Context window in tokens of models whose size is not known, such as
+  // those of the openai provider
+  defaultContextWindow: 4096,
+
   // Generation parameters
   generationConfig: {
     temperature: 0.7,
@@ -0,0 +1,63 @@
+// Deterministic provider that repeats the last message back. It needs no
+// model, so it is used in tests and to try the terminal offline
+import type {
+  LLMGenerateOptions,
+  LLMLoadProgress,
+  LLMMessage,
+  LLMProvider,
+} from "./provider";
+
+export class EchoProvider implements LLMProvider {
+  readonly name = "echo";
+  private currentModel: string | null = null;
+
+  async initialize(
+    modelId = "echo",
+    onProgress?: (report: LLMLoadProgress) => void,
+  ): Promise<void> {
+    this.currentModel = modelId;
+    onProgress?.({ progress: 1, text: "Echo provider ready" });
+  }
+
+  async generate(
+    prompt: string,
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    return this.respond(`Echo: ${prompt}`, options);
+  }
+
+  async chat(
+    messages: LLMMessage[],
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    const last = [...messages].reverse().find(({ role }) => role === "user");
+    return this.respond(`Echo: ${last?.content ?? ""}`, options);
+  }
+
+  // Stream the response word by word, like a model would
+  private respond(response: string, options?: LLMGenerateOptions): string {
+    if (!this.currentModel) {
+      throw new Error("Model not initialized. Call initialize() first.");
+    }
+
+    let streamed = "";
+    for (const token of response.match(/\S+\s*/g) || []) {
+      if (options?.signal?.aborted) break;
+      streamed += token;
+      options?.onToken?.(token);
+    }
+    return streamed;
+  }
+
+  async unload(): Promise<void> {
+    this.currentModel = null;
+  }
+
+  isLoaded(): boolean {
+    return this.currentModel !== null;
+  }
+
+  getCurrentModel(): string | null {
+    return this.currentModel;
+  }
+}
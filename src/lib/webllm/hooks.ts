@@ -1,16 +1,13 @@
 "use client";
 
 import { useState, useCallback, useRef } from "react";
-import {
-  webLLMClient,
-  WebLLMClient,
-  LLMLoadProgress,
-  LLMMessage,
-} from "./client";
+import { webLLMClient, WebLLMClient } from "./client";
 import { WEBLLM_CONFIG } from "./config";
+import type { LLMLoadProgress, LLMMessage, LLMProvider } from "./provider";
 
 export interface UseWebLLMOptions {
   modelId?: string;
+  provider?: LLMProvider; // Defaults to WebLLM in the browser
   onError?: (error: Error) => void;
 }
 
@@ -45,10 +42,15 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
   const [currentModel, setCurrentModel] = useState<string | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const provider = options?.provider ?? webLLMClient;
 
   const initialize = useCallback(
     async (modelId?: string) => {
-      const model = modelId || options?.modelId || WEBLLM_CONFIG.defaultModel;
+      // Other providers pick their own model when none is given
+      const model =
+        modelId ||
+        options?.modelId ||
+        (provider.name === "webllm" ? WEBLLM_CONFIG.defaultModel : undefined);
 
       setIsLoading(true);
       setError(null);
@@ -58,11 +60,11 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
       });
 
       try {
-        await webLLMClient.initialize(model, (progress) => {
+        await provider.initialize(model, (progress) => {
           setLoadProgress(progress);
         });
 
-        setCurrentModel(model);
+        setCurrentModel(provider.getCurrentModel());
         setLoadProgress(null);
       } catch (err) {
         const error = err as Error;
@@ -75,7 +77,7 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
         setIsLoading(false);
       }
     },
-    [options],
+    [options, provider],
   );
 
   const generate = useCallback(
@@ -90,7 +92,7 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
       abortControllerRef.current = new AbortController();
 
       try {
-        const response = await webLLMClient.generate(prompt, {
+        const response = await provider.generate(prompt, {
           onToken,
           signal: abortControllerRef.current.signal,
         });
@@ -108,7 +110,7 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
         abortControllerRef.current = null;
       }
     },
-    [options],
+    [options, provider],
   );
 
   const chat = useCallback(
@@ -123,7 +125,7 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
       abortControllerRef.current = new AbortController();
 
       try {
-        const response = await webLLMClient.chat(messages, {
+        const response = await provider.chat(messages, {
           onToken,
           signal: abortControllerRef.current.signal,
         });
@@ -141,7 +143,7 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
         abortControllerRef.current = null;
       }
     },
-    [options],
+    [options, provider],
   );
 
   const abort = useCallback(() => {
@@ -150,16 +152,17 @@ export function useWebLLM(options?: UseWebLLMOptions): UseWebLLMReturn {
     }
   }, []);
 
+  // Only WebLLM needs WebGPU; the other providers run anywhere
   const isSupported = useCallback(() => {
-    return WebLLMClient.isSupported();
-  }, []);
+    return provider.name !== "webllm" || WebLLMClient.isSupported();
+  }, [provider]);
 
   return {
     isLoading,
     isGenerating,
     loadProgress,
     error,
-    currentModel: currentModel || webLLMClient.getCurrentModel(),
+    currentModel: currentModel || provider.getCurrentModel(),
     availableModels: WEBLLM_CONFIG.models,
 
     initialize,
@@ -1,5 +1,19 @@
 export { webLLMClient, WebLLMClient } from "./client";
-export type { LLMLoadProgress, LLMMessage, LLMGenerateOptions } from "./client";
+export { createProvider, isProviderName } from "./provider";
+export type {
+  LLMLoadProgress,
+  LLMMessage,
+  LLMGenerateOptions,
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderOptions,
+} from "./provider";
+export { PERSONAS, DEFAULT_PERSONA, getPersona } from "./personas";
+export type { GenerationConfig, Persona, PersonaTrigger } from "./personas";
 export { WEBLLM_CONFIG } from "./config";
+export { cacheUsage, listCachedModels, purgeCache } from "./cache";
+export type { CacheUsage, CachedModel } from "./cache";
+export { detectCapabilities, preflight, recommendModel } from "./preflight";
+export type { DeviceCapabilities, PreflightResult } from "./preflight";
 export { useWebLLM } from "./hooks";
 export type { UseWebLLMOptions, UseWebLLMReturn } from "./hooks";
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { OpenAICompatibleProvider } from "./openai";
+
+vi.mock("@/lib/utils/dev-logger", () => ({
+  logError: vi.fn(),
+}));
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status });
+
+const events = (...chunks: string[]) =>
+  new Response(
+    chunks
+      .map(
+        (content) =>
+          `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+      )
+      .join("") + "data: [DONE]\n\n",
+  );
+
+describe("OpenAICompatibleProvider", () => {
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(() => {
+    provider = new OpenAICompatibleProvider("http://localhost:8080/v1/");
+    global.fetch = vi.fn(async (url: string) =>
+      url.endsWith("/models")
+        ? json({ data: [{ id: "qwen2.5" }, { id: "llama3" }] })
+        : events("Hello", " there"),
+    ) as unknown as typeof fetch;
+  });
+
+  it("uses the server's first model unless one is requested", async () => {
+    await provider.initialize();
+    expect(provider.getCurrentModel()).toBe("qwen2.5");
+
+    await provider.initialize("llama3");
+    expect(provider.getCurrentModel()).toBe("llama3");
+
+    await expect(provider.initialize("gpt-4")).rejects.toThrow(
+      "Model 'gpt-4' is not served by http://localhost:8080/v1",
+    );
+  });
+
+  it("streams chat completions with the system prompt", async () => {
+    await provider.initialize();
+    const onToken = vi.fn();
+
+    const response = await provider.chat([{ role: "user", content: "Hi" }], {
+      onToken,
+      context: "[1] Paper",
+    });
+
+    expect(response).toBe("Hello there");
+    expect(onToken).toHaveBeenCalledWith(" there");
+
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    const body = JSON.parse(init!.body as string);
+    expect(body).toMatchObject({ model: "qwen2.5", stream: true });
+    expect(body.messages[0].role).toBe("system");
+    expect(body.messages[0].content).toContain("[1] Paper");
+    expect(body.messages[1]).toEqual({ role: "user", content: "Hi" });
+  });
+
+  it("returns whole completions when nothing is streamed", async () => {
+    await provider.initialize();
+    vi.mocked(global.fetch).mockResolvedValueOnce(
+      json({ choices: [{ message: { content: "Done" } }] }),
+    );
+
+    expect(await provider.generate("Hi")).toBe("Done");
+  });
+
+  it("explains why a server cannot be used", async () => {
+    global.fetch = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    }) as unknown as typeof fetch;
+    await expect(provider.initialize()).rejects.toThrow(
+      "Cannot reach http://localhost:8080/v1",
+    );
+
+    global.fetch = vi.fn(async () => json({}, 404)) as unknown as typeof fetch;
+    await expect(provider.initialize()).rejects.toThrow(
+      "http://localhost:8080/v1/models returned 404",
+    );
+  });
+});
@@ -0,0 +1,195 @@
+// Provider for servers implementing the OpenAI chat completions API, such
+// as Ollama, llama.cpp or LM Studio running on the visitor's machine
+import { WEBLLM_CONFIG } from "./config";
+import { buildSystemPrompt, generationConfig } from "./prompt";
+import type {
+  LLMGenerateOptions,
+  LLMLoadProgress,
+  LLMMessage,
+  LLMProvider,
+} from "./provider";
+import { logError } from "@/lib/utils/dev-logger";
+
+// Subset of a chat completion, streamed or not
+interface CompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string };
+    message?: { content?: string };
+  }>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private readonly baseUrl: string;
+  private currentModel: string | null = null;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  // Check that the server answers, and use its first model unless one is
+  // requested
+  async initialize(
+    modelId?: string,
+    onProgress?: (report: LLMLoadProgress) => void,
+  ): Promise<void> {
+    onProgress?.({ progress: 0, text: `Connecting to ${this.baseUrl}...` });
+
+    const response = await this.request("/models");
+    const { data } = (await response.json()) as {
+      data?: Array<{ id: string }>;
+    };
+    const models = (data || []).map(({ id }) => id);
+
+    if (modelId && models.length > 0 && !models.includes(modelId)) {
+      throw new Error(
+        `Model '${modelId}' is not served by ${this.baseUrl} (available: ${models.join(", ")})`,
+      );
+    }
+    const model = modelId || models[0];
+    if (!model) {
+      throw new Error(`No models are served by ${this.baseUrl}`);
+    }
+
+    this.currentModel = model;
+    onProgress?.({ progress: 1, text: `Connected to ${this.baseUrl}` });
+  }
+
+  async generate(
+    prompt: string,
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    return this.complete(
+      [
+        { role: "system", content: WEBLLM_CONFIG.systemPrompt },
+        { role: "user", content: prompt },
+      ],
+      options,
+    );
+  }
+
+  async chat(
+    messages: LLMMessage[],
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    return this.complete(
+      [
+        {
+          role: "system",
+          content: buildSystemPrompt(
+            messages,
+            options?.context,
+            options?.persona,
+          ),
+        },
+        ...messages,
+      ],
+      options,
+    );
+  }
+
+  private async complete(
+    messages: LLMMessage[],
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    if (!this.currentModel) {
+      throw new Error("Model not initialized. Call initialize() first.");
+    }
+
+    const stream = !!options?.onToken;
+    try {
+      const response = await this.request("/chat/completions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.currentModel,
+          messages,
+          stream,
+          ...generationConfig(options),
+        }),
+        signal: options?.signal,
+      });
+
+      if (!stream || !response.body) {
+        const completion = (await response.json()) as CompletionChunk;
+        const content = completion.choices?.[0]?.message?.content || "";
+        if (content) options?.onToken?.(content);
+        return content;
+      }
+      return await this.readStream(response.body, options);
+    } catch (error) {
+      if (options?.signal?.aborted) return "";
+      logError(error, "OpenAI-compatible Chat");
+      throw error;
+    }
+  }
+
+  // Server-sent events: one "data: {...}" line per chunk, then
+  // "data: [DONE]"
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    options?: LLMGenerateOptions,
+  ): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let fullResponse = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data) continue;
+        if (data === "[DONE]") return fullResponse;
+
+        const chunk = JSON.parse(data) as CompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content || "";
+        if (delta) {
+          fullResponse += delta;
+          options?.onToken?.(delta);
+        }
+      }
+
+      if (options?.signal?.aborted) {
+        await reader.cancel();
+        break;
+      }
+    }
+    return fullResponse;
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, init);
+    } catch (error) {
+      if (init?.signal?.aborted) throw error;
+      throw new Error(
+        `Cannot reach ${this.baseUrl}. Is the server running and allowing requests from this site (CORS)?`,
+      );
+    }
+    if (!response.ok) {
+      throw new Error(
+        `${this.baseUrl}${path} returned ${response.status} ${response.statusText}`.trim(),
+      );
+    }
+    return response;
+  }
+
+  async unload(): Promise<void> {
+    this.currentModel = null;
+  }
+
+  isLoaded(): boolean {
+    return this.currentModel !== null;
+  }
+
+  getCurrentModel(): string | null {
+    return this.currentModel;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  estimateVramMB,
+  parseSizeMB,
+  preflight,
+  recommendModel,
+  type DeviceCapabilities,
+} from "./preflight";
+import { WEBLLM_CONFIG } from "./config";
+
+const device = (
+  overrides: Partial<DeviceCapabilities> = {},
+): DeviceCapabilities => ({
+  webgpu: true,
+  shaderF16: true,
+  gpuRenderer: "Intel UHD Graphics 620",
+  gpuTier: "low",
+  deviceMemoryGB: 8,
+  mobile: false,
+  storageFreeMB: 10240,
+  ...overrides,
+});
+
+const model = (id: string) => {
+  const found = WEBLLM_CONFIG.models.find((m) => m.id === id);
+  if (!found) throw new Error(`No model ${id}`);
+  return found;
+};
+
+describe("WebLLM Preflight", () => {
+  it("reads model sizes", () => {
+    expect(parseSizeMB("0.5GB")).toBe(512);
+    expect(parseSizeMB("700MB")).toBe(700);
+    expect(parseSizeMB("large")).toBe(0);
+  });
+
+  it("estimates GPU memory from the tier or the device memory", () => {
+    expect(estimateVramMB(device())).toBe(2048);
+    expect(estimateVramMB(device({ gpuTier: "unknown" }))).toBe(4096);
+    expect(estimateVramMB(device({ gpuTier: "unknown", mobile: true }))).toBe(
+      2048,
+    );
+    expect(
+      estimateVramMB(device({ gpuTier: "unknown", deviceMemoryGB: null })),
+    ).toBeNull();
+  });
+
+  it("flags models the device cannot run", () => {
+    const phi = preflight(
+      model("Phi-3.5-mini-instruct-q4f16_1-MLC"),
+      device({ shaderF16: false, storageFreeMB: 1024 }),
+    );
+
+    expect(phi.problems).toEqual([
+      "The GPU lacks 16-bit float support (shader-f16), which this model needs",
+      "Phi 3.5 Mini needs about 3.6GB of GPU memory; this device has an estimated 2.0GB",
+      "Downloading 2.0GB exceeds the 1.0GB of storage the browser allows",
+    ]);
+    expect(
+      preflight(model(WEBLLM_CONFIG.defaultModel), device()).problems,
+    ).toEqual([]);
+  });
+
+  it("only counts the files still to download", () => {
+    const llama = model("Llama-3.2-3B-Instruct-q4f16_1-MLC");
+    const small = device({ gpuTier: "high", storageFreeMB: 1000 });
+
+    expect(preflight(llama, small).problems).toHaveLength(1);
+    expect(preflight(llama, small, 1000).problems).toEqual([]);
+  });
+
+  it("recommends the largest model that fits", () => {
+    expect(recommendModel(device())?.id).toBe("gemma-2-2b-it-q4f16_1-MLC");
+    expect(recommendModel(device({ gpuTier: "high" }))?.id).toBe(
+      "Phi-3.5-mini-instruct-q4f16_1-MLC",
+    );
+    expect(
+      recommendModel(device({ gpuTier: "unknown", deviceMemoryGB: null }))?.id,
+    ).toBe(WEBLLM_CONFIG.defaultModel);
+    expect(recommendModel(device({ webgpu: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+// Checks run before a model is downloaded: whether the GPU can hold it,
+// whether the browser can store it, and which model suits the device
+import { WEBLLM_CONFIG } from "./config";
+import { HardwareDetector } from "@/lib/utils/hardware-detector";
+import { logError } from "@/lib/utils/dev-logger";
+
+export type ModelInfo = (typeof WEBLLM_CONFIG.models)[number];
+
+export interface DeviceCapabilities {
+  webgpu: boolean;
+  shaderF16: boolean | null; // Null when no adapter could be queried
+  gpuRenderer: string | null;
+  gpuTier: "low" | "medium" | "high" | "unknown";
+  deviceMemoryGB: number | null;
+  mobile: boolean;
+  storageFreeMB: number | null;
+}
+
+export interface PreflightResult {
+  model: ModelInfo;
+  vramMB: number | null; // Estimated GPU memory of the device
+  problems: string[]; // Loading would most likely fail
+  warnings: string[];
+}
+
+// The part of WebGPU used here; the DOM library does not declare it yet
+interface GPUAdapterLike {
+  features: { has(feature: string): boolean };
+}
+interface NavigatorGPU {
+  gpu?: { requestAdapter(): Promise<GPUAdapterLike | null> };
+}
+
+// GPU memory a tier of GPUs commonly has
+const TIER_VRAM_MB = { high: 8192, medium: 4096, low: 2048 };
+
+const MB = 1024 * 1024;
+
+// "1.7GB" or "500MB" in megabytes
+export function parseSizeMB(size: string): number {
+  const match = size.match(/^([\d.]+)\s*(GB|MB)$/i);
+  if (!match) return 0;
+  const value = parseFloat(match[1]);
+  return Math.round(match[2].toUpperCase() === "GB" ? value * 1024 : value);
+}
+
+// Browsers do not report GPU memory, so it is guessed from the tier of
+// the GPU, or from the device memory that integrated GPUs share. Phones
+// leave a model about half of it
+export function estimateVramMB(device: DeviceCapabilities): number | null {
+  let vram: number | null =
+    device.gpuTier === "unknown" ? null : TIER_VRAM_MB[device.gpuTier];
+  if (vram === null && device.deviceMemoryGB !== null) {
+    vram = (device.deviceMemoryGB * 1024) / 2;
+  }
+  return vram !== null && device.mobile ? vram / 2 : vram;
+}
+
+export async function detectCapabilities(): Promise<DeviceCapabilities> {
+  const device: DeviceCapabilities = {
+    webgpu: typeof navigator !== "undefined" && "gpu" in navigator,
+    shaderF16: null,
+    gpuRenderer: null,
+    gpuTier: "unknown",
+    deviceMemoryGB: null,
+    mobile: false,
+    storageFreeMB: null,
+  };
+
+  try {
+    const detector = HardwareDetector.getInstance();
+    const { gpu, memory } = await detector.detectHardware();
+    device.gpuRenderer = gpu.renderer;
+    device.gpuTier = gpu.tier;
+    device.deviceMemoryGB = memory.deviceMemory;
+    device.mobile = detector.isMobileDevice();
+
+    const adapter = await (navigator as NavigatorGPU).gpu?.requestAdapter();
+    if (adapter) device.shaderF16 = adapter.features.has("shader-f16");
+
+    const estimate = await navigator.storage?.estimate();
+    if (estimate?.quota !== undefined) {
+      device.storageFreeMB = Math.floor(
+        (estimate.quota - (estimate.usage || 0)) / MB,
+      );
+    }
+  } catch (error) {
+    logError(error, "WebLLM Preflight");
+  }
+  return device;
+}
+
+// What stands in the way of running the model on the device. Files
+// already cached need no space
+export function preflight(
+  model: ModelInfo,
+  device: DeviceCapabilities,
+  cachedMB = 0,
+): PreflightResult {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const vramMB = estimateVramMB(device);
+  const gb = (mb: number) => `${(mb / 1024).toFixed(1)}GB`;
+
+  if (!device.webgpu) {
+    problems.push("WebGPU is not supported in this browser");
+  }
+  if (device.shaderF16 === false && model.id.includes("f16")) {
+    problems.push(
+      "The GPU lacks 16-bit float support (shader-f16), which this model needs",
+    );
+  }
+
+  if (vramMB === null) {
+    warnings.push("The GPU memory of this device could not be estimated");
+  } else if (model.vram_required_MB > vramMB) {
+    problems.push(
+      `${model.name} needs about ${gb(model.vram_required_MB)} of GPU memory; this device has an estimated ${gb(vramMB)}`,
+    );
+  }
+
+  const downloadMB = Math.max(0, parseSizeMB(model.size) - cachedMB);
+  if (device.storageFreeMB !== null && downloadMB > device.storageFreeMB) {
+    problems.push(
+      `Downloading ${gb(downloadMB)} exceeds the ${gb(device.storageFreeMB)} of storage the browser allows`,
+    );
+  }
+  if (device.mobile && model.vram_required_MB > 1024) {
+    warnings.push("Mobile browsers may close the page to free memory");
+  }
+
+  return { model, vramMB, problems, warnings };
+}
+
+// The largest model that passes the preflight, or the default model when
+// the GPU memory is unknown; null when none would run
+export function recommendModel(device: DeviceCapabilities): ModelInfo | null {
+  const runnable = WEBLLM_CONFIG.models.filter(
+    (model) => preflight(model, device).problems.length === 0,
+  );
+  if (estimateVramMB(device) === null) {
+    return runnable.find(({ id }) => id === WEBLLM_CONFIG.defaultModel) || null;
+  }
+  return runnable.reduce<ModelInfo | null>(
+    (best, model) =>
+      !best || model.vram_required_MB > best.vram_required_MB ? model : best,
+    null,
+  );
+}
@@ -0,0 +1,44 @@
+// System prompt and sampling parameters shared by the providers
+import { WEBLLM_CONFIG } from "./config";
+import {
+  DEFAULT_PERSONA,
+  type GenerationConfig,
+  type Persona,
+} from "./personas";
+import type { LLMGenerateOptions, LLMMessage } from "./provider";
+
+// The persona's prompt, with the additions its triggers call for and the
+// portfolio excerpts the answer relies on
+export function buildSystemPrompt(
+  messages: LLMMessage[],
+  context?: string,
+  persona: Persona = DEFAULT_PERSONA,
+): string {
+  const lastUserMessage = (
+    messages[messages.length - 1]?.content || ""
+  ).toLowerCase();
+
+  let systemPrompt = persona.systemPrompt;
+  for (const trigger of persona.triggers) {
+    if (trigger.keywords.some((keyword) => lastUserMessage.includes(keyword))) {
+      systemPrompt += `\n\n${trigger.prompt}`;
+    }
+  }
+
+  if (context) {
+    systemPrompt += `\n\nAnswer from the following portfolio excerpts. Cite them by their number, like [1]. If they do not cover the question, say so instead of guessing.\n\n${context}`;
+  }
+
+  return systemPrompt;
+}
+
+// Configured sampling parameters, then the persona's, then the overrides
+export function generationConfig(
+  options?: LLMGenerateOptions,
+): GenerationConfig {
+  return {
+    ...WEBLLM_CONFIG.generationConfig,
+    ...(options?.persona || DEFAULT_PERSONA).generation,
+    ...options?.generation,
+  };
+}
@@ -0,0 +1,66 @@
+// Backends the assistant can run on. WebLLM runs the model in the browser;
+// the others let machines without WebGPU still use the assistant
+import { webLLMClient } from "./client";
+import { WEBLLM_CONFIG } from "./config";
+import { OpenAICompatibleProvider } from "./openai";
+import { EchoProvider } from "./echo";
+import type { GenerationConfig, Persona } from "./personas";
+
+export interface LLMLoadProgress {
+  progress: number;
+  text: string;
+}
+
+export interface LLMMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+}
+
+export interface LLMGenerateOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  context?: string; // Portfolio excerpts the answer should be grounded in
+  persona?: Persona; // Prompt and sampling defaults, the default persona otherwise
+  generation?: Partial<GenerationConfig>; // Overrides of the sampling parameters
+}
+
+export type LLMProviderName = keyof typeof WEBLLM_CONFIG.providers;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  initialize(
+    modelId?: string,
+    onProgress?: (report: LLMLoadProgress) => void,
+  ): Promise<void>;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  chat(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<string>;
+  unload(): Promise<void>;
+  isLoaded(): boolean;
+  getCurrentModel(): string | null;
+}
+
+export interface LLMProviderOptions {
+  baseUrl?: string; // Server of the openai provider
+}
+
+export function isProviderName(name: string): name is LLMProviderName {
+  return Object.hasOwn(WEBLLM_CONFIG.providers, name);
+}
+
+// The provider with the given name; WebLLM keeps a single engine, so it
+// is shared, while the others are created per call
+export function createProvider(
+  name: LLMProviderName,
+  options: LLMProviderOptions = {},
+): LLMProvider {
+  switch (name) {
+    case "webllm":
+      return webLLMClient;
+    case "openai":
+      return new OpenAICompatibleProvider(
+        options.baseUrl || WEBLLM_CONFIG.endpointUrl,
+      );
+    case "echo":
+      return new EchoProvider();
+  }
+}
@@ -95,7 +95,11 @@ export interface WebLLMClientInstance {
   ): Promise<string>;
   chat(
     messages: Array<{ role: "user" | "assistant" | "system"; content: string }>,
-    options?: { onToken?: (token: string) => void; signal?: AbortSignal },
+    options?: {
+      onToken?: (token: string) => void;
+      signal?: AbortSignal;
+      context?: string;
+    },
   ): Promise<string>;
   unload(): Promise<void>;
   isLoaded(): boolean;
@@ -108,8 +112,14 @@ export interface WebLLMConfig {
     name: string;
     description: string;
     size: string;
+    contextWindow: number;
+    vram_required_MB: number;
   }>;
   defaultModel: string;
+  providers: Record<string, string>;
+  defaultProvider: string;
+  endpointUrl: string;
+  defaultContextWindow: number;
   generationConfig: {
     temperature: number;
     top_p: number;
@@ -124,6 +134,7 @@ export interface AIModelInfo {
   name?: string;
   description?: string;
   size?: string;
+  contextWindow?: number;
   vram_required_MB?: number;
 }
 